@@ -5,11 +5,16 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { AuthProvider } from "@/contexts/AuthContext";
+import { RealtimeProvider } from "@/contexts/RealtimeContext";
+import { FocusProvider, useFocus } from "@/contexts/FocusContext";
 import { ProtectedRoute } from "@/components/ProtectedRoute";
 import LandingPage from "./pages/LandingPage";
 import LoginPage from "./pages/LoginPage";
 import Dashboard from "./pages/Dashboard";
 import WorkThreadDetail from "./pages/WorkThreadDetail";
+import ArchivedThreadsPage from "./pages/ArchivedThreadsPage";
+import ThreadsPage from "./pages/ThreadsPage";
+import InboxPage from "./pages/InboxPage";
 import InsightsPage from "./pages/InsightsPage";
 import ProfilePage from "./pages/ProfilePage";
 import IntegrationsPage from "./pages/IntegrationsPage";
@@ -21,6 +26,8 @@ import ResetPasswordPage from "./pages/ResetPasswordPage";
 import VerifyEmailPage from "./pages/VerifyEmailPage";
 import NotFound from "./pages/NotFound";
 import { AIChatBot } from "./components/AIChatBot";
+import { CommandPalette } from "./components/CommandPalette";
+import { FocusDigestDialog } from "./components/FocusDigestDialog";
 import { MsalProvider } from "@azure/msal-react";
 import { msalInstance } from "./lib/msal";
 
@@ -31,93 +38,122 @@ const GOOGLE_CLIENT_ID = '636666241864-fronahev0ijj9vr0a0lue6lhuunqnp87.apps.goo
 const App = () => (
   <QueryClientProvider client={queryClient}>
     <TooltipProvider>
-      <Toaster />
-      <Sonner />
       <GoogleOAuthProvider clientId={GOOGLE_CLIENT_ID}>
         <MsalProvider instance={msalInstance}>
           <AuthProvider>
-            <BrowserRouter>
-              <Routes>
-                <Route path="/" element={<LandingPage />} />
-                <Route path="/login" element={<LoginPage />} />
-                <Route
-                  path="/dashboard"
-                  element={
-                    <ProtectedRoute>
-                      <Dashboard />
-                    </ProtectedRoute>
-                  }
-                />
-                <Route
-                  path="/thread/:threadId"
-                  element={
-                    <ProtectedRoute>
-                      <WorkThreadDetail />
-                    </ProtectedRoute>
-                  }
-                />
-                <Route
-                  path="/insights"
-                  element={
-                    <ProtectedRoute>
-                      <InsightsPage />
-                    </ProtectedRoute>
-                  }
-                />
-                <Route
-                  path="/profile"
-                  element={
-                    <ProtectedRoute>
-                      <ProfilePage />
-                    </ProtectedRoute>
-                  }
-                />
-                <Route
-                  path="/integrations"
-                  element={
-                    <ProtectedRoute>
-                      <IntegrationsPage />
-                    </ProtectedRoute>
-                  }
-                />
-                <Route
-                  path="/meetings"
-                  element={
-                    <ProtectedRoute>
-                      <MeetingsPage />
-                    </ProtectedRoute>
-                  }
-                />
-                <Route
-                  path="/teams"
-                  element={
-                    <ProtectedRoute>
-                      <TeamsPage />
-                    </ProtectedRoute>
-                  }
-                />
-                <Route
-                  path="/teams/join"
-                  element={
-                    <ProtectedRoute>
-                      <InviteAcceptPage />
-                    </ProtectedRoute>
-                  }
-                />
-                <Route
-                  path="/teams/:teamId"
-                  element={
-                    <ProtectedRoute>
-                      <TeamDetailsPage />
-                    </ProtectedRoute>
-                  }
-                />
-                <Route path="/verify-email" element={<VerifyEmailPage />} />
-                <Route path="/reset-password" element={<ResetPasswordPage />} />
-                <Route path="*" element={<NotFound />} />
-              </Routes>
-              <AIChatBotWrapper />
-            </BrowserRouter>
+            <RealtimeProvider>
+              <FocusProvider>
+                <Toasters />
+                <BrowserRouter>
+                  <Routes>
+                    <Route path="/" element={<LandingPage />} />
+                    <Route path="/login" element={<LoginPage />} />
+                    <Route
+                      path="/dashboard"
+                      element={
+                        <ProtectedRoute>
+                          <Dashboard />
+                        </ProtectedRoute>
+                      }
+                    />
+                    <Route
+                      path="/thread/:threadId"
+                      element={
+                        <ProtectedRoute>
+                          <WorkThreadDetail />
+                        </ProtectedRoute>
+                      }
+                    />
+                    <Route
+                      path="/threads"
+                      element={
+                        <ProtectedRoute>
+                          <ThreadsPage />
+                        </ProtectedRoute>
+                      }
+                    />
+                    <Route
+                      path="/threads/archived"
+                      element={
+                        <ProtectedRoute>
+                          <ArchivedThreadsPage />
+                        </ProtectedRoute>
+                      }
+                    />
+                    <Route
+                      path="/inbox"
+                      element={
+                        <ProtectedRoute>
+                          <InboxPage />
+                        </ProtectedRoute>
+                      }
+                    />
+                    <Route
+                      path="/insights"
+                      element={
+                        <ProtectedRoute>
+                          <InsightsPage />
+                        </ProtectedRoute>
+                      }
+                    />
+                    <Route
+                      path="/profile"
+                      element={
+                        <ProtectedRoute>
+                          <ProfilePage />
+                        </ProtectedRoute>
+                      }
+                    />
+                    <Route
+                      path="/integrations"
+                      element={
+                        <ProtectedRoute>
+                          <IntegrationsPage />
+                        </ProtectedRoute>
+                      }
+                    />
+                    <Route
+                      path="/meetings"
+                      element={
+                        <ProtectedRoute>
+                          <MeetingsPage />
+                        </ProtectedRoute>
+                      }
+                    />
+                    <Route
+                      path="/teams"
+                      element={
+                        <ProtectedRoute>
+                          <TeamsPage />
+                        </ProtectedRoute>
+                      }
+                    />
+                    <Route
+                      path="/teams/join"
+                      element={
+                        <ProtectedRoute>
+                          <InviteAcceptPage />
+                        </ProtectedRoute>
+                      }
+                    />
+                    <Route
+                      path="/teams/:teamId"
+                      element={
+                        <ProtectedRoute>
+                          <TeamDetailsPage />
+                        </ProtectedRoute>
+                      }
+                    />
+                    <Route path="/verify-email" element={<VerifyEmailPage />} />
+                    <Route path="/reset-password" element={<ResetPasswordPage />} />
+                    <Route path="*" element={<NotFound />} />
+                  </Routes>
+                  <AIChatBotWrapper />
+                  <CommandPalette />
+                  <FocusDigestDialog />
+                </BrowserRouter>
+              </FocusProvider>
+            </RealtimeProvider>
           </AuthProvider>
         </MsalProvider>
       </GoogleOAuthProvider>
@@ -125,6 +161,18 @@ const App = () => (
   </QueryClientProvider>
 );
 
+// Focus mode mutes toasts; the digest lists what came up once it ends
+const Toasters = () => {
+  const { focusMode } = useFocus();
+  if (focusMode) return null;
+  return (
+    <>
+      <Toaster />
+      <Sonner />
+    </>
+  );
+};
+
 const AIChatBotWrapper = () => {
   return <AIChatBot />;
 };
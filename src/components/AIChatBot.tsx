@@ -1,56 +1,282 @@
 import { useState, useRef, useEffect } from 'react';
+import { useLocation, matchPath } from 'react-router-dom';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { motion, AnimatePresence } from 'framer-motion';
-import { MessageCircle, X, Send, Bot, User, Loader2, Minimize2, Maximize2 } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import {
+    MessageCircle, X, Send, Bot, User, Loader2, Minimize2, Maximize2, Square, History, Plus, Trash2, Hash, Users,
+    ListChecks, FolderPlus, ListPlus, CalendarClock, CalendarPlus, EyeOff, Check, Ban, AlertCircle, Play, LucideIcon,
+} from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle, CardFooter } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
+import { toast } from 'sonner';
 import { useAuth } from '@/contexts/AuthContext';
-import { IntelligenceService } from '@/services/api';
+import { useFocus } from '@/contexts/FocusContext';
+import { useChatAction } from '@/hooks/use-chat-action';
+import { ChatService, TeamService, ThreadService } from '@/services/api';
 import { cn } from '@/lib/utils';
+import { ChatAction, ChatActionRecord, ChatContext, ChatConversation, ChatMessage, ChatProposedAction } from '@/lib/types';
 import ReactMarkdown from 'react-markdown';
 
-interface Message {
-    role: 'user' | 'model';
-    content: string;
+const GREETING = "Hi! I'm Monocle AI. I can help you analyze your work threads, manage your schedule, or just chat about productivity. How can I help today?";
+
+// The thread or team the current page is about, if any
+const routeContext = (pathname: string): ChatContext | undefined => {
+    const thread = matchPath('/thread/:threadId', pathname);
+    if (thread?.params.threadId) return { type: 'thread', id: thread.params.threadId };
+    const team = matchPath('/teams/:teamId', pathname);
+    if (team?.params.teamId && team.params.teamId !== 'join') return { type: 'team', id: team.params.teamId };
+    return undefined;
+};
+
+const ACTION_ICONS: Record<ChatAction['type'], LucideIcon> = {
+    createThread: FolderPlus,
+    addTask: ListPlus,
+    rescheduleDeadline: CalendarClock,
+    scheduleMeeting: CalendarPlus,
+    dismissInsight: EyeOff,
+};
+
+const STATUS_LABELS: Record<ChatActionRecord['status'], { label: string; icon: LucideIcon; className: string }> = {
+    executing: { label: 'Started', icon: Play, className: 'text-muted-foreground' },
+    executed: { label: 'Done', icon: Check, className: 'text-green-600' },
+    declined: { label: 'Declined', icon: Ban, className: 'text-muted-foreground' },
+    failed: { label: 'Failed', icon: AlertCircle, className: 'text-destructive' },
+};
+
+interface ActionCardProps {
+    proposed: ChatProposedAction;
+    busy: boolean;
+    onAnswer: (confirmed: boolean) => void;
+}
+
+// An action the assistant offers to take; nothing happens until it is confirmed
+function ActionCard({ proposed, busy, onAnswer }: ActionCardProps) {
+    const Icon = ACTION_ICONS[proposed.action.type];
+    const outcome = proposed.status === 'proposed' ? undefined : STATUS_LABELS[proposed.status];
+    return (
+        <div className="rounded-lg border bg-background p-2.5 text-xs space-y-2">
+            <div className="flex items-start gap-2">
+                <Icon className="w-4 h-4 text-primary flex-shrink-0" />
+                <p className="flex-1">{proposed.summary}</p>
+            </div>
+            {outcome && (
+                <p className={cn("flex items-center gap-1 font-medium", outcome.className)}>
+                    <outcome.icon className="w-3.5 h-3.5" />
+                    {outcome.label}
+                </p>
+            )}
+            {(proposed.status === 'proposed' || proposed.status === 'failed') && (
+                <div className="flex gap-2">
+                    <Button size="sm" className="h-7 flex-1" disabled={busy} onClick={() => onAnswer(true)}>
+                        {proposed.status === 'failed' ? 'Try again' : 'Confirm'}
+                    </Button>
+                    <Button size="sm" variant="outline" className="h-7 flex-1" disabled={busy} onClick={() => onAnswer(false)}>
+                        Dismiss
+                    </Button>
+                </div>
+            )}
+        </div>
+    );
+}
+
+// Everything the assistant has done, or been told not to
+function ActionAuditList({ records }: { records: ChatActionRecord[] }) {
+    if (records.length === 0) {
+        return <p className="text-sm text-muted-foreground text-center py-8">No actions taken yet.</p>;
+    }
+    return (
+        <ul className="divide-y">
+            {records.map(record => {
+                const Icon = ACTION_ICONS[record.action.type];
+                const outcome = STATUS_LABELS[record.status];
+                return (
+                    <li key={record.id} className="flex items-start gap-2 px-4 py-3 text-sm">
+                        <Icon className="w-4 h-4 mt-0.5 text-muted-foreground flex-shrink-0" />
+                        <div className="min-w-0 flex-1">
+                            <p>{record.summary}</p>
+                            <p className="text-xs text-muted-foreground">
+                                <span className={outcome.className}>{outcome.label}</span>
+                                {' · '}
+                                {formatDistanceToNow(record.at, { addSuffix: true })}
+                            </p>
+                            {record.error && <p className="text-xs text-destructive">{record.error}</p>}
+                        </div>
+                    </li>
+                );
+            })}
+        </ul>
+    );
 }
 
 export function AIChatBot() {
     const [isOpen, setIsOpen] = useState(false);
     const [isMinimized, setIsMinimized] = useState(false);
+    const [view, setView] = useState<'chat' | 'history' | 'actions'>('chat');
     const [input, setInput] = useState('');
-    const [messages, setMessages] = useState<Message[]>([
-        { role: 'model', content: "Hi! I'm Monocle AI. I can help you analyze your work threads, manage your schedule, or just chat about productivity. How can I help today?" }
-    ]);
-    const [isLoading, setIsLoading] = useState(false);
+    // Undefined follows the most recent conversation; null is a new one
+    const [conversationId, setConversationId] = useState<string | null>();
+    // The question and the reply being written, until the reply is done
+    const [pending, setPending] = useState<ChatMessage[] | null>(null);
+    // The page whose context was dismissed; moving on brings it back
+    const [contextDismissedAt, setContextDismissedAt] = useState<string>();
+    const abortRef = useRef<AbortController | null>(null);
     const scrollRef = useRef<HTMLDivElement>(null);
+    const queryClient = useQueryClient();
+    const { pathname } = useLocation();
     const { currentUser } = useAuth();
+    const { focusMode } = useFocus();
+    const userId = currentUser?.id;
+    const isStreaming = !!pending;
+
+    // Focus mode tucks the chat away; the conversation is kept for later
+    useEffect(() => {
+        if (focusMode) setIsOpen(false);
+    }, [focusMode]);
+
+    useEffect(() => {
+        setConversationId(undefined);
+        setView('chat');
+    }, [userId]);
+
+    // A reply still being written when the chat goes away is stopped where it is
+    useEffect(() => () => abortRef.current?.abort(), []);
+
+    const { data: conversations = [] } = useQuery({
+        queryKey: ['chatConversations', userId],
+        queryFn: ChatService.listConversations,
+        enabled: isOpen && !!userId
+    });
+
+    const activeId = conversationId === undefined ? conversations[0]?.id : conversationId;
+
+    const { data: conversation } = useQuery({
+        queryKey: ['chatConversation', activeId],
+        queryFn: () => activeId ? ChatService.getConversation(activeId) : Promise.reject('No ID'),
+        enabled: isOpen && !!activeId && !isStreaming
+    });
+
+    const context = contextDismissedAt === pathname ? undefined : routeContext(pathname);
+
+    const { data: contextThread } = useQuery({
+        queryKey: ['thread', context?.id],
+        queryFn: () => context ? ThreadService.get(context.id) : Promise.reject('No ID'),
+        enabled: isOpen && context?.type === 'thread'
+    });
+
+    const { data: contextTeam } = useQuery({
+        queryKey: ['team', context?.id],
+        queryFn: () => context ? TeamService.get(context.id) : Promise.reject('No ID'),
+        enabled: isOpen && context?.type === 'team'
+    });
+
+    const contextName = context?.type === 'thread' ? contextThread?.title : context?.type === 'team' ? contextTeam?.name : undefined;
+
+    const messages = [...(activeId ? conversation?.messages ?? [] : []), ...(pending ?? [])];
 
     useEffect(() => {
         if (scrollRef.current) {
             scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
         }
-    }, [messages, isOpen]);
+    }, [messages.length, pending, isOpen, view]);
+
+    const { data: actionRecords = [] } = useQuery({
+        queryKey: ['chatActions', userId],
+        queryFn: () => ChatService.listActions(),
+        enabled: view === 'actions' && !!userId
+    });
+
+    const actionMutation = useChatAction(activeId ?? undefined);
+
+    const deleteMutation = useMutation({
+        mutationFn: ChatService.deleteConversation,
+        onSuccess: (_, id) => {
+            queryClient.removeQueries({ queryKey: ['chatConversation', id] });
+            queryClient.invalidateQueries({ queryKey: ['chatConversations', userId] });
+            if (id === activeId) setConversationId(null);
+        },
+        onError: () => {
+            toast.error('Failed to delete conversation');
+        }
+    });
+
+    // Adds what was said to the cached conversation, so nothing jumps while
+    // it is fetched again
+    const settle = (id: string | undefined, said: ChatMessage[]) => {
+        if (id) {
+            queryClient.setQueryData<ChatConversation>(['chatConversation', id], (cached) =>
+                cached ? { ...cached, messages: [...cached.messages, ...said] } : cached
+            );
+            queryClient.invalidateQueries({ queryKey: ['chatConversation', id] });
+        }
+        queryClient.invalidateQueries({ queryKey: ['chatConversations', userId] });
+        setPending(null);
+    };
 
     const handleSend = async () => {
-        if (!input.trim() || !currentUser) return;
+        if (!input.trim() || !currentUser || isStreaming) return;
 
-        const userMessage = input.trim();
+        const question: ChatMessage = { role: 'user', content: input.trim(), context };
+        let written = '';
+        let id = activeId ?? undefined;
+        let done = false;
         setInput('');
-        setMessages(prev => [...prev, { role: 'user', content: userMessage }]);
-        setIsLoading(true);
+        setPending([question, { role: 'model', content: '' }]);
 
+        const controller = new AbortController();
+        abortRef.current = controller;
         try {
-            const history = messages.slice(1); // Exclude initial greeting
-            const response = await IntelligenceService.chat(currentUser.id, userMessage, history);
-            setMessages(prev => [...prev, { role: 'model', content: response }]);
+            await ChatService.send({ conversationId: id, content: question.content, context }, (event) => {
+                if (event.type === 'conversation') {
+                    id = event.conversation.id;
+                    if (!queryClient.getQueryData(['chatConversation', id])) {
+                        queryClient.setQueryData<ChatConversation>(['chatConversation', id], { ...event.conversation, messages: [] });
+                    }
+                    setConversationId(id);
+                } else if (event.type === 'token') {
+                    written += event.text;
+                    setPending([question, { role: 'model', content: written }]);
+                } else if (event.type === 'done') {
+                    done = true;
+                    settle(id, [question, event.message]);
+                } else {
+                    throw new Error(event.error);
+                }
+            }, controller.signal);
+            if (!done) settle(id, [question, { role: 'model', content: written, stopped: true }]);
         } catch (error) {
-            console.error('Chat error:', error);
-            setMessages(prev => [...prev, { role: 'model', content: "Sorry, I'm having trouble connecting right now. Please try again later." }]);
+            if (controller.signal.aborted) {
+                settle(id, [question, { role: 'model', content: written, stopped: true }]);
+            } else {
+                console.error('Chat error:', error);
+                settle(id, [question, { role: 'model', content: "Sorry, I'm having trouble connecting right now. Please try again later." }]);
+            }
         } finally {
-            setIsLoading(false);
+            abortRef.current = null;
+        }
+    };
+
+    const startNewChat = () => {
+        setConversationId(null);
+        setView('chat');
+    };
+
+    const openConversation = (id: string) => {
+        setConversationId(id);
+        setView('chat');
+    };
+
+    const toggleView = (next: 'history' | 'actions') => setView(view === next ? 'chat' : next);
+
+    const handleDelete = (id: string, title: string) => {
+        if (confirm(`Delete "${title}"? This can't be undone.`)) {
+            deleteMutation.mutate(id);
         }
     };
 
+    const headerButton = "h-8 w-8 text-primary-foreground hover:bg-primary-foreground/20";
+
     return (
         <div className="fixed bottom-6 right-6 z-50 flex flex-col items-end">
             <AnimatePresence>
@@ -68,15 +294,47 @@ export function AIChatBot() {
                     >
                         <Card className="shadow-2xl border-primary/20 flex flex-col h-full overflow-hidden glass">
                             <CardHeader className="p-4 bg-primary text-primary-foreground flex flex-row items-center justify-between space-y-0">
-                                <div className="flex items-center gap-2">
-                                    <Bot className="w-5 h-5" />
-                                    <CardTitle className="text-sm font-semibold">Monocle Intelligence</CardTitle>
+                                <div className="flex items-center gap-2 min-w-0">
+                                    <Bot className="w-5 h-5 flex-shrink-0" />
+                                    <CardTitle className="text-sm font-semibold truncate">
+                                        {view === 'history' ? 'Past chats' : view === 'actions' ? 'Actions taken' : 'Monocle Intelligence'}
+                                    </CardTitle>
                                 </div>
                                 <div className="flex items-center gap-1">
                                     <Button
                                         variant="ghost"
                                         size="icon"
-                                        className="h-8 w-8 text-primary-foreground hover:bg-primary-foreground/20"
+                                        className={headerButton}
+                                        onClick={startNewChat}
+                                        disabled={isStreaming}
+                                        aria-label="New chat"
+                                    >
+                                        <Plus className="w-4 h-4" />
+                                    </Button>
+                                    <Button
+                                        variant="ghost"
+                                        size="icon"
+                                        className={cn(headerButton, view === 'history' && "bg-primary-foreground/20")}
+                                        onClick={() => toggleView('history')}
+                                        disabled={isStreaming}
+                                        aria-label="Past chats"
+                                    >
+                                        <History className="w-4 h-4" />
+                                    </Button>
+                                    <Button
+                                        variant="ghost"
+                                        size="icon"
+                                        className={cn(headerButton, view === 'actions' && "bg-primary-foreground/20")}
+                                        onClick={() => toggleView('actions')}
+                                        disabled={isStreaming}
+                                        aria-label="Actions taken"
+                                    >
+                                        <ListChecks className="w-4 h-4" />
+                                    </Button>
+                                    <Button
+                                        variant="ghost"
+                                        size="icon"
+                                        className={headerButton}
                                         onClick={() => setIsMinimized(!isMinimized)}
                                     >
                                         {isMinimized ? <Maximize2 className="w-4 h-4" /> : <Minimize2 className="w-4 h-4" />}
@@ -84,7 +342,7 @@ export function AIChatBot() {
                                     <Button
                                         variant="ghost"
                                         size="icon"
-                                        className="h-8 w-8 text-primary-foreground hover:bg-primary-foreground/20"
+                                        className={headerButton}
                                         onClick={() => setIsOpen(false)}
                                     >
                                         <X className="w-4 h-4" />
@@ -92,12 +350,62 @@ export function AIChatBot() {
                                 </div>
                             </CardHeader>
 
-                            {!isMinimized && (
+                            {!isMinimized && view === 'actions' && (
+                                <CardContent className="flex-1 overflow-hidden p-0 bg-background/50">
+                                    <div className="h-[436px] overflow-y-auto">
+                                        <ActionAuditList records={actionRecords} />
+                                    </div>
+                                </CardContent>
+                            )}
+
+                            {!isMinimized && view === 'history' && (
+                                <CardContent className="flex-1 overflow-hidden p-0 bg-background/50">
+                                    <div className="h-[436px] overflow-y-auto">
+                                        {conversations.length === 0 ? (
+                                            <p className="text-sm text-muted-foreground text-center py-8">No past chats yet.</p>
+                                        ) : (
+                                            <ul className="divide-y">
+                                                {conversations.map(c => (
+                                                    <li
+                                                        key={c.id}
+                                                        className={cn(
+                                                            "group flex items-center gap-2 px-4 py-3 hover:bg-secondary/50 cursor-pointer",
+                                                            c.id === activeId && "bg-secondary/30"
+                                                        )}
+                                                        onClick={() => openConversation(c.id)}
+                                                    >
+                                                        <div className="min-w-0 flex-1">
+                                                            <p className="text-sm font-medium truncate">{c.title}</p>
+                                                            <p className="text-xs text-muted-foreground">
+                                                                {formatDistanceToNow(c.updatedAt, { addSuffix: true })}
+                                                            </p>
+                                                        </div>
+                                                        <Button
+                                                            variant="ghost"
+                                                            size="icon"
+                                                            className="h-7 w-7 opacity-0 group-hover:opacity-100"
+                                                            onClick={(e) => {
+                                                                e.stopPropagation();
+                                                                handleDelete(c.id, c.title);
+                                                            }}
+                                                            aria-label="Delete chat"
+                                                        >
+                                                            <Trash2 className="w-3.5 h-3.5" />
+                                                        </Button>
+                                                    </li>
+                                                ))}
+                                            </ul>
+                                        )}
+                                    </div>
+                                </CardContent>
+                            )}
+
+                            {!isMinimized && view === 'chat' && (
                                 <>
                                     <CardContent className="flex-1 overflow-hidden p-0 bg-background/50">
                                         <div className="h-[380px] p-4 overflow-y-auto" ref={scrollRef}>
                                             <div className="space-y-4">
-                                                {messages.map((m, i) => (
+                                                {(messages.length === 0 ? [{ role: 'model', content: GREETING } as ChatMessage] : messages).map((m, i) => (
                                                     <div
                                                         key={i}
                                                         className={cn(
@@ -117,29 +425,54 @@ export function AIChatBot() {
                                                                 ? "bg-primary text-primary-foreground rounded-tr-none"
                                                                 : "bg-card border rounded-tl-none whitespace-pre-wrap"
                                                         )}>
-                                                            <div className="prose prose-sm dark:prose-invert">
-                                                                <ReactMarkdown>
-                                                                    {m.content}
-                                                                </ReactMarkdown>
-                                                            </div>
+                                                            {m.role === 'model' && !m.content && isStreaming && i === messages.length - 1 ? (
+                                                                <Loader2 className="w-4 h-4 animate-spin text-primary" />
+                                                            ) : (
+                                                                <div className="prose prose-sm dark:prose-invert">
+                                                                    <ReactMarkdown>
+                                                                        {m.content}
+                                                                    </ReactMarkdown>
+                                                                </div>
+                                                            )}
+                                                            {m.stopped && (
+                                                                <p className="text-xs text-muted-foreground italic mt-1">Stopped</p>
+                                                            )}
+                                                            {m.actions && m.actions.length > 0 && (
+                                                                <div className="mt-2 space-y-2 whitespace-normal">
+                                                                    {m.actions.map(proposed => (
+                                                                        <ActionCard
+                                                                            key={proposed.id}
+                                                                            proposed={proposed}
+                                                                            busy={isStreaming || actionMutation.isPending}
+                                                                            onAnswer={(confirmed) => actionMutation.mutate({ proposed, confirmed })}
+                                                                        />
+                                                                    ))}
+                                                                </div>
+                                                            )}
                                                         </div>
                                                     </div>
                                                 ))}
-                                                {isLoading && (
-                                                    <div className="flex gap-3 mr-auto items-center">
-                                                        <div className="w-8 h-8 rounded-full bg-secondary flex items-center justify-center">
-                                                            <Bot className="w-4 h-4 text-secondary-foreground" />
-                                                        </div>
-                                                        <div className="bg-card border rounded-2xl rounded-tl-none p-3 shadow-sm">
-                                                            <Loader2 className="w-4 h-4 animate-spin text-primary" />
-                                                        </div>
-                                                    </div>
-                                                )}
                                             </div>
                                         </div>
                                     </CardContent>
 
-                                    <CardFooter className="p-3 border-t bg-background/80">
+                                    <CardFooter className="p-3 border-t bg-background/80 flex-col gap-2">
+                                        {context && (
+                                            <div className="flex w-full items-center gap-1.5 text-xs text-muted-foreground">
+                                                {context.type === 'thread' ? <Hash className="w-3 h-3" /> : <Users className="w-3 h-3" />}
+                                                <span className="truncate">
+                                                    About {contextName ?? (context.type === 'thread' ? 'this thread' : 'this team')}
+                                                </span>
+                                                <button
+                                                    type="button"
+                                                    className="ml-auto hover:text-foreground"
+                                                    onClick={() => setContextDismissedAt(pathname)}
+                                                    aria-label="Don't include this page"
+                                                >
+                                                    <X className="w-3 h-3" />
+                                                </button>
+                                            </div>
+                                        )}
                                         <form
                                             onSubmit={(e) => { e.preventDefault(); handleSend(); }}
                                             className="flex w-full items-center gap-2"
@@ -149,11 +482,23 @@ export function AIChatBot() {
                                                 value={input}
                                                 onChange={(e) => setInput(e.target.value)}
                                                 className="flex-1"
-                                                disabled={isLoading}
+                                                disabled={isStreaming}
                                             />
-                                            <Button size="icon" type="submit" disabled={isLoading || !input.trim()}>
-                                                <Send className="w-4 h-4" />
-                                            </Button>
+                                            {isStreaming ? (
+                                                <Button
+                                                    size="icon"
+                                                    type="button"
+                                                    variant="outline"
+                                                    onClick={() => abortRef.current?.abort()}
+                                                    aria-label="Stop"
+                                                >
+                                                    <Square className="w-4 h-4" />
+                                                </Button>
+                                            ) : (
+                                                <Button size="icon" type="submit" disabled={!input.trim()}>
+                                                    <Send className="w-4 h-4" />
+                                                </Button>
+                                            )}
                                         </form>
                                     </CardFooter>
                                 </>
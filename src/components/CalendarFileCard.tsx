@@ -0,0 +1,154 @@
+import { useRef } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { Copy, Download, FileUp, Link2, Loader2, RefreshCw } from 'lucide-react';
+
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useAuth } from '@/contexts/AuthContext';
+import { IntegrationService, USE_MOCK_API } from '@/services/api';
+
+// Export, import and a subscribable feed in the iCalendar format, for
+// calendars that aren't Google or Microsoft
+export function CalendarFileCard() {
+    const { currentUser } = useAuth();
+    const queryClient = useQueryClient();
+    const fileInput = useRef<HTMLInputElement>(null);
+
+    const { data: feed } = useQuery({
+        queryKey: ['calendarFeed', currentUser?.id],
+        queryFn: IntegrationService.getCalendarFeed,
+        // The mock backend only answers inside this page, so no calendar app
+        // could fetch the feed URL it hands out
+        enabled: !!currentUser && !USE_MOCK_API
+    });
+
+    const exportMutation = useMutation({
+        mutationFn: IntegrationService.exportCalendar,
+        onSuccess: ({ filename, calendar }) => {
+            const url = URL.createObjectURL(new Blob([calendar], { type: 'text/calendar' }));
+            const link = document.createElement('a');
+            link.href = url;
+            link.download = filename;
+            link.click();
+            URL.revokeObjectURL(url);
+        },
+        onError: () => {
+            toast.error('Failed to export your calendar');
+        }
+    });
+
+    const importMutation = useMutation({
+        mutationFn: (file: File) => file.text().then(IntegrationService.importCalendar),
+        onSuccess: ({ imported, updated }) => {
+            toast.success(`Imported ${imported} event${imported === 1 ? '' : 's'}`, {
+                description: updated > 0 ? `${updated} already imported before were updated.` : undefined
+            });
+            queryClient.invalidateQueries({ queryKey: ['items', currentUser?.id] });
+            queryClient.invalidateQueries({ queryKey: ['threads', currentUser?.id] });
+        },
+        onError: () => {
+            toast.error('Could not read that file', { description: 'Pick an .ics calendar file.' });
+        }
+    });
+
+    const resetFeedMutation = useMutation({
+        mutationFn: IntegrationService.resetCalendarFeed,
+        onSuccess: (next) => {
+            queryClient.setQueryData(['calendarFeed', currentUser?.id], next);
+            toast.success('New feed URL created', { description: 'Calendars using the old URL will stop updating.' });
+        },
+        onError: () => {
+            toast.error('Failed to reset the feed URL');
+        }
+    });
+
+    const copyFeedUrl = () => {
+        if (!feed) return;
+        navigator.clipboard.writeText(feed.url);
+        toast.success('Feed URL copied to clipboard');
+    };
+
+    const handleResetFeed = () => {
+        if (confirm('Create a new feed URL? Calendars subscribed to the current one will stop updating.')) {
+            resetFeedMutation.mutate();
+        }
+    };
+
+    return (
+        <Card className="border-t-4 border-t-emerald-500 shadow-sm hover:shadow-md transition-shadow">
+            <CardHeader>
+                <div className="flex items-center gap-3 mb-2">
+                    <div className="p-2 bg-emerald-100 dark:bg-emerald-900/30 rounded-lg">
+                        <Link2 className="w-6 h-6 text-emerald-600 dark:text-emerald-400" />
+                    </div>
+                    <div>
+                        <CardTitle>Any Calendar (.ics)</CardTitle>
+                        <CardDescription>Apple Calendar, Thunderbird, Fastmail and more</CardDescription>
+                    </div>
+                </div>
+            </CardHeader>
+            <CardContent className="space-y-4">
+                <div className="space-y-2">
+                    <p className="text-sm font-medium">Subscribe</p>
+                    <p className="text-xs text-muted-foreground">
+                        {USE_MOCK_API
+                            ? 'Not available in demo mode: there is no server for calendar apps to subscribe to. Export a file instead.'
+                            : 'Meetings and thread deadlines, kept up to date. Anyone with this URL can see them.'}
+                    </p>
+                    {!USE_MOCK_API && <div className="flex gap-2">
+                        <Input readOnly value={feed?.url ?? ''} placeholder="Loading..." className="font-mono text-xs" />
+                        <Button variant="outline" size="icon" onClick={copyFeedUrl} disabled={!feed} aria-label="Copy feed URL">
+                            <Copy className="w-4 h-4" />
+                        </Button>
+                        <Button
+                            variant="outline"
+                            size="icon"
+                            onClick={handleResetFeed}
+                            disabled={!feed || resetFeedMutation.isPending}
+                            aria-label="Reset feed URL"
+                        >
+                            <RefreshCw className={`w-4 h-4 ${resetFeedMutation.isPending ? 'animate-spin' : ''}`} />
+                        </Button>
+                    </div>}
+                </div>
+            </CardContent>
+            <CardFooter className="gap-2">
+                <Button
+                    variant="outline"
+                    className="flex-1"
+                    onClick={() => exportMutation.mutate()}
+                    disabled={exportMutation.isPending}
+                >
+                    {exportMutation.isPending
+                        ? <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                        : <Download className="mr-2 h-4 w-4" />}
+                    Export .ics
+                </Button>
+                <Button
+                    className="flex-1"
+                    onClick={() => fileInput.current?.click()}
+                    disabled={importMutation.isPending}
+                >
+                    {importMutation.isPending
+                        ? <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                        : <FileUp className="mr-2 h-4 w-4" />}
+                    Import .ics
+                </Button>
+                <input
+                    ref={fileInput}
+                    type="file"
+                    accept=".ics,text/calendar"
+                    className="hidden"
+                    onChange={(e) => {
+                        const file = e.target.files?.[0];
+                        if (file) importMutation.mutate(file);
+                        // Picking the same file again should import it again
+                        e.target.value = '';
+                    }}
+                />
+            </CardFooter>
+        </Card>
+    );
+}
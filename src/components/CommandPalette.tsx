@@ -0,0 +1,255 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { defaultFilter } from 'cmdk';
+import {
+    Calendar,
+    FileText,
+    Focus,
+    Layers,
+    Lightbulb,
+    Mail,
+    MessageSquare,
+    CheckSquare,
+    Plus,
+    Users,
+    Video,
+    Zap,
+} from 'lucide-react';
+
+import {
+    CommandDialog,
+    CommandEmpty,
+    CommandGroup,
+    CommandInput,
+    CommandItem,
+    CommandList,
+    CommandSeparator,
+    CommandShortcut,
+} from '@/components/ui/command';
+import { CreateThreadDialog } from '@/components/CreateThreadDialog';
+
+import { useAuth } from '@/contexts/AuthContext';
+import { useFocus } from '@/contexts/FocusContext';
+import { IntelligenceService, TeamService, ThreadService, WorkItemService } from '@/services/api';
+import { Team, WorkInsight, WorkItem, WorkThread } from '@/lib/types';
+
+// Shown before the user types anything; the full lists only appear once searching
+const IDLE_LIMIT = 5;
+// Keeps the list responsive when an inbox has thousands of synced items
+const RESULT_LIMIT = 50;
+
+const itemIcons: Record<WorkItem['type'], typeof Mail> = {
+    email: Mail,
+    message: MessageSquare,
+    document: FileText,
+    calendar: Calendar,
+    task: CheckSquare,
+};
+
+const searchable = (...fields: (string | undefined)[]) => fields.filter(Boolean) as string[];
+
+const threadKeywords = (thread: WorkThread) => searchable(thread.title, thread.description, ...(thread.tags || []));
+const itemKeywords = (item: WorkItem) => searchable(item.title, item.preview, item.source);
+const teamKeywords = (team: Team) => searchable(team.name, team.description);
+const insightKeywords = (insight: WorkInsight) => searchable(insight.title, insight.description);
+
+// Scores with cmdk's own fuzzy matcher so the cap keeps the best matches, not the first ones.
+// cmdk then filters and orders the rendered entries with the same scores.
+function rank<T>(entries: T[], keywords: (entry: T) => string[], search: string) {
+    if (!search) return entries.slice(0, IDLE_LIMIT);
+    return entries
+        .map(entry => ({ entry, score: defaultFilter('', search, keywords(entry)) }))
+        .filter(({ score }) => score > 0)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, RESULT_LIMIT)
+        .map(({ entry }) => entry);
+}
+
+export function CommandPalette() {
+    const navigate = useNavigate();
+    const { currentUser } = useAuth();
+    const focus = useFocus();
+    const [open, setOpen] = useState(false);
+    const [search, setSearch] = useState('');
+    const [createThreadOpen, setCreateThreadOpen] = useState(false);
+
+    const userId = currentUser?.id;
+
+    useEffect(() => {
+        if (!userId) return;
+        const onKeyDown = (e: KeyboardEvent) => {
+            if (e.key.toLowerCase() === 'k' && (e.metaKey || e.ctrlKey)) {
+                e.preventDefault();
+                setOpen(prev => !prev);
+            }
+        };
+        window.addEventListener('keydown', onKeyDown);
+        return () => window.removeEventListener('keydown', onKeyDown);
+    }, [userId]);
+
+    const enabled = open && !!userId;
+
+    const { data: threads = [] } = useQuery({
+        queryKey: ['threads', userId],
+        queryFn: () => userId ? ThreadService.getUserThreads(userId) : Promise.resolve([]),
+        enabled
+    });
+
+    const { data: items = [] } = useQuery({
+        queryKey: ['items', userId],
+        queryFn: () => userId ? WorkItemService.getUserItems(userId) : Promise.resolve([]),
+        enabled
+    });
+
+    const { data: teams = [] } = useQuery({
+        queryKey: ['teams'],
+        queryFn: TeamService.getMyTeams,
+        enabled
+    });
+
+    const { data: insights = [] } = useQuery({
+        queryKey: ['insights', userId],
+        queryFn: () => userId ? IntelligenceService.getInsights(userId) : Promise.resolve([]),
+        enabled
+    });
+
+    if (!currentUser) return null;
+
+    const query = search.trim();
+    const matchedThreads = rank(threads, threadKeywords, query);
+    // Items and insights are too numerous to list before the user types anything
+    const matchedItems = query ? rank(items, itemKeywords, query) : [];
+    const matchedTeams = rank(teams, teamKeywords, query);
+    const matchedInsights = query ? rank(insights, insightKeywords, query) : [];
+
+    const run = (action: () => void) => {
+        setOpen(false);
+        setSearch('');
+        action();
+    };
+
+    const openItem = (item: WorkItem) => {
+        if (item.threadId) navigate(`/thread/${item.threadId}`);
+        else if (item.teamId) navigate(`/teams/${item.teamId}`);
+        else navigate('/dashboard');
+    };
+
+    return (
+        <>
+            <CommandDialog open={open} onOpenChange={(next) => { setOpen(next); if (!next) setSearch(''); }}>
+                <CommandInput
+                    placeholder="Search threads, items, teams and insights…"
+                    value={search}
+                    onValueChange={setSearch}
+                />
+                <CommandList>
+                    <CommandEmpty>No results found.</CommandEmpty>
+
+                    <CommandGroup heading="Actions">
+                        <CommandItem value="Create thread" keywords={['new']} onSelect={() => run(() => setCreateThreadOpen(true))}>
+                            <Plus className="mr-2" />
+                            Create thread
+                        </CommandItem>
+                        <CommandItem value="Start focus session" keywords={['timer', 'deep work']} onSelect={() => run(() => {
+                            focus.start();
+                            navigate('/dashboard');
+                        })}>
+                            <Zap className="mr-2" />
+                            Start focus session
+                        </CommandItem>
+                        <CommandItem
+                            value={focus.focusMode ? 'Turn off focus mode' : 'Turn on focus mode'}
+                            keywords={['distractions', 'quiet', 'do not disturb']}
+                            onSelect={() => run(() => focus.setFocusMode(!focus.focusMode))}
+                        >
+                            <Focus className="mr-2" />
+                            {focus.focusMode ? 'Turn off focus mode' : 'Turn on focus mode'}
+                        </CommandItem>
+                        <CommandItem value="Schedule meeting" keywords={['calendar', 'call']} onSelect={() => run(() => navigate('/meetings'))}>
+                            <Video className="mr-2" />
+                            Schedule meeting
+                        </CommandItem>
+                    </CommandGroup>
+
+                    <CommandSeparator />
+
+                    {matchedThreads.length > 0 && (
+                        <CommandGroup heading="Threads">
+                            {matchedThreads.map((thread) => (
+                                <CommandItem
+                                    key={thread.id}
+                                    value={`thread-${thread.id}`}
+                                    keywords={threadKeywords(thread)}
+                                    onSelect={() => run(() => navigate(`/thread/${thread.id}`))}
+                                >
+                                    <Layers className="mr-2" />
+                                    <span className="truncate">{thread.title}</span>
+                                    {thread.tags?.length > 0 && (
+                                        <CommandShortcut>{thread.tags.join(', ')}</CommandShortcut>
+                                    )}
+                                </CommandItem>
+                            ))}
+                        </CommandGroup>
+                    )}
+
+                    {matchedItems.length > 0 && (
+                        <CommandGroup heading="Items">
+                            {matchedItems.map((item) => {
+                                const Icon = itemIcons[item.type] ?? FileText;
+                                return (
+                                    <CommandItem
+                                        key={item.id}
+                                        value={`item-${item.id}`}
+                                        keywords={itemKeywords(item)}
+                                        onSelect={() => run(() => openItem(item))}
+                                    >
+                                        <Icon className="mr-2" />
+                                        <span className="truncate">{item.title}</span>
+                                        <CommandShortcut>{item.source}</CommandShortcut>
+                                    </CommandItem>
+                                );
+                            })}
+                        </CommandGroup>
+                    )}
+
+                    {matchedTeams.length > 0 && (
+                        <CommandGroup heading="Teams">
+                            {matchedTeams.map((team) => (
+                                <CommandItem
+                                    key={team.id}
+                                    value={`team-${team.id}`}
+                                    keywords={teamKeywords(team)}
+                                    onSelect={() => run(() => navigate(`/teams/${team.id}`))}
+                                >
+                                    <Users className="mr-2" />
+                                    {team.name}
+                                </CommandItem>
+                            ))}
+                        </CommandGroup>
+                    )}
+
+                    {matchedInsights.length > 0 && (
+                        <CommandGroup heading="Insights">
+                            {matchedInsights.map((insight) => (
+                                <CommandItem
+                                    key={insight.id}
+                                    value={`insight-${insight.id}`}
+                                    keywords={insightKeywords(insight)}
+                                    onSelect={() => run(() => navigate(
+                                        insight.relatedThreadIds?.[0] ? `/thread/${insight.relatedThreadIds[0]}` : '/insights'
+                                    ))}
+                                >
+                                    <Lightbulb className="mr-2" />
+                                    <span className="truncate">{insight.title}</span>
+                                </CommandItem>
+                            ))}
+                        </CommandGroup>
+                    )}
+                </CommandList>
+            </CommandDialog>
+
+            <CreateThreadDialog open={createThreadOpen} onOpenChange={setCreateThreadOpen} />
+        </>
+    );
+}
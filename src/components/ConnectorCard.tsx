@@ -0,0 +1,73 @@
+import { useState } from 'react';
+import { GitPullRequest, Kanban, KeyRound, Loader2, LucideIcon, MessageSquare } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { SyncedIntegrationCard } from '@/components/SyncedIntegrationCard';
+import { useIntegration } from '@/hooks/use-integration';
+import { CONNECTORS } from '@/lib/connectors';
+import { ConnectorId, IntegrationStatus } from '@/lib/types';
+
+const APPEARANCE: Record<ConnectorId, { icon: LucideIcon; border: string; badge: string; placeholder: string }> = {
+    slack: {
+        icon: MessageSquare,
+        border: 'border-t-purple-600',
+        badge: 'bg-purple-100 dark:bg-purple-900/30 text-purple-700 dark:text-purple-400',
+        placeholder: 'xoxp-...',
+    },
+    linear: {
+        icon: Kanban,
+        border: 'border-t-indigo-500',
+        badge: 'bg-indigo-100 dark:bg-indigo-900/30 text-indigo-600 dark:text-indigo-400',
+        placeholder: 'lin_api_...',
+    },
+    github: {
+        icon: GitPullRequest,
+        border: 'border-t-neutral-700',
+        badge: 'bg-neutral-100 dark:bg-neutral-800 text-neutral-800 dark:text-neutral-200',
+        placeholder: 'ghp_...',
+    },
+};
+
+interface ConnectorCardProps {
+    id: ConnectorId;
+    status?: IntegrationStatus; // Still loading when missing
+}
+
+// Slack, Linear and GitHub connect by pasting a token
+export function ConnectorCard({ id, status }: ConnectorCardProps) {
+    const [token, setToken] = useState('');
+    const { connect } = useIntegration(id);
+    const connector = CONNECTORS[id];
+    const { placeholder, ...appearance } = APPEARANCE[id];
+
+    return (
+        <SyncedIntegrationCard id={id} status={status} description={connector.description} {...appearance}>
+            <form
+                className="space-y-2"
+                onSubmit={(e) => {
+                    e.preventDefault();
+                    if (token.trim()) connect.mutate({ token: token.trim() }, { onSuccess: () => setToken('') });
+                }}
+            >
+                <p className="text-xs text-muted-foreground">Paste a {connector.tokenLabel.toLowerCase()} to connect.</p>
+                <div className="flex gap-2">
+                    <Input
+                        type="password"
+                        value={token}
+                        onChange={(e) => setToken(e.target.value)}
+                        placeholder={placeholder}
+                        className="font-mono text-xs"
+                        aria-label={`${connector.name} ${connector.tokenLabel}`}
+                        disabled={!status}
+                    />
+                    <Button type="submit" variant="outline" disabled={!token.trim() || connect.isPending}>
+                        {connect.isPending
+                            ? <Loader2 className="h-4 w-4 animate-spin" />
+                            : <KeyRound className="h-4 w-4" />}
+                    </Button>
+                </div>
+            </form>
+        </SyncedIntegrationCard>
+    );
+}
@@ -52,8 +52,17 @@ const formSchema = z.object({
     deadline: z.date().optional(),
 });
 
-export function CreateThreadDialog() {
-    const [open, setOpen] = useState(false);
+interface CreateThreadDialogProps {
+    // Pass both to open the dialog from elsewhere; the trigger button is then not rendered
+    open?: boolean;
+    onOpenChange?: (open: boolean) => void;
+}
+
+export function CreateThreadDialog({ open: controlledOpen, onOpenChange }: CreateThreadDialogProps = {}) {
+    const [uncontrolledOpen, setUncontrolledOpen] = useState(false);
+    const isControlled = controlledOpen !== undefined;
+    const open = isControlled ? controlledOpen : uncontrolledOpen;
+    const setOpen = isControlled ? (onOpenChange ?? (() => {})) : setUncontrolledOpen;
     const { currentUser } = useAuth();
     const queryClient = useQueryClient();
 
@@ -110,12 +119,14 @@ export function CreateThreadDialog() {
 
     return (
         <Dialog open={open} onOpenChange={setOpen}>
-            <DialogTrigger asChild>
-                <Button size="sm" className="gap-2">
-                    <Plus className="w-4 h-4" />
-                    New Thread
-                </Button>
-            </DialogTrigger>
+            {!isControlled && (
+                <DialogTrigger asChild>
+                    <Button size="sm" className="gap-2">
+                        <Plus className="w-4 h-4" />
+                        New Thread
+                    </Button>
+                </DialogTrigger>
+            )}
             <DialogContent className="sm:max-w-[425px]">
                 <DialogHeader>
                     <DialogTitle>Create New Work Thread</DialogTitle>
@@ -0,0 +1,76 @@
+import { useState } from 'react';
+import { CalendarIcon, X } from 'lucide-react';
+import { format } from 'date-fns';
+
+import { Button } from '@/components/ui/button';
+import { Calendar } from '@/components/ui/calendar';
+import { Input } from '@/components/ui/input';
+import {
+    Popover,
+    PopoverContent,
+    PopoverTrigger,
+} from '@/components/ui/popover';
+import { cn } from '@/lib/utils';
+
+interface DeadlinePickerProps {
+    value?: Date;
+    // Called with null when the deadline is cleared
+    onChange: (deadline: Date | null) => void;
+    className?: string;
+}
+
+const withTime = (day: Date, time: string) => {
+    const [hours, minutes] = time.split(':').map(Number);
+    const result = new Date(day);
+    result.setHours(hours, minutes, 0, 0);
+    return result;
+};
+
+export function DeadlinePicker({ value, onChange, className }: DeadlinePickerProps) {
+    const [open, setOpen] = useState(false);
+    const selectedTime = value ? format(value, 'HH:mm') : '12:00';
+
+    return (
+        <Popover open={open} onOpenChange={setOpen}>
+            <PopoverTrigger asChild>
+                <Button
+                    variant="ghost"
+                    size="sm"
+                    className={cn('h-7 px-2 font-normal', !value && 'text-muted-foreground', className)}
+                >
+                    <CalendarIcon className="w-4 h-4 mr-1.5" />
+                    {value ? `Due ${format(value, "PPP 'at' p")}` : 'Set deadline'}
+                </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-auto p-0" align="start">
+                <Calendar
+                    mode="single"
+                    selected={value}
+                    onSelect={(day) => day && onChange(withTime(day, selectedTime))}
+                    initialFocus
+                />
+                <div className="p-3 border-t space-y-2">
+                    <span className="text-[10px] uppercase font-bold text-muted-foreground block">Set Time</span>
+                    <Input
+                        type="time"
+                        value={selectedTime}
+                        disabled={!value}
+                        onChange={(e) => value && e.target.value && onChange(withTime(value, e.target.value))}
+                        className="h-8 text-sm"
+                    />
+                    {value && (
+                        <Button
+                            variant="ghost"
+                            size="sm"
+                            className="w-full h-8 text-muted-foreground"
+                            onClick={() => { onChange(null); setOpen(false); }}
+                        >
+                            <X className="w-3.5 h-3.5 mr-1" />
+                            Clear deadline
+                        </Button>
+                    )}
+                </div>
+            </PopoverContent>
+        </Popover>
+    );
+}
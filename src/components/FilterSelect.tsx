@@ -0,0 +1,40 @@
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from '@/components/ui/select';
+
+// Radix Select cannot hold an empty value, so "no filter" travels as this
+const ANY = '__any__';
+
+interface FilterSelectProps {
+    value?: string;
+    onChange: (value?: string) => void;
+    options: { value: string; label: string }[];
+    // Label for the unfiltered choice, e.g. "All priorities"; omit to make a choice mandatory
+    anyLabel?: string;
+    className?: string;
+}
+
+export function FilterSelect({ value, onChange, options, anyLabel, className = 'w-[160px]' }: FilterSelectProps) {
+    return (
+        <Select
+            value={value ?? (anyLabel ? ANY : undefined)}
+            onValueChange={(next) => onChange(next === ANY ? undefined : next)}
+        >
+            <SelectTrigger className={className}>
+                <SelectValue placeholder={anyLabel} />
+            </SelectTrigger>
+            <SelectContent>
+                {anyLabel && <SelectItem value={ANY}>{anyLabel}</SelectItem>}
+                {options.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                    </SelectItem>
+                ))}
+            </SelectContent>
+        </Select>
+    );
+}
@@ -0,0 +1,94 @@
+import { useNavigate } from 'react-router-dom';
+import { format, formatDistanceStrict } from 'date-fns';
+import { AlertCircle, Bell, Inbox } from 'lucide-react';
+
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { WorkItemRow } from '@/components/WorkItemRow';
+import { useFocus } from '@/contexts/FocusContext';
+
+// "While you were focused": what focus mode held back, shown once it ends
+export function FocusDigestDialog() {
+    const navigate = useNavigate();
+    const { digest, dismissDigest } = useFocus();
+
+    if (!digest) return null;
+    const { startedAt, endedAt, items, notifications } = digest;
+
+    const open = (path: string) => {
+        dismissDigest();
+        navigate(path);
+    };
+
+    return (
+        <Dialog open onOpenChange={(isOpen) => !isOpen && dismissDigest()}>
+            <DialogContent className="sm:max-w-[520px]">
+                <DialogHeader>
+                    <DialogTitle>While you were focused</DialogTitle>
+                    <DialogDescription>
+                        {formatDistanceStrict(endedAt, startedAt)} of focus, {format(startedAt, 'p')} to {format(endedAt, 'p')}.
+                    </DialogDescription>
+                </DialogHeader>
+
+                <div className="max-h-[50vh] overflow-y-auto space-y-4">
+                    {items.length === 0 && notifications.length === 0 && (
+                        <p className="text-sm text-muted-foreground text-center py-4">Nothing new came in. Nice and quiet.</p>
+                    )}
+
+                    {items.length > 0 && (
+                        <section className="space-y-1">
+                            <h3 className="text-sm font-medium">
+                                {items.length} new item{items.length === 1 ? '' : 's'}
+                            </h3>
+                            {items.map(item => (
+                                <WorkItemRow
+                                    key={item.id}
+                                    item={item}
+                                    onClick={() => open(item.threadId ? `/thread/${item.threadId}` : '/inbox')}
+                                />
+                            ))}
+                        </section>
+                    )}
+
+                    {notifications.length > 0 && (
+                        <section className="space-y-1">
+                            <h3 className="text-sm font-medium">Notifications</h3>
+                            <ul className="text-sm divide-y">
+                                {notifications.map(notification => (
+                                    <li key={notification.id} className="flex items-start gap-2 py-2">
+                                        {notification.isError
+                                            ? <AlertCircle className="w-4 h-4 mt-0.5 text-destructive flex-shrink-0" />
+                                            : <Bell className="w-4 h-4 mt-0.5 text-muted-foreground flex-shrink-0" />}
+                                        <div className="min-w-0">
+                                            <p className={notification.isError ? 'text-destructive' : undefined}>{notification.title}</p>
+                                            {notification.description && (
+                                                <p className="text-muted-foreground">{notification.description}</p>
+                                            )}
+                                        </div>
+                                    </li>
+                                ))}
+                            </ul>
+                        </section>
+                    )}
+                </div>
+
+                <DialogFooter>
+                    {items.length > 0 && (
+                        <Button variant="outline" onClick={() => open('/inbox')}>
+                            <Inbox className="w-4 h-4 mr-2" />
+                            Open inbox
+                        </Button>
+                    )}
+                    <Button onClick={dismissDigest}>Back to it</Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+}
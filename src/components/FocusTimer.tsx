@@ -1,163 +1,266 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Play, Pause, Square, Zap, Brain, Trophy, Loader2 } from 'lucide-react';
+import { format, startOfDay } from 'date-fns';
+import { Play, Pause, Square, Zap, Trophy, Settings2, Hand, SkipForward, CheckCircle2, CircleSlash } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
 import { Progress } from '@/components/ui/progress';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import {
+    DropdownMenu,
+    DropdownMenuContent,
+    DropdownMenuItem,
+    DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { FilterSelect } from '@/components/FilterSelect';
 import { toast } from 'sonner';
 import { useAuth } from '@/contexts/AuthContext';
-import { IntelligenceService } from '@/services/api';
-import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { useFocus } from '@/contexts/FocusContext';
+import { FocusService, ThreadService, UserService } from '@/services/api';
+import { PHASE_LABELS, elapsedMs, formatClock, isPaused, remainingMs } from '@/lib/focus';
+import { FocusSession, FocusSettings, WorkThread } from '@/lib/types';
+import { useMutation, useQuery } from '@tanstack/react-query';
 
-export function FocusTimer() {
-    const { currentUser } = useAuth();
-    const queryClient = useQueryClient();
-    const [isActive, setIsActive] = useState(false);
-    const [isPaused, setIsPaused] = useState(false);
-    const [time, setTime] = useState(25 * 60); // 25 minutes default
-    const [initialTime, setInitialTime] = useState(25 * 60);
-    const [completedSessions, setCompletedSessions] = useState(0);
-
-    const formatTime = (seconds: number) => {
-        const mins = Math.floor(seconds / 60);
-        const secs = seconds % 60;
-        return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
-    };
-
-    const recordSessionMutation = useMutation({
-        mutationFn: (durationMins: number) => {
+const SETTING_FIELDS: { key: keyof FocusSettings; label: string; max: number }[] = [
+    { key: 'workMinutes', label: 'Focus (min)', max: 180 },
+    { key: 'shortBreakMinutes', label: 'Short break (min)', max: 60 },
+    { key: 'longBreakMinutes', label: 'Long break (min)', max: 90 },
+    { key: 'longBreakEvery', label: 'Long break every', max: 12 },
+];
+
+function FocusSettingsForm({ settings, onSaved }: { settings: FocusSettings; onSaved: () => void }) {
+    const { currentUser, updateCurrentUser } = useAuth();
+    const [draft, setDraft] = useState(settings);
+
+    const saveMutation = useMutation({
+        mutationFn: async (focus: FocusSettings) => {
             if (!currentUser) throw new Error('Not authenticated');
-            return IntelligenceService.recordFocusSession(currentUser.id, durationMins, 1);
+            await UserService.updatePreferences(currentUser.id, { focus });
+            return focus;
+        },
+        onSuccess: (focus) => {
+            updateCurrentUser({ ...currentUser, preferences: { ...currentUser.preferences, focus } });
+            toast.success('Focus settings saved', { description: 'They apply from the next session.' });
+            onSaved();
         },
-        onSuccess: () => {
-            queryClient.invalidateQueries({ queryKey: ['dailyStats'] });
-            queryClient.invalidateQueries({ queryKey: ['cognitiveLoad'] });
-            toast.success('Focus session recorded! +1 Task toward goals');
+        onError: () => {
+            toast.error('Failed to save focus settings');
         }
     });
 
-    const handleComplete = useCallback(() => {
-        setIsActive(false);
-        setCompletedSessions(prev => prev + 1);
-        const durationMins = Math.round(initialTime / 60);
-        recordSessionMutation.mutate(durationMins);
-        setTime(initialTime);
-
-        // Play sound or notification here if needed
-        if ('Notification' in window && Notification.permission === 'granted') {
-            new Notification('Focus Session Complete!', {
-                body: 'Great job! Take a short break.',
-                icon: '/favicon.ico'
-            });
-        }
-    }, [initialTime, currentUser, recordSessionMutation]);
-
-    useEffect(() => {
-        let interval: NodeJS.Timeout | null = null;
-
-        if (isActive && !isPaused) {
-            interval = setInterval(() => {
-                setTime((prevTime) => {
-                    if (prevTime <= 1) {
-                        clearInterval(interval!);
-                        handleComplete();
-                        return 0;
-                    }
-                    return prevTime - 1;
-                });
-            }, 1000);
-        } else {
-            if (interval) clearInterval(interval);
-        }
+    const valid = SETTING_FIELDS.every(({ key, max }) => Number.isInteger(draft[key]) && draft[key] >= 1 && draft[key] <= max);
 
-        return () => {
-            if (interval) clearInterval(interval);
-        };
-    }, [isActive, isPaused, handleComplete]);
-
-    const toggleTimer = () => {
-        if (!isActive) {
-            setIsActive(true);
-            setIsPaused(false);
-            // Request notification permission
-            if ('Notification' in window && Notification.permission === 'default') {
-                Notification.requestPermission();
-            }
-        } else {
-            setIsPaused(!isPaused);
-        }
-    };
+    return (
+        <form
+            className="space-y-3"
+            onSubmit={(e) => {
+                e.preventDefault();
+                if (valid) saveMutation.mutate(draft);
+            }}
+        >
+            <div className="grid grid-cols-2 gap-3">
+                {SETTING_FIELDS.map(({ key, label, max }) => (
+                    <div key={key} className="space-y-1">
+                        <Label htmlFor={`focus-${key}`} className="text-xs">{label}</Label>
+                        <Input
+                            id={`focus-${key}`}
+                            type="number"
+                            min={1}
+                            max={max}
+                            value={Number.isNaN(draft[key]) ? '' : draft[key]}
+                            onChange={(e) => setDraft({ ...draft, [key]: e.target.valueAsNumber })}
+                        />
+                    </div>
+                ))}
+            </div>
+            <Button type="submit" size="sm" className="w-full" disabled={!valid || saveMutation.isPending}>
+                {saveMutation.isPending ? 'Saving...' : 'Save'}
+            </Button>
+        </form>
+    );
+}
+
+function SessionRow({ session, thread }: { session: FocusSession; thread?: WorkThread }) {
+    return (
+        <li className="flex items-center gap-2 py-1">
+            {session.completed
+                ? <CheckCircle2 className="w-3.5 h-3.5 text-green-500 flex-shrink-0" />
+                : <CircleSlash className="w-3.5 h-3.5 text-muted-foreground flex-shrink-0" />}
+            <span className="font-medium">{format(session.startedAt, 'p')}</span>
+            <span className="text-muted-foreground truncate flex-1">
+                {session.focusedMinutes} min{thread ? ` · ${thread.title}` : ''}
+            </span>
+            {session.interruptions.length > 0 && (
+                <span className="text-muted-foreground flex items-center gap-0.5" title="Interruptions">
+                    <Hand className="w-3 h-3" />
+                    {session.interruptions.length}
+                </span>
+            )}
+        </li>
+    );
+}
+
+export function FocusTimer() {
+    const { currentUser } = useAuth();
+    const { settings, run, completedInCycle, now, start, pause, resume, stop, logInterruption } = useFocus();
+    const [threadId, setThreadId] = useState<string>();
+    const [settingsOpen, setSettingsOpen] = useState(false);
+    const userId = currentUser?.id;
+
+    const { data: threads = [] } = useQuery({
+        queryKey: ['threads', userId],
+        queryFn: () => userId ? ThreadService.getUserThreads(userId) : Promise.resolve([]),
+        enabled: !!userId
+    });
+
+    const { data: todaySessions = [] } = useQuery({
+        queryKey: ['focusSessions', userId, 'today'],
+        queryFn: () => FocusService.list({ from: startOfDay(new Date()) }),
+        enabled: !!userId
+    });
 
-    const resetTimer = () => {
-        setIsActive(false);
-        setIsPaused(false);
-        setTime(initialTime);
-    };
+    const isActive = !!run;
+    const paused = !!run && isPaused(run);
+    const onBreak = !!run && run.phase !== 'work';
+    const remaining = run ? remainingMs(run, now) : settings.workMinutes * 60_000;
+    const progress = run ? (elapsedMs(run, now) / (run.plannedMinutes * 60_000)) * 100 : 0;
+    const runThread = threads.find(t => t.id === run?.threadId);
+    const completedToday = todaySessions.filter(s => s.completed).length;
 
-    const progress = ((initialTime - time) / initialTime) * 100;
+    const status = !run
+        ? 'Ready to focus?'
+        : paused
+            ? `${PHASE_LABELS[run.phase]} paused`
+            : onBreak ? `${PHASE_LABELS[run.phase]} - step away` : runThread ? `On ${runThread.title}` : 'Session in progress';
 
     return (
         <Card className="relative overflow-hidden border-primary/20 bg-gradient-to-br from-card to-primary/5">
             <CardContent className="pt-6">
                 <div className="flex items-center justify-between mb-6">
-                    <div className="flex items-center gap-2">
-                        <div className={`p-2 rounded-lg ${isActive ? 'bg-primary animate-pulse' : 'bg-secondary'}`}>
-                            <Zap className={`w-4 h-4 ${isActive ? 'text-primary-foreground' : 'text-muted-foreground'}`} />
+                    <div className="flex items-center gap-2 min-w-0">
+                        <div className={`p-2 rounded-lg ${isActive && !paused ? 'bg-primary animate-pulse' : 'bg-secondary'}`}>
+                            <Zap className={`w-4 h-4 ${isActive && !paused ? 'text-primary-foreground' : 'text-muted-foreground'}`} />
                         </div>
-                        <div>
+                        <div className="min-w-0">
                             <h3 className="text-sm font-semibold">Deep Focus</h3>
-                            <p className="text-xs text-muted-foreground">{isActive ? 'Session in progress' : 'Ready to focus?'}</p>
+                            <p className="text-xs text-muted-foreground truncate">{status}</p>
                         </div>
                     </div>
-                    <div className="flex items-center gap-1.5 px-2 py-1 rounded-full bg-secondary/50 border text-[10px] font-medium">
-                        <Trophy className="w-3 h-3 text-warning-foreground" />
-                        <span>{completedSessions} Today</span>
+                    <div className="flex items-center gap-1">
+                        <div className="flex items-center gap-1.5 px-2 py-1 rounded-full bg-secondary/50 border text-[10px] font-medium">
+                            <Trophy className="w-3 h-3 text-warning-foreground" />
+                            <span>{completedToday} Today</span>
+                        </div>
+                        <Popover open={settingsOpen} onOpenChange={setSettingsOpen}>
+                            <PopoverTrigger asChild>
+                                <Button variant="ghost" size="icon" className="h-7 w-7" aria-label="Focus settings">
+                                    <Settings2 className="w-4 h-4" />
+                                </Button>
+                            </PopoverTrigger>
+                            <PopoverContent className="w-72" align="end">
+                                <FocusSettingsForm
+                                    key={String(settingsOpen)}
+                                    settings={settings}
+                                    onSaved={() => setSettingsOpen(false)}
+                                />
+                            </PopoverContent>
+                        </Popover>
                     </div>
                 </div>
 
                 <div className="flex flex-col items-center justify-center py-4">
+                    {run && (
+                        <p className="text-[11px] font-medium uppercase tracking-widest text-muted-foreground">
+                            {PHASE_LABELS[run.phase]}
+                        </p>
+                    )}
                     <motion.div
-                        key={time}
+                        key={formatClock(remaining)}
                         initial={{ scale: 0.9, opacity: 0 }}
                         animate={{ scale: 1, opacity: 1 }}
                         className="text-5xl font-mono font-bold tracking-tighter mb-2"
                     >
-                        {formatTime(time)}
+                        {formatClock(remaining)}
                     </motion.div>
+                    <div className="flex gap-1" aria-label={`${completedInCycle} of ${settings.longBreakEvery} sessions before a long break`}>
+                        {Array.from({ length: settings.longBreakEvery }, (_, i) => (
+                            <span key={i} className={`h-1.5 w-1.5 rounded-full ${i < completedInCycle ? 'bg-primary' : 'bg-secondary'}`} />
+                        ))}
+                    </div>
 
                     <div className="w-full space-y-4 mt-4">
                         <Progress value={progress} className="h-1.5" />
 
+                        {!run && threads.length > 0 && (
+                            <FilterSelect
+                                value={threadId}
+                                onChange={setThreadId}
+                                options={threads.map(t => ({ value: t.id, label: t.title }))}
+                                anyLabel="No particular thread"
+                                className="w-full"
+                            />
+                        )}
+
                         <div className="flex items-center gap-2">
-                            <Button
-                                className="flex-1"
-                                variant={isActive && !isPaused ? "outline" : "default"}
-                                onClick={toggleTimer}
-                                disabled={recordSessionMutation.isPending}
-                            >
-                                {isActive ? (
-                                    isPaused ? (
-                                        <><Play className="w-4 h-4 mr-2" /> Resume</>
-                                    ) : (
-                                        <><Pause className="w-4 h-4 mr-2" /> Pause</>
-                                    )
-                                ) : (
-                                    <><Zap className="w-4 h-4 mr-2" /> Start Focusing</>
-                                )}
-                            </Button>
-
-                            {isActive && (
-                                <Button variant="ghost" size="icon" onClick={resetTimer}>
-                                    <Square className="w-4 h-4" />
+                            {!run ? (
+                                <Button className="flex-1" onClick={() => start(threadId)}>
+                                    <Zap className="w-4 h-4 mr-2" /> Start Focusing
+                                </Button>
+                            ) : (
+                                <Button
+                                    className="flex-1"
+                                    variant={paused ? 'default' : 'outline'}
+                                    onClick={paused ? resume : pause}
+                                >
+                                    {paused
+                                        ? <><Play className="w-4 h-4 mr-2" /> Resume</>
+                                        : <><Pause className="w-4 h-4 mr-2" /> Pause</>}
+                                </Button>
+                            )}
+
+                            {run?.phase === 'work' && (
+                                <DropdownMenu>
+                                    <DropdownMenuTrigger asChild>
+                                        <Button variant="ghost" size="icon" aria-label="Log an interruption">
+                                            <Hand className="w-4 h-4" />
+                                        </Button>
+                                    </DropdownMenuTrigger>
+                                    <DropdownMenuContent align="end">
+                                        <DropdownMenuItem onSelect={() => logInterruption('internal')}>
+                                            I got distracted
+                                        </DropdownMenuItem>
+                                        <DropdownMenuItem onSelect={() => logInterruption('external')}>
+                                            Someone interrupted me
+                                        </DropdownMenuItem>
+                                    </DropdownMenuContent>
+                                </DropdownMenu>
+                            )}
+
+                            {run && (
+                                <Button
+                                    variant="ghost"
+                                    size="icon"
+                                    onClick={stop}
+                                    aria-label={onBreak ? 'Skip break' : 'Stop session'}
+                                >
+                                    {onBreak ? <SkipForward className="w-4 h-4" /> : <Square className="w-4 h-4" />}
                                 </Button>
                             )}
                         </div>
+
+                        {run?.phase === 'work' && run.interruptions.length > 0 && (
+                            <p className="text-center text-xs text-muted-foreground">
+                                {run.interruptions.length} interruption{run.interruptions.length === 1 ? '' : 's'} logged
+                            </p>
+                        )}
                     </div>
                 </div>
 
                 {/* Motivation Text */}
                 <AnimatePresence mode="wait">
-                    {isActive && !isPaused && (
+                    {run?.phase === 'work' && !paused && (
                         <motion.p
                             initial={{ opacity: 0, y: 10 }}
                             animate={{ opacity: 1, y: 0 }}
@@ -168,6 +271,18 @@ export function FocusTimer() {
                         </motion.p>
                     )}
                 </AnimatePresence>
+
+                {todaySessions.length > 0 && (
+                    <ul className="mt-4 pt-3 border-t text-xs divide-y">
+                        {todaySessions.slice(0, 3).map(session => (
+                            <SessionRow
+                                key={session.id}
+                                session={session}
+                                thread={threads.find(t => t.id === session.threadId)}
+                            />
+                        ))}
+                    </ul>
+                )}
             </CardContent>
         </Card>
     );
@@ -5,6 +5,7 @@ import { Button } from '@/components/ui/button';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { CognitiveLoadMeter } from './CognitiveLoadMeter';
 import { useAuth } from '@/contexts/AuthContext';
+import { useFocus } from '@/contexts/FocusContext';
 import { useQuery } from '@tanstack/react-query';
 import { IntelligenceService } from '@/services/api';
 import {
@@ -15,7 +16,10 @@ import {
   Settings,
   LogOut,
   Share2,
-  Calendar
+  Calendar,
+  Layers,
+  Inbox,
+  Focus
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import {
@@ -35,6 +39,7 @@ export function Header({ isAuthenticated = false }: HeaderProps) {
   const location = useLocation();
   const navigate = useNavigate();
   const { currentUser, signOut } = useAuth();
+  const { focusMode, setFocusMode, queuedItems } = useFocus();
 
   const { data: cognitiveLoad } = useQuery({
     queryKey: ['cognitiveLoad', currentUser?.id],
@@ -44,6 +49,8 @@ export function Header({ isAuthenticated = false }: HeaderProps) {
 
   const navItems = [
     { path: '/dashboard', label: 'Dashboard', icon: LayoutDashboard },
+    { path: '/threads', label: 'Threads', icon: Layers },
+    { path: '/inbox', label: 'Inbox', icon: Inbox },
     { path: '/teams', label: 'Teams', icon: Users },
     { path: '/meetings', label: 'Meetings', icon: Calendar },
     { path: '/insights', label: 'Insights', icon: Lightbulb },
@@ -122,6 +129,21 @@ export function Header({ isAuthenticated = false }: HeaderProps) {
             />
           </div>
 
+          <Button
+            variant={focusMode ? 'secondary' : 'ghost'}
+            size="sm"
+            onClick={() => setFocusMode(!focusMode)}
+            aria-pressed={focusMode}
+            title={focusMode ? 'Turn off focus mode' : 'Turn on focus mode'}
+          >
+            <Focus className={cn("w-4 h-4", focusMode && "text-primary")} />
+            {focusMode && (
+              <span className="hidden sm:inline ml-1.5">
+                Focus mode{queuedItems.length > 0 ? ` · ${queuedItems.length} waiting` : ''}
+              </span>
+            )}
+          </Button>
+
           <ThemeToggle />
 
           <DropdownMenu>
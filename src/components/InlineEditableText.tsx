@@ -0,0 +1,95 @@
+import { useEffect, useState } from 'react';
+import { Pencil } from 'lucide-react';
+
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { cn } from '@/lib/utils';
+
+interface InlineEditableTextProps {
+    value: string;
+    onSave: (value: string) => void;
+    placeholder?: string;
+    multiline?: boolean;
+    // Empty input is discarded instead of saved
+    required?: boolean;
+    className?: string;
+}
+
+export function InlineEditableText({
+    value,
+    onSave,
+    placeholder,
+    multiline = false,
+    required = false,
+    className,
+}: InlineEditableTextProps) {
+    const [editing, setEditing] = useState(false);
+    const [draft, setDraft] = useState(value);
+
+    useEffect(() => {
+        if (!editing) setDraft(value);
+    }, [value, editing]);
+
+    const commit = () => {
+        setEditing(false);
+        const next = draft.trim();
+        if (next === value || (required && !next)) {
+            setDraft(value);
+            return;
+        }
+        onSave(next);
+    };
+
+    const cancel = () => {
+        setDraft(value);
+        setEditing(false);
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent) => {
+        if (e.key === 'Escape') {
+            cancel();
+        } else if (e.key === 'Enter' && (!multiline || e.metaKey || e.ctrlKey)) {
+            e.preventDefault();
+            commit();
+        }
+    };
+
+    if (editing) {
+        return multiline ? (
+            <Textarea
+                autoFocus
+                value={draft}
+                placeholder={placeholder}
+                onChange={(e) => setDraft(e.target.value)}
+                onBlur={commit}
+                onKeyDown={handleKeyDown}
+                className={cn('resize-none', className)}
+            />
+        ) : (
+            <Input
+                autoFocus
+                value={draft}
+                placeholder={placeholder}
+                onChange={(e) => setDraft(e.target.value)}
+                onBlur={commit}
+                onKeyDown={handleKeyDown}
+                className={cn('h-auto py-1', className)}
+            />
+        );
+    }
+
+    return (
+        <button
+            type="button"
+            onClick={() => setEditing(true)}
+            className={cn(
+                'group w-full text-left rounded-md -mx-2 px-2 transition-colors hover:bg-muted/50',
+                !value && 'text-muted-foreground italic',
+                className
+            )}
+        >
+            {value || placeholder}
+            <Pencil className="inline-block w-3.5 h-3.5 ml-2 opacity-0 transition-opacity group-hover:opacity-50" />
+        </button>
+    );
+}
@@ -0,0 +1,116 @@
+import { CheckCheck, ChevronDown, FolderInput, Mail, Trash2, X } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+    DropdownMenu,
+    DropdownMenuContent,
+    DropdownMenuItem,
+    DropdownMenuLabel,
+    DropdownMenuSeparator,
+    DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { WorkItem } from '@/lib/types';
+
+interface ItemBulkToolbarProps {
+    selectedCount: number;
+    // Checked when every visible item is selected
+    allSelected: boolean;
+    onSelectAll: (selected: boolean) => void;
+    onUpdate: (updates: Partial<WorkItem>) => void;
+    onMoveToThread: () => void;
+    onDelete: () => void;
+    onClear: () => void;
+    disabled?: boolean;
+}
+
+const STATUSES: { value: NonNullable<WorkItem['status']>; label: string }[] = [
+    { value: 'todo', label: 'Todo' },
+    { value: 'in-progress', label: 'In Progress' },
+    { value: 'completed', label: 'Completed' },
+];
+
+const PRIORITIES: { value: NonNullable<WorkItem['priority']>; label: string }[] = [
+    { value: 'high', label: 'High' },
+    { value: 'medium', label: 'Medium' },
+    { value: 'low', label: 'Low' },
+];
+
+export function ItemBulkToolbar({
+    selectedCount,
+    allSelected,
+    onSelectAll,
+    onUpdate,
+    onMoveToThread,
+    onDelete,
+    onClear,
+    disabled = false,
+}: ItemBulkToolbarProps) {
+    return (
+        <div className="flex flex-wrap items-center justify-between gap-2 mb-2 px-3 py-2 rounded-lg bg-secondary text-sm">
+            <div className="flex items-center gap-3">
+                <Checkbox
+                    checked={allSelected ? true : selectedCount > 0 ? 'indeterminate' : false}
+                    onCheckedChange={(checked) => onSelectAll(checked === true)}
+                    aria-label="Select all"
+                />
+                <span className="font-medium">{selectedCount} selected</span>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-1">
+                <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                        <Button variant="ghost" size="sm" disabled={disabled}>
+                            <Mail className="w-4 h-4 mr-1" />
+                            Mark
+                            <ChevronDown className="w-3 h-3 ml-1" />
+                        </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end">
+                        <DropdownMenuItem onClick={() => onUpdate({ isRead: true })}>Mark as read</DropdownMenuItem>
+                        <DropdownMenuItem onClick={() => onUpdate({ isRead: false })}>Mark as unread</DropdownMenuItem>
+                    </DropdownMenuContent>
+                </DropdownMenu>
+
+                <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                        <Button variant="ghost" size="sm" disabled={disabled}>
+                            <CheckCheck className="w-4 h-4 mr-1" />
+                            Set
+                            <ChevronDown className="w-3 h-3 ml-1" />
+                        </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end">
+                        <DropdownMenuLabel>Status</DropdownMenuLabel>
+                        {STATUSES.map(({ value, label }) => (
+                            <DropdownMenuItem key={value} onClick={() => onUpdate({ status: value })}>{label}</DropdownMenuItem>
+                        ))}
+                        <DropdownMenuSeparator />
+                        <DropdownMenuLabel>Priority</DropdownMenuLabel>
+                        {PRIORITIES.map(({ value, label }) => (
+                            <DropdownMenuItem key={value} onClick={() => onUpdate({ priority: value })}>{label}</DropdownMenuItem>
+                        ))}
+                    </DropdownMenuContent>
+                </DropdownMenu>
+
+                <Button variant="ghost" size="sm" onClick={onMoveToThread} disabled={disabled}>
+                    <FolderInput className="w-4 h-4 mr-1" />
+                    Move to thread…
+                </Button>
+                <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={onDelete}
+                    disabled={disabled}
+                    className="text-destructive hover:text-destructive"
+                >
+                    <Trash2 className="w-4 h-4 mr-1" />
+                    Delete
+                </Button>
+                <Button variant="ghost" size="icon" className="h-8 w-8" onClick={onClear} aria-label="Clear selection">
+                    <X className="w-4 h-4" />
+                </Button>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,76 @@
+import {
+    Pagination,
+    PaginationContent,
+    PaginationEllipsis,
+    PaginationItem,
+    PaginationLink,
+    PaginationNext,
+    PaginationPrevious,
+} from '@/components/ui/pagination';
+import { cn } from '@/lib/utils';
+
+interface ListPaginationProps {
+    page: number;
+    pageSize: number;
+    total: number;
+    onPageChange: (page: number) => void;
+    // Real links so pages can be opened in a new tab
+    hrefForPage: (page: number) => string;
+}
+
+// First, last and the pages around the current one; null marks a gap
+function visiblePages(page: number, pageCount: number): (number | null)[] {
+    const pages: (number | null)[] = [];
+    for (let p = 1; p <= pageCount; p++) {
+        if (p === 1 || p === pageCount || Math.abs(p - page) <= 1) {
+            pages.push(p);
+        } else if (pages[pages.length - 1] !== null) {
+            pages.push(null);
+        }
+    }
+    return pages;
+}
+
+export function ListPagination({ page, pageSize, total, onPageChange, hrefForPage }: ListPaginationProps) {
+    const pageCount = Math.ceil(total / pageSize);
+    if (pageCount <= 1) return null;
+
+    const go = (target: number) => (e: React.MouseEvent) => {
+        e.preventDefault();
+        if (target >= 1 && target <= pageCount && target !== page) onPageChange(target);
+    };
+
+    return (
+        <Pagination>
+            <PaginationContent>
+                <PaginationItem>
+                    <PaginationPrevious
+                        href={hrefForPage(Math.max(1, page - 1))}
+                        onClick={go(page - 1)}
+                        aria-disabled={page === 1}
+                        className={cn(page === 1 && 'pointer-events-none opacity-50')}
+                    />
+                </PaginationItem>
+                {visiblePages(page, pageCount).map((p, i) => (
+                    <PaginationItem key={p ?? `gap-${i}`}>
+                        {p === null ? (
+                            <PaginationEllipsis />
+                        ) : (
+                            <PaginationLink href={hrefForPage(p)} onClick={go(p)} isActive={p === page}>
+                                {p}
+                            </PaginationLink>
+                        )}
+                    </PaginationItem>
+                ))}
+                <PaginationItem>
+                    <PaginationNext
+                        href={hrefForPage(Math.min(pageCount, page + 1))}
+                        onClick={go(page + 1)}
+                        aria-disabled={page === pageCount}
+                        className={cn(page === pageCount && 'pointer-events-none opacity-50')}
+                    />
+                </PaginationItem>
+            </PaginationContent>
+        </Pagination>
+    );
+}
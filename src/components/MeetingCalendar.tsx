@@ -0,0 +1,278 @@
+import { useMemo, useState } from 'react';
+import {
+    addDays,
+    addMonths,
+    addWeeks,
+    eachDayOfInterval,
+    endOfDay,
+    endOfMonth,
+    endOfWeek,
+    format,
+    isSameDay,
+    isSameMonth,
+    isToday,
+    startOfDay,
+    startOfMonth,
+    startOfWeek,
+} from 'date-fns';
+import { CalendarDays, ChevronLeft, ChevronRight, Edit, Repeat, SkipForward, Users, Video } from 'lucide-react';
+
+import { Card, CardContent, CardHeader } from '@/components/ui/card';
+import { Calendar } from '@/components/ui/calendar';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { CalendarEntry, toCalendarEntries } from '@/lib/calendar';
+import { Meeting, WorkItem } from '@/lib/types';
+import { cn } from '@/lib/utils';
+
+type CalendarView = 'day' | 'week' | 'month';
+
+const MONTH_CELL_LIMIT = 3;
+
+const visibleDays = (view: CalendarView, date: Date) => {
+    if (view === 'day') return [startOfDay(date)];
+    if (view === 'week') return eachDayOfInterval({ start: startOfWeek(date), end: endOfWeek(date) });
+    return eachDayOfInterval({ start: startOfWeek(startOfMonth(date)), end: endOfWeek(endOfMonth(date)) });
+};
+
+// Anything running into the day counts, so overnight events show on both days
+const overlapsDay = (entry: CalendarEntry, day: Date) =>
+    entry.start <= endOfDay(day) && entry.end > startOfDay(day);
+
+const entryColor = (entry: CalendarEntry) => {
+    if (entry.meeting?.platform === 'google') return 'bg-blue-500/10 text-blue-700 dark:text-blue-300 border-blue-500/30';
+    if (entry.meeting?.platform === 'teams') return 'bg-purple-500/10 text-purple-700 dark:text-purple-300 border-purple-500/30';
+    return 'bg-muted text-muted-foreground border-border';
+};
+
+interface MeetingCalendarProps {
+    meetings: Meeting[];
+    items: WorkItem[];
+    // Called for upcoming meetings only; synced events are read-only here
+    onSelectMeeting?: (meeting: Meeting) => void;
+    onSkipOccurrence?: (meeting: Meeting, originalStart: Date) => void;
+}
+
+// Only meetings that haven't happened yet can still be changed
+const editableMeeting = (entry: CalendarEntry) =>
+    entry.meeting?.status === 'scheduled' && entry.start > new Date() ? entry.meeting : undefined;
+
+export function MeetingCalendar({ meetings, items, onSelectMeeting, onSkipOccurrence }: MeetingCalendarProps) {
+    const [view, setView] = useState<CalendarView>('week');
+    const [date, setDate] = useState(() => new Date());
+
+    const days = useMemo(() => visibleDays(view, date), [view, date]);
+    // The month grid around `date` covers every view as well as the mini calendar
+    const entries = useMemo(() => toCalendarEntries(meetings, items, {
+        from: startOfWeek(startOfMonth(date)),
+        to: endOfWeek(endOfMonth(date)),
+    }), [meetings, items, date]);
+    const entriesOn = (day: Date) => entries.filter(entry => overlapsDay(entry, day));
+
+    const step = (direction: 1 | -1) => setDate(current =>
+        view === 'day' ? addDays(current, direction)
+            : view === 'week' ? addWeeks(current, direction)
+                : addMonths(current, direction)
+    );
+
+    const openDay = (day: Date) => {
+        setDate(day);
+        setView('day');
+    };
+
+    const title = view === 'day'
+        ? format(date, 'EEEE, MMMM d')
+        : view === 'week'
+            ? `${format(days[0], 'MMM d')} – ${format(days[days.length - 1], 'MMM d, yyyy')}`
+            : format(date, 'MMMM yyyy');
+
+    return (
+        <div className="grid gap-6 lg:grid-cols-[auto_1fr]">
+            <Card className="h-fit">
+                <Calendar
+                    mode="single"
+                    selected={date}
+                    onSelect={(day) => day && setDate(day)}
+                    month={date}
+                    onMonthChange={setDate}
+                    modifiers={{ busy: entries.map(entry => entry.start) }}
+                    modifiersClassNames={{ busy: 'font-semibold underline decoration-primary underline-offset-4' }}
+                />
+            </Card>
+
+            <Card>
+                <CardHeader className="flex flex-row flex-wrap items-center justify-between gap-3 space-y-0">
+                    <div className="flex items-center gap-2">
+                        <Button variant="outline" size="icon" className="h-8 w-8" onClick={() => step(-1)} aria-label="Previous">
+                            <ChevronLeft className="w-4 h-4" />
+                        </Button>
+                        <Button variant="outline" size="sm" onClick={() => setDate(new Date())}>
+                            Today
+                        </Button>
+                        <Button variant="outline" size="icon" className="h-8 w-8" onClick={() => step(1)} aria-label="Next">
+                            <ChevronRight className="w-4 h-4" />
+                        </Button>
+                        <h2 className="font-semibold ml-2">{title}</h2>
+                    </div>
+                    <ToggleGroup
+                        type="single"
+                        size="sm"
+                        variant="outline"
+                        value={view}
+                        onValueChange={(next) => next && setView(next as CalendarView)}
+                    >
+                        <ToggleGroupItem value="day">Day</ToggleGroupItem>
+                        <ToggleGroupItem value="week">Week</ToggleGroupItem>
+                        <ToggleGroupItem value="month">Month</ToggleGroupItem>
+                    </ToggleGroup>
+                </CardHeader>
+                <CardContent>
+                    {view === 'day' && (
+                        <DayAgenda
+                            entries={entriesOn(date)}
+                            onSelectMeeting={onSelectMeeting}
+                            onSkipOccurrence={onSkipOccurrence}
+                        />
+                    )}
+
+                    {view !== 'day' && (
+                        <div className="grid grid-cols-7 border-l border-t rounded-md overflow-hidden">
+                            {days.slice(0, 7).map(day => (
+                                <div key={`head-${day.toISOString()}`} className="border-r border-b px-2 py-1 text-xs font-medium text-muted-foreground">
+                                    {format(day, 'EEE')}
+                                </div>
+                            ))}
+                            {days.map(day => {
+                                const dayEntries = entriesOn(day);
+                                const limit = view === 'month' ? MONTH_CELL_LIMIT : dayEntries.length;
+                                return (
+                                    <div
+                                        key={day.toISOString()}
+                                        className={cn(
+                                            'border-r border-b p-1.5 space-y-1 cursor-pointer hover:bg-accent/40 transition-colors',
+                                            view === 'month' ? 'min-h-24' : 'min-h-48',
+                                            view === 'month' && !isSameMonth(day, date) && 'bg-muted/30 text-muted-foreground'
+                                        )}
+                                        onClick={() => openDay(day)}
+                                    >
+                                        <div className={cn(
+                                            'text-xs w-6 h-6 flex items-center justify-center rounded-full',
+                                            isToday(day) && 'bg-primary text-primary-foreground font-semibold',
+                                            isSameDay(day, date) && !isToday(day) && 'ring-1 ring-primary'
+                                        )}>
+                                            {format(day, 'd')}
+                                        </div>
+                                        {dayEntries.slice(0, limit).map(entry => (
+                                            <EntryChip key={entry.id} entry={entry} onSelectMeeting={onSelectMeeting} />
+                                        ))}
+                                        {dayEntries.length > limit && (
+                                            <p className="text-[11px] text-muted-foreground px-1">
+                                                +{dayEntries.length - limit} more
+                                            </p>
+                                        )}
+                                    </div>
+                                );
+                            })}
+                        </div>
+                    )}
+                </CardContent>
+            </Card>
+        </div>
+    );
+}
+
+interface EntryProps {
+    onSelectMeeting?: (meeting: Meeting) => void;
+    onSkipOccurrence?: (meeting: Meeting, originalStart: Date) => void;
+}
+
+function EntryChip({ entry, onSelectMeeting }: EntryProps & { entry: CalendarEntry }) {
+    const meeting = editableMeeting(entry);
+    return (
+        <div
+            className={cn(
+                'rounded border px-1.5 py-0.5 text-[11px] leading-tight truncate',
+                entryColor(entry),
+                meeting && onSelectMeeting && 'hover:brightness-95'
+            )}
+            title={`${format(entry.start, 'p')} ${entry.title}`}
+            onClick={meeting && onSelectMeeting ? (e) => {
+                // Otherwise the day cell underneath switches to day view
+                e.stopPropagation();
+                onSelectMeeting(meeting);
+            } : undefined}
+        >
+            <span className="font-medium">{format(entry.start, 'h:mm')}</span> {entry.title}
+        </div>
+    );
+}
+
+function DayAgenda({ entries, onSelectMeeting, onSkipOccurrence }: EntryProps & { entries: CalendarEntry[] }) {
+    if (entries.length === 0) {
+        return (
+            <div className="text-center py-12 text-muted-foreground">
+                <CalendarDays className="w-8 h-8 mx-auto mb-2 opacity-50" />
+                <p>Nothing scheduled</p>
+            </div>
+        );
+    }
+
+    return (
+        <div className="space-y-2">
+            {entries.map(entry => {
+                const link = entry.meeting?.joinUrl || entry.meeting?.meetingLink;
+                const meeting = editableMeeting(entry);
+                return (
+                    <div key={entry.id} className={cn('flex items-center gap-4 rounded-lg border p-3', entryColor(entry))}>
+                        <div className="w-28 shrink-0 text-sm font-medium">
+                            {format(entry.start, 'p')} – {format(entry.end, 'p')}
+                        </div>
+                        <div className="flex-1 min-w-0">
+                            <p className="font-medium text-foreground truncate">{entry.title}</p>
+                            <div className="flex items-center gap-3 text-xs text-muted-foreground mt-0.5">
+                                {entry.meeting ? (
+                                    <>
+                                        <span>{entry.meeting.platform === 'google' ? 'Google Meet' : 'Microsoft Teams'}</span>
+                                        <span className="flex items-center gap-1">
+                                            <Users className="w-3 h-3" />
+                                            {entry.meeting.attendees.length}
+                                        </span>
+                                        {entry.originalStart && (
+                                            <span className="flex items-center gap-1">
+                                                <Repeat className="w-3 h-3" />
+                                                Repeats
+                                            </span>
+                                        )}
+                                    </>
+                                ) : (
+                                    <Badge variant="outline" className="text-[10px]">{entry.item?.source}</Badge>
+                                )}
+                            </div>
+                        </div>
+                        {link && entry.meeting?.status === 'scheduled' && (
+                            <Button size="sm" variant="outline" asChild>
+                                <a href={link} target="_blank" rel="noopener noreferrer">
+                                    <Video className="w-4 h-4 mr-2" />
+                                    Join
+                                </a>
+                            </Button>
+                        )}
+                        {meeting && entry.originalStart && onSkipOccurrence && (
+                            <Button size="sm" variant="ghost" onClick={() => onSkipOccurrence(meeting, entry.originalStart)}>
+                                <SkipForward className="w-4 h-4 mr-2" />
+                                Skip
+                            </Button>
+                        )}
+                        {meeting && onSelectMeeting && (
+                            <Button size="sm" variant="ghost" onClick={() => onSelectMeeting(meeting)}>
+                                <Edit className="w-4 h-4 mr-2" />
+                                {entry.originalStart ? 'Edit series' : 'Edit'}
+                            </Button>
+                        )}
+                    </div>
+                );
+            })}
+        </div>
+    );
+}
@@ -0,0 +1,147 @@
+import { useEffect, useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { Loader2, Plus, X } from 'lucide-react';
+
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { useAuth } from '@/contexts/AuthContext';
+import { MeetingService } from '@/services/api';
+import { Meeting, MeetingFollowUp } from '@/lib/types';
+
+interface MeetingFollowUpDialogProps {
+    meeting: Meeting | null;
+    onOpenChange: (open: boolean) => void;
+}
+
+export function MeetingFollowUpDialog({ meeting, onOpenChange }: MeetingFollowUpDialogProps) {
+    const { currentUser } = useAuth();
+    const queryClient = useQueryClient();
+    const [notes, setNotes] = useState('');
+    const [actionItems, setActionItems] = useState<string[]>(['']);
+
+    // Start from whatever was captured before, fresh for each meeting
+    useEffect(() => {
+        setNotes(meeting?.notes ?? '');
+        setActionItems(['']);
+    }, [meeting]);
+
+    const followUpMutation = useMutation({
+        mutationFn: ({ id, followUp }: { id: string; followUp: MeetingFollowUp }) =>
+            MeetingService.recordFollowUp(id, followUp),
+        onSuccess: ({ meeting: saved, items }) => {
+            if (items.length > 0) {
+                toast.success(`${items.length} action item${items.length === 1 ? '' : 's'} added`, {
+                    description: saved.threadId ? 'You will find them in the meeting\'s thread.' : undefined
+                });
+            } else {
+                toast.success('Meeting notes saved');
+            }
+            queryClient.invalidateQueries({ queryKey: ['meetings', currentUser?.id] });
+            queryClient.invalidateQueries({ queryKey: ['items', currentUser?.id] });
+            if (saved.threadId) {
+                queryClient.invalidateQueries({ queryKey: ['threadItems', saved.threadId] });
+                queryClient.invalidateQueries({ queryKey: ['thread', saved.threadId] });
+            }
+            onOpenChange(false);
+        },
+        onError: () => {
+            toast.error('Failed to save meeting notes');
+        }
+    });
+
+    const submit = (followUp: MeetingFollowUp) => {
+        if (meeting) followUpMutation.mutate({ id: meeting.id, followUp });
+    };
+
+    const updateActionItem = (index: number, value: string) => {
+        setActionItems(prev => prev.map((item, i) => i === index ? value : item));
+    };
+
+    return (
+        <Dialog open={!!meeting} onOpenChange={onOpenChange}>
+            <DialogContent className="max-w-lg">
+                <DialogHeader>
+                    <DialogTitle>Follow up on "{meeting?.title}"</DialogTitle>
+                    <DialogDescription>
+                        Capture what was decided. Each action item becomes a task
+                        {meeting?.threadId ? ' in the linked thread' : ''}.
+                    </DialogDescription>
+                </DialogHeader>
+
+                <div className="space-y-4 py-2">
+                    <div className="space-y-2">
+                        <Label htmlFor="meeting-notes">Notes</Label>
+                        <Textarea
+                            id="meeting-notes"
+                            rows={4}
+                            placeholder="Decisions, open questions, links..."
+                            value={notes}
+                            onChange={(e) => setNotes(e.target.value)}
+                        />
+                    </div>
+
+                    <div className="space-y-2">
+                        <Label>Action items</Label>
+                        {actionItems.map((item, index) => (
+                            <div key={index} className="flex gap-2">
+                                <Input
+                                    placeholder="e.g. Send revised budget to finance"
+                                    value={item}
+                                    onChange={(e) => updateActionItem(index, e.target.value)}
+                                    onKeyDown={(e) => {
+                                        if (e.key === 'Enter' && item.trim()) {
+                                            e.preventDefault();
+                                            setActionItems(prev => [...prev, '']);
+                                        }
+                                    }}
+                                />
+                                {actionItems.length > 1 && (
+                                    <Button
+                                        variant="ghost"
+                                        size="icon"
+                                        onClick={() => setActionItems(prev => prev.filter((_, i) => i !== index))}
+                                        aria-label="Remove action item"
+                                    >
+                                        <X className="w-4 h-4" />
+                                    </Button>
+                                )}
+                            </div>
+                        ))}
+                        <Button variant="ghost" size="sm" onClick={() => setActionItems(prev => [...prev, ''])}>
+                            <Plus className="w-4 h-4 mr-1" />
+                            Add action item
+                        </Button>
+                    </div>
+                </div>
+
+                <DialogFooter>
+                    <Button
+                        variant="ghost"
+                        onClick={() => submit({ notes: '', actionItems: [] })}
+                        disabled={followUpMutation.isPending}
+                    >
+                        Nothing to capture
+                    </Button>
+                    <Button
+                        onClick={() => submit({ notes, actionItems: actionItems.filter(item => item.trim()) })}
+                        disabled={followUpMutation.isPending}
+                    >
+                        {followUpMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                        Save follow-up
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+}
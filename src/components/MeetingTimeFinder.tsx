@@ -0,0 +1,171 @@
+import { useMemo, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { addDays, format, startOfHour } from 'date-fns';
+import { AlertTriangle, Globe, Loader2 } from 'lucide-react';
+
+import { FilterSelect } from '@/components/FilterSelect';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { useAuth } from '@/contexts/AuthContext';
+import { TeamService } from '@/services/api';
+import { findMeetingSlots, MeetingSlot } from '@/lib/scheduling';
+
+const DURATIONS = [15, 30, 45, 60, 90];
+const SEARCH_DAYS = 7;
+
+interface MeetingTimeFinderProps {
+    initialDuration?: number;
+    // Attendee emails are everyone picked except the organiser
+    onPick: (slot: MeetingSlot, attendeeEmails: string[]) => void;
+}
+
+export function MeetingTimeFinder({ initialDuration = 30, onPick }: MeetingTimeFinderProps) {
+    const { currentUser } = useAuth();
+    const [teamId, setTeamId] = useState<string>();
+    const [duration, setDuration] = useState(initialDuration);
+    const [excludedIds, setExcludedIds] = useState<string[]>([]);
+
+    const { data: teams = [], isLoading: isLoadingTeams } = useQuery({
+        queryKey: ['teams'],
+        queryFn: TeamService.getMyTeams
+    });
+    const team = teams.find(t => t.id === teamId) ?? teams[0];
+
+    // Whole hours keep the query key stable between renders
+    const from = startOfHour(new Date()).toISOString();
+    const { data: availability, isLoading: isLoadingAvailability } = useQuery({
+        queryKey: ['teamAvailability', team?.id, from],
+        queryFn: () => team
+            ? TeamService.getAvailability(team.id, new Date(from), addDays(new Date(from), SEARCH_DAYS))
+            : Promise.resolve([]),
+        enabled: !!team
+    });
+
+    const timeZone = currentUser?.preferences?.timezone || Intl.DateTimeFormat().resolvedOptions().timeZone;
+    const members = useMemo(() => availability ?? [], [availability]);
+    const attendees = useMemo(
+        () => members.filter(member => !excludedIds.includes(member.userId)),
+        [members, excludedIds]
+    );
+
+    const slots = useMemo(() => findMeetingSlots(attendees, {
+        from: new Date(),
+        to: addDays(new Date(from), SEARCH_DAYS),
+        durationMinutes: duration,
+        timeZone,
+    }), [attendees, from, duration, timeZone]);
+
+    // The dialog's own times may already ask for an unusual length
+    const durations = Array.from(new Set([...DURATIONS, duration])).sort((a, b) => a - b);
+
+    const nameOf = (userId: string) => members.find(m => m.userId === userId)?.name || 'Teammate';
+
+    const toggleMember = (userId: string, included: boolean) => {
+        setExcludedIds(prev => included ? prev.filter(id => id !== userId) : [...prev, userId]);
+    };
+
+    const pick = (slot: MeetingSlot) => {
+        const emails = attendees
+            .filter(member => member.userId !== currentUser?.id && member.email)
+            .map(member => member.email as string);
+        onPick(slot, emails);
+    };
+
+    if (isLoadingTeams) {
+        return (
+            <div className="flex justify-center p-6">
+                <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+            </div>
+        );
+    }
+
+    if (!team) {
+        return (
+            <p className="text-sm text-muted-foreground p-4 text-center">
+                Join a team to find a time that works for your teammates.
+            </p>
+        );
+    }
+
+    return (
+        <div className="space-y-4 rounded-lg border bg-muted/30 p-4">
+            <div className="flex flex-wrap gap-2">
+                <FilterSelect
+                    value={team.id}
+                    onChange={(id) => {
+                        setTeamId(id);
+                        setExcludedIds([]);
+                    }}
+                    options={teams.map(t => ({ value: t.id, label: t.name }))}
+                    className="w-[200px]"
+                />
+                <FilterSelect
+                    value={String(duration)}
+                    onChange={(value) => value && setDuration(Number(value))}
+                    options={durations.map(minutes => ({ value: String(minutes), label: `${minutes} min` }))}
+                    className="w-[110px]"
+                />
+            </div>
+
+            <div className="flex flex-wrap gap-x-4 gap-y-2">
+                {members.map(member => (
+                    <label key={member.userId} className="flex items-center gap-2 text-sm cursor-pointer">
+                        <Checkbox
+                            checked={!excludedIds.includes(member.userId)}
+                            onCheckedChange={(checked) => toggleMember(member.userId, checked === true)}
+                        />
+                        {member.name || member.email}
+                        {member.userId === currentUser?.id && <span className="text-muted-foreground">(you)</span>}
+                    </label>
+                ))}
+            </div>
+
+            {isLoadingAvailability ? (
+                <div className="flex justify-center p-4">
+                    <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+                </div>
+            ) : slots.length === 0 ? (
+                <p className="text-sm text-muted-foreground text-center py-2">
+                    No free {duration}-minute slot in the next {SEARCH_DAYS} days.
+                </p>
+            ) : (
+                <div className="space-y-2">
+                    {slots.map(slot => {
+                        const outside = slot.attendees.filter(a => a.outsideHours);
+                        const elsewhere = slot.attendees.filter(a => a.otherTimezone);
+                        return (
+                            <div key={slot.start.toISOString()} className="flex items-center gap-3 rounded-md border bg-background p-3">
+                                <div className="flex-1 min-w-0 space-y-1">
+                                    <div className="flex items-center gap-2">
+                                        <span className="font-medium text-sm">
+                                            {format(slot.start, 'EEE, MMM d')} · {format(slot.start, 'p')} – {format(slot.end, 'p')}
+                                        </span>
+                                        {outside.length === 0 && (
+                                            <Badge variant="secondary" className="text-[10px]">Everyone in working hours</Badge>
+                                        )}
+                                    </div>
+                                    {outside.length > 0 && (
+                                        <p className="flex items-center gap-1 text-xs text-amber-600">
+                                            <AlertTriangle className="w-3 h-3" />
+                                            Outside working hours for {outside.map(a => nameOf(a.userId)).join(', ')}
+                                        </p>
+                                    )}
+                                    {elsewhere.length > 0 && (
+                                        <p className="flex items-center gap-1 text-xs text-muted-foreground">
+                                            <Globe className="w-3 h-3" />
+                                            {elsewhere.map(a => `${nameOf(a.userId)}: ${a.localTime} (${a.timeZone})`).join(' · ')}
+                                        </p>
+                                    )}
+                                </div>
+                                <Button size="sm" variant="outline" onClick={() => pick(slot)}>
+                                    Use
+                                </Button>
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+        </div>
+    );
+}
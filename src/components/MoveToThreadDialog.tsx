@@ -0,0 +1,70 @@
+import { useQuery } from '@tanstack/react-query';
+import { Check, Layers } from 'lucide-react';
+
+import {
+    CommandDialog,
+    CommandEmpty,
+    CommandGroup,
+    CommandInput,
+    CommandItem,
+    CommandList,
+} from '@/components/ui/command';
+
+import { ThreadService } from '@/services/api';
+import { useAuth } from '@/contexts/AuthContext';
+import { useMoveItems } from '@/hooks/use-move-items';
+import { WorkItem } from '@/lib/types';
+import { cn } from '@/lib/utils';
+
+interface MoveToThreadDialogProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    items: WorkItem[];
+    onMoved?: () => void;
+}
+
+export function MoveToThreadDialog({ open, onOpenChange, items, onMoved }: MoveToThreadDialogProps) {
+    const { currentUser } = useAuth();
+    const moveItems = useMoveItems();
+
+    const { data: threads = [] } = useQuery({
+        queryKey: ['threads', currentUser?.id],
+        queryFn: () => currentUser ? ThreadService.getUserThreads(currentUser.id) : Promise.resolve([]),
+        enabled: open && !!currentUser,
+    });
+
+    // Only flag a thread as current when every item being moved already lives there
+    const currentThreadId = items.length > 0 && items.every(item => item.threadId === items[0].threadId)
+        ? items[0].threadId
+        : undefined;
+
+    const moveTo = (threadId: string) => {
+        onOpenChange(false);
+        moveItems.mutate({ items, threadId }, { onSuccess: () => onMoved?.() });
+    };
+
+    return (
+        <CommandDialog open={open} onOpenChange={onOpenChange}>
+            <CommandInput
+                placeholder={items.length === 1 ? `Move "${items[0].title}" to…` : `Move ${items.length} items to…`}
+            />
+            <CommandList>
+                <CommandEmpty>No threads found</CommandEmpty>
+                <CommandGroup heading="Threads">
+                    {threads.map((thread) => (
+                        <CommandItem
+                            key={thread.id}
+                            value={`${thread.title} ${thread.id}`}
+                            disabled={thread.id === currentThreadId}
+                            onSelect={() => moveTo(thread.id)}
+                        >
+                            <Layers className="mr-2" />
+                            <span className="flex-1 truncate">{thread.title}</span>
+                            <Check className={cn('ml-2', thread.id === currentThreadId ? 'opacity-100' : 'opacity-0')} />
+                        </CommandItem>
+                    ))}
+                </CommandGroup>
+            </CommandList>
+        </CommandDialog>
+    );
+}
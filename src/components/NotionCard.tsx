@@ -0,0 +1,340 @@
+import { useEffect, useRef, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useSearchParams } from 'react-router-dom';
+import { toast } from 'sonner';
+import { BookOpen, KeyRound, Loader2, RefreshCw, Unplug } from 'lucide-react';
+
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import { FilterSelect } from '@/components/FilterSelect';
+import { useAuth } from '@/contexts/AuthContext';
+import { IntegrationService } from '@/services/api';
+import { guessStatus } from '@/lib/notion';
+import { NotionCredentials, NotionMapping, NotionSource, WorkItem } from '@/lib/types';
+
+const OAUTH_URL = 'https://api.notion.com/v1/oauth/authorize';
+const OAUTH_STATE = 'notion';
+
+const STATUS_OPTIONS: { value: WorkItem['status']; label: string }[] = [
+    { value: 'todo', label: 'To do' },
+    { value: 'in-progress', label: 'In progress' },
+    { value: 'completed', label: 'Completed' },
+];
+
+const redirectUri = () => `${window.location.origin}/integrations`;
+
+const propertiesOf = (source: NotionSource, types: string[]) =>
+    source.properties.filter(p => types.includes(p.type)).map(p => ({ value: p.name, label: p.name }));
+
+const statusValuesFor = (source: NotionSource, statusProperty?: string) => {
+    const options = source.properties.find(p => p.name === statusProperty)?.options ?? [];
+    return Object.fromEntries(options.map(option => [option, guessStatus(option)]));
+};
+
+// The first property of each kind is usually the right one
+const defaultMapping = (source: NotionSource): NotionMapping => {
+    const pick = (types: string[]) => source.properties.find(p => types.includes(p.type))?.name;
+    const statusProperty = pick(['status', 'select', 'checkbox']);
+    return {
+        sourceId: source.id,
+        statusProperty,
+        statusValues: statusValuesFor(source, statusProperty),
+        dueDateProperty: pick(['date']),
+        assigneeProperty: pick(['people']),
+    };
+};
+
+interface SourceMappingProps {
+    source: NotionSource;
+    mapping: NotionMapping;
+    onChange: (mapping: NotionMapping) => void;
+}
+
+function SourceMapping({ source, mapping, onChange }: SourceMappingProps) {
+    const statusValues = mapping.statusValues ?? {};
+
+    return (
+        <div className="ml-6 space-y-2 text-xs">
+            <div className="grid grid-cols-[5.5rem_1fr] items-center gap-2">
+                <span className="text-muted-foreground">Status</span>
+                <FilterSelect
+                    value={mapping.statusProperty}
+                    onChange={(statusProperty) => onChange({
+                        ...mapping,
+                        statusProperty,
+                        statusValues: statusValuesFor(source, statusProperty),
+                    })}
+                    options={propertiesOf(source, ['status', 'select', 'checkbox'])}
+                    anyLabel="Not mapped"
+                    className="h-8 text-xs"
+                />
+                <span className="text-muted-foreground">Due date</span>
+                <FilterSelect
+                    value={mapping.dueDateProperty}
+                    onChange={(dueDateProperty) => onChange({ ...mapping, dueDateProperty })}
+                    options={propertiesOf(source, ['date'])}
+                    anyLabel="Not mapped"
+                    className="h-8 text-xs"
+                />
+                <span className="text-muted-foreground">Assignee</span>
+                <FilterSelect
+                    value={mapping.assigneeProperty}
+                    onChange={(assigneeProperty) => onChange({ ...mapping, assigneeProperty })}
+                    options={propertiesOf(source, ['people'])}
+                    anyLabel="Not mapped"
+                    className="h-8 text-xs"
+                />
+            </div>
+            {Object.keys(statusValues).length > 0 && (
+                <div className="grid grid-cols-[5.5rem_1fr] items-center gap-2 border-l pl-2">
+                    {Object.entries(statusValues).map(([option, status]) => (
+                        <div key={option} className="contents">
+                            <span className="truncate" title={option}>{option}</span>
+                            <FilterSelect
+                                value={status}
+                                onChange={(next) => onChange({
+                                    ...mapping,
+                                    statusValues: { ...statusValues, [option]: next as WorkItem['status'] },
+                                })}
+                                options={STATUS_OPTIONS}
+                                className="h-8 text-xs"
+                            />
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
+
+// Notion databases and pages as threads: each picked source becomes a thread
+// and its rows become tasks, with the chosen properties mapped onto status,
+// due date and assignee
+export function NotionCard() {
+    const { currentUser, updateCurrentUser } = useAuth();
+    const queryClient = useQueryClient();
+    const [searchParams, setSearchParams] = useSearchParams();
+    const [apiKey, setApiKey] = useState('');
+    const [selection, setSelection] = useState<Record<string, NotionMapping> | null>(null);
+    const connection = currentUser?.integrations?.notion;
+    const clientId = import.meta.env.VITE_NOTION_CLIENT_ID;
+
+    const { data: sources = [], isLoading: sourcesLoading } = useQuery({
+        queryKey: ['notionSources', currentUser?.id],
+        queryFn: IntegrationService.getNotionSources,
+        enabled: !!connection?.connected
+    });
+
+    // Until the user touches the picker it shows what was imported last time
+    const mappings = selection ?? Object.fromEntries((connection?.mappings ?? []).map(m => [m.sourceId, m]));
+
+    const connectMutation = useMutation({
+        mutationFn: (credentials: NotionCredentials) => IntegrationService.connectNotion(credentials),
+        onSuccess: (user) => {
+            updateCurrentUser(user);
+            setApiKey('');
+            toast.success(`Connected to ${user.integrations?.notion?.workspace ?? 'Notion'}`, {
+                description: 'Pick the databases and pages to import.'
+            });
+        },
+        onError: (error: { response?: { data?: { error?: string } } }) => {
+            toast.error('Could not connect to Notion', { description: error.response?.data?.error });
+        }
+    });
+
+    const disconnectMutation = useMutation({
+        mutationFn: IntegrationService.disconnectNotion,
+        onSuccess: (user) => {
+            updateCurrentUser(user);
+            setSelection(null);
+            queryClient.removeQueries({ queryKey: ['notionSources', currentUser?.id] });
+            toast.success('Notion disconnected', { description: 'Items already imported were kept.' });
+        },
+        onError: () => {
+            toast.error('Failed to disconnect Notion');
+        }
+    });
+
+    const syncMutation = useMutation({
+        mutationFn: (next?: NotionMapping[]) => IntegrationService.syncNotion(next),
+        onSuccess: ({ imported, updated, threads, user }) => {
+            updateCurrentUser(user);
+            setSelection(null);
+            toast.success(`Imported ${imported} Notion item${imported === 1 ? '' : 's'}`, {
+                description: [
+                    `Into ${threads.length} thread${threads.length === 1 ? '' : 's'}.`,
+                    updated > 0 ? `${updated} already imported before were updated.` : '',
+                ].filter(Boolean).join(' ')
+            });
+            queryClient.invalidateQueries({ queryKey: ['threads', currentUser?.id] });
+            queryClient.invalidateQueries({ queryKey: ['items', currentUser?.id] });
+        },
+        onError: () => {
+            toast.error('Failed to import from Notion');
+        }
+    });
+
+    // Notion sends the user back here with ?code=...&state=notion
+    const { mutate: connect } = connectMutation;
+    const handledCode = useRef<string | null>(null);
+    useEffect(() => {
+        const code = searchParams.get('code');
+        if (!code || searchParams.get('state') !== OAUTH_STATE || handledCode.current === code) return;
+        handledCode.current = code;
+        connect({ code, redirectUri: redirectUri() });
+        setSearchParams({}, { replace: true });
+    }, [searchParams, setSearchParams, connect]);
+
+    const connectWithOAuth = () => {
+        const params = new URLSearchParams({
+            client_id: clientId,
+            response_type: 'code',
+            owner: 'user',
+            redirect_uri: redirectUri(),
+            state: OAUTH_STATE,
+        });
+        window.location.assign(`${OAUTH_URL}?${params}`);
+    };
+
+    const toggleSource = (source: NotionSource, checked: boolean) => {
+        const next = { ...mappings };
+        if (checked) next[source.id] = connection?.mappings?.find(m => m.sourceId === source.id) ?? defaultMapping(source);
+        else delete next[source.id];
+        setSelection(next);
+    };
+
+    const handleDisconnect = () => {
+        if (confirm('Disconnect Notion? Threads and items already imported will stay.')) {
+            disconnectMutation.mutate();
+        }
+    };
+
+    const selected = Object.values(mappings);
+    const savedCount = connection?.mappings?.length ?? 0;
+
+    return (
+        <Card className="border-t-4 border-t-neutral-800 dark:border-t-neutral-300 shadow-sm hover:shadow-md transition-shadow">
+            <CardHeader>
+                <div className="flex items-center gap-3 mb-2">
+                    <div className="p-2 bg-neutral-100 dark:bg-neutral-800 rounded-lg">
+                        <BookOpen className="w-6 h-6 text-neutral-800 dark:text-neutral-200" />
+                    </div>
+                    <div className="flex-1">
+                        <CardTitle>Notion</CardTitle>
+                        <CardDescription>
+                            {connection?.connected
+                                ? `Connected to ${connection.workspace ?? 'your workspace'}`
+                                : 'Import databases and pages as threads'}
+                        </CardDescription>
+                    </div>
+                    {connection?.connected && (
+                        <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={handleDisconnect}
+                            disabled={disconnectMutation.isPending}
+                            aria-label="Disconnect Notion"
+                        >
+                            <Unplug className="w-4 h-4" />
+                        </Button>
+                    )}
+                </div>
+            </CardHeader>
+            <CardContent className="space-y-4">
+                {!connection?.connected ? (
+                    <div className="space-y-2">
+                        <p className="text-xs text-muted-foreground">
+                            Create an internal integration in Notion, share your databases with it and paste its secret here.
+                        </p>
+                        <form
+                            className="flex gap-2"
+                            onSubmit={(e) => {
+                                e.preventDefault();
+                                if (apiKey.trim()) connectMutation.mutate({ apiKey: apiKey.trim() });
+                            }}
+                        >
+                            <Input
+                                type="password"
+                                value={apiKey}
+                                onChange={(e) => setApiKey(e.target.value)}
+                                placeholder="ntn_..."
+                                className="font-mono text-xs"
+                                aria-label="Notion integration secret"
+                            />
+                            <Button type="submit" variant="outline" disabled={!apiKey.trim() || connectMutation.isPending}>
+                                {connectMutation.isPending
+                                    ? <Loader2 className="h-4 w-4 animate-spin" />
+                                    : <KeyRound className="h-4 w-4" />}
+                            </Button>
+                        </form>
+                    </div>
+                ) : sourcesLoading ? (
+                    <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                        <Loader2 className="h-4 w-4 animate-spin" />
+                        Loading your workspace...
+                    </div>
+                ) : sources.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">
+                        Nothing has been shared with the integration yet. Share a database or page with it in Notion.
+                    </p>
+                ) : (
+                    <div className="space-y-3 max-h-80 overflow-y-auto pr-1">
+                        {sources.map(source => (
+                            <div key={source.id} className="space-y-2">
+                                <label className="flex items-center gap-2 text-sm cursor-pointer">
+                                    <Checkbox
+                                        checked={!!mappings[source.id]}
+                                        onCheckedChange={(checked) => toggleSource(source, checked === true)}
+                                    />
+                                    <span>{source.icon ?? (source.type === 'database' ? '🗂️' : '📄')}</span>
+                                    <span className="font-medium truncate">{source.title}</span>
+                                    {source.type === 'page' && (
+                                        <span className="text-xs text-muted-foreground">sub-pages as documents</span>
+                                    )}
+                                </label>
+                                {mappings[source.id] && source.type === 'database' && (
+                                    <SourceMapping
+                                        source={source}
+                                        mapping={mappings[source.id]}
+                                        onChange={(mapping) => setSelection({ ...mappings, [source.id]: mapping })}
+                                    />
+                                )}
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </CardContent>
+            <CardFooter className="gap-2">
+                {!connection?.connected ? (
+                    clientId && (
+                        <Button className="w-full" onClick={connectWithOAuth} disabled={connectMutation.isPending}>
+                            Connect with Notion
+                        </Button>
+                    )
+                ) : (
+                    <>
+                        <Button
+                            variant="outline"
+                            className="flex-1"
+                            onClick={() => syncMutation.mutate(undefined)}
+                            disabled={savedCount === 0 || syncMutation.isPending}
+                        >
+                            <RefreshCw className={`mr-2 h-4 w-4 ${syncMutation.isPending ? 'animate-spin' : ''}`} />
+                            Sync Now
+                        </Button>
+                        <Button
+                            className="flex-1"
+                            onClick={() => syncMutation.mutate(selected)}
+                            disabled={selection === null || syncMutation.isPending}
+                        >
+                            {syncMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                            Import {selected.length} source{selected.length === 1 ? '' : 's'}
+                        </Button>
+                    </>
+                )}
+            </CardFooter>
+        </Card>
+    );
+}
@@ -0,0 +1,110 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Check, UserPlus, X } from 'lucide-react';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+    Command,
+    CommandEmpty,
+    CommandGroup,
+    CommandInput,
+    CommandItem,
+    CommandList,
+} from '@/components/ui/command';
+import {
+    Popover,
+    PopoverContent,
+    PopoverTrigger,
+} from '@/components/ui/popover';
+
+import { TeamService } from '@/services/api';
+import { useAuth } from '@/contexts/AuthContext';
+import { cn } from '@/lib/utils';
+
+interface PeoplePickerProps {
+    people: string[];
+    onChange: (people: string[]) => void;
+    className?: string;
+}
+
+export function PeoplePicker({ people, onChange, className }: PeoplePickerProps) {
+    const { currentUser } = useAuth();
+    const [open, setOpen] = useState(false);
+    const [search, setSearch] = useState('');
+
+    const { data: teams = [] } = useQuery({
+        queryKey: ['teams'],
+        queryFn: TeamService.getMyTeams,
+        enabled: open,
+    });
+
+    // Everyone the user shares a team with, by display name
+    const teammates = Array.from(new Set(
+        teams.flatMap(team => team.members)
+            .filter(member => member.userId !== currentUser?.id)
+            .map(member => member.name || member.email)
+            .filter(Boolean)
+    )).sort();
+
+    const toggle = (person: string) => {
+        onChange(people.includes(person)
+            ? people.filter(p => p !== person)
+            : [...people, person]);
+    };
+
+    const typed = search.trim();
+    const canAddTyped = typed && !teammates.includes(typed) && !people.includes(typed);
+
+    return (
+        <div className={cn('flex flex-wrap items-center gap-1.5', className)}>
+            {people.map((person) => (
+                <Badge key={person} variant="secondary" className="gap-1 pr-1">
+                    {person}
+                    <button
+                        type="button"
+                        onClick={() => toggle(person)}
+                        className="rounded-sm opacity-60 hover:opacity-100"
+                        aria-label={`Remove ${person}`}
+                    >
+                        <X className="w-3 h-3" />
+                    </button>
+                </Badge>
+            ))}
+            <Popover open={open} onOpenChange={(next) => { setOpen(next); setSearch(''); }}>
+                <PopoverTrigger asChild>
+                    <Button variant="ghost" size="sm" className="h-6 px-2 text-xs">
+                        <UserPlus className="w-3.5 h-3.5 mr-1" />
+                        Add person
+                    </Button>
+                </PopoverTrigger>
+                <PopoverContent className="w-64 p-0" align="start">
+                    <Command>
+                        <CommandInput placeholder="Search teammates…" value={search} onValueChange={setSearch} />
+                        <CommandList>
+                            <CommandEmpty>No teammates found</CommandEmpty>
+                            {teammates.length > 0 && (
+                                <CommandGroup heading="Teammates">
+                                    {teammates.map((person) => (
+                                        <CommandItem key={person} value={person} onSelect={() => toggle(person)}>
+                                            <Check className={cn('w-4 h-4 mr-2', people.includes(person) ? 'opacity-100' : 'opacity-0')} />
+                                            {person}
+                                        </CommandItem>
+                                    ))}
+                                </CommandGroup>
+                            )}
+                            {canAddTyped && (
+                                <CommandGroup>
+                                    <CommandItem value={typed} onSelect={() => { toggle(typed); setSearch(''); }}>
+                                        <UserPlus className="w-4 h-4 mr-2" />
+                                        Add "{typed}"
+                                    </CommandItem>
+                                </CommandGroup>
+                            )}
+                        </CommandList>
+                    </Command>
+                </PopoverContent>
+            </Popover>
+        </div>
+    );
+}
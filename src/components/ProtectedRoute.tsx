@@ -1,4 +1,4 @@
-import { Navigate } from 'react-router-dom';
+import { Navigate, useLocation } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
 import { ReactNode } from 'react';
 
@@ -8,6 +8,7 @@ interface ProtectedRouteProps {
 
 export function ProtectedRoute({ children }: ProtectedRouteProps) {
     const { currentUser, loading } = useAuth();
+    const location = useLocation();
 
     if (loading) {
         return (
@@ -21,7 +22,9 @@ export function ProtectedRoute({ children }: ProtectedRouteProps) {
     }
 
     if (!currentUser) {
-        return <Navigate to="/login" replace />;
+        // Remember where the user was so signing back in lands them there again
+        const returnTo = encodeURIComponent(location.pathname + location.search);
+        return <Navigate to={`/login?returnTo=${returnTo}`} replace />;
     }
 
     return <>{children}</>;
@@ -0,0 +1,142 @@
+import { addMonths, endOfDay, format } from 'date-fns';
+import { Repeat } from 'lucide-react';
+
+import { FilterSelect } from '@/components/FilterSelect';
+import { Input } from '@/components/ui/input';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import {
+    describeRule,
+    formatRRule,
+    Frequency,
+    parseRRule,
+    RecurrenceRule,
+    Weekday,
+    WEEKDAYS,
+    weekdayOf,
+} from '@/lib/recurrence';
+
+const FREQUENCIES: { value: Frequency; label: string; unit: string }[] = [
+    { value: 'DAILY', label: 'Daily', unit: 'day' },
+    { value: 'WEEKLY', label: 'Weekly', unit: 'week' },
+    { value: 'MONTHLY', label: 'Monthly', unit: 'month' },
+];
+
+type Ending = 'until' | 'count';
+
+interface RecurrenceEditorProps {
+    // An RRULE value, or empty for a one-off meeting
+    value: string;
+    onChange: (value: string) => void;
+    // The first occurrence; weekly rules start out on its weekday
+    start: Date | null;
+}
+
+export function RecurrenceEditor({ value, onChange, start }: RecurrenceEditorProps) {
+    const rule = value ? parseRRule(value) : null;
+    const firstDay = start ?? new Date();
+
+    const update = (changes: Partial<RecurrenceRule>) => onChange(formatRRule({ ...rule, ...changes }));
+
+    const setFrequency = (freq?: string) => {
+        if (!freq) return onChange('');
+        onChange(formatRRule({
+            interval: 1,
+            ...rule,
+            freq: freq as Frequency,
+            byDay: freq === 'WEEKLY' ? rule?.byDay ?? [weekdayOf(firstDay)] : undefined,
+        }));
+    };
+
+    const setEnding = (ending?: string) => {
+        if (ending === 'until') update({ until: endOfDay(addMonths(firstDay, 3)), count: undefined });
+        else if (ending === 'count') update({ until: undefined, count: 10 });
+        else update({ until: undefined, count: undefined });
+    };
+
+    const ending: Ending | undefined = rule?.until ? 'until' : rule?.count ? 'count' : undefined;
+    const unit = FREQUENCIES.find(f => f.value === rule?.freq)?.unit;
+
+    return (
+        <div className="space-y-3">
+            <div className="flex flex-wrap items-center gap-2">
+                <FilterSelect
+                    value={rule?.freq}
+                    onChange={setFrequency}
+                    options={FREQUENCIES}
+                    anyLabel="Does not repeat"
+                    className="w-[170px]"
+                />
+                {rule && (
+                    <>
+                        <span className="text-sm text-muted-foreground">every</span>
+                        <Input
+                            type="number"
+                            min={1}
+                            className="w-20"
+                            value={rule.interval}
+                            onChange={(e) => update({ interval: Math.max(1, Number(e.target.value) || 1) })}
+                        />
+                        <span className="text-sm text-muted-foreground">{unit}{rule.interval === 1 ? '' : 's'}</span>
+                    </>
+                )}
+            </div>
+
+            {rule?.freq === 'WEEKLY' && (
+                <ToggleGroup
+                    type="multiple"
+                    size="sm"
+                    variant="outline"
+                    className="justify-start"
+                    value={rule.byDay ?? [weekdayOf(firstDay)]}
+                    // A weekly meeting has to happen on some day
+                    onValueChange={(days: Weekday[]) => days.length > 0 && update({ byDay: days })}
+                >
+                    {WEEKDAYS.map(day => (
+                        <ToggleGroupItem key={day} value={day} className="w-10">
+                            {day.charAt(0) + day.charAt(1).toLowerCase()}
+                        </ToggleGroupItem>
+                    ))}
+                </ToggleGroup>
+            )}
+
+            {rule && (
+                <div className="flex flex-wrap items-center gap-2">
+                    <FilterSelect
+                        value={ending}
+                        onChange={setEnding}
+                        options={[
+                            { value: 'until', label: 'Until a date' },
+                            { value: 'count', label: 'After a number of times' },
+                        ]}
+                        anyLabel="Never ends"
+                        className="w-[210px]"
+                    />
+                    {ending === 'until' && (
+                        <Input
+                            type="date"
+                            className="w-[170px]"
+                            value={format(rule.until, 'yyyy-MM-dd')}
+                            onChange={(e) => e.target.value && update({ until: endOfDay(new Date(`${e.target.value}T00:00`)) })}
+                        />
+                    )}
+                    {ending === 'count' && (
+                        <Input
+                            type="number"
+                            min={1}
+                            className="w-20"
+                            value={rule.count}
+                            onChange={(e) => update({ count: Math.max(1, Number(e.target.value) || 1) })}
+                        />
+                    )}
+                </div>
+            )}
+
+            {rule && (
+                <p className="flex items-center gap-1.5 text-xs text-muted-foreground">
+                    <Repeat className="w-3 h-3" />
+                    {describeRule(rule)}
+                </p>
+            )}
+        </div>
+    );
+}
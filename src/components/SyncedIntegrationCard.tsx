@@ -0,0 +1,167 @@
+import { ReactNode, useState } from 'react';
+import { format, formatDistanceToNow } from 'date-fns';
+import { AlertCircle, CheckCircle2, ChevronDown, LucideIcon, RefreshCw, RotateCcw, Unplug } from 'lucide-react';
+
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { useIntegration } from '@/hooks/use-integration';
+import { IntegrationId, IntegrationStatus, SyncRun } from '@/lib/types';
+
+const TRIGGER_LABELS: Record<SyncRun['trigger'], string> = {
+    connect: 'First sync',
+    manual: 'Sync now',
+    scheduled: 'Scheduled',
+};
+
+function RunRow({ run }: { run: SyncRun }) {
+    return (
+        <li className="flex items-start gap-2 py-1">
+            {run.error
+                ? <AlertCircle className="w-3.5 h-3.5 mt-0.5 text-destructive flex-shrink-0" />
+                : <CheckCircle2 className="w-3.5 h-3.5 mt-0.5 text-green-500 flex-shrink-0" />}
+            <div className="min-w-0">
+                <p>
+                    <span className="font-medium">{format(run.startedAt, 'MMM d, p')}</span>
+                    <span className="text-muted-foreground">
+                        {' · '}{TRIGGER_LABELS[run.trigger]}{run.full && run.trigger !== 'connect' ? ', from scratch' : ''}
+                    </span>
+                </p>
+                <p className={run.error ? 'text-destructive break-words' : 'text-muted-foreground'}>
+                    {run.error ?? `${run.imported} new, ${run.updated} updated${run.removed ? `, ${run.removed} removed` : ''}`}
+                </p>
+            </div>
+        </li>
+    );
+}
+
+interface SyncedIntegrationCardProps {
+    id: IntegrationId;
+    status?: IntegrationStatus; // Still loading when missing
+    description: string;
+    icon: LucideIcon;
+    border: string; // Tailwind border-t colour
+    badge: string; // Tailwind classes for the icon tile
+    // Shown while disconnected: what the integration brings in and how to connect it
+    children: ReactNode;
+    connectControl?: ReactNode; // Footer while disconnected
+}
+
+// The shell every scheduled integration shares: sync status and run history
+// while connected, with Sync now, Resync from scratch and Disconnect
+export function SyncedIntegrationCard({
+    id,
+    status,
+    description,
+    icon: Icon,
+    border,
+    badge,
+    children,
+    connectControl,
+}: SyncedIntegrationCardProps) {
+    const { name, sync, disconnect } = useIntegration(id);
+    const [showHistory, setShowHistory] = useState(false);
+    const history = status?.history ?? [];
+    const lastRun = history[0];
+
+    const handleResync = () => {
+        if (confirm(`Resync ${name} from scratch? Everything is read again, including items you deleted here.`)) {
+            sync.mutate({ full: true });
+        }
+    };
+
+    const handleDisconnect = () => {
+        if (confirm(`Disconnect ${name}? Items already imported will stay.`)) {
+            disconnect.mutate();
+        }
+    };
+
+    return (
+        <Card className={`border-t-4 ${border} shadow-sm hover:shadow-md transition-shadow`}>
+            <CardHeader>
+                <div className="flex items-center gap-3 mb-2">
+                    <div className={`p-2 rounded-lg ${badge}`}>
+                        <Icon className="w-6 h-6" />
+                    </div>
+                    <div className="flex-1">
+                        <CardTitle>{name}</CardTitle>
+                        <CardDescription>
+                            {status?.connected && status.account ? `Connected as ${status.account}` : description}
+                        </CardDescription>
+                    </div>
+                    {status?.connected && (
+                        <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={handleDisconnect}
+                            disabled={disconnect.isPending}
+                            aria-label={`Disconnect ${name}`}
+                        >
+                            <Unplug className="w-4 h-4" />
+                        </Button>
+                    )}
+                </div>
+            </CardHeader>
+            <CardContent className="space-y-3">
+                {!status?.connected ? children : (
+                    <div className="bg-secondary/50 p-4 rounded-lg space-y-1 text-sm">
+                        <p>
+                            {status.itemCount} item{status.itemCount === 1 ? '' : 's'} imported
+                            {' · '}
+                            {status.lastSyncedAt
+                                ? `synced ${formatDistanceToNow(status.lastSyncedAt, { addSuffix: true })}`
+                                : 'not synced yet'}
+                        </p>
+                        {status.nextSyncAt && (
+                            <p className="text-muted-foreground">
+                                Next sync {status.nextSyncAt <= new Date()
+                                    ? 'any moment now'
+                                    : formatDistanceToNow(status.nextSyncAt, { addSuffix: true })}
+                            </p>
+                        )}
+                        {lastRun?.error && (
+                            <p className="flex items-start gap-1.5 text-destructive">
+                                <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                                Last sync failed: {lastRun.error}
+                            </p>
+                        )}
+                    </div>
+                )}
+                {history.length > 0 && (
+                    <div className="text-xs">
+                        <button
+                            type="button"
+                            className="flex items-center gap-1 text-muted-foreground hover:text-foreground"
+                            onClick={() => setShowHistory(!showHistory)}
+                        >
+                            <ChevronDown className={`w-3.5 h-3.5 transition-transform ${showHistory ? 'rotate-180' : ''}`} />
+                            Sync history ({history.length})
+                        </button>
+                        {showHistory && (
+                            <ul className="mt-1 max-h-48 overflow-y-auto divide-y">
+                                {history.map(run => <RunRow key={run.id} run={run} />)}
+                            </ul>
+                        )}
+                    </div>
+                )}
+            </CardContent>
+            <CardFooter className="gap-2">
+                {!status?.connected ? connectControl : (
+                    <>
+                        <Button
+                            className="flex-1"
+                            onClick={() => sync.mutate({})}
+                            disabled={sync.isPending}
+                        >
+                            <RefreshCw className={`mr-2 h-4 w-4 ${sync.isPending ? 'animate-spin' : ''}`} />
+                            {sync.isPending ? 'Syncing...' : 'Sync Now'}
+                        </Button>
+                        <Button variant="outline" onClick={handleResync} disabled={sync.isPending}>
+                            <RotateCcw className="mr-2 h-4 w-4" />
+                            Resync from scratch
+                        </Button>
+                    </>
+                )}
+            </CardFooter>
+        </Card>
+    );
+}
@@ -0,0 +1,62 @@
+import { useState } from 'react';
+import { X } from 'lucide-react';
+
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+
+interface TagInputProps {
+    tags: string[];
+    onChange: (tags: string[]) => void;
+    placeholder?: string;
+    className?: string;
+}
+
+export function TagInput({ tags, onChange, placeholder = 'Add tag…', className }: TagInputProps) {
+    const [draft, setDraft] = useState('');
+
+    const addTag = () => {
+        const tag = draft.trim();
+        setDraft('');
+        if (!tag || tags.some(t => t.toLowerCase() === tag.toLowerCase())) return;
+        onChange([...tags, tag]);
+    };
+
+    const removeTag = (tag: string) => {
+        onChange(tags.filter(t => t !== tag));
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+        if (e.key === 'Enter' || e.key === ',') {
+            e.preventDefault();
+            addTag();
+        } else if (e.key === 'Backspace' && !draft && tags.length > 0) {
+            removeTag(tags[tags.length - 1]);
+        }
+    };
+
+    return (
+        <div className={cn('flex flex-wrap items-center gap-1.5', className)}>
+            {tags.map((tag) => (
+                <Badge key={tag} variant="source" className="gap-1 pr-1">
+                    {tag}
+                    <button
+                        type="button"
+                        onClick={() => removeTag(tag)}
+                        className="rounded-sm opacity-60 hover:opacity-100"
+                        aria-label={`Remove ${tag}`}
+                    >
+                        <X className="w-3 h-3" />
+                    </button>
+                </Badge>
+            ))}
+            <input
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                onKeyDown={handleKeyDown}
+                onBlur={addTag}
+                placeholder={placeholder}
+                className="min-w-[80px] flex-1 bg-transparent text-xs outline-none placeholder:text-muted-foreground"
+            />
+        </div>
+    );
+}
@@ -0,0 +1,206 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Archive, ArchiveRestore, Copy, GitMerge, Loader2, MoreHorizontal, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+
+import { Button } from '@/components/ui/button';
+import {
+    DropdownMenu,
+    DropdownMenuContent,
+    DropdownMenuItem,
+    DropdownMenuSeparator,
+    DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from '@/components/ui/dialog';
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from '@/components/ui/select';
+
+import { ThreadService } from '@/services/api';
+import { useAuth } from '@/contexts/AuthContext';
+import { WorkThread } from '@/lib/types';
+
+// How long the undo action stays on screen after a delete
+const UNDO_WINDOW_MS = 6000;
+
+interface ThreadActionsMenuProps {
+    thread: WorkThread;
+    // Where to go once the thread is gone from the current view
+    onRemoved?: () => void;
+}
+
+export function ThreadActionsMenu({ thread, onRemoved }: ThreadActionsMenuProps) {
+    const navigate = useNavigate();
+    const queryClient = useQueryClient();
+    const { currentUser } = useAuth();
+    const [mergeOpen, setMergeOpen] = useState(false);
+    const [mergeSourceId, setMergeSourceId] = useState('');
+
+    const refreshThreads = () => {
+        queryClient.invalidateQueries({ queryKey: ['threads'] });
+        queryClient.invalidateQueries({ queryKey: ['archivedThreads'] });
+        queryClient.invalidateQueries({ queryKey: ['thread', thread.id] });
+    };
+
+    const { data: mergeCandidates = [] } = useQuery({
+        queryKey: ['threads', currentUser?.id],
+        queryFn: () => currentUser ? ThreadService.getUserThreads(currentUser.id) : Promise.resolve([]),
+        enabled: mergeOpen && !!currentUser,
+        select: (threads: WorkThread[]) => threads.filter(t => t.id !== thread.id),
+    });
+
+    const archiveMutation = useMutation({
+        mutationFn: () => thread.isArchived ? ThreadService.unarchive(thread.id) : ThreadService.archive(thread.id),
+        onSuccess: () => {
+            refreshThreads();
+            toast.success(thread.isArchived ? 'Thread restored from archive' : 'Thread archived');
+        },
+        onError: () => {
+            toast.error('Failed to update thread');
+        }
+    });
+
+    const duplicateMutation = useMutation({
+        mutationFn: () => ThreadService.duplicateAsTemplate(thread),
+        onSuccess: (copy) => {
+            refreshThreads();
+            toast.success('Template created');
+            navigate(`/thread/${copy.id}`);
+        },
+        onError: () => {
+            toast.error('Failed to duplicate thread');
+        }
+    });
+
+    const mergeMutation = useMutation({
+        mutationFn: (sourceId: string) => ThreadService.merge(thread.id, sourceId),
+        onSuccess: () => {
+            refreshThreads();
+            queryClient.invalidateQueries({ queryKey: ['threadItems', thread.id] });
+            queryClient.invalidateQueries({ queryKey: ['items'] });
+            setMergeOpen(false);
+            setMergeSourceId('');
+            toast.success('Threads merged');
+        },
+        onError: () => {
+            toast.error('Failed to merge threads');
+        }
+    });
+
+    // Runs from the toast, which outlives this menu once onRemoved navigates away
+    const undoDelete = async () => {
+        try {
+            await ThreadService.restore(thread.id);
+            refreshThreads();
+            queryClient.invalidateQueries({ queryKey: ['items'] });
+            toast.success('Thread restored');
+        } catch {
+            toast.error('Failed to restore thread');
+        }
+    };
+
+    const deleteMutation = useMutation({
+        mutationFn: () => ThreadService.delete(thread.id),
+        onSuccess: () => {
+            refreshThreads();
+            toast(`Deleted "${thread.title}"`, {
+                duration: UNDO_WINDOW_MS,
+                action: {
+                    label: 'Undo',
+                    onClick: undoDelete,
+                },
+            });
+            onRemoved?.();
+        },
+        onError: () => {
+            toast.error('Failed to delete thread');
+        }
+    });
+
+    return (
+        <>
+            <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                    <Button variant="ghost" size="icon" aria-label="Thread actions">
+                        <MoreHorizontal className="w-5 h-5" />
+                    </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end" className="w-52">
+                    <DropdownMenuItem onClick={() => archiveMutation.mutate()} disabled={archiveMutation.isPending}>
+                        {thread.isArchived ? (
+                            <><ArchiveRestore className="w-4 h-4 mr-2" />Unarchive</>
+                        ) : (
+                            <><Archive className="w-4 h-4 mr-2" />Archive</>
+                        )}
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => duplicateMutation.mutate()} disabled={duplicateMutation.isPending}>
+                        <Copy className="w-4 h-4 mr-2" />
+                        Duplicate as template
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => setMergeOpen(true)}>
+                        <GitMerge className="w-4 h-4 mr-2" />
+                        Merge another thread in…
+                    </DropdownMenuItem>
+                    <DropdownMenuSeparator />
+                    <DropdownMenuItem
+                        onClick={() => deleteMutation.mutate()}
+                        disabled={deleteMutation.isPending}
+                        className="text-destructive focus:text-destructive"
+                    >
+                        <Trash2 className="w-4 h-4 mr-2" />
+                        Delete
+                    </DropdownMenuItem>
+                </DropdownMenuContent>
+            </DropdownMenu>
+
+            <Dialog open={mergeOpen} onOpenChange={setMergeOpen}>
+                <DialogContent className="sm:max-w-[425px]">
+                    <DialogHeader>
+                        <DialogTitle>Merge into "{thread.title}"</DialogTitle>
+                        <DialogDescription>
+                            The selected thread's items, people and tags move here and the thread itself is removed.
+                        </DialogDescription>
+                    </DialogHeader>
+
+                    <Select value={mergeSourceId} onValueChange={setMergeSourceId}>
+                        <SelectTrigger>
+                            <SelectValue placeholder="Choose a thread to merge" />
+                        </SelectTrigger>
+                        <SelectContent>
+                            {mergeCandidates.map((candidate) => (
+                                <SelectItem key={candidate.id} value={candidate.id}>
+                                    {candidate.title}
+                                </SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
+
+                    <DialogFooter>
+                        <Button variant="outline" onClick={() => setMergeOpen(false)}>
+                            Cancel
+                        </Button>
+                        <Button
+                            onClick={() => mergeMutation.mutate(mergeSourceId)}
+                            disabled={!mergeSourceId || mergeMutation.isPending}
+                        >
+                            {mergeMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                            Merge threads
+                        </Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
+        </>
+    );
+}
@@ -6,17 +6,41 @@ import {
   FileText,
   Calendar,
   CheckSquare,
-  CheckCircle2
+  CheckCircle2,
+  FolderInput,
+  MoreVertical
 } from 'lucide-react';
 import { formatDistanceToNow } from 'date-fns';
 import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu';
+import { setDraggedItems } from '@/lib/item-drag';
 
 interface WorkItemRowProps {
   item: WorkItem;
   onClick?: () => void;
+  // Shows a checkbox when provided; `range` is set for shift-clicks
+  selected?: boolean;
+  onSelectedChange?: (selected: boolean, range: boolean) => void;
+  onMoveToThread?: () => void;
+  // Everything that travels with this row when it is dragged, e.g. the whole selection
+  dragItemIds?: string[];
 }
 
-export function WorkItemRow({ item, onClick }: WorkItemRowProps) {
+export function WorkItemRow({
+  item,
+  onClick,
+  selected = false,
+  onSelectedChange,
+  onMoveToThread,
+  dragItemIds
+}: WorkItemRowProps) {
   const getItemIcon = (type: WorkItem['type']) => {
     switch (type) {
       case 'email':
@@ -37,12 +61,27 @@ export function WorkItemRow({ item, onClick }: WorkItemRowProps) {
   return (
     <div
       className={cn(
-        "flex items-start gap-3 p-3 rounded-lg transition-colors cursor-pointer",
+        "group flex items-start gap-3 p-3 rounded-lg transition-colors cursor-pointer",
         "hover:bg-accent/50",
-        !item.isRead && "bg-primary/5"
+        !item.isRead && "bg-primary/5",
+        selected && "bg-accent"
       )}
       onClick={onClick}
+      draggable
+      onDragStart={(e) => setDraggedItems(e, dragItemIds ?? [item.id])}
     >
+      {onSelectedChange && (
+        <Checkbox
+          checked={selected}
+          onClick={(e) => {
+            e.stopPropagation();
+            onSelectedChange(!selected, e.shiftKey);
+          }}
+          className="mt-2.5"
+          aria-label={`Select ${item.title}`}
+        />
+      )}
+
       <div className="flex-shrink-0 w-8 h-8 rounded-lg bg-secondary flex items-center justify-center text-muted-foreground">
         {getItemIcon(item.type)}
       </div>
@@ -84,6 +123,27 @@ export function WorkItemRow({ item, onClick }: WorkItemRowProps) {
       {!item.isRead && (
         <div className="w-2 h-2 rounded-full bg-primary flex-shrink-0 mt-2" />
       )}
+
+      {onMoveToThread && (
+        <div
+          className="opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity"
+          onClick={(e) => e.stopPropagation()}
+        >
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="ghost" size="icon" className="h-7 w-7" aria-label="Item actions">
+                <MoreVertical className="w-4 h-4" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuItem onClick={onMoveToThread}>
+                <FolderInput className="w-4 h-4 mr-2" />
+                Move to thread…
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+        </div>
+      )}
     </div>
   );
 }
@@ -6,7 +6,8 @@ import {
     Clock,
     AlertCircle,
     MoreVertical,
-    CheckSquare
+    CheckSquare,
+    FolderInput
 } from 'lucide-react';
 import { formatDistanceToNow } from 'date-fns';
 import { Badge } from '@/components/ui/badge';
@@ -14,17 +15,20 @@ import {
     DropdownMenu,
     DropdownMenuContent,
     DropdownMenuItem,
+    DropdownMenuSeparator,
     DropdownMenuTrigger
 } from '@/components/ui/dropdown-menu';
 import { Button } from '@/components/ui/button';
+import { setDraggedItems } from '@/lib/item-drag';
 
 interface WorkTaskCardProps {
     task: WorkItem;
     onStatusChange?: (id: string, status: WorkItem['status']) => void;
     onClick?: () => void;
+    onMoveToThread?: () => void;
 }
 
-export function WorkTaskCard({ task, onStatusChange, onClick }: WorkTaskCardProps) {
+export function WorkTaskCard({ task, onStatusChange, onClick, onMoveToThread }: WorkTaskCardProps) {
     const getStatusIcon = (status: WorkItem['status']) => {
         switch (status) {
             case 'completed':
@@ -55,6 +59,8 @@ export function WorkTaskCard({ task, onStatusChange, onClick }: WorkTaskCardProp
                 "group relative flex items-start gap-4 p-4 bg-card border rounded-xl transition-all duration-200 hover:shadow-md hover:border-primary/20",
                 task.status === 'completed' && "opacity-60 bg-muted/30"
             )}
+            draggable
+            onDragStart={(e) => setDraggedItems(e, [task.id])}
         >
             <button
                 onClick={(e) => {
@@ -109,7 +115,7 @@ export function WorkTaskCard({ task, onStatusChange, onClick }: WorkTaskCardProp
                 </div>
             </div>
 
-            <div className="opacity-0 group-hover:opacity-100 transition-opacity">
+            <div className="opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity">
                 <DropdownMenu>
                     <DropdownMenuTrigger asChild>
                         <Button variant="ghost" size="icon" className="h-8 w-8">
@@ -126,6 +132,15 @@ export function WorkTaskCard({ task, onStatusChange, onClick }: WorkTaskCardProp
                         <DropdownMenuItem onClick={() => onStatusChange?.(task.id, 'completed')}>
                             Mark as Completed
                         </DropdownMenuItem>
+                        {onMoveToThread && (
+                            <>
+                                <DropdownMenuSeparator />
+                                <DropdownMenuItem onClick={onMoveToThread}>
+                                    <FolderInput className="w-4 h-4 mr-2" />
+                                    Move to thread…
+                                </DropdownMenuItem>
+                            </>
+                        )}
                     </DropdownMenuContent>
                 </DropdownMenu>
             </div>
@@ -1,3 +1,4 @@
+import { useState } from 'react';
 import { WorkThread } from '@/lib/types';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
@@ -6,14 +7,19 @@ import { cn } from '@/lib/utils';
 import { Clock, Users, AlertTriangle, ChevronRight } from 'lucide-react';
 import { formatDistanceToNow, format } from 'date-fns';
 import { motion } from 'framer-motion';
+import { getDraggedItems, isItemDrag } from '@/lib/item-drag';
 
 interface WorkThreadCardProps {
   thread: WorkThread;
   onClick?: () => void;
   isHighlighted?: boolean;
+  // Makes the card a drop target for dragged work items
+  onDropItems?: (itemIds: string[]) => void;
 }
 
-export function WorkThreadCard({ thread, onClick, isHighlighted = false }: WorkThreadCardProps) {
+export function WorkThreadCard({ thread, onClick, isHighlighted = false, onDropItems }: WorkThreadCardProps) {
+  const [isDropTarget, setIsDropTarget] = useState(false);
+
   const getPriorityVariant = (priority: WorkThread['priority']) => {
     switch (priority) {
       case 'high':
@@ -29,7 +35,7 @@ export function WorkThreadCard({ thread, onClick, isHighlighted = false }: WorkT
 
   const hasDeadline = thread.deadline !== undefined;
   const isNearDeadline = hasDeadline && thread.deadline &&
-    new Date(thread.deadline).getTime() - Date.now() < 3 * 24 * 60 * 60 * 1000; // 3 days
+    thread.deadline.getTime() - Date.now() < 3 * 24 * 60 * 60 * 1000; // 3 days
 
   return (
     <motion.div
@@ -42,9 +48,26 @@ export function WorkThreadCard({ thread, onClick, isHighlighted = false }: WorkT
         className={cn(
           "group",
           isHighlighted && "ring-2 ring-primary/20 border-primary/30",
-          thread.isIgnored && "opacity-70"
+          thread.isIgnored && "opacity-70",
+          isDropTarget && "ring-2 ring-primary border-primary bg-primary/5"
         )}
         onClick={onClick}
+        onDragOver={onDropItems && ((e) => {
+          if (!isItemDrag(e)) return;
+          e.preventDefault();
+          e.dataTransfer.dropEffect = 'move';
+          setIsDropTarget(true);
+        })}
+        onDragLeave={onDropItems && ((e) => {
+          // Moving over the card's own children also fires dragleave
+          if (!e.currentTarget.contains(e.relatedTarget as Node)) setIsDropTarget(false);
+        })}
+        onDrop={onDropItems && ((e) => {
+          e.preventDefault();
+          setIsDropTarget(false);
+          const itemIds = getDraggedItems(e);
+          if (itemIds.length > 0) onDropItems(itemIds);
+        })}
       >
         <CardHeader className="pb-3">
           <div className="flex items-start justify-between gap-3">
@@ -90,7 +113,7 @@ export function WorkThreadCard({ thread, onClick, isHighlighted = false }: WorkT
                   isNearDeadline && "text-destructive"
                 )}>
                   <Clock className="w-3.5 h-3.5" />
-                  <span>{format(new Date(thread.deadline), "MMM d, h:mm a")}</span>
+                  <span>{format(thread.deadline, "MMM d, h:mm a")}</span>
                 </div>
               )}
               {thread.relatedPeople && thread.relatedPeople.length > 0 && (
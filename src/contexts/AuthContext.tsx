@@ -1,6 +1,6 @@
-import { createContext, useContext, useState, ReactNode, useEffect } from 'react';
+import { createContext, useContext, useState, ReactNode, useEffect, useCallback } from 'react';
 import { useToast } from '@/hooks/use-toast';
-import axios from 'axios';
+import api, { AUTH_TOKEN_KEY, REFRESH_TOKEN_KEY, isTokenExpired, setAuthHandlers } from '@/services/api';
 import { User } from '@/lib/types';
 
 interface AuthContextType {
@@ -11,6 +11,8 @@ interface AuthContextType {
     signInWithGoogle: (idToken: string) => Promise<void>;
     signInWithMicrosoft: (accessToken: string) => Promise<void>;
     signOut: () => void;
+    // For responses that return the user with new settings or connections
+    updateCurrentUser: (user: User) => void;
     token: string | null;
 }
 
@@ -28,19 +30,48 @@ interface AuthProviderProps {
     children: ReactNode;
 }
 
-const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:5000/api';
+const USER_KEY = 'auth_user';
 
 export function AuthProvider({ children }: AuthProviderProps) {
     const [currentUser, setCurrentUser] = useState<User | null>(null);
-    const [token, setToken] = useState<string | null>(localStorage.getItem('auth_token'));
+    const [token, setToken] = useState<string | null>(localStorage.getItem(AUTH_TOKEN_KEY));
     const [loading, setLoading] = useState(true);
     const { toast } = useToast();
 
-    useEffect(() => {
-        const savedToken = localStorage.getItem('auth_token');
-        const savedUser = localStorage.getItem('auth_user');
+    const clearSession = useCallback(() => {
+        setCurrentUser(null);
+        setToken(null);
+        localStorage.removeItem(AUTH_TOKEN_KEY);
+        localStorage.removeItem(REFRESH_TOKEN_KEY);
+        localStorage.removeItem(USER_KEY);
+    }, []);
+
+    const startSession = (user: User, newToken: string, refreshToken?: string) => {
+        setCurrentUser(user);
+        setToken(newToken);
+        localStorage.setItem(AUTH_TOKEN_KEY, newToken);
+        localStorage.setItem(USER_KEY, JSON.stringify(user));
+        if (refreshToken) {
+            localStorage.setItem(REFRESH_TOKEN_KEY, refreshToken);
+        } else {
+            localStorage.removeItem(REFRESH_TOKEN_KEY);
+        }
+    };
 
-        if (savedToken && savedUser) {
+    const updateCurrentUser = useCallback((user: User) => {
+        setCurrentUser(user);
+        localStorage.setItem(USER_KEY, JSON.stringify(user));
+    }, []);
+
+    useEffect(() => {
+        const savedToken = localStorage.getItem(AUTH_TOKEN_KEY);
+        const savedUser = localStorage.getItem(USER_KEY);
+        const canRefresh = !!localStorage.getItem(REFRESH_TOKEN_KEY);
+
+        if (savedToken && isTokenExpired(savedToken) && !canRefresh) {
+            // Nothing to refresh with, so don't pretend the session is still alive
+            clearSession();
+        } else if (savedToken && savedUser) {
             try {
                 setToken(savedToken);
                 setCurrentUser(JSON.parse(savedUser));
@@ -49,18 +80,30 @@ export function AuthProvider({ children }: AuthProviderProps) {
             }
         }
         setLoading(false);
-    }, []);
+    }, [clearSession]);
+
+    useEffect(() => {
+        setAuthHandlers({
+            onTokenRefreshed: setToken,
+            onSessionExpired: () => {
+                // ProtectedRoute sends the user to /login with a return-to URL
+                clearSession();
+                toast({
+                    title: "Session Expired",
+                    description: "Please sign in again to continue where you left off",
+                    variant: "destructive",
+                });
+            },
+        });
+        return () => setAuthHandlers({});
+    }, [clearSession, toast]);
 
     const signIn = async (credentials: any) => {
         setLoading(true);
         try {
-            const res = await axios.post(`${API_URL}/users/login`, credentials);
-            const { user, token: newToken } = res.data.data;
-
-            setCurrentUser(user);
-            setToken(newToken);
-            localStorage.setItem('auth_token', newToken);
-            localStorage.setItem('auth_user', JSON.stringify(user));
+            const res = await api.post('/users/login', credentials, { skipAuthRefresh: true });
+            const { user, token: newToken, refreshToken } = res.data.data;
+            startSession(user, newToken, refreshToken);
 
             toast({
                 title: "Welcome!",
@@ -82,7 +125,7 @@ export function AuthProvider({ children }: AuthProviderProps) {
     const register = async (userData: any) => {
         setLoading(true);
         try {
-            const res = await axios.post(`${API_URL}/users/register`, userData);
+            const res = await api.post('/users/register', userData, { skipAuthRefresh: true });
             // We don't log the user in here because they need to verify first.
 
             toast({
@@ -105,13 +148,9 @@ export function AuthProvider({ children }: AuthProviderProps) {
     const signInWithGoogle = async (authCode: string) => {
         setLoading(true);
         try {
-            const res = await axios.post(`${API_URL}/users/google-login`, { code: authCode });
-            const { user, token: newToken } = res.data.data;
-
-            setCurrentUser(user);
-            setToken(newToken);
-            localStorage.setItem('auth_token', newToken);
-            localStorage.setItem('auth_user', JSON.stringify(user));
+            const res = await api.post('/users/google-login', { code: authCode }, { skipAuthRefresh: true });
+            const { user, token: newToken, refreshToken } = res.data.data;
+            startSession(user, newToken, refreshToken);
 
             toast({
                 title: "Welcome!",
@@ -133,13 +172,9 @@ export function AuthProvider({ children }: AuthProviderProps) {
     const signInWithMicrosoft = async (accessToken: string) => {
         setLoading(true);
         try {
-            const res = await axios.post(`${API_URL}/users/microsoft-login`, { accessToken });
-            const { user, token: newToken } = res.data.data;
-
-            setCurrentUser(user);
-            setToken(newToken);
-            localStorage.setItem('auth_token', newToken);
-            localStorage.setItem('auth_user', JSON.stringify(user));
+            const res = await api.post('/users/microsoft-login', { accessToken }, { skipAuthRefresh: true });
+            const { user, token: newToken, refreshToken } = res.data.data;
+            startSession(user, newToken, refreshToken);
 
             toast({
                 title: "Welcome!",
@@ -159,10 +194,7 @@ export function AuthProvider({ children }: AuthProviderProps) {
     };
 
     const signOut = () => {
-        setCurrentUser(null);
-        setToken(null);
-        localStorage.removeItem('auth_token');
-        localStorage.removeItem('auth_user');
+        clearSession();
         toast({
             title: "Signed Out",
             description: "You have been successfully signed out",
@@ -177,6 +209,7 @@ export function AuthProvider({ children }: AuthProviderProps) {
         signInWithGoogle,
         signInWithMicrosoft,
         signOut,
+        updateCurrentUser,
         token
     };
 
@@ -0,0 +1,319 @@
+import { createContext, useContext, useState, ReactNode, useEffect, useRef, useCallback, useMemo } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { useAuth } from '@/contexts/AuthContext';
+import { FocusService, WorkItemService } from '@/services/api';
+import { FocusSync } from '@/services/focus-sync';
+import {
+    DEFAULT_FOCUS_SETTINGS,
+    FocusDigest,
+    FocusRun,
+    FocusState,
+    breakAfter,
+    elapsedMs,
+    endsAt,
+    isPaused,
+    startRun,
+    toSession,
+} from '@/lib/focus';
+import { FocusInterruption, FocusSessionInput, FocusSettings, WorkItem } from '@/lib/types';
+
+// Stopping sooner than this throws the session away instead of recording it
+const MIN_RECORDED_MS = 60 * 1000;
+// A digest for a moment of focus mode with nothing in it would only get in the way
+const MIN_DIGEST_MS = 60 * 1000;
+
+interface FocusContextType {
+    settings: FocusSettings;
+    run: FocusRun | null; // Null while idle
+    completedInCycle: number;
+    now: number; // Moves on every second while the clock is running
+    // Starts a work session, cutting short a break if one is on the clock, or
+    // resumes the work session on the clock if it is paused
+    start: (threadId?: string) => void;
+    pause: () => void;
+    resume: () => void;
+    // Ends a work session early (recording it) or skips the rest of a break
+    stop: () => void;
+    logInterruption: (kind: FocusInterruption['kind'], note?: string) => void;
+    // On during work sessions, or when switched on by hand
+    focusMode: boolean;
+    setFocusMode: (on: boolean) => void;
+    queuedItems: WorkItem[]; // Arrived during focus mode and held back
+    digest: FocusDigest | null;
+    dismissDigest: () => void;
+}
+
+const FocusContext = createContext<FocusContextType | undefined>(undefined);
+
+export function useFocus() {
+    const context = useContext(FocusContext);
+    if (context === undefined) {
+        throw new Error('useFocus must be used within a FocusProvider');
+    }
+    return context;
+}
+
+const focusModeOf = (state: FocusState | null, sessionsTurnItOn: boolean) =>
+    !!state && (state.focusModeOverride ?? (sessionsTurnItOn && state.run?.phase === 'work'));
+
+// Toasts sonner was asked for since `from`, which focus mode kept off screen
+const mutedToasts = (from: number): FocusDigest['notifications'] => {
+    const latest = new Map<string | number, FocusDigest['notifications'][number]>();
+    for (const t of toast.getHistory().slice(from)) {
+        if (!('title' in t) || typeof t.title !== 'string') continue;
+        latest.set(t.id, {
+            id: t.id,
+            title: t.title,
+            description: typeof t.description === 'string' ? t.description : undefined,
+            isError: t.type === 'error',
+        });
+    }
+    return Array.from(latest.values());
+};
+
+const notify = (title: string, body: string) => {
+    if ('Notification' in window && Notification.permission === 'granted') {
+        new Notification(title, { body, icon: '/favicon.ico' });
+    }
+};
+
+// Moves the state past every phase that has run out by `now`: a finished
+// work session is handed back to be recorded and its break starts from the
+// moment it ended, so a tab closed through both finds the timer idle again
+function advance(state: FocusState, settings: FocusSettings, now: number) {
+    const finished: FocusSessionInput[] = [];
+    let { run, completedInCycle, focusModeOverride } = state;
+    let ended: FocusRun['phase'] | undefined;
+
+    while (run) {
+        const endedAt = endsAt(run);
+        if (endedAt === undefined || endedAt > now) break;
+        ended = run.phase;
+        if (run.phase === 'work') {
+            finished.push(toSession(state.userId, run, endedAt, true));
+            if (focusModeOverride === false) focusModeOverride = undefined;
+            completedInCycle += 1;
+            const phase = breakAfter(settings, completedInCycle);
+            if (phase === 'longBreak') completedInCycle = 0;
+            run = startRun(phase, settings, endedAt);
+        } else {
+            run = null;
+        }
+    }
+    return { next: { ...state, run, completedInCycle, focusModeOverride }, finished, ended };
+}
+
+interface FocusProviderProps {
+    children: ReactNode;
+}
+
+export function FocusProvider({ children }: FocusProviderProps) {
+    const { currentUser } = useAuth();
+    const queryClient = useQueryClient();
+    const userId = currentUser?.id;
+    const settings = currentUser?.preferences?.focus ?? DEFAULT_FOCUS_SETTINGS;
+    const sessionsTurnItOn = currentUser?.preferences?.focusMode !== false;
+    const [state, setState] = useState<FocusState | null>(null);
+    const [now, setNow] = useState(Date.now());
+    const [isLeader, setIsLeader] = useState(false);
+    // What the handlers read, so a phase that runs out is only handled once
+    // however many times the effects below fire for it
+    const stateRef = useRef<FocusState | null>(null);
+    const syncRef = useRef<FocusSync | null>(null);
+
+    // Every tab shows the same timer: the user's state is shared through
+    // FocusSync, and whatever one tab does the others adopt as it is
+    useEffect(() => {
+        if (!userId) {
+            stateRef.current = null;
+            setState(null);
+            return;
+        }
+        const adopt = (shared: FocusState) => {
+            stateRef.current = shared;
+            setState(shared);
+            setNow(Date.now());
+        };
+        const sync = new FocusSync(userId, {
+            onState: adopt,
+            onTick: () => setNow(Date.now()),
+            onLeaderChange: (leader) => {
+                setIsLeader(leader);
+                setNow(Date.now());
+            },
+        });
+        syncRef.current = sync;
+        adopt(sync.state);
+
+        return () => {
+            sync.close();
+            syncRef.current = null;
+            setIsLeader(false);
+        };
+    }, [userId]);
+
+    const update = useCallback((next: FocusState) => {
+        stateRef.current = next;
+        syncRef.current?.update(next);
+        setState(next);
+    }, []);
+
+    const { mutate: record } = useMutation({
+        mutationFn: FocusService.record,
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: ['focusSessions', userId] });
+            queryClient.invalidateQueries({ queryKey: ['dailyStats'] });
+            queryClient.invalidateQueries({ queryKey: ['cognitiveLoad'] });
+        },
+        onError: () => {
+            toast.error('Could not record your focus session');
+        }
+    });
+
+    // Followers only show the time; the leader records and notifies
+    useEffect(() => {
+        const current = stateRef.current;
+        if (!isLeader || !current?.run) return;
+        const { next, finished, ended } = advance(current, settings, now);
+        if (!ended) return;
+
+        update(next);
+        finished.forEach(session => record(session));
+        if (next.run) {
+            const description = `Take a ${next.run.plannedMinutes}-minute break.`;
+            // With focus mode on, the digest says as much once toasts are back
+            if (!focusModeOf(current, sessionsTurnItOn)) toast.success('Focus session complete', { description });
+            notify('Focus session complete!', `Great job! ${description}`);
+        } else if (ended !== 'work') {
+            toast('Break is over', { description: 'Ready for the next session?' });
+            notify('Break is over', 'Ready for the next session?');
+        }
+    }, [now, state, isLeader, settings, sessionsTurnItOn, update, record]);
+
+    const change = useCallback((modify: (current: FocusState, at: number) => FocusState) => {
+        const current = stateRef.current;
+        if (!current) return;
+        const at = Date.now();
+        update(modify(current, at));
+        setNow(at);
+    }, [update]);
+
+    const pause = useCallback(() => change((current, at) =>
+        current.run && !isPaused(current.run)
+            ? { ...current, run: { ...current.run, pauses: [...current.run.pauses, { start: at }] } }
+            : current
+    ), [change]);
+
+    const resume = useCallback(() => change((current, at) =>
+        current.run && isPaused(current.run)
+            ? {
+                ...current,
+                run: {
+                    ...current.run,
+                    pauses: current.run.pauses.map((p, i, all) => (i === all.length - 1 ? { ...p, end: at } : p)),
+                },
+            }
+            : current
+    ), [change]);
+
+    const start = useCallback((threadId?: string) => {
+        if (stateRef.current?.run?.phase === 'work') {
+            resume();
+            return;
+        }
+        if ('Notification' in window && Notification.permission === 'default') {
+            Notification.requestPermission();
+        }
+        // Breaks are not recorded, so one cut short is simply replaced
+        change((current, at) => ({ ...current, run: startRun('work', settings, at, threadId) }));
+    }, [change, resume, settings]);
+
+    const stop = useCallback(() => change((current, at) => {
+        const { run } = current;
+        if (run?.phase !== 'work') return { ...current, run: null };
+        if (elapsedMs(run, at) >= MIN_RECORDED_MS) record(toSession(current.userId, run, at, false));
+        const { focusModeOverride } = current;
+        return { ...current, run: null, focusModeOverride: focusModeOverride === false ? undefined : focusModeOverride };
+    }), [change, record]);
+
+    const logInterruption = useCallback((kind: FocusInterruption['kind'], note?: string) => change((current, at) =>
+        current.run?.phase === 'work'
+            ? { ...current, run: { ...current.run, interruptions: [...current.run.interruptions, { at, kind, note }] } }
+            : current
+    ), [change]);
+
+    const focusMode = focusModeOf(state, sessionsTurnItOn);
+
+    // Switching to what the session would do anyway drops the override
+    const setFocusMode = useCallback((on: boolean) => change((current) => {
+        const followsSession = focusModeOf({ ...current, focusModeOverride: undefined }, sessionsTurnItOn) === on;
+        return { ...current, focusModeOverride: followsSession ? undefined : on };
+    }), [change, sessionsTurnItOn]);
+
+    // Items already there when focus mode came on stay visible; anything new
+    // and unread is held back until it ends
+    const { data: items } = useQuery({
+        queryKey: ['items', userId],
+        queryFn: () => userId ? WorkItemService.getUserItems(userId) : Promise.resolve([]),
+        enabled: focusMode && !!userId
+    });
+    const [seenIds, setSeenIds] = useState<Set<string> | null>(null);
+    useEffect(() => {
+        if (focusMode && items && !seenIds) setSeenIds(new Set(items.map(item => item.id)));
+    }, [focusMode, items, seenIds]);
+    const queuedItems = useMemo(
+        () => (seenIds && items ? items.filter(item => !seenIds.has(item.id) && !item.isRead) : []),
+        [items, seenIds]
+    );
+
+    const [digest, setDigest] = useState<FocusDigest | null>(null);
+    const focusStartRef = useRef<{ startedAt: number; toastCount: number } | null>(null);
+    useEffect(() => {
+        if (focusMode === !!focusStartRef.current) return;
+        if (focusMode) {
+            const { run } = stateRef.current ?? {};
+            focusStartRef.current = {
+                startedAt: run?.phase === 'work' ? run.startedAt : Date.now(),
+                toastCount: toast.getHistory().length,
+            };
+            setDigest(null);
+            return;
+        }
+
+        const { startedAt, toastCount } = focusStartRef.current;
+        focusStartRef.current = null;
+        setSeenIds(null);
+        const endedAt = Date.now();
+        const notifications = mutedToasts(toastCount);
+        if (!userId) return;
+        if (endedAt - startedAt >= MIN_DIGEST_MS || queuedItems.length > 0 || notifications.length > 0) {
+            setDigest({ startedAt, endedAt, items: queuedItems, notifications });
+        }
+    }, [focusMode, queuedItems, userId]);
+
+    const dismissDigest = useCallback(() => setDigest(null), []);
+
+    const value = {
+        settings,
+        run: state?.run ?? null,
+        completedInCycle: state?.completedInCycle ?? 0,
+        now,
+        start,
+        pause,
+        resume,
+        stop,
+        logInterruption,
+        focusMode,
+        setFocusMode,
+        queuedItems: focusMode ? queuedItems : [],
+        digest,
+        dismissDigest
+    };
+
+    return (
+        <FocusContext.Provider value={value}>
+            {children}
+        </FocusContext.Provider>
+    );
+}
@@ -0,0 +1,175 @@
+import { createContext, useContext, useState, ReactNode, useEffect, useRef, useCallback } from 'react';
+import { QueryClient, useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '@/contexts/AuthContext';
+import { USE_MOCK_API, currentAccessToken } from '@/services/api';
+import { RealtimeConnection } from '@/services/realtime';
+import { RealtimeEvent, RealtimeStatus, Team } from '@/lib/types';
+
+interface RealtimeContextType {
+    status: RealtimeStatus;
+    // Team id -> user ids connected to that team right now
+    presence: Record<string, string[]>;
+    // Returns the matching unsubscribe
+    subscribe: (channel: string) => () => void;
+}
+
+const RealtimeContext = createContext<RealtimeContextType | undefined>(undefined);
+
+export function useRealtime() {
+    const context = useContext(RealtimeContext);
+    if (context === undefined) {
+        throw new Error('useRealtime must be used within a RealtimeProvider');
+    }
+    return context;
+}
+
+// Joins the team's channel while mounted and reports who else is there
+export function useTeamPresence(teamId?: string) {
+    const { status, presence, subscribe } = useRealtime();
+
+    useEffect(() => {
+        if (!teamId) return;
+        return subscribe(`team:${teamId}`);
+    }, [teamId, subscribe]);
+
+    return {
+        isLive: status === 'open',
+        onlineUserIds: (teamId && presence[teamId]) || [],
+    };
+}
+
+type Entity = { id: string };
+
+const upsert = <T extends Entity>(list: T[], entity: T) =>
+    list.some(e => e.id === entity.id)
+        ? list.map(e => e.id === entity.id ? entity : e)
+        : [entity, ...list];
+
+// Puts the entity into every cached list under `prefix` whose owner (the
+// second key segment) it belongs to and takes it out of all the others.
+// Paginated listings can't be patched reliably, so those are refetched.
+function syncLists<T extends Entity>(queryClient: QueryClient, prefix: string, entity: T, belongsTo: (owner: unknown) => boolean) {
+    for (const [queryKey, data] of queryClient.getQueriesData<unknown>({ queryKey: [prefix] })) {
+        if (!Array.isArray(data)) continue;
+        const list = data as T[];
+        queryClient.setQueryData<T[]>(queryKey, belongsTo(queryKey[1])
+            ? upsert(list, entity)
+            : list.filter(e => e.id !== entity.id));
+    }
+    queryClient.invalidateQueries({ queryKey: [prefix], predicate: query => query.queryKey[2] === 'paged' });
+}
+
+function applyEvent(queryClient: QueryClient, event: RealtimeEvent) {
+    switch (event.type) {
+        case 'item.created':
+        case 'item.updated': {
+            const { item } = event;
+            syncLists(queryClient, 'items', item, owner => owner === item.userId || owner === item.assigneeId);
+            syncLists(queryClient, 'teamItems', item, owner => owner === item.teamId);
+            syncLists(queryClient, 'threadItems', item, owner => owner === item.threadId);
+            if (item.threadId) queryClient.invalidateQueries({ queryKey: ['thread', item.threadId] });
+            break;
+        }
+        case 'thread.updated': {
+            const { thread } = event;
+            const live = !thread.deletedAt;
+            queryClient.setQueryData(['thread', thread.id], thread);
+            syncLists(queryClient, 'threads', thread, owner => live && !thread.isArchived && owner === thread.userId);
+            syncLists(queryClient, 'archivedThreads', thread, owner => live && thread.isArchived && owner === thread.userId);
+            syncLists(queryClient, 'teamThreads', thread, owner => live && owner === thread.teamId);
+            break;
+        }
+        case 'team.member_joined': {
+            const { teamId, member } = event;
+            queryClient.setQueryData<Team>(['team', teamId], team =>
+                team && !team.members.some(m => m.userId === member.userId)
+                    ? { ...team, members: [...team.members, member] }
+                    : team
+            );
+            queryClient.invalidateQueries({ queryKey: ['teams'] });
+            break;
+        }
+        case 'insight.generated': {
+            const { insight } = event;
+            syncLists(queryClient, 'insights', insight, owner =>
+                insight.isActive && !insight.isDismissed && owner === insight.userId
+            );
+            break;
+        }
+        case 'presence':
+            // Held in provider state rather than the query cache
+            break;
+    }
+}
+
+interface RealtimeProviderProps {
+    children: ReactNode;
+}
+
+export function RealtimeProvider({ children }: RealtimeProviderProps) {
+    const { token } = useAuth();
+    // The connection reads the token itself on every connect, so a refresh
+    // doesn't tear it down
+    const signedIn = !!token;
+    const queryClient = useQueryClient();
+    const [status, setStatus] = useState<RealtimeStatus>('offline');
+    const [presence, setPresence] = useState<Record<string, string[]>>({});
+    const connectionRef = useRef<RealtimeConnection | null>(null);
+    // Survives reconnects and token refreshes, unlike the connection itself
+    const channelsRef = useRef(new Map<string, number>());
+
+    useEffect(() => {
+        // The offline demo backend has no socket to talk to
+        if (!signedIn || USE_MOCK_API) {
+            setStatus('offline');
+            return;
+        }
+
+        const connection = new RealtimeConnection(currentAccessToken, {
+            onStatus: setStatus,
+            onEvent: (event) => {
+                if (event.type === 'presence') {
+                    setPresence(prev => ({ ...prev, [event.teamId]: event.userIds }));
+                } else {
+                    applyEvent(queryClient, event);
+                }
+            },
+        });
+        channelsRef.current.forEach((count, channel) => {
+            for (let i = 0; i < count; i++) connection.subscribe(channel);
+        });
+        connectionRef.current = connection;
+        connection.connect();
+
+        return () => {
+            connection.close();
+            connectionRef.current = null;
+            setPresence({});
+        };
+    }, [signedIn, queryClient]);
+
+    const subscribe = useCallback((channel: string) => {
+        const channels = channelsRef.current;
+        channels.set(channel, (channels.get(channel) ?? 0) + 1);
+        connectionRef.current?.subscribe(channel);
+
+        return () => {
+            const count = channels.get(channel) ?? 0;
+            if (count <= 1) channels.delete(channel);
+            else channels.set(channel, count - 1);
+            connectionRef.current?.unsubscribe(channel);
+        };
+    }, []);
+
+    const value = {
+        status,
+        presence,
+        subscribe
+    };
+
+    return (
+        <RealtimeContext.Provider value={value}>
+            {children}
+        </RealtimeContext.Provider>
+    );
+}
@@ -0,0 +1,121 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { AxiosError } from 'axios';
+import { toast } from 'sonner';
+
+import { useAuth } from '@/contexts/AuthContext';
+import { ChatService, IntegrationService, IntelligenceService, ThreadService, WorkItemService } from '@/services/api';
+import { ChatAction, ChatActionRecord, ChatConversation, ChatProposedAction } from '@/lib/types';
+
+const errorMessage = (error: unknown) =>
+    (error as AxiosError<{ error?: string }>).response?.data?.error ?? (error as Error).message ?? 'Something went wrong';
+
+// Does what the action says through the services the rest of the app uses,
+// returning the id of whatever it created or changed
+async function execute(action: ChatAction, userId: string): Promise<string> {
+    switch (action.type) {
+        case 'createThread': {
+            const thread = await ThreadService.create({
+                title: action.title,
+                priority: action.priority,
+                deadline: action.deadline,
+                userId,
+                progress: 0,
+                isIgnored: false,
+                itemIds: [],
+                relatedPeople: [],
+                tags: [],
+                lastActivity: new Date(),
+            });
+            return thread.id;
+        }
+        case 'addTask': {
+            const item = await WorkItemService.createItem({
+                type: 'task',
+                title: action.title,
+                source: 'Monocle AI',
+                userId,
+                threadId: action.threadId,
+                timestamp: new Date(),
+                isRead: true,
+                status: 'todo',
+                metadata: {},
+            });
+            return item.id;
+        }
+        case 'rescheduleDeadline':
+            await ThreadService.update(action.threadId, { deadline: action.deadline });
+            return action.threadId;
+        case 'scheduleMeeting': {
+            const created = action.platform === 'google'
+                ? await IntegrationService.createGoogleMeeting(action.meeting)
+                : await IntegrationService.createTeamsMeeting(action.meeting);
+            return created.meeting?.id ?? created.eventId ?? '';
+        }
+        case 'dismissInsight':
+            await IntelligenceService.dismissInsight(action.insightId);
+            return action.insightId;
+    }
+}
+
+// What each kind of action leaves out of date
+const STALE_KEYS: Record<ChatAction['type'], string[]> = {
+    createThread: ['threads'],
+    addTask: ['items', 'threadItems', 'thread', 'threads'],
+    rescheduleDeadline: ['thread', 'threads'],
+    scheduleMeeting: ['meetings', 'items', 'threadItems', 'thread'],
+    dismissInsight: ['insights'],
+};
+
+// Confirms or declines an action the assistant proposed in a conversation.
+// A confirmed action is claimed before it runs, so a second tab, or a retry
+// after its result failed to record, is turned away rather than running it
+// again. Every step goes on the audit trail, failures included, and the
+// action in the cached conversation shows where it stands.
+export function useChatAction(conversationId: string | undefined) {
+    const { currentUser } = useAuth();
+    const queryClient = useQueryClient();
+
+    const setStatus = ({ actionId, status }: Pick<ChatActionRecord, 'actionId' | 'status'>) => {
+        queryClient.setQueryData<ChatConversation>(['chatConversation', conversationId], (cached) => cached && {
+            ...cached,
+            messages: cached.messages.map(m => (m.actions?.some(a => a.id === actionId)
+                ? { ...m, actions: m.actions.map(a => (a.id === actionId ? { ...a, status } : a)) }
+                : m)),
+        });
+    };
+
+    return useMutation({
+        mutationFn: async ({ proposed, confirmed }: { proposed: ChatProposedAction; confirmed: boolean }) => {
+            if (!currentUser || !conversationId) throw new Error('Not authenticated');
+            const outcome = { conversationId, actionId: proposed.id };
+            if (!confirmed) return ChatService.recordAction({ ...outcome, status: 'declined' });
+
+            setStatus(await ChatService.recordAction({ ...outcome, status: 'executing' }));
+            let targetId: string;
+            try {
+                targetId = await execute(proposed.action, currentUser.id);
+            } catch (error) {
+                const record = await ChatService.recordAction({ ...outcome, status: 'failed', error: errorMessage(error) })
+                    .catch(() => undefined);
+                if (record) setStatus(record);
+                throw error;
+            }
+            return ChatService.recordAction({ ...outcome, status: 'executed', targetId });
+        },
+        onSuccess: (record, { proposed }) => {
+            setStatus(record);
+            queryClient.invalidateQueries({ queryKey: ['chatActions', currentUser?.id] });
+            if (record.status !== 'executed') return;
+            for (const key of STALE_KEYS[proposed.action.type]) {
+                queryClient.invalidateQueries({ queryKey: [key] });
+            }
+            toast.success('Done', { description: proposed.summary });
+        },
+        onError: (error) => {
+            // A claim turned down means the conversation is behind the server
+            queryClient.invalidateQueries({ queryKey: ['chatConversation', conversationId] });
+            queryClient.invalidateQueries({ queryKey: ['chatActions', currentUser?.id] });
+            toast.error(errorMessage(error));
+        }
+    });
+}
@@ -0,0 +1,77 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { AxiosError } from 'axios';
+import { toast } from 'sonner';
+
+import { useAuth } from '@/contexts/AuthContext';
+import { IntegrationService } from '@/services/api';
+import { CONNECTORS } from '@/lib/connectors';
+import { IntegrationCredentials, IntegrationId, IntegrationStatus, SyncResult } from '@/lib/types';
+
+const INTEGRATION_NAMES: Record<IntegrationId, string> = {
+    google: 'Google Workspace',
+    microsoft: 'Microsoft 365',
+    slack: CONNECTORS.slack.name,
+    linear: CONNECTORS.linear.name,
+    github: CONNECTORS.github.name,
+};
+
+const errorMessage = (error: Error) => (error as AxiosError<{ error?: string }>).response?.data?.error;
+
+// Connect, sync, resync and disconnect for one integration, keeping the
+// ['integrations'] list and the synced items up to date
+export function useIntegration(id: IntegrationId) {
+    const { currentUser } = useAuth();
+    const queryClient = useQueryClient();
+    const name = INTEGRATION_NAMES[id];
+    const queryKey = ['integrations', currentUser?.id];
+
+    const setStatus = (next: IntegrationStatus) => {
+        queryClient.setQueryData<IntegrationStatus[]>(queryKey, (current = []) =>
+            current.map(s => (s.id === next.id ? next : s)));
+    };
+
+    const applyResult = ({ imported, updated, removed, status }: SyncResult) => {
+        setStatus(status);
+        queryClient.invalidateQueries({ queryKey: ['items', currentUser?.id] });
+        queryClient.invalidateQueries({ queryKey: ['threads', currentUser?.id] });
+        queryClient.invalidateQueries({ queryKey: ['recommendations', currentUser?.id] });
+        queryClient.invalidateQueries({ queryKey: ['insights', currentUser?.id] });
+        return `${imported} new item${imported === 1 ? '' : 's'}${updated > 0 ? `, ${updated} updated` : ''}${removed ? `, ${removed} removed` : ''}.`;
+    };
+
+    const connect = useMutation({
+        mutationFn: (credentials: IntegrationCredentials) => IntegrationService.connectIntegration(id, credentials),
+        onSuccess: (result) => {
+            toast.success(`Connected ${name}`, { description: applyResult(result) });
+        },
+        onError: (error) => {
+            // A failed first run is in the history even though connecting failed
+            queryClient.invalidateQueries({ queryKey });
+            toast.error(`Could not connect ${name}`, { description: errorMessage(error) });
+        }
+    });
+
+    const sync = useMutation({
+        mutationFn: ({ full = false }: { full?: boolean }) => IntegrationService.syncIntegration(id, { full }),
+        onSuccess: (result, { full }) => {
+            toast.success(full ? `Resynced ${name} from scratch` : `Synced ${name}`, { description: applyResult(result) });
+        },
+        onError: (error) => {
+            queryClient.invalidateQueries({ queryKey });
+            toast.error(`${name} sync failed`, { description: errorMessage(error) });
+        }
+    });
+
+    const disconnect = useMutation({
+        mutationFn: () => IntegrationService.disconnectIntegration(id),
+        onSuccess: (status) => {
+            setStatus(status);
+            toast.success(`${name} disconnected`, { description: 'Items already imported were kept.' });
+        },
+        onError: () => {
+            toast.error(`Failed to disconnect ${name}`);
+        }
+    });
+
+    return { name, connect, sync, disconnect };
+}
@@ -0,0 +1,47 @@
+import { useSearchParams } from 'react-router-dom';
+
+// Sort, filter and page state for list pages, kept in the query string so
+// views can be bookmarked, shared and restored with the back button.
+export function useListParams() {
+    const [searchParams, setSearchParams] = useSearchParams();
+
+    const page = Math.max(1, Number(searchParams.get('page')) || 1);
+
+    const get = (key: string) => searchParams.get(key) || undefined;
+
+    // Any change to the sort or a filter starts over at the first page
+    const set = (key: string, value?: string) => {
+        setSearchParams(params => {
+            if (value) params.set(key, value);
+            else params.delete(key);
+            params.delete('page');
+            return params;
+        });
+    };
+
+    const setPage = (next: number) => {
+        setSearchParams(params => {
+            if (next > 1) params.set('page', String(next));
+            else params.delete('page');
+            return params;
+        });
+    };
+
+    const hrefForPage = (target: number) => {
+        const params = new URLSearchParams(searchParams);
+        if (target > 1) params.set('page', String(target));
+        else params.delete('page');
+        const search = params.toString();
+        return search ? `?${search}` : '?';
+    };
+
+    const clear = (keys: string[]) => {
+        setSearchParams(params => {
+            keys.forEach(key => params.delete(key));
+            params.delete('page');
+            return params;
+        });
+    };
+
+    return { page, get, set, setPage, hrefForPage, clear };
+}
@@ -0,0 +1,24 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+
+import { WorkItemService } from '@/services/api';
+import { WorkItem } from '@/lib/types';
+
+export function useMoveItems() {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: ({ items, threadId }: { items: WorkItem[]; threadId: string }) =>
+            WorkItemService.moveToThread(items, threadId),
+        onSuccess: (_, { items }) => {
+            queryClient.invalidateQueries({ queryKey: ['items'] });
+            queryClient.invalidateQueries({ queryKey: ['threads'] });
+            queryClient.invalidateQueries({ queryKey: ['thread'] });
+            queryClient.invalidateQueries({ queryKey: ['threadItems'] });
+            toast.success(items.length === 1 ? 'Item moved' : `${items.length} items moved`);
+        },
+        onError: () => {
+            toast.error('Failed to move items');
+        }
+    });
+}
@@ -0,0 +1,61 @@
+import { expandOccurrences } from './recurrence';
+import { Meeting, WorkItem } from './types';
+
+// Something on the user's calendar: a meeting scheduled through Monocle or an
+// event synced in from Google Calendar as a work item.
+export interface CalendarEntry {
+  id: string;
+  title: string;
+  start: Date;
+  end: Date;
+  meeting?: Meeting;
+  // Set for occurrences of a recurring meeting; see MeetingException
+  originalStart?: Date;
+  item?: WorkItem;
+}
+
+// Synced events without a known length are drawn as half-hour blocks
+const DEFAULT_EVENT_MS = 30 * 60 * 1000;
+
+const toDate = (value: unknown) => {
+  if (typeof value !== 'string' && !(value instanceof Date)) return undefined;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date;
+};
+
+// Recurring meetings are expanded into their occurrences within [from, to)
+export function toCalendarEntries(
+  meetings: Meeting[],
+  items: WorkItem[],
+  range: { from: Date; to: Date }
+): CalendarEntry[] {
+  // A meeting is also recorded as a work item, and meetings created here come
+  // back from Google on the next sync; show each of them once
+  const meetingIds = new Set(meetings.map(m => m.id));
+  const eventIds = new Set(meetings.map(m => m.eventId).filter(Boolean));
+  const isMeeting = (item: WorkItem) =>
+    meetingIds.has(item.metadata?.meetingId) || eventIds.has(item.metadata?.eventId);
+
+  const synced = items
+    .filter(item => item.type === 'calendar' && !isMeeting(item))
+    .map((item): CalendarEntry => {
+      const start = toDate(item.metadata?.startTime) ?? item.timestamp;
+      const end = toDate(item.metadata?.endTime) ?? new Date(start.getTime() + DEFAULT_EVENT_MS);
+      return { id: `item:${item.id}`, title: item.title, start, end, item };
+    });
+
+  return [
+    ...meetings
+      .filter(m => m.status !== 'cancelled')
+      .flatMap(meeting => expandOccurrences(meeting, range.from, range.to))
+      .map(({ meeting, start, end, originalStart }): CalendarEntry => ({
+        id: meeting.recurrence ? `meeting:${meeting.id}:${originalStart.toISOString()}` : `meeting:${meeting.id}`,
+        title: meeting.title,
+        start,
+        end,
+        meeting,
+        originalStart: meeting.recurrence ? originalStart : undefined,
+      })),
+    ...synced,
+  ].sort((a, b) => a.start.getTime() - b.start.getTime());
+}
@@ -0,0 +1,216 @@
+import { ConnectorId, WorkItem } from './types';
+
+// Slack, Linear and GitHub behind one interface. The backend connects with a
+// token, reads the service's API with it and hands the responses to the
+// connector, which maps them onto work items. Each item keeps its service id
+// under the connector's `idField` so the next sync updates it in place.
+
+export interface Connector<Snapshot extends { account: string }> {
+  id: ConnectorId;
+  name: string;
+  description: string;
+  // What the user pastes to connect, and what a well-formed one looks like
+  tokenLabel: string;
+  tokenPattern: RegExp;
+  idField: string;
+  toWorkItems(snapshot: Snapshot): Partial<WorkItem>[];
+}
+
+// Slack: mentions from search.messages and unread direct messages from
+// conversations.history on each IM channel
+
+export interface SlackMessage {
+  ts: string; // Seconds since the epoch, with microseconds, e.g. "1729337000.000100"
+  channel: { id: string; name?: string; is_im?: boolean };
+  user: string;
+  username?: string; // Display name, filled in from users.info
+  text: string;
+  permalink?: string;
+}
+
+export interface SlackSnapshot {
+  account: string; // Workspace name
+  userId: string; // The connected user, to spot mentions of them
+  mentions: SlackMessage[];
+  directMessages: SlackMessage[];
+}
+
+const TITLE_LENGTH = 80;
+
+const firstLine = (text: string) => {
+  const line = text.split('\n')[0].trim();
+  return line.length > TITLE_LENGTH ? `${line.slice(0, TITLE_LENGTH - 1)}…` : line;
+};
+
+// <@U123> becomes @you for the connected user, <#C1|general> becomes
+// #general and <https://x|label> becomes label
+const slackText = (text: string, self: string) => text
+  .replace(/<@(\w+)(?:\|([^>]+))?>/g, (_, id: string, name?: string) => (id === self ? '@you' : `@${name ?? id}`))
+  .replace(/<#\w+\|([^>]+)>/g, '#$1')
+  .replace(/<([^|>]+)\|([^>]+)>/g, '$2')
+  .replace(/<([^>]+)>/g, '$1');
+
+const slackMessage = (message: SlackMessage, kind: 'mention' | 'dm', self: string): Partial<WorkItem> => {
+  const text = slackText(message.text, self);
+  const sender = message.username ?? message.user;
+  return {
+    type: 'message',
+    title: firstLine(text) || `Message from ${sender}`,
+    source: kind === 'dm' ? 'Slack - Direct message' : `Slack - #${message.channel.name ?? message.channel.id}`,
+    timestamp: new Date(Number(message.ts) * 1000),
+    preview: `${sender}: ${text}`,
+    isRead: false,
+    metadata: {
+      slackId: `${message.channel.id}:${message.ts}`,
+      kind,
+      channelId: message.channel.id,
+      channel: message.channel.name,
+      from: sender,
+      permalink: message.permalink,
+    },
+  };
+};
+
+export const slackConnector: Connector<SlackSnapshot> = {
+  id: 'slack',
+  name: 'Slack',
+  description: 'Mentions and direct messages',
+  tokenLabel: 'User OAuth token',
+  tokenPattern: /^xox[pb]-[\w-]{8,}$/,
+  idField: 'slackId',
+  toWorkItems: ({ userId, mentions, directMessages }) => [
+    // A DM that mentions you is still just a DM
+    ...mentions.filter(m => !m.channel.is_im).map(m => slackMessage(m, 'mention', userId)),
+    ...directMessages.map(m => slackMessage(m, 'dm', userId)),
+  ],
+};
+
+// Linear: the viewer's assigned issues from the GraphQL API
+
+export interface LinearIssue {
+  id: string;
+  identifier: string; // e.g. "DES-142"
+  title: string;
+  description?: string | null;
+  priority: 0 | 1 | 2 | 3 | 4; // None, urgent, high, medium, low
+  url: string;
+  dueDate?: string | null; // yyyy-MM-dd
+  updatedAt: string;
+  state: { name: string; type: 'triage' | 'backlog' | 'unstarted' | 'started' | 'completed' | 'canceled' };
+  team: { key: string; name: string };
+}
+
+export interface LinearSnapshot {
+  account: string; // Organization name
+  issues: LinearIssue[];
+}
+
+const LINEAR_PRIORITY: Record<LinearIssue['priority'], WorkItem['priority']> = {
+  0: undefined,
+  1: 'high',
+  2: 'high',
+  3: 'medium',
+  4: 'low',
+};
+
+const linearStatus = (type: LinearIssue['state']['type']): WorkItem['status'] =>
+  type === 'completed' ? 'completed' : type === 'started' ? 'in-progress' : 'todo';
+
+export const linearConnector: Connector<LinearSnapshot> = {
+  id: 'linear',
+  name: 'Linear',
+  description: 'Issues assigned to you',
+  tokenLabel: 'Personal API key',
+  tokenPattern: /^lin_api_\w{8,}$/,
+  idField: 'linearId',
+  toWorkItems: ({ issues }) => issues
+    .filter(issue => issue.state.type !== 'canceled')
+    .map(issue => ({
+      type: 'task',
+      title: issue.title,
+      source: 'Linear',
+      timestamp: new Date(issue.updatedAt),
+      preview: [issue.identifier, issue.state.name, issue.description?.split('\n')[0]].filter(Boolean).join(' · '),
+      priority: LINEAR_PRIORITY[issue.priority],
+      status: linearStatus(issue.state.type),
+      metadata: {
+        linearId: issue.id,
+        identifier: issue.identifier,
+        team: issue.team.name,
+        state: issue.state.name,
+        url: issue.url,
+        // A day, not a moment: read in local time
+        dueDate: issue.dueDate ? new Date(`${issue.dueDate}T00:00`) : undefined,
+      },
+    })),
+};
+
+// GitHub: open pull requests waiting on your review, from the search API
+// (is:open is:pr review-requested:@me)
+
+export interface GitHubPullRequest {
+  id: number;
+  number: number;
+  title: string;
+  body?: string | null;
+  html_url: string;
+  repository_url: string; // https://api.github.com/repos/{owner}/{repo}
+  user: { login: string };
+  draft?: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface GitHubSnapshot {
+  account: string; // The connected login
+  reviewRequests: GitHubPullRequest[];
+}
+
+const repositoryOf = (pull: GitHubPullRequest) => pull.repository_url.split('/repos/')[1] ?? pull.repository_url;
+
+export const githubConnector: Connector<GitHubSnapshot> = {
+  id: 'github',
+  name: 'GitHub',
+  description: 'Pull requests waiting on your review',
+  tokenLabel: 'Personal access token',
+  tokenPattern: /^(ghp_|github_pat_)\w{8,}$/,
+  idField: 'githubId',
+  toWorkItems: ({ reviewRequests }) => reviewRequests.map(pull => {
+    const repository = repositoryOf(pull);
+    return {
+      type: 'task',
+      title: `Review: ${pull.title}`,
+      source: 'GitHub',
+      timestamp: new Date(pull.updated_at),
+      preview: `${repository}#${pull.number} by @${pull.user.login}${pull.draft ? ' (draft)' : ''}`,
+      priority: pull.draft ? 'low' : 'medium',
+      status: 'todo',
+      metadata: {
+        githubId: pull.id,
+        repository,
+        number: pull.number,
+        author: pull.user.login,
+        draft: pull.draft ?? false,
+        url: pull.html_url,
+      },
+    };
+  }),
+};
+
+export interface ConnectorSnapshots {
+  slack: SlackSnapshot;
+  linear: LinearSnapshot;
+  github: GitHubSnapshot;
+}
+
+// Adding a service means a new id, a snapshot type and an entry here
+export const CONNECTORS: { [K in ConnectorId]: Connector<ConnectorSnapshots[K]> } = {
+  slack: slackConnector,
+  linear: linearConnector,
+  github: githubConnector,
+};
+
+export const CONNECTOR_IDS = Object.keys(CONNECTORS) as ConnectorId[];
+
+export const isConnectorId = (value: unknown): value is ConnectorId =>
+  CONNECTOR_IDS.includes(value as ConnectorId);
@@ -0,0 +1,118 @@
+import { FocusInterruption, FocusSessionInput, FocusSettings, WorkItem } from './types';
+
+export const DEFAULT_FOCUS_SETTINGS: FocusSettings = {
+  workMinutes: 25,
+  shortBreakMinutes: 5,
+  longBreakMinutes: 15,
+  longBreakEvery: 4,
+};
+
+export type FocusPhase = 'work' | 'shortBreak' | 'longBreak';
+
+export const PHASE_LABELS: Record<FocusPhase, string> = {
+  work: 'Focus',
+  shortBreak: 'Short break',
+  longBreak: 'Long break',
+};
+
+// The phase on the clock right now. Times are epoch milliseconds so the
+// state survives a round trip through localStorage as it is; the remaining
+// time is always worked out from the wall clock, never counted down.
+export interface FocusRun {
+  phase: FocusPhase;
+  plannedMinutes: number;
+  threadId?: string;
+  startedAt: number;
+  pauses: { start: number; end?: number }[]; // The last one is open while paused
+  interruptions: { at: number; kind: FocusInterruption['kind']; note?: string }[];
+}
+
+export interface FocusState {
+  userId: string;
+  run: FocusRun | null;
+  // Work sessions finished since the last long break
+  completedInCycle: number;
+  // Focus mode follows the work sessions unless switched on or off by hand.
+  // Switching it off only lasts until the session on the clock ends.
+  focusModeOverride?: boolean;
+}
+
+// What came in while focus mode was on, shown once it ends
+export interface FocusDigest {
+  startedAt: number;
+  endedAt: number;
+  items: WorkItem[]; // New unread items that were held back
+  notifications: { id: string | number; title: string; description?: string; isError: boolean }[];
+}
+
+const STORAGE_KEY = 'monocle_focus';
+
+export const loadFocusState = (userId: string): FocusState => {
+  const empty = { userId, run: null, completedInCycle: 0 };
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null') as FocusState | null;
+    // Someone else's timer on a shared browser is not carried over
+    return saved?.userId === userId ? saved : empty;
+  } catch {
+    return empty;
+  }
+};
+
+export const saveFocusState = (state: FocusState) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(state));
+};
+
+export const isPaused = (run: FocusRun) => {
+  const last = run.pauses[run.pauses.length - 1];
+  return !!last && last.end === undefined;
+};
+
+const pausedMs = (run: FocusRun, now: number) =>
+  run.pauses.reduce((total, p) => total + ((p.end ?? now) - p.start), 0);
+
+// Time on the clock so far, pauses left out
+export const elapsedMs = (run: FocusRun, now: number) =>
+  Math.max(0, now - run.startedAt - pausedMs(run, now));
+
+export const remainingMs = (run: FocusRun, now: number) =>
+  Math.max(0, run.plannedMinutes * 60_000 - elapsedMs(run, now));
+
+// When the phase ran or will run out, which may be well before now if the
+// tab was closed in the meantime. Undefined while paused.
+export const endsAt = (run: FocusRun) =>
+  isPaused(run) ? undefined : run.startedAt + run.plannedMinutes * 60_000 + pausedMs(run, Date.now());
+
+export const startRun = (phase: FocusPhase, settings: FocusSettings, startedAt: number, threadId?: string): FocusRun => ({
+  phase,
+  plannedMinutes: phase === 'work'
+    ? settings.workMinutes
+    : phase === 'longBreak' ? settings.longBreakMinutes : settings.shortBreakMinutes,
+  threadId: phase === 'work' ? threadId : undefined,
+  startedAt,
+  pauses: [],
+  interruptions: [],
+});
+
+// The break that follows a work session, given how many have been finished
+// in the cycle including that one
+export const breakAfter = (settings: FocusSettings, completedInCycle: number): FocusPhase =>
+  completedInCycle >= settings.longBreakEvery ? 'longBreak' : 'shortBreak';
+
+// What gets recorded when a work run ends, at `endedAt` rather than now.
+// Every tab holds the same run, so the id they derive from it matches.
+export const toSession = (userId: string, run: FocusRun, endedAt: number, completed: boolean): FocusSessionInput => ({
+  id: `focus-${userId}-${run.startedAt}`,
+  threadId: run.threadId,
+  startedAt: new Date(run.startedAt),
+  endedAt: new Date(endedAt),
+  plannedMinutes: run.plannedMinutes,
+  focusedMinutes: Math.round(elapsedMs(run, endedAt) / 60_000),
+  completed,
+  pauses: run.pauses.map(p => ({ start: new Date(p.start), end: new Date(p.end ?? endedAt) })),
+  interruptions: run.interruptions.map(i => ({ ...i, at: new Date(i.at) })),
+});
+
+export const formatClock = (ms: number) => {
+  const seconds = Math.ceil(ms / 1000);
+  return `${Math.floor(seconds / 60).toString().padStart(2, '0')}:${(seconds % 60).toString().padStart(2, '0')}`;
+};
@@ -0,0 +1,279 @@
+import { WorkItem } from './types';
+
+// Microsoft Graph reads for the Microsoft 365 sync: Outlook mail, the coming
+// weeks of Outlook calendar and open Microsoft To Do tasks, mapped onto work
+// items. Every read is a delta query, so after the first run only what
+// changed comes back, deletions and cancellations included. The base URL is a parameter so the same code runs
+// against a local Graph stub.
+
+export const GRAPH_URL = 'https://graph.microsoft.com/v1.0';
+
+// How far back the first read of the inbox goes
+export const SYNC_DAYS = 7;
+// The calendar delta covers a fixed window, so it is read this far ahead and
+// started again once fewer than SYNC_DAYS of it are left
+const CALENDAR_WINDOW_DAYS = 28;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface GraphMessage {
+  id: string;
+  subject?: string;
+  bodyPreview?: string;
+  receivedDateTime: string;
+  importance?: 'low' | 'normal' | 'high';
+  isRead?: boolean;
+  webLink?: string;
+  from?: { emailAddress?: { name?: string; address?: string } };
+}
+
+export interface GraphEvent {
+  id: string;
+  subject?: string;
+  bodyPreview?: string;
+  // Requested in UTC, see graphGet
+  start: { dateTime: string; timeZone: string };
+  end: { dateTime: string; timeZone: string };
+  isCancelled?: boolean;
+  webLink?: string;
+  onlineMeeting?: { joinUrl?: string } | null;
+}
+
+export interface GraphTodoTask {
+  id: string;
+  title: string;
+  status: 'notStarted' | 'inProgress' | 'completed' | 'waitingOnOthers' | 'deferred';
+  importance?: 'low' | 'normal' | 'high';
+  createdDateTime?: string;
+  dueDateTime?: { dateTime: string; timeZone: string } | null;
+  body?: { content?: string };
+  listName?: string; // Not Graph's: filled in from the list the task came from
+}
+
+export interface GraphSnapshot {
+  messages: GraphMessage[];
+  events: GraphEvent[];
+  tasks: GraphTodoTask[];
+}
+
+// Where each delta query picks up: the @odata.deltaLink Graph returned at
+// the end of the last read. Kept as the sync cursor.
+export interface GraphDeltaLinks {
+  messages?: string;
+  events?: string;
+  eventsUntil?: string; // End of the calendar window the events link covers
+  tasks: Record<string, string>; // By To Do list id
+}
+
+export interface GraphChanges {
+  snapshot: GraphSnapshot;
+  links: GraphDeltaLinks;
+  // Events and tasks deleted since the last read, and events cancelled
+  removed: string[];
+  // What was read from the start rather than from a delta link, in full:
+  // anything imported before that falls in it but was not seen is gone
+  readInFull: {
+    events?: { from: Date; until: Date; ids: string[] };
+    tasks?: { ids: string[] }; // Finished ones included
+  };
+}
+
+export class GraphError extends Error {
+  readonly status: number;
+
+  constructor(status: number, path: string) {
+    super(`Microsoft Graph request failed with status ${status}: ${path}`);
+    this.name = 'GraphError';
+    this.status = status;
+  }
+}
+
+interface GraphPage<T> {
+  value: T[];
+  '@odata.nextLink'?: string;
+  '@odata.deltaLink'?: string; // On the last page of a delta query
+}
+
+// Deleted entries come back from a delta query as a bare id
+type GraphRemoved = { id: string; '@removed': unknown };
+
+// `path` is relative to `baseUrl` or, for the next page, Graph's absolute link
+const graphGet = async <T>(baseUrl: string, accessToken: string, path: string): Promise<T> => {
+  const response = await fetch(/^https?:/.test(path) ? path : `${baseUrl}${path}`, {
+    headers: {
+      Authorization: `Bearer ${accessToken}`,
+      // Event times come back in UTC instead of the mailbox's zone
+      Prefer: 'outlook.timezone="UTC"',
+    },
+  });
+  if (!response.ok) throw new GraphError(response.status, path);
+  return response.json();
+};
+
+const isRemoved = (row: unknown): row is GraphRemoved => !!row && typeof row === 'object' && '@removed' in row;
+
+// Follows @odata.nextLink until it runs out. A delta query ends on a page
+// with the @odata.deltaLink for next time instead, and gives deletions as
+// bare ids, which come back apart from the rows.
+const graphGetAll = async <T>(baseUrl: string, accessToken: string, path: string) => {
+  const rows: T[] = [];
+  const removed: string[] = [];
+  let next: string | undefined = path;
+  let deltaLink: string | undefined;
+  while (next) {
+    const page: GraphPage<T | GraphRemoved> = await graphGet<GraphPage<T | GraphRemoved>>(baseUrl, accessToken, next);
+    for (const row of page.value) {
+      if (isRemoved(row)) removed.push(row.id);
+      else rows.push(row);
+    }
+    next = page['@odata.nextLink'];
+    deltaLink = page['@odata.deltaLink'];
+  }
+  return { rows, removed, deltaLink };
+};
+
+// Needs Mail.Read, Calendars.Read and Tasks.Read. Without `links` everything
+// in range is read; with them, only what changed since. Graph answers 410
+// when a delta link has expired, and the caller starts over without links.
+export async function fetchGraphChanges(
+  accessToken: string,
+  links?: GraphDeltaLinks,
+  baseUrl = GRAPH_URL,
+  now = new Date()
+): Promise<GraphChanges> {
+  const since = new Date(now.getTime() - SYNC_DAYS * DAY_MS);
+  const windowEnd = links?.eventsUntil ? new Date(links.eventsUntil) : now;
+  const eventsLink = windowEnd.getTime() - now.getTime() > SYNC_DAYS * DAY_MS ? links?.events : undefined;
+  const until = eventsLink ? windowEnd : new Date(now.getTime() + CALENDAR_WINDOW_DAYS * DAY_MS);
+
+  const [messages, events, lists] = await Promise.all([
+    graphGetAll<GraphMessage>(baseUrl, accessToken, links?.messages ??
+      `/me/mailFolders/inbox/messages/delta?$filter=receivedDateTime ge ${since.toISOString()}` +
+      '&$select=id,subject,bodyPreview,receivedDateTime,importance,isRead,webLink,from'),
+    graphGetAll<GraphEvent>(baseUrl, accessToken, eventsLink ??
+      `/me/calendarView/delta?startDateTime=${now.toISOString()}&endDateTime=${until.toISOString()}`),
+    graphGetAll<{ id: string; displayName: string }>(baseUrl, accessToken, '/me/todo/lists'),
+  ]);
+
+  const tasks = await Promise.all(lists.rows.map(async list => {
+    const link = links?.tasks[list.id];
+    const { rows, removed, deltaLink } = await graphGetAll<GraphTodoTask>(baseUrl, accessToken,
+      link ?? `/me/todo/lists/${encodeURIComponent(list.id)}/tasks/delta`);
+    // Task deltas can't be filtered, so a list read from the start drops the
+    // finished ones here; later rounds keep them to mark items done
+    const wanted = link ? rows : rows.filter(task => task.status !== 'completed');
+    return {
+      listId: list.id,
+      deltaLink,
+      removed,
+      seen: rows.map(task => task.id),
+      tasks: wanted.map(task => ({ ...task, listName: list.displayName })),
+    };
+  }));
+
+  return {
+    snapshot: { messages: messages.rows, events: events.rows, tasks: tasks.flatMap(list => list.tasks) },
+    // A message leaving the inbox, archived say, reads as removed too, so
+    // imported mail stays whatever happens to it in Outlook
+    removed: [
+      ...events.removed,
+      ...events.rows.filter(event => event.isCancelled).map(event => event.id),
+      ...tasks.flatMap(list => list.removed),
+    ],
+    readInFull: {
+      events: eventsLink ? undefined : { from: now, until, ids: events.rows.map(event => event.id) },
+      // Only when every list was, so a task moved between lists isn't lost
+      tasks: links ? undefined : { ids: tasks.flatMap(list => list.seen) },
+    },
+    links: {
+      messages: messages.deltaLink,
+      events: events.deltaLink,
+      eventsUntil: until.toISOString(),
+      tasks: Object.fromEntries(tasks.flatMap(list => (list.deltaLink ? [[list.listId, list.deltaLink]] : []))),
+    },
+  };
+}
+
+// Graph ids of imported items the changes show are gone, whether Graph said
+// so or a read in full no longer has them
+export function graphRemovedIds({ removed, readInFull: { events, tasks } }: GraphChanges, imported: WorkItem[]): string[] {
+  const eventIds = new Set(events?.ids);
+  const taskIds = new Set(tasks?.ids);
+  const missing = imported.filter(item => {
+    const id = item.metadata?.graphId;
+    if (events && item.source === 'Outlook Calendar') {
+      const start = new Date(item.metadata.startTime);
+      return start >= events.from && start < events.until && !eventIds.has(id);
+    }
+    return !!tasks && item.source === 'Microsoft To Do' && !taskIds.has(id);
+  });
+  return [...new Set([...removed, ...missing.map(item => item.metadata.graphId as string)])];
+}
+
+// Graph writes UTC times without the trailing Z
+const graphDate = ({ dateTime, timeZone }: { dateTime: string; timeZone: string }) =>
+  new Date(timeZone === 'UTC' && !/Z|[+-]\d\d:\d\d$/.test(dateTime) ? `${dateTime}Z` : dateTime);
+
+const importanceToPriority = (importance?: string): WorkItem['priority'] =>
+  importance === 'high' ? 'high' : importance === 'low' ? 'low' : 'medium';
+
+const TASK_STATUS: Record<GraphTodoTask['status'], WorkItem['status']> = {
+  notStarted: 'todo',
+  inProgress: 'in-progress',
+  waitingOnOthers: 'in-progress',
+  deferred: 'todo',
+  completed: 'completed',
+};
+
+// Every item carries its Graph id so a later sync updates it instead of
+// adding a duplicate
+export function graphToWorkItems({ messages, events, tasks }: GraphSnapshot): Partial<WorkItem>[] {
+  return [
+    ...messages.map((message): Partial<WorkItem> => {
+      const sender = message.from?.emailAddress;
+      return {
+        type: 'email',
+        title: message.subject || '(no subject)',
+        source: 'Outlook',
+        timestamp: new Date(message.receivedDateTime),
+        preview: [sender?.name || sender?.address, message.bodyPreview].filter(Boolean).join(': '),
+        isRead: message.isRead ?? false,
+        priority: importanceToPriority(message.importance),
+        metadata: { graphId: message.id, webLink: message.webLink, from: sender?.address },
+      };
+    }),
+    ...events
+      .filter(event => !event.isCancelled)
+      .map((event): Partial<WorkItem> => {
+        const start = graphDate(event.start);
+        return {
+          type: 'calendar',
+          title: event.subject || '(no title)',
+          source: 'Outlook Calendar',
+          timestamp: start,
+          preview: event.bodyPreview || undefined,
+          metadata: {
+            graphId: event.id,
+            eventId: event.id,
+            startTime: start,
+            endTime: graphDate(event.end),
+            joinUrl: event.onlineMeeting?.joinUrl,
+            webLink: event.webLink,
+          },
+        };
+      }),
+    ...tasks.map((task): Partial<WorkItem> => ({
+      type: 'task',
+      title: task.title,
+      source: 'Microsoft To Do',
+      timestamp: task.createdDateTime ? new Date(task.createdDateTime) : new Date(),
+      preview: task.body?.content?.trim() || task.listName,
+      priority: importanceToPriority(task.importance),
+      status: TASK_STATUS[task.status] ?? 'todo',
+      metadata: {
+        graphId: task.id,
+        list: task.listName,
+        dueDate: task.dueDateTime ? graphDate(task.dueDateTime) : undefined,
+      },
+    })),
+  ];
+}
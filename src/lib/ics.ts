@@ -0,0 +1,339 @@
+import { addDays, format, startOfDay } from 'date-fns';
+import { zonedTime } from './scheduling';
+import { Meeting, WorkThread } from './types';
+
+// RFC 5545 iCalendar in and out: the vendor-neutral way to get meetings and
+// thread deadlines into any calendar app, and other people's events back in
+// as calendar work items.
+
+export interface IcsEvent {
+  uid: string;
+  title: string;
+  description?: string;
+  location?: string;
+  url?: string;
+  start: Date;
+  end: Date;
+  allDay: boolean;
+  recurrence?: string; // RRULE value; only the first occurrence is imported
+}
+
+export interface CalendarExport {
+  name: string;
+  meetings: Meeting[];
+  threads: WorkThread[];
+  // The IANA zone recurring meetings repeat in. Defaults to this runtime's,
+  // which is the one recurrence.ts expands them in.
+  timeZone?: string;
+}
+
+const PRODUCT_ID = '-//Monocle//Monocle Calendar//EN';
+const UID_DOMAIN = 'monocle.app';
+const MAX_LINE_OCTETS = 75;
+// How far past today the exported time zone's offset changes are written out
+const TIMEZONE_YEARS = 10;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const encoder = new TextEncoder();
+
+// Commas, semicolons and backslashes are structural in property values
+const escapeText = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+const unescapeText = (value: string) =>
+  value.replace(/\\([\\;,nN])/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+
+// Long lines are split on character boundaries and continued with a space
+const foldLine = (line: string) => {
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    // Continuation lines give up one octet to the leading space
+    if (octets + size > (parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1)) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+const utcStamp = (date: Date) =>
+  `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}` +
+  `T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+
+const dateStamp = (date: Date) => format(date, 'yyyyMMdd');
+
+// The wall-clock time in `timeZone`, written without the Z
+const zonedStamp = (date: Date, timeZone: string) =>
+  utcStamp(new Date(date.getTime() + zonedTime(date, timeZone).offsetMinutes * 60000)).slice(0, -1);
+
+const offsetOf = (time: number, timeZone: string) => zonedTime(new Date(time), timeZone).offsetMinutes;
+
+const formatOffset = (minutes: number) =>
+  `${minutes < 0 ? '-' : '+'}${pad(Math.floor(Math.abs(minutes) / 60))}${pad(Math.abs(minutes) % 60)}`;
+
+// Every change in the zone's UTC offset from `from` to `to`. Offsets are
+// sampled a day apart, then each change is narrowed down to the minute.
+const offsetChanges = (timeZone: string, from: number, to: number) => {
+  const changes: { at: number; offsetFrom: number; offsetTo: number }[] = [];
+  for (let day = from; day < to; day += DAY_MS) {
+    const before = offsetOf(day, timeZone);
+    const after = offsetOf(day + DAY_MS, timeZone);
+    if (before === after) continue;
+    let low = day;
+    let high = day + DAY_MS;
+    while (high - low > 60000) {
+      const middle = low + Math.floor((high - low) / 120000) * 60000;
+      if (offsetOf(middle, timeZone) === before) low = middle;
+      else high = middle;
+    }
+    changes.push({ at: high, offsetFrom: before, offsetTo: after });
+  }
+  return changes;
+};
+
+// RFC 5545 wants the definition of every TZID the file uses. Offset changes
+// are listed one by one rather than as rules, which any zone can be written
+// as; the offset in force at `from` opens the list.
+const timeZoneComponent = (timeZone: string, from: Date, to: Date): string[] => {
+  const start = Date.UTC(from.getUTCFullYear(), 0, 1);
+  const changes = offsetChanges(timeZone, start, Date.UTC(to.getUTCFullYear(), 0, 1));
+  const initial = offsetOf(start, timeZone);
+  const standard = Math.min(initial, ...changes.map(c => c.offsetTo));
+  const observances = [{ at: start, offsetFrom: initial, offsetTo: initial }, ...changes];
+  return [
+    'BEGIN:VTIMEZONE',
+    `TZID:${timeZone}`,
+    ...observances.flatMap(({ at, offsetFrom, offsetTo }) => {
+      const kind = offsetTo > standard ? 'DAYLIGHT' : 'STANDARD';
+      return [
+        `BEGIN:${kind}`,
+        // Local time as it read just before the change
+        `DTSTART:${utcStamp(new Date(at + offsetFrom * 60000)).slice(0, -1)}`,
+        `TZOFFSETFROM:${formatOffset(offsetFrom)}`,
+        `TZOFFSETTO:${formatOffset(offsetTo)}`,
+        `END:${kind}`,
+      ];
+    }),
+    'END:VTIMEZONE',
+  ];
+};
+
+// A one-off meeting is written in UTC. A series is written in its time zone,
+// as a UTC start would make it repeat in UTC and drift an hour across
+// daylight-saving changes; exceptions follow suit so they still match.
+const meetingEvent = (meeting: Meeting, stamp: string, timeZone: string): string[] => {
+  const uid = `${meeting.id}@${UID_DOMAIN}`;
+  const time = (name: string, date: Date) => (meeting.recurrence
+    ? `${name};TZID=${timeZone}:${zonedStamp(date, timeZone)}`
+    : `${name}:${utcStamp(date)}`);
+  const link = meeting.joinUrl || meeting.meetingLink;
+  const description = [meeting.description, link && `Join: ${link}`].filter(Boolean).join('\n\n');
+  const duration = meeting.endTime.getTime() - meeting.startTime.getTime();
+  const exceptions = meeting.recurrence ? meeting.exceptions ?? [] : [];
+
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${uid}`,
+    `DTSTAMP:${stamp}`,
+    time('DTSTART', meeting.startTime),
+    time('DTEND', meeting.endTime),
+    `SUMMARY:${escapeText(meeting.title)}`,
+    ...(description ? [`DESCRIPTION:${escapeText(description)}`] : []),
+    ...(link ? [`URL:${link}`, `LOCATION:${escapeText(link)}`] : []),
+    ...meeting.attendees.map(email => `ATTENDEE;RSVP=TRUE:mailto:${email}`),
+    ...(meeting.recurrence ? [`RRULE:${meeting.recurrence}`] : []),
+    ...exceptions.filter(e => e.cancelled).map(e => time('EXDATE', e.originalStart)),
+    'STATUS:CONFIRMED',
+    'END:VEVENT',
+  ];
+
+  // A moved occurrence is its own VEVENT pointing back at the slot it replaces
+  for (const moved of exceptions.filter(e => !e.cancelled && e.startTime)) {
+    const end = moved.endTime ?? new Date(moved.startTime.getTime() + duration);
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${uid}`,
+      `DTSTAMP:${stamp}`,
+      time('RECURRENCE-ID', moved.originalStart),
+      time('DTSTART', moved.startTime),
+      time('DTEND', end),
+      `SUMMARY:${escapeText(meeting.title)}`,
+      'STATUS:CONFIRMED',
+      'END:VEVENT',
+    );
+  }
+  return lines;
+};
+
+// Deadlines are all-day events on the day they fall due
+const deadlineEvent = (thread: WorkThread, stamp: string): string[] => [
+  'BEGIN:VEVENT',
+  `UID:${thread.id}-deadline@${UID_DOMAIN}`,
+  `DTSTAMP:${stamp}`,
+  `DTSTART;VALUE=DATE:${dateStamp(thread.deadline)}`,
+  `DTEND;VALUE=DATE:${dateStamp(addDays(thread.deadline, 1))}`,
+  `SUMMARY:${escapeText(`Due: ${thread.title}`)}`,
+  ...(thread.description ? [`DESCRIPTION:${escapeText(thread.description)}`] : []),
+  'TRANSP:TRANSPARENT',
+  'END:VEVENT',
+];
+
+// Cancelled meetings and archived or deleted threads are left out, so a
+// subscribed calendar drops them on its next refresh
+export function buildCalendar({ name, meetings, threads, timeZone }: CalendarExport, now = new Date()): string {
+  const stamp = utcStamp(now);
+  const zone = timeZone ?? Intl.DateTimeFormat().resolvedOptions().timeZone;
+  const live = meetings.filter(m => m.status !== 'cancelled');
+  const series = live.filter(m => m.recurrence);
+  const firstSeries = series.reduce<Date | undefined>((first, m) => (!first || m.startTime < first ? m.startTime : first), undefined);
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+    ...(firstSeries ? timeZoneComponent(zone, firstSeries, new Date(now.getTime() + TIMEZONE_YEARS * 365 * DAY_MS)) : []),
+    ...live.flatMap(m => meetingEvent(m, stamp, zone)),
+    ...threads
+      .filter(t => t.deadline && !t.isArchived && !t.deletedAt)
+      .flatMap(t => deadlineEvent(t, stamp)),
+    'END:VCALENDAR',
+  ];
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+interface Property {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+const parseProperty = (line: string): Property | null => {
+  // The value starts at the first colon outside a quoted parameter
+  let inQuotes = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    else if (line[i] === ':' && !inQuotes) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon < 0) return null;
+
+  const [name, ...rawParams] = line.slice(0, colon).split(';');
+  const params: Record<string, string> = {};
+  for (const param of rawParams) {
+    const [key, value = ''] = param.split('=');
+    params[key.toUpperCase()] = value.replace(/^"|"$/g, '');
+  }
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+};
+
+// A wall-clock time in an IANA zone, corrected once for the zone's offset at
+// that moment. Unknown zones fall back to the browser's.
+const fromZone = (parts: number[], timeZone: string) => {
+  const [year, month, day, hours, minutes, seconds] = parts;
+  const wallClock = Date.UTC(year, month - 1, day, hours, minutes, seconds);
+  try {
+    const guess = wallClock - zonedTime(new Date(wallClock), timeZone).offsetMinutes * 60000;
+    return new Date(wallClock - zonedTime(new Date(guess), timeZone).offsetMinutes * 60000);
+  } catch {
+    return new Date(year, month - 1, day, hours, minutes, seconds);
+  }
+};
+
+const parseDate = ({ params, value }: Property) => {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(value.trim());
+  if (!match) return undefined;
+  const [, year, month, day, hours, minutes, seconds, utc] = match;
+  const parts = [year, month, day, hours ?? '0', minutes ?? '0', seconds ?? '0'].map(Number);
+  const [y, mo, d, h, mi, s] = parts;
+  if (!hours || params.VALUE === 'DATE') return { date: new Date(y, mo - 1, d), allDay: true };
+  if (utc) return { date: new Date(Date.UTC(y, mo - 1, d, h, mi, s)), allDay: false };
+  if (params.TZID) return { date: fromZone(parts, params.TZID), allDay: false };
+  // Floating time means the same wall-clock time wherever you are
+  return { date: new Date(y, mo - 1, d, h, mi, s), allDay: false };
+};
+
+// P1D, PT1H30M, P1W... Months and years are not allowed in durations
+const parseDuration = (value: string) => {
+  const match = /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/.exec(value.trim());
+  if (!match) return undefined;
+  const [, sign, weeks, days, hours, minutes, seconds] = match;
+  const total = ((Number(weeks ?? 0) * 7 + Number(days ?? 0)) * 24 * 60 * 60
+    + Number(hours ?? 0) * 60 * 60 + Number(minutes ?? 0) * 60 + Number(seconds ?? 0)) * 1000;
+  return sign === '-' ? -total : total;
+};
+
+const toEvent = (properties: Property[]): IcsEvent | null => {
+  const get = (name: string) => properties.find(p => p.name === name);
+  // Overrides of single occurrences and cancelled events have nothing to add
+  if (get('RECURRENCE-ID') || get('STATUS')?.value.toUpperCase() === 'CANCELLED') return null;
+
+  const start = get('DTSTART') && parseDate(get('DTSTART'));
+  if (!start) return null;
+  const endProperty = get('DTEND') ?? get('DUE');
+  const duration = get('DURATION') && parseDuration(get('DURATION').value);
+  const end = (endProperty && parseDate(endProperty)?.date)
+    ?? (duration !== undefined ? new Date(start.date.getTime() + duration) : undefined)
+    // No end at all: a date lasts the day, a time is a moment
+    ?? (start.allDay ? addDays(startOfDay(start.date), 1) : start.date);
+
+  const text = (name: string) => {
+    const property = get(name);
+    return property ? unescapeText(property.value) : undefined;
+  };
+  return {
+    uid: get('UID')?.value || `${utcStamp(start.date)}-${text('SUMMARY') ?? ''}`,
+    title: text('SUMMARY') || 'Untitled event',
+    description: text('DESCRIPTION'),
+    location: text('LOCATION'),
+    url: get('URL')?.value,
+    start: start.date,
+    end,
+    allDay: start.allDay,
+    recurrence: get('RRULE')?.value,
+  };
+};
+
+// Null when the text is not an iCalendar file at all
+export function parseCalendar(text: string): { name?: string; events: IcsEvent[] } | null {
+  const lines = text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/).filter(Boolean);
+  if (lines[0]?.trim().toUpperCase() !== 'BEGIN:VCALENDAR') return null;
+
+  let name: string | undefined;
+  const events: IcsEvent[] = [];
+  // Components nest (alarms inside events), only the event's own lines count
+  const stack: string[] = [];
+  let properties: Property[] = [];
+
+  for (const line of lines) {
+    const property = parseProperty(line);
+    if (!property) continue;
+    if (property.name === 'BEGIN') {
+      stack.push(property.value.toUpperCase());
+      if (property.value.toUpperCase() === 'VEVENT') properties = [];
+    } else if (property.name === 'END') {
+      if (stack.pop() === 'VEVENT') {
+        const event = toEvent(properties);
+        if (event) events.push(event);
+      }
+    } else if (stack[stack.length - 1] === 'VEVENT') {
+      properties.push(property);
+    } else if (property.name === 'X-WR-CALNAME' && stack.length === 1) {
+      name = unescapeText(property.value);
+    }
+  }
+  return { name, events };
+}
@@ -0,0 +1,24 @@
+import type { DragEvent } from 'react';
+
+// Drag payload for work items, shared by the draggable rows/cards and the
+// thread cards that accept drops.
+const ITEM_DRAG_TYPE = 'application/x-monocle-items';
+
+export function setDraggedItems(e: DragEvent, itemIds: string[]) {
+  e.dataTransfer.setData(ITEM_DRAG_TYPE, JSON.stringify(itemIds));
+  e.dataTransfer.effectAllowed = 'move';
+}
+
+// Only the type list is readable during dragover, so this is the check for "can drop here"
+export function isItemDrag(e: DragEvent) {
+  return e.dataTransfer.types.includes(ITEM_DRAG_TYPE);
+}
+
+export function getDraggedItems(e: DragEvent): string[] {
+  try {
+    const ids = JSON.parse(e.dataTransfer.getData(ITEM_DRAG_TYPE));
+    return Array.isArray(ids) ? ids.filter((id): id is string => typeof id === 'string') : [];
+  } catch {
+    return [];
+  }
+}
@@ -1,13 +1,59 @@
-import { WorkThread, WorkItem, WorkInsight, PriorityRecommendation, CognitiveLoadState, DailyStats } from './types';
+import { format } from 'date-fns';
+import { User, WorkThread, WorkItem, WorkInsight, PriorityRecommendation, CognitiveLoadState, DailyStats, Team, Meeting } from './types';
+import { GraphSnapshot } from './graph';
+import { NotionPage, NotionWorkspace } from './notion';
+import { ConnectorSnapshots } from './connectors';
 
 // Helper to create dates relative to now
 const hoursAgo = (hours: number) => new Date(Date.now() - hours * 60 * 60 * 1000);
 const daysAgo = (days: number) => new Date(Date.now() - days * 24 * 60 * 60 * 1000);
 const daysFromNow = (days: number) => new Date(Date.now() + days * 24 * 60 * 60 * 1000);
+const atTime = (date: Date, hours: number, minutes = 0) => {
+  const result = new Date(date);
+  result.setHours(hours, minutes, 0, 0);
+  return result;
+};
+
+export const mockUser: User = {
+  id: 'user-1',
+  name: 'Alex Morgan',
+  email: 'alex.morgan@company.com',
+  avatar: 'https://images.unsplash.com/photo-1472099645785-5658abf4ff4e?w=100&h=100&fit=crop&crop=face',
+  createdAt: daysAgo(120),
+  preferences: {
+    workHoursStart: 9,
+    workHoursEnd: 17,
+    focusTimeGoal: 240,
+    notificationsEnabled: true,
+    theme: 'auto',
+  },
+  integrations: {
+    google: { connected: false },
+    microsoft: { connected: false },
+    notion: { connected: false },
+  },
+};
+
+export const mockTeammate: User = {
+  id: 'user-2',
+  name: 'Sarah Chen',
+  email: 'sarah.chen@company.com',
+  createdAt: daysAgo(200),
+  preferences: {
+    workHoursStart: 8,
+    workHoursEnd: 16,
+    focusTimeGoal: 180,
+    notificationsEnabled: true,
+    theme: 'auto',
+    timezone: 'Europe/London',
+  },
+};
 
 export const mockWorkItems: WorkItem[] = [
   {
     id: 'item-1',
+    userId: mockUser.id,
+    threadId: 'thread-1',
     type: 'email',
     title: 'Q4 Budget Review - Action Required',
     source: 'sarah.chen@company.com',
@@ -17,6 +63,8 @@ export const mockWorkItems: WorkItem[] = [
   },
   {
     id: 'item-2',
+    userId: mockUser.id,
+    threadId: 'thread-2',
     type: 'calendar',
     title: 'Product Strategy Sync',
     source: 'Google Calendar',
@@ -25,6 +73,8 @@ export const mockWorkItems: WorkItem[] = [
   },
   {
     id: 'item-3',
+    userId: mockUser.id,
+    threadId: 'thread-2',
     type: 'document',
     title: 'Product Roadmap 2024.docx',
     source: 'Google Drive',
@@ -33,6 +83,8 @@ export const mockWorkItems: WorkItem[] = [
   },
   {
     id: 'item-4',
+    userId: mockUser.id,
+    threadId: 'thread-3',
     type: 'message',
     title: 'Quick question about the API',
     source: 'Slack - #engineering',
@@ -42,82 +94,161 @@ export const mockWorkItems: WorkItem[] = [
   },
   {
     id: 'item-5',
+    userId: mockUser.id,
+    threadId: 'thread-4',
     type: 'task',
     title: 'Finalize onboarding flow designs',
     source: 'Linear',
     timestamp: daysAgo(1),
     preview: 'Due in 2 days',
+    priority: 'high',
+    status: 'in-progress',
   },
 ];
 
 export const mockWorkThreads: WorkThread[] = [
   {
     id: 'thread-1',
+    userId: mockUser.id,
     title: 'Q4 Budget Planning',
     description: 'Annual budget review and allocation for engineering team',
-    items: mockWorkItems.filter(i => i.id === 'item-1'),
+    itemIds: ['item-1'],
     priority: 'high',
     deadline: daysFromNow(2),
     lastActivity: hoursAgo(2),
     progress: 35,
+    createdAt: daysAgo(14),
+    updatedAt: hoursAgo(1),
     relatedPeople: ['Sarah Chen', 'Mike Johnson', 'Lisa Park'],
     tags: ['Finance', 'Planning'],
   },
   {
     id: 'thread-2',
+    userId: mockUser.id,
     title: 'Product Roadmap 2024',
     description: 'Strategic planning and feature prioritization',
-    items: mockWorkItems.filter(i => ['item-2', 'item-3'].includes(i.id)),
+    itemIds: ['item-2', 'item-3'],
     priority: 'high',
     deadline: daysFromNow(5),
     lastActivity: hoursAgo(1),
     progress: 60,
+    createdAt: daysAgo(14),
+    updatedAt: hoursAgo(1),
     relatedPeople: ['Alex Kim', 'Jordan Taylor'],
     tags: ['Product', 'Strategy'],
   },
   {
     id: 'thread-3',
+    userId: mockUser.id,
     title: 'API Integration Project',
     description: 'Third-party API integration for new features',
-    items: mockWorkItems.filter(i => i.id === 'item-4'),
+    itemIds: ['item-4'],
     priority: 'medium',
     deadline: daysFromNow(7),
     lastActivity: hoursAgo(0.5),
     progress: 45,
+    createdAt: daysAgo(14),
+    updatedAt: hoursAgo(1),
     relatedPeople: ['Chris Wong', 'Sam Rivera'],
     tags: ['Engineering', 'Integration'],
   },
   {
     id: 'thread-4',
+    userId: mockUser.id,
     title: 'User Onboarding Redesign',
     description: 'Improving first-time user experience',
-    items: mockWorkItems.filter(i => i.id === 'item-5'),
+    itemIds: ['item-5'],
     priority: 'medium',
     deadline: daysFromNow(2),
     lastActivity: daysAgo(1),
     progress: 70,
+    createdAt: daysAgo(14),
+    updatedAt: hoursAgo(1),
     isIgnored: true,
     relatedPeople: ['Emma Davis'],
     tags: ['Design', 'UX'],
   },
   {
     id: 'thread-5',
+    userId: mockUser.id,
     title: 'Team Weekly Sync',
     description: 'Regular team coordination and updates',
-    items: [],
+    itemIds: [],
     priority: 'low',
     lastActivity: daysAgo(2),
     progress: 100,
+    createdAt: daysAgo(14),
+    updatedAt: hoursAgo(1),
     relatedPeople: ['Team'],
     tags: ['Meetings'],
+    teamId: 'team-1',
+  },
+];
+
+export const mockTeams: Team[] = [
+  {
+    id: 'team-1',
+    name: 'Product Engineering',
+    description: 'Core product and platform engineers',
+    ownerId: mockUser.id,
+    members: [
+      { userId: mockUser.id, role: 'admin', joinedAt: daysAgo(90), name: mockUser.name, email: mockUser.email },
+      { userId: mockTeammate.id, role: 'member', joinedAt: daysAgo(60), name: mockTeammate.name, email: mockTeammate.email },
+    ],
+    createdAt: daysAgo(90),
+  },
+];
+
+export const mockTeamItems: WorkItem[] = [
+  {
+    id: 'item-6',
+    userId: mockTeammate.id,
+    teamId: 'team-1',
+    type: 'task',
+    title: 'Prepare sprint demo',
+    source: 'Manual',
+    timestamp: hoursAgo(3),
+    priority: 'medium',
+    status: 'todo',
+    assigneeId: mockTeammate.id,
+    isRead: false,
+  },
+  {
+    id: 'item-7',
+    userId: mockUser.id,
+    teamId: 'team-1',
+    type: 'task',
+    title: 'Review release checklist',
+    source: 'Manual',
+    timestamp: daysAgo(1),
+    priority: 'high',
+    status: 'todo',
+    assigneeId: mockUser.id,
+    isRead: true,
+  },
+  {
+    id: 'item-8',
+    userId: mockTeammate.id,
+    teamId: 'team-1',
+    type: 'calendar',
+    title: 'Customer interview',
+    source: 'Google Calendar',
+    timestamp: daysAgo(1),
+    preview: 'Tomorrow, 13:00',
+    isRead: true,
+    metadata: { startTime: atTime(daysFromNow(1), 13), endTime: atTime(daysFromNow(1), 14) },
   },
 ];
 
 export const mockPriorityRecommendations: PriorityRecommendation[] = [
   {
+    id: 'rec-1',
+    userId: mockUser.id,
     threadId: 'thread-1',
     thread: mockWorkThreads[0],
     score: 92,
+    generatedAt: hoursAgo(1),
+    isActive: true,
     reasoning: {
       title: 'Urgent deadline approaching',
       description: 'Budget review is due in 2 days and requires your input before the finance meeting.',
@@ -129,9 +260,13 @@ export const mockPriorityRecommendations: PriorityRecommendation[] = [
     },
   },
   {
+    id: 'rec-2',
+    userId: mockUser.id,
     threadId: 'thread-4',
     thread: mockWorkThreads[3],
     score: 78,
+    generatedAt: hoursAgo(1),
+    isActive: true,
     reasoning: {
       title: 'At risk of missing deadline',
       description: 'This work has been inactive but has an approaching deadline.',
@@ -143,9 +278,13 @@ export const mockPriorityRecommendations: PriorityRecommendation[] = [
     },
   },
   {
+    id: 'rec-3',
+    userId: mockUser.id,
     threadId: 'thread-2',
     thread: mockWorkThreads[1],
     score: 65,
+    generatedAt: hoursAgo(1),
+    isActive: true,
     reasoning: {
       title: 'Strategic importance',
       description: 'Product roadmap affects multiple teams and upcoming sprints.',
@@ -161,36 +300,44 @@ export const mockPriorityRecommendations: PriorityRecommendation[] = [
 export const mockInsights: WorkInsight[] = [
   {
     id: 'insight-1',
+    userId: mockUser.id,
     type: 'ignored-work',
     title: 'Onboarding redesign needs attention',
     description: 'This work thread has a deadline in 2 days but no activity in the past 24 hours.',
     severity: 'warning',
-    relatedThreads: ['thread-4'],
+    relatedThreadIds: ['thread-4'],
     actionSuggestion: 'Consider blocking 2 hours today to complete the remaining designs.',
     detectedAt: hoursAgo(1),
+    isActive: true,
   },
   {
     id: 'insight-2',
+    userId: mockUser.id,
     type: 'attention-leak',
     title: 'Frequent context switching detected',
     description: 'You switched between 5 different work threads in the past hour.',
     severity: 'info',
     actionSuggestion: 'Try focusing on one thread for the next 45 minutes.',
     detectedAt: hoursAgo(0.5),
+    isActive: true,
   },
   {
     id: 'insight-3',
+    userId: mockUser.id,
     type: 'deadline-risk',
     title: 'Budget review at risk',
     description: 'With current progress rate, you may not complete the budget review before the deadline.',
     severity: 'critical',
-    relatedThreads: ['thread-1'],
+    relatedThreadIds: ['thread-1'],
     actionSuggestion: 'Block 3 hours of focus time today to address this.',
     detectedAt: hoursAgo(0.25),
+    isActive: true,
   },
 ];
 
 export const mockCognitiveLoad: CognitiveLoadState = {
+  id: 'load-1',
+  userId: mockUser.id,
   level: 'medium',
   score: 58,
   factors: {
@@ -199,21 +346,336 @@ export const mockCognitiveLoad: CognitiveLoadState = {
     workDuration: 4.5,
     pendingDeadlines: 2,
   },
+  timestamp: hoursAgo(0.25),
 };
 
 export const mockDailyStats: DailyStats[] = [
-  { date: daysAgo(6), focusTime: 180, contextSwitches: 12, completedTasks: 5, activeThreads: 3 },
-  { date: daysAgo(5), focusTime: 210, contextSwitches: 8, completedTasks: 7, activeThreads: 4 },
-  { date: daysAgo(4), focusTime: 150, contextSwitches: 15, completedTasks: 3, activeThreads: 5 },
-  { date: daysAgo(3), focusTime: 240, contextSwitches: 6, completedTasks: 8, activeThreads: 3 },
-  { date: daysAgo(2), focusTime: 120, contextSwitches: 18, completedTasks: 2, activeThreads: 6 },
-  { date: daysAgo(1), focusTime: 195, contextSwitches: 10, completedTasks: 6, activeThreads: 4 },
-  { date: new Date(), focusTime: 90, contextSwitches: 5, completedTasks: 2, activeThreads: 4 },
+  { id: 'stats-6', userId: mockUser.id, date: daysAgo(6), focusTime: 180, contextSwitches: 12, completedTasks: 5, activeThreads: 3 },
+  { id: 'stats-5', userId: mockUser.id, date: daysAgo(5), focusTime: 210, contextSwitches: 8, completedTasks: 7, activeThreads: 4 },
+  { id: 'stats-4', userId: mockUser.id, date: daysAgo(4), focusTime: 150, contextSwitches: 15, completedTasks: 3, activeThreads: 5 },
+  { id: 'stats-3', userId: mockUser.id, date: daysAgo(3), focusTime: 240, contextSwitches: 6, completedTasks: 8, activeThreads: 3 },
+  { id: 'stats-2', userId: mockUser.id, date: daysAgo(2), focusTime: 120, contextSwitches: 18, completedTasks: 2, activeThreads: 6 },
+  { id: 'stats-1', userId: mockUser.id, date: daysAgo(1), focusTime: 195, contextSwitches: 10, completedTasks: 6, activeThreads: 4 },
+  { id: 'stats-0', userId: mockUser.id, date: new Date(), focusTime: 90, contextSwitches: 5, completedTasks: 2, activeThreads: 4 },
 ];
 
-export const mockUser = {
-  id: 'user-1',
-  name: 'Alex Morgan',
-  email: 'alex.morgan@company.com',
-  avatar: 'https://images.unsplash.com/photo-1472099645785-5658abf4ff4e?w=100&h=100&fit=crop&crop=face',
+
+export const mockMeetings: Meeting[] = [
+  {
+    id: 'meeting-1',
+    userId: mockUser.id,
+    title: 'Q4 budget review',
+    description: 'Walk finance through the revised spend plan.',
+    startTime: atTime(daysFromNow(1), 10),
+    endTime: atTime(daysFromNow(1), 11),
+    attendees: ['sarah.chen@company.com', 'finance@company.com'],
+    platform: 'google',
+    meetingLink: 'https://calendar.google.com/calendar/event?eid=mock-meeting-1',
+    joinUrl: 'https://meet.google.com/mock-abc-def',
+    eventId: 'mock-meeting-1',
+    status: 'scheduled',
+    createdAt: daysAgo(3),
+    updatedAt: daysAgo(3),
+  },
+  {
+    id: 'meeting-2',
+    userId: mockUser.id,
+    title: 'Design handoff',
+    startTime: atTime(daysFromNow(3), 14),
+    endTime: atTime(daysFromNow(3), 14, 45),
+    attendees: ['sarah.chen@company.com'],
+    platform: 'teams',
+    joinUrl: 'https://teams.microsoft.com/l/meetup-join/mock-meeting-2',
+    eventId: 'mock-meeting-2',
+    status: 'scheduled',
+    createdAt: daysAgo(1),
+    updatedAt: daysAgo(1),
+  },
+  {
+    id: 'meeting-3',
+    userId: mockUser.id,
+    title: 'Sprint retro',
+    startTime: atTime(daysAgo(2), 16),
+    endTime: atTime(daysAgo(2), 16, 30),
+    attendees: ['sarah.chen@company.com', 'dev-team@company.com'],
+    platform: 'google',
+    joinUrl: 'https://meet.google.com/mock-ghi-jkl',
+    eventId: 'mock-meeting-3',
+    status: 'completed',
+    createdAt: daysAgo(9),
+    updatedAt: daysAgo(2),
+  },
+  {
+    id: 'meeting-4',
+    userId: mockUser.id,
+    title: 'Team weekly sync',
+    startTime: atTime(daysAgo(14), 9, 30),
+    endTime: atTime(daysAgo(14), 10),
+    attendees: ['sarah.chen@company.com', 'dev-team@company.com'],
+    platform: 'google',
+    joinUrl: 'https://meet.google.com/mock-mno-pqr',
+    eventId: 'mock-meeting-4',
+    status: 'scheduled',
+    threadId: 'thread-5',
+    // Weekly on the weekday it started; last week's was skipped
+    recurrence: 'FREQ=WEEKLY',
+    exceptions: [{ originalStart: atTime(daysAgo(7), 9, 30), cancelled: true }],
+    createdAt: daysAgo(15),
+    updatedAt: daysAgo(8),
+  },
+];
+
+// Graph writes UTC times without the zone suffix
+const graphTime = (date: Date) => ({ dateTime: date.toISOString().slice(0, -1), timeZone: 'UTC' });
+
+// What the Microsoft 365 sync "receives" in offline demo mode, in Graph's own shapes
+export const mockGraphSnapshot: GraphSnapshot = {
+  messages: [
+    {
+      id: 'graph-msg-1',
+      subject: 'Vendor contract renewal',
+      bodyPreview: 'The renewal terms are attached, we need sign-off by Friday.',
+      receivedDateTime: hoursAgo(3).toISOString(),
+      importance: 'high',
+      isRead: false,
+      webLink: 'https://outlook.office.com/mail/inbox/id/graph-msg-1',
+      from: { emailAddress: { name: 'Priya Patel', address: 'priya.patel@vendor.com' } },
+    },
+    {
+      id: 'graph-msg-2',
+      subject: 'Quarterly all-hands slides',
+      bodyPreview: 'Draft deck for next week, comments welcome.',
+      receivedDateTime: hoursAgo(20).toISOString(),
+      importance: 'normal',
+      isRead: true,
+      webLink: 'https://outlook.office.com/mail/inbox/id/graph-msg-2',
+      from: { emailAddress: { name: 'Comms Team', address: 'comms@company.com' } },
+    },
+  ],
+  events: [
+    {
+      id: 'graph-event-1',
+      subject: 'Partner sync',
+      bodyPreview: 'Monthly check-in with the integration partner.',
+      start: graphTime(atTime(daysFromNow(2), 15)),
+      end: graphTime(atTime(daysFromNow(2), 15, 30)),
+      webLink: 'https://outlook.office.com/calendar/item/graph-event-1',
+      onlineMeeting: { joinUrl: 'https://teams.microsoft.com/l/meetup-join/graph-event-1' },
+    },
+  ],
+  tasks: [
+    {
+      id: 'graph-task-1',
+      title: 'Submit expense report',
+      status: 'notStarted',
+      importance: 'normal',
+      createdDateTime: daysAgo(2).toISOString(),
+      dueDateTime: graphTime(atTime(daysFromNow(3), 0)),
+      listName: 'Tasks',
+    },
+  ],
+};
+
+const notionRow = (
+  id: string,
+  title: string,
+  status: string,
+  due: Date | null,
+  assignee: string | null,
+  notes = ''
+): NotionPage => ({
+  id,
+  url: `https://www.notion.so/${id.replace(/-/g, '')}`,
+  created_time: daysAgo(10).toISOString(),
+  last_edited_time: hoursAgo(30).toISOString(),
+  properties: {
+    Name: { type: 'title', title: [{ plain_text: title }] },
+    Notes: { type: 'rich_text', rich_text: notes ? [{ plain_text: notes }] : [] },
+    Status: { type: 'status', status: { name: status } },
+    Due: { type: 'date', date: due ? { start: due.toISOString().slice(0, 10) } : null },
+    Owner: {
+      type: 'people',
+      people: assignee ? [{ id: `notion-${assignee}`, name: assignee, person: { email: assignee } }] : [],
+    },
+  },
+});
+
+const notionSubPage = (id: string, title: string): NotionPage => ({
+  id,
+  url: `https://www.notion.so/${id.replace(/-/g, '')}`,
+  created_time: daysAgo(6).toISOString(),
+  last_edited_time: daysAgo(1).toISOString(),
+  properties: { title: { type: 'title', title: [{ plain_text: title }] } },
+});
+
+// The workspace a Notion token "sees" in offline demo mode
+export const mockNotionWorkspace: NotionWorkspace = {
+  name: 'Acme Product',
+  sources: [
+    {
+      source: {
+        id: 'notion-db-roadmap',
+        type: 'database',
+        title: 'Launch checklist',
+        icon: '🚀',
+        url: 'https://www.notion.so/notiondbroadmap',
+        properties: [
+          { id: 'title', name: 'Name', type: 'title' },
+          { id: 'notes', name: 'Notes', type: 'rich_text' },
+          { id: 'status', name: 'Status', type: 'status', options: ['Not started', 'In progress', 'Blocked', 'Done'] },
+          { id: 'due', name: 'Due', type: 'date' },
+          { id: 'owner', name: 'Owner', type: 'people' },
+        ],
+      },
+      entries: [
+        notionRow('notion-row-1', 'Finalize pricing page copy', 'In progress', daysFromNow(4), 'alex.morgan@company.com', 'Legal review pending'),
+        notionRow('notion-row-2', 'Record product demo video', 'Not started', daysFromNow(9), 'sarah.chen@company.com'),
+        notionRow('notion-row-3', 'Press kit', 'Done', daysAgo(2), 'alex.morgan@company.com'),
+        notionRow('notion-row-4', 'Partner announcement', 'Blocked', daysFromNow(12), null, 'Waiting on partner approval'),
+      ],
+    },
+    {
+      source: {
+        id: 'notion-page-offsite',
+        type: 'page',
+        title: 'Team offsite planning',
+        icon: '🏕️',
+        url: 'https://www.notion.so/notionpageoffsite',
+        properties: [],
+      },
+      entries: [
+        notionSubPage('notion-subpage-1', 'Venue shortlist'),
+        notionSubPage('notion-subpage-2', 'Agenda draft'),
+      ],
+    },
+  ],
 };
+
+const slackTs = (date: Date) => (date.getTime() / 1000).toFixed(6);
+const dayOf = (date: Date) => format(date, 'yyyy-MM-dd');
+
+// What the connectors read from each service in mock mode
+export const mockConnectorSnapshots: ConnectorSnapshots = {
+  slack: {
+    account: 'Acme',
+    userId: 'U04ALEXM',
+    mentions: [
+      {
+        ts: slackTs(hoursAgo(0.3)),
+        channel: { id: 'C01ENG', name: 'engineering' },
+        user: 'U02SARAH',
+        username: 'Sarah Chen',
+        text: '<@U04ALEXM> can you take a look at the rate limiter before the deploy?\nIt is behind the <https://flags.acme.dev/rate-limit|rate-limit flag>.',
+        permalink: 'https://acme.slack.com/archives/C01ENG/p1',
+      },
+      {
+        ts: slackTs(hoursAgo(5)),
+        channel: { id: 'C03DESIGN', name: 'design' },
+        user: 'U05LISA',
+        username: 'Lisa Park',
+        text: 'New onboarding mocks are up, <@U04ALEXM> and <@U06MIKE|Mike Johnson> please leave comments by Friday',
+        permalink: 'https://acme.slack.com/archives/C03DESIGN/p2',
+      },
+    ],
+    directMessages: [
+      {
+        ts: slackTs(hoursAgo(1.5)),
+        channel: { id: 'D09MIKE', is_im: true },
+        user: 'U06MIKE',
+        username: 'Mike Johnson',
+        text: 'Do you have 10 minutes today to go over the Q4 numbers?',
+        permalink: 'https://acme.slack.com/archives/D09MIKE/p3',
+      },
+    ],
+  },
+  linear: {
+    account: 'Acme',
+    issues: [
+      {
+        id: 'linear-issue-1',
+        identifier: 'DES-142',
+        title: 'Empty states for the onboarding checklist',
+        description: 'Cover the no-integrations and no-teams cases.',
+        priority: 2,
+        url: 'https://linear.app/acme/issue/DES-142',
+        dueDate: dayOf(daysFromNow(3)),
+        updatedAt: hoursAgo(6).toISOString(),
+        state: { name: 'In Progress', type: 'started' },
+        team: { key: 'DES', name: 'Design' },
+      },
+      {
+        id: 'linear-issue-2',
+        identifier: 'ENG-871',
+        title: 'Retry failed calendar syncs with backoff',
+        priority: 3,
+        url: 'https://linear.app/acme/issue/ENG-871',
+        updatedAt: daysAgo(2).toISOString(),
+        state: { name: 'Todo', type: 'unstarted' },
+        team: { key: 'ENG', name: 'Engineering' },
+      },
+      {
+        id: 'linear-issue-3',
+        identifier: 'ENG-856',
+        title: 'Drop the legacy export endpoint',
+        priority: 4,
+        url: 'https://linear.app/acme/issue/ENG-856',
+        updatedAt: daysAgo(4).toISOString(),
+        state: { name: 'Canceled', type: 'canceled' },
+        team: { key: 'ENG', name: 'Engineering' },
+      },
+    ],
+  },
+  github: {
+    account: 'alexmorgan',
+    reviewRequests: [
+      {
+        id: 2190457731,
+        number: 1284,
+        title: 'Add token bucket rate limiter to the public API',
+        html_url: 'https://github.com/acme/platform/pull/1284',
+        repository_url: 'https://api.github.com/repos/acme/platform',
+        user: { login: 'sarahchen' },
+        created_at: daysAgo(1).toISOString(),
+        updated_at: hoursAgo(2).toISOString(),
+      },
+      {
+        id: 2190112004,
+        number: 311,
+        title: 'Onboarding checklist empty states',
+        html_url: 'https://github.com/acme/web/pull/311',
+        repository_url: 'https://api.github.com/repos/acme/web',
+        user: { login: 'lisapark' },
+        draft: true,
+        created_at: daysAgo(3).toISOString(),
+        updated_at: hoursAgo(20).toISOString(),
+      },
+    ],
+  },
+};
+
+// What the Google sync reads in mock mode: one message from Gmail and one
+// event from Google Calendar
+export const mockGoogleItems: Partial<WorkItem>[] = [
+  {
+    type: 'email',
+    title: 'Welcome to the offline demo',
+    source: 'Gmail',
+    timestamp: hoursAgo(3),
+    preview: 'Synced from the mock backend.',
+    isRead: false,
+    metadata: { googleId: 'gmail-msg-1' },
+  },
+  {
+    type: 'calendar',
+    title: 'Design review',
+    source: 'Google Calendar',
+    timestamp: atTime(daysFromNow(1), 10),
+    preview: 'Tomorrow, 10:00',
+    metadata: {
+      googleId: 'gcal-event-1',
+      eventId: 'gcal-event-1',
+      startTime: atTime(daysFromNow(1), 10),
+      endTime: atTime(daysFromNow(1), 10, 30),
+    },
+  },
+];
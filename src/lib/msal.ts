@@ -23,4 +23,57 @@ export const loginRequest = {
     scopes: ["User.Read", "profile", "openid", "email"]
 };
 
+// Asked for separately when connecting Microsoft 365, so signing in never
+// needs more than the basic profile
+export const syncRequest = {
+    scopes: ["User.Read", "Mail.Read", "Calendars.Read", "Tasks.Read"]
+};
+
 export const msalInstance = new PublicClientApplication(msalConfig);
+
+const AUTH_POPUP_FEATURES = "width=500,height=640";
+const AUTH_POPUP_POLL_MS = 250;
+
+// MSAL redeems its codes in the browser, which leaves the backend nothing to
+// refresh with, so connecting Microsoft 365 runs the code flow in a popup of
+// its own and hands the code over instead. The redirect URI has to be
+// registered for the Web platform, where the backend redeems the code.
+export function requestMicrosoftAuthCode(loginHint?: string): Promise<string> {
+    const state = crypto.randomUUID();
+    const params = new URLSearchParams({
+        client_id: msalConfig.auth.clientId,
+        response_type: "code",
+        response_mode: "query",
+        redirect_uri: redirectUri,
+        scope: [...syncRequest.scopes, "offline_access"].join(" "),
+        state,
+        ...(loginHint ? { login_hint: loginHint } : {}),
+    });
+    const popup = window.open(`${msalConfig.auth.authority}/oauth2/v2.0/authorize?${params}`, "monocle-microsoft", AUTH_POPUP_FEATURES);
+    if (!popup) return Promise.reject(new Error("The sign-in popup was blocked"));
+
+    return new Promise((resolve, reject) => {
+        const timer = window.setInterval(() => {
+            if (popup.closed) {
+                window.clearInterval(timer);
+                reject(new Error("The sign-in popup was closed"));
+                return;
+            }
+            let url: URL;
+            try {
+                url = new URL(popup.location.href);
+            } catch {
+                return; // Still on Microsoft's pages
+            }
+            if (url.origin !== window.location.origin) return;
+            window.clearInterval(timer);
+            popup.close();
+            const code = url.searchParams.get("code");
+            if (url.searchParams.get("state") !== state || !code) {
+                reject(new Error(url.searchParams.get("error_description") ?? "Microsoft did not return an auth code"));
+            } else {
+                resolve(code);
+            }
+        }, AUTH_POPUP_POLL_MS);
+    });
+}
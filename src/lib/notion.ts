@@ -0,0 +1,97 @@
+import { NotionMapping, NotionSource, WorkItem } from './types';
+
+// Notion pages as the API returns them, cut down to the property types an
+// import can use, and how a page becomes a work item under a NotionMapping.
+
+export interface NotionUser {
+  id: string;
+  name?: string;
+  person?: { email?: string };
+}
+
+export type NotionPropertyValue =
+  | { type: 'title'; title: { plain_text: string }[] }
+  | { type: 'rich_text'; rich_text: { plain_text: string }[] }
+  | { type: 'status'; status: { name: string } | null }
+  | { type: 'select'; select: { name: string } | null }
+  | { type: 'checkbox'; checkbox: boolean }
+  | { type: 'date'; date: { start: string; end?: string | null } | null }
+  | { type: 'people'; people: NotionUser[] };
+
+export interface NotionPage {
+  id: string;
+  url: string;
+  created_time: string;
+  last_edited_time: string;
+  icon?: { type: 'emoji'; emoji: string } | null;
+  properties: Record<string, NotionPropertyValue>;
+}
+
+// What an integration token can see: each shared source with its rows, or
+// with its sub-pages for a plain page
+export interface NotionWorkspace {
+  name: string;
+  sources: { source: NotionSource; entries: NotionPage[] }[];
+}
+
+export const plainText = (parts: { plain_text: string }[]) => parts.map(part => part.plain_text).join('');
+
+export const pageTitle = (page: NotionPage) => {
+  const title = Object.values(page.properties).find(value => value.type === 'title');
+  return (title?.type === 'title' && plainText(title.title)) || 'Untitled';
+};
+
+// A first guess at what each option means, for the user to correct
+export function guessStatus(option: string): WorkItem['status'] {
+  const name = option.toLowerCase();
+  if (/done|complete|shipped|closed|resolved/.test(name)) return 'completed';
+  if (/progress|doing|review|started|active/.test(name) && !/not started/.test(name)) return 'in-progress';
+  return 'todo';
+}
+
+const statusOf = (value: NotionPropertyValue | undefined, mapping: NotionMapping): WorkItem['status'] => {
+  if (value?.type === 'checkbox') return value.checkbox ? 'completed' : 'todo';
+  const option = value?.type === 'status' ? value.status?.name : value?.type === 'select' ? value.select?.name : undefined;
+  if (!option) return 'todo';
+  return mapping.statusValues?.[option] ?? guessStatus(option);
+};
+
+// Notion dates without a time are days, which are read in local time
+const dueDateOf = (value: NotionPropertyValue | undefined) => {
+  if (value?.type !== 'date' || !value.date) return undefined;
+  const { start } = value.date;
+  return new Date(/^\d{4}-\d{2}-\d{2}$/.test(start) ? `${start}T00:00` : start);
+};
+
+// `resolveUser` matches a Notion person to a Monocle user by email; people
+// who aren't on Monocle stay unassigned
+export function notionPageToItem(
+  page: NotionPage,
+  mapping: NotionMapping,
+  resolveUser: (email: string) => string | undefined
+): Partial<WorkItem> {
+  const property = (name?: string) => (name ? page.properties[name] : undefined);
+  const assignee = property(mapping.assigneeProperty);
+  const email = assignee?.type === 'people' ? assignee.people.find(p => p.person?.email)?.person?.email : undefined;
+  const description = Object.values(page.properties).find(value => value.type === 'rich_text');
+  const dueDate = dueDateOf(property(mapping.dueDateProperty));
+
+  return {
+    type: 'task',
+    title: pageTitle(page),
+    source: 'Notion',
+    timestamp: new Date(page.last_edited_time),
+    preview: description?.type === 'rich_text' ? plainText(description.rich_text) || undefined : undefined,
+    status: mapping.statusProperty ? statusOf(property(mapping.statusProperty), mapping) : 'todo',
+    assigneeId: email ? resolveUser(email) : undefined,
+    metadata: { notionId: page.id, url: page.url, dueDate },
+  };
+}
+
+// The thread is due when its earliest unfinished task is
+export function threadDeadline(items: Partial<WorkItem>[]): Date | undefined {
+  const due = items
+    .filter(item => item.status !== 'completed' && item.metadata?.dueDate)
+    .map(item => item.metadata.dueDate as Date);
+  return due.length > 0 ? new Date(Math.min(...due.map(date => date.getTime()))) : undefined;
+}
@@ -0,0 +1,177 @@
+import { addDays, addMonths, addWeeks, format, startOfWeek } from 'date-fns';
+import { Meeting } from './types';
+
+// The subset of RFC 5545 recurrence rules the meeting form can produce:
+// FREQ=DAILY|WEEKLY|MONTHLY with INTERVAL, BYDAY (weekly only), UNTIL and
+// COUNT. Occurrences are expanded in local time, so a 09:00 weekly sync stays
+// at 09:00 across daylight-saving changes.
+
+export type Frequency = 'DAILY' | 'WEEKLY' | 'MONTHLY';
+export type Weekday = 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA' | 'SU';
+
+export interface RecurrenceRule {
+  freq: Frequency;
+  interval: number;
+  byDay?: Weekday[]; // Weekly only; defaults to the first occurrence's weekday
+  until?: Date; // Inclusive
+  count?: number;
+}
+
+export interface Occurrence {
+  meeting: Meeting;
+  start: Date;
+  end: Date;
+  // When the rule put it, which identifies it even after it was moved
+  originalStart: Date;
+}
+
+// Monday first, as WKST defaults to MO
+export const WEEKDAYS: Weekday[] = ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'];
+
+const WEEKDAY_NAMES: Record<Weekday, string> = {
+  MO: 'Mon', TU: 'Tue', WE: 'Wed', TH: 'Thu', FR: 'Fri', SA: 'Sat', SU: 'Sun',
+};
+
+// Stops a runaway rule (say, daily since 1970) from locking up the page
+const MAX_ITERATIONS = 5000;
+
+export const weekdayOf = (date: Date): Weekday => WEEKDAYS[(date.getDay() + 6) % 7];
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+const formatUntil = (date: Date) =>
+  `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}` +
+  `T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+
+// 20261231T235959Z, or a bare 20261231 meaning the end of that day
+const parseUntil = (value: string) => {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(value);
+  if (!match) return undefined;
+  const [, year, month, day, hours, minutes, seconds, utc] = match;
+  if (!hours) return new Date(Number(year), Number(month) - 1, Number(day), 23, 59, 59);
+  const parts = [Number(year), Number(month) - 1, Number(day), Number(hours), Number(minutes), Number(seconds)] as const;
+  return utc ? new Date(Date.UTC(...parts)) : new Date(...parts);
+};
+
+// Null for anything outside the supported subset, which is then treated as a
+// one-off meeting rather than guessed at
+export function parseRRule(value: string): RecurrenceRule | null {
+  const fields = new Map<string, string>();
+  for (const part of value.replace(/^RRULE:/i, '').split(';')) {
+    const [key, field] = part.split('=');
+    if (key && field) fields.set(key.toUpperCase(), field.toUpperCase());
+  }
+
+  const freq = fields.get('FREQ');
+  if (freq !== 'DAILY' && freq !== 'WEEKLY' && freq !== 'MONTHLY') return null;
+
+  const interval = Number(fields.get('INTERVAL') ?? 1);
+  const count = fields.has('COUNT') ? Number(fields.get('COUNT')) : undefined;
+  const until = fields.has('UNTIL') ? parseUntil(fields.get('UNTIL')) : undefined;
+  const byDay = fields.get('BYDAY')?.split(',');
+  if (!Number.isInteger(interval) || interval < 1) return null;
+  if (count !== undefined && (!Number.isInteger(count) || count < 1)) return null;
+  if (fields.has('UNTIL') && !until) return null;
+  if (byDay && (freq !== 'WEEKLY' || !byDay.every(day => WEEKDAYS.includes(day as Weekday)))) return null;
+
+  return { freq, interval, byDay: byDay as Weekday[], until, count };
+}
+
+export function formatRRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.freq === 'WEEKLY' && rule.byDay?.length) {
+    parts.push(`BYDAY=${WEEKDAYS.filter(day => rule.byDay.includes(day)).join(',')}`);
+  }
+  if (rule.until) parts.push(`UNTIL=${formatUntil(rule.until)}`);
+  else if (rule.count) parts.push(`COUNT=${rule.count}`);
+  return parts.join(';');
+}
+
+export function describeRule(rule: RecurrenceRule): string {
+  const unit = { DAILY: 'day', WEEKLY: 'week', MONTHLY: 'month' }[rule.freq];
+  let text = rule.interval === 1
+    ? { DAILY: 'Daily', WEEKLY: 'Weekly', MONTHLY: 'Monthly' }[rule.freq]
+    : `Every ${rule.interval} ${unit}s`;
+  if (rule.freq === 'WEEKLY' && rule.byDay?.length) {
+    text += ` on ${WEEKDAYS.filter(day => rule.byDay.includes(day)).map(day => WEEKDAY_NAMES[day]).join(', ')}`;
+  }
+  if (rule.until) text += `, until ${format(rule.until, 'MMM d, yyyy')}`;
+  else if (rule.count) text += `, ${rule.count} times`;
+  return text;
+}
+
+const atTimeOf = (day: Date, time: Date) => {
+  const result = new Date(day);
+  result.setHours(time.getHours(), time.getMinutes(), time.getSeconds(), time.getMilliseconds());
+  return result;
+};
+
+// Every start the rule produces from `first` up to `limit`. COUNT is counted
+// from the first occurrence, so expansion always starts there.
+function ruleStarts(rule: RecurrenceRule, first: Date, limit: Date): Date[] {
+  const last = rule.until && rule.until < limit ? rule.until : limit;
+  const starts: Date[] = [];
+  const accept = (start: Date) => {
+    if (start < first) return true;
+    if (start > last || (rule.count && starts.length >= rule.count)) return false;
+    starts.push(start);
+    return true;
+  };
+
+  for (let i = 0; i < MAX_ITERATIONS; i++) {
+    if (rule.freq === 'DAILY') {
+      if (!accept(addDays(first, i * rule.interval))) break;
+    } else if (rule.freq === 'WEEKLY') {
+      const week = addWeeks(startOfWeek(first, { weekStartsOn: 1 }), i * rule.interval);
+      const days = rule.byDay?.length ? rule.byDay : [weekdayOf(first)];
+      const inWeek = WEEKDAYS
+        .filter(day => days.includes(day))
+        .map(day => atTimeOf(addDays(week, WEEKDAYS.indexOf(day)), first));
+      if (!inWeek.every(accept)) break;
+    } else {
+      // The 31st only happens in months that have one
+      const start = addMonths(first, i * rule.interval);
+      if (start.getDate() === first.getDate() && !accept(start)) break;
+    }
+  }
+  return starts;
+}
+
+// Occurrences of the meeting that overlap [from, to), with per-occurrence
+// exceptions applied. A one-off meeting is its own single occurrence.
+export function expandOccurrences(meeting: Meeting, from: Date, to: Date): Occurrence[] {
+  const rule = meeting.recurrence ? parseRRule(meeting.recurrence) : null;
+  const duration = meeting.endTime.getTime() - meeting.startTime.getTime();
+  // An occurrence moved into the window from a slot after it still counts,
+  // so the rule is expanded as far as the latest such slot
+  const limit = (meeting.exceptions ?? []).reduce((latest, e) => {
+    if (e.cancelled || !e.startTime || e.originalStart <= latest) return latest;
+    const end = e.endTime ?? new Date(e.startTime.getTime() + duration);
+    return e.startTime < to && end > from ? e.originalStart : latest;
+  }, to);
+  const starts = rule ? ruleStarts(rule, meeting.startTime, limit) : [meeting.startTime];
+
+  const occurrences: Occurrence[] = [];
+  for (const originalStart of starts) {
+    const exception = meeting.exceptions?.find(e => e.originalStart.getTime() === originalStart.getTime());
+    if (exception?.cancelled) continue;
+    const start = exception?.startTime ?? originalStart;
+    const end = exception?.endTime ?? new Date(start.getTime() + duration);
+    if (start < to && end > from) occurrences.push({ meeting, start, end, originalStart });
+  }
+  return occurrences.sort((a, b) => a.start.getTime() - b.start.getTime());
+}
+
+// The occurrence running now or coming up next, if the series has any left
+export function nextOccurrence(meeting: Meeting, now: Date): Occurrence | undefined {
+  const rule = meeting.recurrence ? parseRRule(meeting.recurrence) : null;
+  if (!rule) return expandOccurrences(meeting, now, new Date(8.64e15))[0];
+
+  // Look a little further each time rather than expanding the whole series
+  for (let months = 1; months <= 48; months *= 2) {
+    const next = expandOccurrences(meeting, now, addMonths(now, months))[0];
+    if (next) return next;
+  }
+  return undefined;
+}
@@ -0,0 +1,154 @@
+import { describe, expect, it } from 'vitest';
+import { findMeetingSlots, SlotSearch } from './scheduling';
+import { MemberAvailability } from './types';
+
+// Fixture calendars for the week of Monday 19 October 2026. London is on
+// BST (UTC+1) until the 25th, New York on EDT (UTC-4) until 1 November.
+const at = (iso: string) => new Date(iso);
+
+// Two meetings that overlap, 09:00-12:00 London time between them
+const alice: MemberAvailability = {
+  userId: 'alice',
+  timezone: 'Europe/London',
+  workHoursStart: 9,
+  workHoursEnd: 17,
+  busy: [
+    { start: at('2026-10-19T08:00:00Z'), end: at('2026-10-19T10:00:00Z') },
+    { start: at('2026-10-19T09:30:00Z'), end: at('2026-10-19T11:00:00Z') },
+  ],
+};
+
+// Overlaps the end of Alice's morning, and has all of Tuesday blocked out
+const bob: MemberAvailability = {
+  userId: 'bob',
+  timezone: 'Europe/London',
+  workHoursStart: 9,
+  workHoursEnd: 17,
+  busy: [
+    { start: at('2026-10-19T10:30:00Z'), end: at('2026-10-19T12:00:00Z') },
+    { start: at('2026-10-19T23:00:00Z'), end: at('2026-10-20T23:00:00Z') },
+  ],
+};
+
+const carol: MemberAvailability = {
+  userId: 'carol',
+  timezone: 'America/New_York',
+  workHoursStart: 9,
+  workHoursEnd: 17,
+  busy: [],
+};
+
+const search = (overrides: Partial<SlotSearch>): SlotSearch => ({
+  from: at('2026-10-19T00:00:00Z'),
+  to: at('2026-10-24T00:00:00Z'),
+  durationMinutes: 30,
+  timeZone: 'Europe/London',
+  ...overrides,
+});
+
+const starts = (slots: { start: Date }[]) => slots.map(slot => slot.start.toISOString());
+
+describe('findMeetingSlots', () => {
+  it('skips every slot that touches an overlapping busy block', () => {
+    const slots = findMeetingSlots([alice, bob], search({
+      from: at('2026-10-19T08:00:00Z'),
+      to: at('2026-10-19T16:00:00Z'),
+    }));
+
+    // Both are free from 13:00 London time, and two a day are offered
+    expect(starts(slots)).toEqual(['2026-10-19T12:00:00.000Z', '2026-10-19T12:30:00.000Z']);
+    for (const slot of slots) {
+      for (const block of [...alice.busy, ...bob.busy]) {
+        expect(slot.start < block.end && slot.end > block.start).toBe(false);
+      }
+    }
+  });
+
+  it('offers nothing on a day with no free slot', () => {
+    const slots = findMeetingSlots([alice, bob], search({
+      from: at('2026-10-19T23:00:00Z'),
+      to: at('2026-10-20T23:00:00Z'),
+    }));
+
+    expect(slots).toEqual([]);
+  });
+
+  it('clips slots to working hours, end included', () => {
+    const slots = findMeetingSlots([alice], search({
+      from: at('2026-10-19T15:00:00Z'),
+      to: at('2026-10-19T18:00:00Z'),
+      durationMinutes: 60,
+    }));
+
+    // 16:00-17:00 London time is the last hour that ends inside them
+    expect(starts(slots)).toEqual(['2026-10-19T15:00:00.000Z']);
+  });
+
+  it('leaves weekends out', () => {
+    const slots = findMeetingSlots([carol], search({
+      from: at('2026-10-24T00:00:00Z'),
+      to: at('2026-10-26T00:00:00Z'),
+      timeZone: 'America/New_York',
+    }));
+
+    expect(slots).toEqual([]);
+  });
+
+  it('ranks slots where everyone is working first, then the earliest', () => {
+    const slots = findMeetingSlots([alice, carol], search({
+      from: at('2026-10-19T08:00:00Z'),
+      to: at('2026-10-19T22:00:00Z'),
+      durationMinutes: 60,
+      limit: 6,
+      perDay: 6,
+    }));
+
+    // Working hours overlap from 14:00 to 17:00 London time
+    expect(starts(slots)).toEqual([
+      '2026-10-19T13:00:00.000Z',
+      '2026-10-19T13:30:00.000Z',
+      '2026-10-19T14:00:00.000Z',
+      '2026-10-19T14:30:00.000Z',
+      '2026-10-19T15:00:00.000Z',
+      // Alice is free from 12:00 London time, before Carol starts
+      '2026-10-19T11:00:00.000Z',
+    ]);
+    expect(slots.map(slot => slot.score)).toEqual([100, 100, 100, 100, 100, 50]);
+    expect(slots[5].attendees.find(a => a.userId === 'carol')?.outsideHours).toBe(true);
+  });
+
+  it('flags attendees in other timezones with their local time', () => {
+    const [slot] = findMeetingSlots([alice, carol], search({
+      from: at('2026-10-19T13:00:00Z'),
+      to: at('2026-10-19T14:00:00Z'),
+    }));
+
+    expect(slot.attendees).toEqual([
+      { userId: 'alice', localTime: 'Mon 14:00', timeZone: 'Europe/London', outsideHours: false, otherTimezone: false },
+      { userId: 'carol', localTime: 'Mon 09:00', timeZone: 'America/New_York', outsideHours: false, otherTimezone: true },
+    ]);
+  });
+
+  it('follows each zone through its own daylight-saving change', () => {
+    // London is back on GMT by Monday 26 October; New York is still on EDT
+    const slots = findMeetingSlots([carol, { ...alice, busy: [] }], search({
+      from: at('2026-10-26T00:00:00Z'),
+      to: at('2026-10-27T00:00:00Z'),
+      durationMinutes: 60,
+      limit: 10,
+      perDay: 10,
+    }));
+
+    const full = slots.filter(slot => slot.score === 100);
+    expect(starts(full)).toEqual([
+      '2026-10-26T13:00:00.000Z',
+      '2026-10-26T13:30:00.000Z',
+      '2026-10-26T14:00:00.000Z',
+      '2026-10-26T14:30:00.000Z',
+      '2026-10-26T15:00:00.000Z',
+      '2026-10-26T15:30:00.000Z',
+      '2026-10-26T16:00:00.000Z',
+    ]);
+    expect(full[0].attendees.map(a => a.localTime)).toEqual(['Mon 09:00', 'Mon 13:00']);
+  });
+});
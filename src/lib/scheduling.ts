@@ -0,0 +1,140 @@
+import { MemberAvailability } from './types';
+
+// "Find a time": proposes meeting slots that are free for every attendee,
+// ranked by how many of them are inside their working hours. Everything here
+// is a pure function of its inputs (no clock, no locale) so results can be
+// checked against fixture calendars.
+
+export interface SlotSearch {
+  from: Date; // Earliest start, rounded up to the step
+  to: Date; // Latest end
+  durationMinutes: number;
+  timeZone: string; // The organiser's; members without one are assumed to share it
+  stepMinutes?: number;
+  limit?: number;
+  perDay?: number; // Spread suggestions out instead of offering one busy morning
+}
+
+export interface SlotAttendee {
+  userId: string;
+  localTime: string; // e.g. "Tue 15:30", in the attendee's own timezone
+  timeZone: string;
+  outsideHours: boolean;
+  otherTimezone: boolean;
+}
+
+export interface MeetingSlot {
+  start: Date;
+  end: Date;
+  score: number; // 0-100, share of attendees inside their working hours
+  attendees: SlotAttendee[];
+}
+
+const MINUTE = 60 * 1000;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const formatterFor = (timeZone: string) => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      weekday: 'short',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// Wall-clock reading of `date` in `timeZone`
+export function zonedTime(date: Date, timeZone: string) {
+  const parts: Record<string, string> = {};
+  for (const part of formatterFor(timeZone).formatToParts(date)) {
+    parts[part.type] = part.value;
+  }
+  const year = Number(parts.year);
+  const month = Number(parts.month);
+  const day = Number(parts.day);
+  const hour = Number(parts.hour);
+  const minute = Number(parts.minute);
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+  const instant = Math.floor(date.getTime() / MINUTE) * MINUTE;
+  return {
+    weekday: WEEKDAYS.indexOf(parts.weekday),
+    dayKey: `${parts.year}-${parts.month}-${parts.day}`,
+    minutes: hour * 60 + minute,
+    label: `${parts.weekday} ${parts.hour}:${parts.minute}`,
+    offsetMinutes: Math.round((wallClock - instant) / MINUTE),
+  };
+}
+
+const isBusy = (member: MemberAvailability, start: number, end: number) =>
+  member.busy.some(block => block.start.getTime() < end && block.end.getTime() > start);
+
+// Weekends count as outside working hours everywhere
+const isOutsideHours = (member: MemberAvailability, local: ReturnType<typeof zonedTime>, durationMinutes: number) =>
+  local.weekday === 0 ||
+  local.weekday === 6 ||
+  local.minutes < member.workHoursStart * 60 ||
+  local.minutes + durationMinutes > member.workHoursEnd * 60;
+
+export function findMeetingSlots(members: MemberAvailability[], search: SlotSearch): MeetingSlot[] {
+  const { from, to, durationMinutes, timeZone, stepMinutes = 30, limit = 5, perDay = 2 } = search;
+  if (members.length === 0 || durationMinutes <= 0) return [];
+
+  const step = stepMinutes * MINUTE;
+  const duration = durationMinutes * MINUTE;
+  const candidates: MeetingSlot[] = [];
+
+  for (let start = Math.ceil(from.getTime() / step) * step; start + duration <= to.getTime(); start += step) {
+    const end = start + duration;
+    if (members.some(member => isBusy(member, start, end))) continue;
+
+    const organiserOffset = zonedTime(new Date(start), timeZone).offsetMinutes;
+    const attendees = members.map((member): SlotAttendee => {
+      const zone = member.timezone || timeZone;
+      const local = zonedTime(new Date(start), zone);
+      return {
+        userId: member.userId,
+        localTime: local.label,
+        timeZone: zone,
+        outsideHours: isOutsideHours(member, local, durationMinutes),
+        otherTimezone: local.offsetMinutes !== organiserOffset,
+      };
+    });
+
+    const inside = attendees.filter(a => !a.outsideHours).length;
+    // A slot nobody is working in is not worth suggesting
+    if (inside === 0) continue;
+
+    candidates.push({
+      start: new Date(start),
+      end: new Date(end),
+      score: Math.round((inside / members.length) * 100),
+      attendees,
+    });
+  }
+
+  // Best first, earliest first among equals
+  candidates.sort((a, b) => b.score - a.score || a.start.getTime() - b.start.getTime());
+
+  const perDayCount = new Map<string, number>();
+  const slots: MeetingSlot[] = [];
+  for (const slot of candidates) {
+    const day = zonedTime(slot.start, timeZone).dayKey;
+    const count = perDayCount.get(day) ?? 0;
+    if (count >= perDay) continue;
+    perDayCount.set(day, count + 1);
+    slots.push(slot);
+    if (slots.length >= limit) break;
+  }
+  return slots;
+}
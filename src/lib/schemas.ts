@@ -0,0 +1,523 @@
+import { z } from 'zod';
+import {
+  User,
+  UserPreferences,
+  WorkItem,
+  WorkThread,
+  Team,
+  TeamMember,
+  Invitation,
+  PriorityRecommendation,
+  PriorityFactor,
+  WorkInsight,
+  CognitiveLoadState,
+  DailyStats,
+  ChatAction,
+  ChatActionRecord,
+  ChatContext,
+  ChatConversation,
+  ChatConversationSummary,
+  ChatMessage,
+  ChatProposedAction,
+  ChatStreamEvent,
+  FocusSettings,
+  FocusSession,
+  FocusPause,
+  FocusInterruption,
+  ThreadSummary,
+  TeamInviteLink,
+  Meeting,
+  MeetingException,
+  MeetingCreated,
+  MeetingDetails,
+  MeetingFollowUpResult,
+  BusyBlock,
+  MemberAvailability,
+  NotionConnection,
+  IntegrationConnection,
+  IntegrationStatus,
+  SyncRun,
+  SyncResult,
+  SyncState,
+  NotionMapping,
+  NotionSource,
+  NotionPropertySchema,
+  NotionSyncResult,
+  CalendarFeed,
+  CalendarFile,
+  CalendarImportResult,
+  Page,
+  RealtimeEvent,
+} from './types';
+
+// Runtime schemas for everything the API sends back. Each schema is pinned to
+// its interface in types.ts so the two cannot drift apart silently.
+
+type Schema<T> = z.ZodType<T, z.ZodTypeDef, unknown>;
+
+// With strictNullChecks off zod infers every key as optional, so its output
+// never matches our interfaces. Require a validator of the right type for
+// every key instead and pin the result to the interface.
+type Shape<T> = { [K in keyof T]-?: Schema<T[K]> };
+
+const objectOf = <T>(shape: Shape<T>) => z.object(shape as z.ZodRawShape) as unknown as Schema<T>;
+
+// One member of a union told apart by `type`, for z.union to put back together
+type Variant<U, K> = Extract<U, { type: K }>;
+
+// Dates arrive as ISO strings. Missing dates come through as null, which
+// z.coerce.date() would happily turn into 1970, so strip them first.
+const date = z.coerce.date();
+const optionalDate = z.preprocess((value) => value ?? undefined, z.coerce.date().optional());
+
+const priority = z.enum(['high', 'medium', 'low']);
+
+export const focusSettingsSchema = objectOf<FocusSettings>({
+  workMinutes: z.number(),
+  shortBreakMinutes: z.number(),
+  longBreakMinutes: z.number(),
+  longBreakEvery: z.number(),
+});
+
+export const userPreferencesSchema = objectOf<UserPreferences>({
+  workHoursStart: z.number(),
+  workHoursEnd: z.number(),
+  focusTimeGoal: z.number(),
+  notificationsEnabled: z.boolean(),
+  theme: z.enum(['light', 'dark', 'auto']),
+  timezone: z.string().nullish(),
+  focus: focusSettingsSchema.nullish(),
+  focusMode: z.boolean().nullish(),
+});
+
+const itemStatus = z.enum(['todo', 'in-progress', 'completed']);
+
+export const notionMappingSchema = objectOf<NotionMapping>({
+  sourceId: z.string(),
+  threadId: z.string().nullish(),
+  statusProperty: z.string().nullish(),
+  statusValues: z.record(itemStatus).nullish(),
+  dueDateProperty: z.string().nullish(),
+  assigneeProperty: z.string().nullish(),
+});
+
+const notionConnectionSchema = objectOf<NotionConnection>({
+  connected: z.boolean(),
+  workspace: z.string().nullish(),
+  mappings: z.array(notionMappingSchema).nullish(),
+});
+
+const integrationId = z.enum(['google', 'microsoft', 'slack', 'linear', 'github']);
+
+const integrationConnectionSchema = objectOf<IntegrationConnection>({
+  connected: z.boolean(),
+  account: z.string().nullish(),
+  lastSyncedAt: optionalDate,
+});
+
+export const userSchema = objectOf<User>({
+  id: z.string(),
+  name: z.string(),
+  email: z.string(),
+  avatar: z.string().nullish(),
+  createdAt: date,
+  lastLogin: optionalDate,
+  preferences: userPreferencesSchema.nullish(),
+  integrations: z.object({
+    google: integrationConnectionSchema.nullish(),
+    microsoft: integrationConnectionSchema.nullish(),
+    notion: notionConnectionSchema.nullish(),
+    slack: integrationConnectionSchema.nullish(),
+    linear: integrationConnectionSchema.nullish(),
+    github: integrationConnectionSchema.nullish(),
+  }).nullish(),
+});
+
+export const workItemSchema = objectOf<WorkItem>({
+  id: z.string(),
+  userId: z.string(),
+  type: z.enum(['email', 'message', 'document', 'calendar', 'task']),
+  title: z.string(),
+  source: z.string(),
+  timestamp: date,
+  preview: z.string().nullish(),
+  isRead: z.boolean().nullish(),
+  priority: priority.nullish(),
+  status: itemStatus.nullish(),
+  threadId: z.string().nullish(),
+  teamId: z.string().nullish(),
+  assigneeId: z.string().nullish(),
+  metadata: z.record(z.any()).nullish(),
+});
+
+export const workThreadSchema = objectOf<WorkThread>({
+  id: z.string(),
+  userId: z.string(),
+  title: z.string(),
+  description: z.string().nullish(),
+  itemIds: z.array(z.string()).default([]),
+  priority,
+  deadline: optionalDate,
+  lastActivity: date,
+  progress: z.number(),
+  isIgnored: z.boolean().nullish(),
+  isArchived: z.boolean().nullish(),
+  archivedAt: optionalDate,
+  deletedAt: optionalDate,
+  relatedPeople: z.array(z.string()).nullish(),
+  tags: z.array(z.string()).nullish(),
+  createdAt: date,
+  updatedAt: date,
+  teamId: z.string().nullish(),
+  assigneeId: z.string().nullish(),
+});
+
+export const teamMemberSchema = objectOf<TeamMember>({
+  userId: z.string(),
+  role: z.enum(['admin', 'member']),
+  joinedAt: date,
+  email: z.string().nullish(),
+  name: z.string().nullish(),
+});
+
+export const teamSchema = objectOf<Team>({
+  id: z.string(),
+  name: z.string(),
+  description: z.string().nullish(),
+  ownerId: z.string(),
+  members: z.array(teamMemberSchema),
+  createdAt: date,
+});
+
+export const invitationSchema = objectOf<Invitation>({
+  id: z.string(),
+  _id: z.string().nullish(),
+  teamId: z.string(),
+  inviterId: z.string(),
+  email: z.string(),
+  status: z.enum(['pending', 'accepted', 'expired']),
+  createdAt: date,
+});
+
+export const teamInviteLinkSchema = objectOf<TeamInviteLink>({
+  id: z.string(),
+  token: z.string(),
+  link: z.string(),
+});
+
+export const priorityRecommendationSchema = objectOf<PriorityRecommendation>({
+  id: z.string(),
+  userId: z.string(),
+  threadId: z.string(),
+  thread: workThreadSchema.nullish(),
+  score: z.number(),
+  reasoning: objectOf<PriorityRecommendation['reasoning']>({
+    title: z.string(),
+    description: z.string(),
+    factors: z.array(objectOf<PriorityFactor>({
+      label: z.string(),
+      weight: priority,
+      description: z.string(),
+    })),
+  }),
+  generatedAt: date,
+  isActive: z.boolean(),
+});
+
+export const workInsightSchema = objectOf<WorkInsight>({
+  id: z.string(),
+  userId: z.string(),
+  type: z.enum(['attention-leak', 'ignored-work', 'overload', 'momentum-drift', 'deadline-risk']),
+  title: z.string(),
+  description: z.string(),
+  severity: z.enum(['info', 'warning', 'critical']),
+  relatedThreadIds: z.array(z.string()).nullish(),
+  actionSuggestion: z.string().nullish(),
+  detectedAt: date,
+  isActive: z.boolean(),
+  isDismissed: z.boolean().nullish(),
+});
+
+export const cognitiveLoadSchema = objectOf<CognitiveLoadState>({
+  id: z.string(),
+  userId: z.string(),
+  level: z.enum(['low', 'medium', 'high', 'critical']),
+  score: z.number(),
+  factors: objectOf<CognitiveLoadState['factors']>({
+    activeThreads: z.number(),
+    switchingFrequency: z.number(),
+    workDuration: z.number(),
+    pendingDeadlines: z.number(),
+  }),
+  timestamp: date,
+});
+
+export const dailyStatsSchema = objectOf<DailyStats>({
+  id: z.string(),
+  userId: z.string(),
+  date,
+  focusTime: z.number(),
+  contextSwitches: z.number(),
+  completedTasks: z.number(),
+  activeThreads: z.number(),
+});
+
+export const focusSessionSchema = objectOf<FocusSession>({
+  id: z.string(),
+  userId: z.string(),
+  threadId: z.string().nullish(),
+  startedAt: date,
+  endedAt: date,
+  plannedMinutes: z.number(),
+  focusedMinutes: z.number(),
+  completed: z.boolean(),
+  pauses: z.array(objectOf<FocusPause>({ start: date, end: date })),
+  interruptions: z.array(objectOf<FocusInterruption>({
+    at: date,
+    kind: z.enum(['internal', 'external']),
+    note: z.string().nullish(),
+  })),
+});
+
+export const threadSummarySchema = objectOf<ThreadSummary>({
+  summary: z.string(),
+  nextSteps: z.array(z.string()).default([]),
+});
+
+export const meetingExceptionSchema = objectOf<MeetingException>({
+  originalStart: date,
+  cancelled: z.boolean().nullish(),
+  startTime: optionalDate,
+  endTime: optionalDate,
+});
+
+export const meetingSchema = objectOf<Meeting>({
+  id: z.string(),
+  userId: z.string(),
+  title: z.string(),
+  description: z.string().nullish(),
+  startTime: date,
+  endTime: date,
+  attendees: z.array(z.string()).default([]),
+  platform: z.enum(['google', 'teams']),
+  meetingLink: z.string().nullish(),
+  joinUrl: z.string().nullish(),
+  eventId: z.string().nullish(),
+  status: z.enum(['scheduled', 'completed', 'cancelled']),
+  threadId: z.string().nullish(),
+  itemId: z.string().nullish(),
+  notes: z.string().nullish(),
+  followedUpAt: optionalDate,
+  recurrence: z.string().nullish(),
+  exceptions: z.array(meetingExceptionSchema).default([]),
+  createdAt: date,
+  updatedAt: date,
+});
+
+const syncRunSchema = objectOf<SyncRun>({
+  id: z.string(),
+  trigger: z.enum(['connect', 'manual', 'scheduled']),
+  full: z.boolean(),
+  startedAt: date,
+  finishedAt: date,
+  imported: z.number(),
+  updated: z.number(),
+  removed: z.number().nullish(),
+  error: z.string().nullish(),
+});
+
+export const integrationStatusSchema = objectOf<IntegrationStatus>({
+  id: integrationId,
+  connected: z.boolean(),
+  account: z.string().nullish(),
+  lastSyncedAt: optionalDate,
+  itemCount: z.number(),
+  nextSyncAt: optionalDate,
+  history: z.array(syncRunSchema),
+});
+
+export const syncResultSchema = objectOf<SyncResult>({
+  imported: z.number(),
+  updated: z.number(),
+  removed: z.number().nullish(),
+  status: integrationStatusSchema,
+});
+
+export const syncStateSchema = objectOf<SyncState>({
+  userId: z.string(),
+  integration: integrationId,
+  cursor: z.string().nullish(),
+  credential: z.string().nullish(),
+  history: z.array(syncRunSchema),
+});
+
+export const notionPropertySchema = objectOf<NotionPropertySchema>({
+  id: z.string(),
+  name: z.string(),
+  type: z.string(),
+  options: z.array(z.string()).nullish(),
+});
+
+export const notionSourceSchema = objectOf<NotionSource>({
+  id: z.string(),
+  type: z.enum(['database', 'page']),
+  title: z.string(),
+  icon: z.string().nullish(),
+  url: z.string().nullish(),
+  properties: z.array(notionPropertySchema).default([]),
+});
+
+export const notionSyncResultSchema = objectOf<NotionSyncResult>({
+  imported: z.number(),
+  updated: z.number(),
+  threads: z.array(workThreadSchema),
+  user: userSchema,
+});
+
+export const calendarFeedSchema = objectOf<CalendarFeed>({
+  userId: z.string(),
+  token: z.string(),
+  url: z.string(),
+  createdAt: date,
+});
+
+export const calendarFileSchema = objectOf<CalendarFile>({
+  filename: z.string(),
+  calendar: z.string(),
+});
+
+export const calendarImportResultSchema = objectOf<CalendarImportResult>({
+  imported: z.number(),
+  updated: z.number(),
+  items: z.array(workItemSchema),
+});
+
+export const meetingFollowUpResultSchema = objectOf<MeetingFollowUpResult>({
+  meeting: meetingSchema,
+  items: z.array(workItemSchema),
+});
+
+export const busyBlockSchema = objectOf<BusyBlock>({
+  start: date,
+  end: date,
+});
+
+export const memberAvailabilitySchema = objectOf<MemberAvailability>({
+  userId: z.string(),
+  name: z.string().nullish(),
+  email: z.string().nullish(),
+  timezone: z.string().nullish(),
+  workHoursStart: z.number(),
+  workHoursEnd: z.number(),
+  busy: z.array(busyBlockSchema),
+});
+
+export const meetingCreatedSchema = objectOf<MeetingCreated>({
+  meetingLink: z.string().nullish(),
+  joinUrl: z.string().nullish(),
+  eventId: z.string().nullish(),
+  meeting: meetingSchema.nullish(),
+});
+
+export const pageSchema = <T>(results: Schema<T>) => objectOf<Page<T>>({
+  results: z.array(results),
+  total: z.number(),
+  page: z.number(),
+  pageSize: z.number(),
+});
+
+// Unknown event types fail to parse and are dropped by the realtime client,
+// so the server can add events ahead of the frontend.
+export const realtimeEventSchema: Schema<RealtimeEvent> = z.union([
+  objectOf<Variant<RealtimeEvent, 'item.created' | 'item.updated'>>({ type: z.enum(['item.created', 'item.updated']), item: workItemSchema }),
+  objectOf<Variant<RealtimeEvent, 'thread.updated'>>({ type: z.literal('thread.updated'), thread: workThreadSchema }),
+  objectOf<Variant<RealtimeEvent, 'team.member_joined'>>({ type: z.literal('team.member_joined'), teamId: z.string(), member: teamMemberSchema }),
+  objectOf<Variant<RealtimeEvent, 'insight.generated'>>({ type: z.literal('insight.generated'), insight: workInsightSchema }),
+  objectOf<Variant<RealtimeEvent, 'presence'>>({ type: z.literal('presence'), teamId: z.string(), userIds: z.array(z.string()) }),
+]);
+
+const chatActionSchema: Schema<ChatAction> = z.union([
+  objectOf<Variant<ChatAction, 'createThread'>>({ type: z.literal('createThread'), title: z.string(), priority, deadline: date.nullish() }),
+  objectOf<Variant<ChatAction, 'addTask'>>({ type: z.literal('addTask'), threadId: z.string(), title: z.string() }),
+  objectOf<Variant<ChatAction, 'rescheduleDeadline'>>({ type: z.literal('rescheduleDeadline'), threadId: z.string(), deadline: date }),
+  objectOf<Variant<ChatAction, 'scheduleMeeting'>>({
+    type: z.literal('scheduleMeeting'),
+    platform: z.enum(['google', 'teams']),
+    meeting: objectOf<MeetingDetails>({
+      title: z.string(),
+      description: z.string(),
+      startTime: z.string(),
+      endTime: z.string(),
+      attendees: z.array(z.string()),
+      threadId: z.string().nullish(),
+      recurrence: z.string().nullish(),
+    }),
+  }),
+  objectOf<Variant<ChatAction, 'dismissInsight'>>({ type: z.literal('dismissInsight'), insightId: z.string() }),
+]);
+
+const chatActionStatus = z.enum(['executing', 'executed', 'declined', 'failed']);
+
+const chatMessageSchema = objectOf<ChatMessage>({
+  role: z.enum(['user', 'model']),
+  content: z.string(),
+  context: objectOf<ChatContext>({ type: z.enum(['thread', 'team']), id: z.string() }).nullish(),
+  stopped: z.boolean().nullish(),
+  actions: z.array(objectOf<ChatProposedAction>({
+    id: z.string(),
+    action: chatActionSchema,
+    summary: z.string(),
+    status: z.union([z.literal('proposed'), chatActionStatus]),
+  })).nullish(),
+});
+
+export const chatActionRecordSchema = objectOf<ChatActionRecord>({
+  id: z.string(),
+  userId: z.string(),
+  conversationId: z.string(),
+  actionId: z.string(),
+  action: chatActionSchema,
+  summary: z.string(),
+  status: chatActionStatus,
+  targetId: z.string().nullish(),
+  error: z.string().nullish(),
+  at: date,
+});
+
+export const chatConversationSummarySchema = objectOf<ChatConversationSummary>({
+  id: z.string(),
+  userId: z.string(),
+  title: z.string(),
+  createdAt: date,
+  updatedAt: date,
+});
+
+export const chatConversationSchema = objectOf<ChatConversation>({
+  id: z.string(),
+  userId: z.string(),
+  title: z.string(),
+  createdAt: date,
+  updatedAt: date,
+  messages: z.array(chatMessageSchema),
+});
+
+// Like realtime events, unknown stream events fail to parse and are skipped
+export const chatStreamEventSchema: Schema<ChatStreamEvent> = z.union([
+  objectOf<Variant<ChatStreamEvent, 'conversation'>>({ type: z.literal('conversation'), conversation: chatConversationSummarySchema }),
+  objectOf<Variant<ChatStreamEvent, 'token'>>({ type: z.literal('token'), text: z.string() }),
+  objectOf<Variant<ChatStreamEvent, 'done'>>({ type: z.literal('done'), message: chatMessageSchema }),
+  objectOf<Variant<ChatStreamEvent, 'error'>>({ type: z.literal('error'), error: z.string() }),
+]);
+
+export const tokenRefreshSchema = z.object({
+  token: z.string(),
+  refreshToken: z.string().nullish(),
+});
+
+// Write endpoints answer with a bare acknowledgement rather than an entity.
+export const ackSchema = z.object({
+  success: z.boolean().optional(),
+  message: z.string().optional(),
+}).passthrough();
+
+export type Ack = z.infer<typeof ackSchema>;
@@ -9,18 +9,39 @@ export interface User {
   lastLogin?: Date;
   preferences?: UserPreferences;
   integrations?: {
-    google?: { connected: boolean; email?: string };
-    microsoft?: { connected: boolean; email?: string };
-    notion?: { connected: boolean };
+    google?: IntegrationConnection;
+    microsoft?: IntegrationConnection;
+    notion?: NotionConnection;
+    slack?: IntegrationConnection;
+    linear?: IntegrationConnection;
+    github?: IntegrationConnection;
   };
 }
 
+export interface NotionConnection {
+  connected: boolean;
+  workspace?: string;
+  // What the last import covered; "Sync now" repeats it
+  mappings?: NotionMapping[];
+}
+
 export interface UserPreferences {
   workHoursStart: number; // Hour of day (0-23)
   workHoursEnd: number;
   focusTimeGoal: number; // minutes per day
   notificationsEnabled: boolean;
   theme: 'light' | 'dark' | 'auto';
+  timezone?: string; // IANA zone, e.g. 'Europe/London'
+  focus?: FocusSettings; // Defaults apply until the user changes them
+  // Whether focus sessions turn on focus mode; on unless switched off
+  focusMode?: boolean;
+}
+
+export interface FocusSettings {
+  workMinutes: number;
+  shortBreakMinutes: number;
+  longBreakMinutes: number;
+  longBreakEvery: number; // Work sessions between long breaks
 }
 
 export interface WorkItem {
@@ -51,6 +72,9 @@ export interface WorkThread {
   lastActivity: Date;
   progress: number; // 0-100
   isIgnored?: boolean;
+  isArchived?: boolean;
+  archivedAt?: Date;
+  deletedAt?: Date;
   relatedPeople?: string[];
   tags?: string[];
   createdAt: Date;
@@ -145,3 +169,371 @@ export interface DailyStats {
   activeThreads: number;
 }
 
+export interface FocusPause {
+  start: Date;
+  end: Date;
+}
+
+export interface FocusInterruption {
+  at: Date;
+  // Internal: your own urge to switch. External: someone or something else.
+  kind: 'internal' | 'external';
+  note?: string;
+}
+
+// One work session from the focus timer; breaks are not recorded
+export interface FocusSession {
+  id: string;
+  userId: string;
+  threadId?: string; // The thread the session was about, if any
+  startedAt: Date;
+  endedAt: Date;
+  plannedMinutes: number;
+  focusedMinutes: number; // Time on the clock, pauses left out
+  completed: boolean; // Ran the full length rather than being stopped
+  pauses: FocusPause[];
+  interruptions: FocusInterruption[];
+}
+
+// The id comes from the client, so the same session sent twice, say by two
+// tabs, is only recorded once
+export type FocusSessionInput = Omit<FocusSession, 'userId'>;
+
+export interface FocusSessionQuery {
+  from?: Date;
+  to?: Date;
+}
+
+export interface ThreadSummary {
+  summary: string;
+  nextSteps: string[];
+}
+
+export interface TeamInviteLink {
+  id: string;
+  token: string;
+  link: string;
+}
+
+export interface Meeting {
+  id: string;
+  userId: string;
+  title: string;
+  description?: string;
+  startTime: Date;
+  endTime: Date;
+  attendees: string[];
+  platform: 'google' | 'teams';
+  meetingLink?: string;
+  joinUrl?: string;
+  eventId?: string; // Google Calendar / Microsoft Graph event id
+  status: 'scheduled' | 'completed' | 'cancelled';
+  threadId?: string;
+  itemId?: string; // The calendar WorkItem that records the meeting
+  notes?: string;
+  followedUpAt?: Date; // Set once notes and action items were captured (or skipped)
+  // RFC 5545 RRULE value without the "RRULE:" prefix, e.g. FREQ=WEEKLY;BYDAY=MO,TH.
+  // startTime/endTime are then the first occurrence.
+  recurrence?: string;
+  exceptions?: MeetingException[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// One occurrence of a recurring meeting that was skipped or moved, found by
+// the start the rule gave it
+export interface MeetingException {
+  originalStart: Date;
+  cancelled?: boolean;
+  startTime?: Date;
+  endTime?: Date;
+}
+
+// What the calendar integrations need to create or update an event
+export interface MeetingDetails {
+  title: string;
+  description: string;
+  startTime: string;
+  endTime: string;
+  attendees: string[];
+  threadId?: string;
+  recurrence?: string; // Passed on as the event's RRULE; null makes it a one-off again
+}
+
+// Meetings overlapping [from, to), all of them when omitted
+export interface MeetingQuery {
+  from?: Date;
+  to?: Date;
+  status?: Meeting['status'];
+}
+
+// Busy time only: availability never says what someone is busy with
+export interface BusyBlock {
+  start: Date;
+  end: Date;
+}
+
+export interface MemberAvailability {
+  userId: string;
+  name?: string;
+  email?: string;
+  timezone?: string;
+  workHoursStart: number; // Hour of day (0-23), in their own timezone
+  workHoursEnd: number;
+  busy: BusyBlock[];
+}
+
+// Captured after a meeting ends. Each action item becomes a task in the
+// meeting's thread.
+export interface MeetingFollowUp {
+  notes: string;
+  actionItems: string[];
+}
+
+export interface MeetingFollowUpResult {
+  meeting: Meeting;
+  items: WorkItem[];
+}
+
+export interface MeetingCreated {
+  meetingLink?: string;
+  joinUrl?: string;
+  eventId?: string;
+  // The stored meeting, once the backend keeps a record of it
+  meeting?: Meeting;
+}
+
+// A private iCalendar URL other calendar apps can subscribe to. Anyone with
+// the URL can read it, so it can be replaced with a fresh one.
+export interface CalendarFeed {
+  userId: string;
+  token: string;
+  url: string;
+  createdAt: Date;
+}
+
+export interface CalendarFile {
+  filename: string;
+  calendar: string; // text/calendar contents
+}
+
+export interface CalendarImportResult {
+  imported: number; // New calendar items
+  updated: number; // Events seen in an earlier import, matched by UID
+  items: WorkItem[];
+}
+
+// Services connected with a token and synced through the same connector
+// interface, see lib/connectors
+export type ConnectorId = 'slack' | 'linear' | 'github';
+
+// Integrations the backend keeps in sync on a schedule once connected
+export type IntegrationId = 'google' | 'microsoft' | ConnectorId;
+
+export interface IntegrationConnection {
+  connected: boolean;
+  account?: string; // Email, Slack workspace, Linear organization or GitHub login
+  lastSyncedAt?: Date; // Last run that succeeded
+}
+
+// A Google or Microsoft auth code (exchanged for a refresh token), or a
+// Slack, Linear or GitHub token
+export type IntegrationCredentials = { code: string } | { token: string };
+
+export interface SyncRun {
+  id: string;
+  trigger: 'connect' | 'manual' | 'scheduled';
+  // From scratch, ignoring the delta token of the run before
+  full: boolean;
+  startedAt: Date;
+  finishedAt: Date;
+  imported: number;
+  updated: number;
+  removed?: number; // Deleted or cancelled at the source
+  error?: string; // Set when the run failed
+}
+
+export interface IntegrationStatus extends IntegrationConnection {
+  id: IntegrationId;
+  itemCount: number; // Items this integration has imported so far
+  nextSyncAt?: Date; // While connected
+  history: SyncRun[]; // Newest first
+}
+
+export interface SyncResult {
+  imported: number;
+  updated: number;
+  removed?: number;
+  status: IntegrationStatus;
+}
+
+// Backend bookkeeping for one user's integration, never sent to the client
+export interface SyncState {
+  userId: string;
+  integration: IntegrationId;
+  // Delta token or history id: where the next incremental run picks up
+  cursor?: string;
+  credential?: string; // What scheduled runs authenticate with
+  history: SyncRun[];
+}
+
+// A Notion database or page the integration was shared with
+export interface NotionSource {
+  id: string;
+  type: 'database' | 'page';
+  title: string;
+  icon?: string; // An emoji, when the page has one
+  url?: string;
+  properties: NotionPropertySchema[]; // Databases only
+}
+
+export interface NotionPropertySchema {
+  id: string;
+  name: string;
+  type: string; // Notion's property type: 'status', 'select', 'date', 'people'...
+  options?: string[]; // For status and select
+}
+
+// How one source is imported: it becomes a thread, its rows (or sub-pages)
+// become tasks, and the named properties fill in status, due date and assignee
+export interface NotionMapping {
+  sourceId: string;
+  threadId?: string; // Filled in by the first import
+  statusProperty?: string;
+  statusValues?: Record<string, WorkItem['status']>; // Notion option name -> status
+  dueDateProperty?: string;
+  assigneeProperty?: string;
+}
+
+export type NotionCredentials = { apiKey: string } | { code: string; redirectUri: string };
+
+export interface NotionSyncResult {
+  imported: number;
+  updated: number;
+  threads: WorkThread[];
+  user: User;
+}
+
+export interface ChatMessage {
+  role: 'user' | 'model';
+  content: string;
+  context?: ChatContext; // What the user was looking at when they asked
+  stopped?: boolean; // A reply cut short with Stop
+  actions?: ChatProposedAction[]; // Offered by the assistant, for the user to confirm
+}
+
+// Something the assistant can do on the user's behalf. Times in a meeting
+// are ISO strings, as MeetingDetails has them.
+export type ChatAction =
+  | { type: 'createThread'; title: string; priority: WorkThread['priority']; deadline?: Date }
+  | { type: 'addTask'; threadId: string; title: string }
+  | { type: 'rescheduleDeadline'; threadId: string; deadline: Date }
+  | { type: 'scheduleMeeting'; platform: 'google' | 'teams'; meeting: MeetingDetails }
+  | { type: 'dismissInsight'; insightId: string };
+
+// Nothing is done until the user confirms it; the client claims it, carries
+// it out with its own services and reports back how it went
+export interface ChatProposedAction {
+  id: string;
+  action: ChatAction;
+  summary: string; // What it does, in the assistant's words
+  status: 'proposed' | ChatActionRecord['status'];
+}
+
+// The audit trail: one entry when an action is claimed and another when it
+// settles, or a single one when it is declined
+export interface ChatActionRecord {
+  id: string;
+  userId: string;
+  conversationId: string;
+  actionId: string;
+  action: ChatAction;
+  summary: string;
+  status: 'executing' | 'executed' | 'declined' | 'failed';
+  targetId?: string; // The thread, item, meeting or insight it touched
+  error?: string;
+  at: Date;
+}
+
+export interface ChatActionOutcome {
+  conversationId: string;
+  actionId: string;
+  status: ChatActionRecord['status'];
+  targetId?: string;
+  error?: string;
+}
+
+// The page a message was sent from, so the answer can be about it
+export interface ChatContext {
+  type: 'thread' | 'team';
+  id: string;
+}
+
+export interface ChatConversationSummary {
+  id: string;
+  userId: string;
+  title: string; // Taken from the first message
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface ChatConversation extends ChatConversationSummary {
+  messages: ChatMessage[];
+}
+
+export interface ChatMessageInput {
+  conversationId?: string; // Starts a new conversation when missing
+  content: string;
+  context?: ChatContext;
+}
+
+// Sent as server-sent events while a reply is written: the conversation
+// first, then the reply a few tokens at a time, then the saved message
+export type ChatStreamEvent =
+  | { type: 'conversation'; conversation: ChatConversationSummary }
+  | { type: 'token'; text: string }
+  | { type: 'done'; message: ChatMessage }
+  | { type: 'error'; error: string };
+
+// One page of a server-side sorted and filtered listing
+export interface Page<T> {
+  results: T[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+export type ThreadSort = 'lastActivity' | 'deadline' | 'priority' | 'progress';
+
+export interface ThreadQuery {
+  page?: number;
+  pageSize?: number;
+  sort?: ThreadSort;
+  priority?: WorkThread['priority'];
+  tag?: string;
+  teamId?: string;
+}
+
+export type ItemSort = 'timestamp' | 'priority';
+
+export interface ItemQuery {
+  page?: number;
+  pageSize?: number;
+  sort?: ItemSort;
+  type?: WorkItem['type'];
+  priority?: WorkItem['priority'];
+  status?: WorkItem['status'];
+  source?: string;
+  teamId?: string;
+}
+
+// Pushed by the server over the realtime connection
+export type RealtimeEvent =
+  | { type: 'item.created' | 'item.updated'; item: WorkItem }
+  | { type: 'thread.updated'; thread: WorkThread }
+  | { type: 'team.member_joined'; teamId: string; member: TeamMember }
+  | { type: 'insight.generated'; insight: WorkInsight }
+  // Everyone currently connected to a team channel, sent whenever it changes
+  | { type: 'presence'; teamId: string; userIds: string[] };
+
+export type RealtimeStatus = 'connecting' | 'open' | 'reconnecting' | 'offline';
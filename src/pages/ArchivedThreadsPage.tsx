@@ -0,0 +1,61 @@
+import { useQuery } from '@tanstack/react-query';
+import { useNavigate } from 'react-router-dom';
+import { Header } from '@/components/Header';
+import { WorkThreadCard } from '@/components/WorkThreadCard';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { ArrowLeft, Archive, Loader2 } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { ThreadService } from '@/services/api';
+import { WorkThread } from '@/lib/types';
+
+export default function ArchivedThreadsPage() {
+    const navigate = useNavigate();
+    const { currentUser } = useAuth();
+    const userId = currentUser?.id;
+
+    const { data: threads = [], isLoading } = useQuery({
+        queryKey: ['archivedThreads', userId],
+        queryFn: () => userId ? ThreadService.getArchivedThreads(userId) : Promise.resolve([]),
+        enabled: !!userId
+    });
+
+    return (
+        <div className="min-h-screen bg-background">
+            <Header isAuthenticated />
+            <main className="pt-24 pb-12 px-4">
+                <div className="container mx-auto max-w-5xl space-y-8">
+                    <div>
+                        <Button variant="ghost" className="mb-4" onClick={() => navigate('/dashboard')}>
+                            <ArrowLeft className="w-4 h-4 mr-2" />
+                            Back to Dashboard
+                        </Button>
+                        <h1 className="text-3xl font-bold tracking-tight">Archived Threads</h1>
+                        <p className="text-muted-foreground">Threads you've closed out. Unarchive one to bring it back to your dashboard.</p>
+                    </div>
+
+                    {isLoading ? (
+                        <div className="flex justify-center p-12">
+                            <Loader2 className="w-8 h-8 animate-spin text-muted-foreground" />
+                        </div>
+                    ) : threads.length > 0 ? (
+                        <div className="grid gap-4 md:grid-cols-2">
+                            {threads.map((thread: WorkThread) => (
+                                <WorkThreadCard
+                                    key={thread.id}
+                                    thread={thread}
+                                    onClick={() => navigate(`/thread/${thread.id}`)}
+                                />
+                            ))}
+                        </div>
+                    ) : (
+                        <Card className="p-12 text-center text-muted-foreground">
+                            <Archive className="w-8 h-8 mx-auto mb-2 opacity-50" />
+                            <p>No archived threads</p>
+                        </Card>
+                    )}
+                </div>
+            </main>
+        </div>
+    );
+}
@@ -14,7 +14,9 @@ import {
   CheckSquare,
   ChevronRight,
   Loader2,
-  CheckCircle2
+  CheckCircle2,
+  Archive,
+  Focus
 } from 'lucide-react';
 
 import { Header } from '@/components/Header';
@@ -26,19 +28,29 @@ import { WorkItemRow } from '@/components/WorkItemRow';
 import { WorkTaskCard } from '@/components/WorkTaskCard';
 import { CreateThreadDialog } from '@/components/CreateThreadDialog';
 import { FocusTimer } from '@/components/FocusTimer';
+import { MoveToThreadDialog } from '@/components/MoveToThreadDialog';
+import { ItemBulkToolbar } from '@/components/ItemBulkToolbar';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 
 import { useAuth } from '@/contexts/AuthContext';
+import { useFocus } from '@/contexts/FocusContext';
+import { useMoveItems } from '@/hooks/use-move-items';
 import { ThreadService, IntelligenceService, WorkItemService } from '@/services/api';
 import { WorkThread, WorkItem, WorkInsight, PriorityRecommendation } from '@/lib/types';
 
 export default function Dashboard() {
   const navigate = useNavigate();
   const { currentUser } = useAuth();
+  const { focusMode, setFocusMode, queuedItems } = useFocus();
   const [activeTab, setActiveTab] = useState('all');
+  const [selectedItemIds, setSelectedItemIds] = useState<string[]>([]);
+  // Anchor for shift-click range selection
+  const [lastSelectedId, setLastSelectedId] = useState<string | null>(null);
+  // Items the "Move to thread" dialog is open for
+  const [itemsToMove, setItemsToMove] = useState<WorkItem[]>([]);
 
   const userId = currentUser?.id;
   const queryClient = useQueryClient();
@@ -62,12 +74,17 @@ export default function Dashboard() {
     enabled: !!userId
   });
 
-  const { data: items = [], isLoading: itemsLoading } = useQuery({
+  const { data: allItems = [], isLoading: itemsLoading } = useQuery({
     queryKey: ['items', userId],
     queryFn: () => userId ? WorkItemService.getUserItems(userId) : Promise.resolve([]),
     enabled: !!userId
   });
 
+  // Focus mode holds new items back until it ends
+  const items = queuedItems.length > 0
+    ? allItems.filter((item: WorkItem) => !queuedItems.some(queued => queued.id === item.id))
+    : allItems;
+
   const { data: cognitiveLoad } = useQuery({
     queryKey: ['cognitiveLoad', userId],
     queryFn: () => userId ? IntelligenceService.getCognitiveLoad(userId) : Promise.resolve(null),
@@ -91,13 +108,71 @@ export default function Dashboard() {
 
   const updateTaskStatusMutation = useMutation({
     mutationFn: ({ id, status }: { id: string, status: string }) =>
-      WorkItemService.updateItem(id, { status: status as any }),
+      WorkItemService.updateItem(id, { status: status as WorkItem['status'] }),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['items', userId] });
       queryClient.invalidateQueries({ queryKey: ['threads', userId] });
     }
   });
 
+  // Bulk edits are applied to the cached list immediately and rolled back on failure
+  const optimisticItems = async (apply: (items: WorkItem[]) => WorkItem[]) => {
+    await queryClient.cancelQueries({ queryKey: ['items', userId] });
+    const previous = queryClient.getQueryData<WorkItem[]>(['items', userId]);
+    if (previous) queryClient.setQueryData<WorkItem[]>(['items', userId], apply(previous));
+    return { previous };
+  };
+
+  const rollbackItems = (context?: { previous?: WorkItem[] }) => {
+    if (context?.previous) queryClient.setQueryData(['items', userId], context.previous);
+  };
+
+  const bulkUpdateMutation = useMutation({
+    mutationFn: ({ ids, updates }: { ids: string[], updates: Partial<WorkItem> }) =>
+      WorkItemService.batchUpdate(ids, updates),
+    onMutate: ({ ids, updates }) =>
+      optimisticItems(current => current.map(item => ids.includes(item.id) ? { ...item, ...updates } : item)),
+    onSuccess: (updated) => {
+      toast.success(updated.length === 1 ? 'Item updated' : `${updated.length} items updated`);
+    },
+    onError: (_error, _variables, context) => {
+      rollbackItems(context);
+      toast.error('Failed to update items');
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['items', userId] });
+      queryClient.invalidateQueries({ queryKey: ['threads', userId] });
+    }
+  });
+
+  const bulkDeleteMutation = useMutation({
+    mutationFn: (ids: string[]) => WorkItemService.batchDelete(ids),
+    onMutate: (ids) => optimisticItems(current => current.filter(item => !ids.includes(item.id))),
+    onSuccess: (_, ids) => {
+      setSelectedItemIds([]);
+      toast.success(ids.length === 1 ? 'Item deleted' : `${ids.length} items deleted`);
+    },
+    onError: (_error, _ids, context) => {
+      rollbackItems(context);
+      toast.error('Failed to delete items');
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['items', userId] });
+      queryClient.invalidateQueries({ queryKey: ['threads', userId] });
+    }
+  });
+
+  const moveItems = useMoveItems();
+
+  const moveDroppedItems = (itemIds: string[], threadId: string) => {
+    const dropped = items.filter((item: WorkItem) => itemIds.includes(item.id));
+    if (dropped.length === 0) return;
+    moveItems.mutate({ items: dropped, threadId }, {
+      onSuccess: () => setSelectedItemIds([])
+    });
+  };
+
+
   const greeting = () => {
     const hour = new Date().getHours();
     if (hour < 12) return 'Good morning';
@@ -120,12 +195,46 @@ export default function Dashboard() {
     ).sort((a, b) => {
       if (a.priority === 'high' && b.priority !== 'high') return -1;
       if (a.priority !== 'high' && b.priority === 'high') return 1;
-      return new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime();
+      return b.timestamp.getTime() - a.timestamp.getTime();
     });
   };
 
   const majorTasks = filterMajorWorkTasks();
 
+  const visibleItems = filterWorkItems(activeTab).slice(0, 10);
+  const selectedItems = items.filter((item: WorkItem) => selectedItemIds.includes(item.id));
+
+  const selectItem = (id: string, selected: boolean, range: boolean) => {
+    const visibleIds = visibleItems.map((item: WorkItem) => item.id);
+    const anchor = range && lastSelectedId ? visibleIds.indexOf(lastSelectedId) : -1;
+    const target = visibleIds.indexOf(id);
+    const ids = anchor >= 0
+      ? visibleIds.slice(Math.min(anchor, target), Math.max(anchor, target) + 1)
+      : [id];
+
+    setSelectedItemIds(prev => selected
+      ? Array.from(new Set([...prev, ...ids]))
+      : prev.filter(i => !ids.includes(i)));
+    setLastSelectedId(id);
+  };
+
+  const selectAllVisible = (selected: boolean) => {
+    setSelectedItemIds(selected ? visibleItems.map((item: WorkItem) => item.id) : []);
+  };
+
+  const deleteSelected = () => {
+    const count = selectedItemIds.length;
+    if (confirm(`Delete ${count} ${count === 1 ? 'item' : 'items'}? This cannot be undone.`)) {
+      bulkDeleteMutation.mutate(selectedItemIds);
+    }
+  };
+
+  const changeTab = (tab: string) => {
+    setActiveTab(tab);
+    setSelectedItemIds([]);
+    setLastSelectedId(null);
+  };
+
   if (!currentUser) return null;
 
   return (
@@ -150,7 +259,7 @@ export default function Dashboard() {
                 </p>
               </div>
 
-              {criticalInsightsCount > 0 && (
+              {!focusMode && criticalInsightsCount > 0 && (
                 <Badge variant="high" className="self-start md:self-auto">
                   <Clock className="w-3 h-3 mr-1" />
                   {criticalInsightsCount} urgent {criticalInsightsCount === 1 ? 'alert' : 'alerts'}
@@ -169,7 +278,7 @@ export default function Dashboard() {
                     <Sparkles className="w-5 h-5 text-primary" />
                     <h2 className="text-headline">Recommended Focus</h2>
                   </div>
-                  <Button variant="ghost" size="sm">
+                  <Button variant="ghost" size="sm" onClick={() => navigate('/threads?sort=priority')}>
                     View all
                     <ChevronRight className="w-4 h-4 ml-1" />
                   </Button>
@@ -186,7 +295,7 @@ export default function Dashboard() {
                       .map((rec, index: number) => (
                         <PriorityRecommendationCard
                           key={rec.id}
-                          recommendation={rec as any}
+                          recommendation={rec}
                           rank={index}
                           onSelect={() => navigate(`/thread/${rec.threadId}`)}
                         />
@@ -206,7 +315,13 @@ export default function Dashboard() {
                     <CheckSquare className="w-5 h-5 text-primary" />
                     <h2 className="text-xl font-bold font-display">Major Work Tasks</h2>
                   </div>
-                  <Badge variant="outline" className="bg-primary/5">{majorTasks.length} active</Badge>
+                  <div className="flex items-center gap-3">
+                    <Badge variant="outline" className="bg-primary/5">{majorTasks.length} active</Badge>
+                    <Button variant="ghost" size="sm" onClick={() => navigate('/inbox?type=task&sort=priority')}>
+                      View all
+                      <ChevronRight className="w-4 h-4 ml-1" />
+                    </Button>
+                  </div>
                 </div>
 
                 {itemsLoading ? (
@@ -218,6 +333,7 @@ export default function Dashboard() {
                         key={task.id}
                         task={task}
                         onStatusChange={(id, status) => updateTaskStatusMutation.mutate({ id, status })}
+                        onMoveToThread={() => setItemsToMove([task])}
                         onClick={() => {
                           if (task.threadId) navigate(`/thread/${task.threadId}`);
                         }}
@@ -246,6 +362,14 @@ export default function Dashboard() {
                   </div>
                   <div className="flex items-center gap-3">
                     <Badge variant="outline">{threads.length} active</Badge>
+                    <Button variant="ghost" size="sm" onClick={() => navigate('/threads/archived')}>
+                      <Archive className="w-4 h-4 mr-1" />
+                      Archived
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => navigate('/threads')}>
+                      View all
+                      <ChevronRight className="w-4 h-4 ml-1" />
+                    </Button>
                     <CreateThreadDialog />
                   </div>
                 </div>
@@ -260,6 +384,7 @@ export default function Dashboard() {
                         thread={thread}
                         onClick={() => navigate(`/thread/${thread.id}`)}
                         isHighlighted={thread.priority === 'high'}
+                        onDropItems={(itemIds) => moveDroppedItems(itemIds, thread.id)}
                       />
                     ))}
                   </div>
@@ -274,62 +399,107 @@ export default function Dashboard() {
               </section>
 
               {/* Recent Activity */}
-              <section>
-                <Card>
-                  <CardHeader className="pb-3">
-                    <CardTitle className="text-headline">Recent Activity</CardTitle>
-                  </CardHeader>
-                  <CardContent>
-                    <Tabs value={activeTab} onValueChange={setActiveTab}>
-                      <TabsList className="mb-4">
-                        <TabsTrigger value="all">All</TabsTrigger>
-                        <TabsTrigger value="email" className="flex items-center gap-1.5">
-                          <Mail className="w-3.5 h-3.5" />
-                          <span className="hidden sm:inline">Email</span>
-                        </TabsTrigger>
-                        <TabsTrigger value="message" className="flex items-center gap-1.5">
-                          <MessageSquare className="w-3.5 h-3.5" />
-                          <span className="hidden sm:inline">Messages</span>
-                        </TabsTrigger>
-                        <TabsTrigger value="document" className="flex items-center gap-1.5">
-                          <FileText className="w-3.5 h-3.5" />
-                          <span className="hidden sm:inline">Docs</span>
-                        </TabsTrigger>
-                        <TabsTrigger value="calendar" className="flex items-center gap-1.5">
-                          <Calendar className="w-3.5 h-3.5" />
-                          <span className="hidden sm:inline">Calendar</span>
-                        </TabsTrigger>
-                        <TabsTrigger value="task" className="flex items-center gap-1.5">
-                          <CheckSquare className="w-3.5 h-3.5" />
-                          <span className="hidden sm:inline">Tasks</span>
-                        </TabsTrigger>
-                      </TabsList>
-
-                      <TabsContent value={activeTab} className="mt-0">
-                        {itemsLoading ? (
-                          <div className="flex justify-center p-8"><Loader2 className="animate-spin text-muted-foreground" /></div>
-                        ) : (
-                          <div className="space-y-1">
-                            {filterWorkItems(activeTab).slice(0, 10).map((item: WorkItem) => (
-                              <WorkItemRow
-                                key={item.id}
-                                item={item}
-                                onClick={() => {
-                                  if (!item.isRead) markItemAsReadMutation.mutate(item.id);
-                                  if (item.threadId) navigate(`/thread/${item.threadId}`);
-                                }}
-                              />
-                            ))}
-                            {filterWorkItems(activeTab).length === 0 && (
-                              <p className="text-center py-4 text-muted-foreground">No recent activity</p>
-                            )}
-                          </div>
-                        )}
-                      </TabsContent>
-                    </Tabs>
+              {focusMode ? (
+                <Card className="border-dashed">
+                  <CardContent className="pt-6 flex flex-col sm:flex-row sm:items-center gap-4">
+                    <Focus className="w-5 h-5 text-primary flex-shrink-0" />
+                    <div className="flex-1">
+                      <p className="font-medium">Recent activity is hidden while you focus</p>
+                      <p className="text-sm text-muted-foreground">
+                        {queuedItems.length > 0
+                          ? `${queuedItems.length} new item${queuedItems.length === 1 ? ' is' : 's are'} waiting for when you're done.`
+                          : "New items will wait for when you're done."}
+                      </p>
+                    </div>
+                    <Button variant="outline" size="sm" onClick={() => setFocusMode(false)}>
+                      Turn off focus mode
+                    </Button>
                   </CardContent>
                 </Card>
-              </section>
+              ) : (
+                <section>
+                  <Card>
+                    <CardHeader className="pb-3">
+                      <div className="flex items-center justify-between">
+                        <CardTitle className="text-headline">Recent Activity</CardTitle>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => navigate(activeTab === 'all' ? '/inbox' : `/inbox?type=${activeTab}`)}
+                        >
+                          View all
+                          <ChevronRight className="w-4 h-4 ml-1" />
+                        </Button>
+                      </div>
+                    </CardHeader>
+                    <CardContent>
+                      <Tabs value={activeTab} onValueChange={changeTab}>
+                        <TabsList className="mb-4">
+                          <TabsTrigger value="all">All</TabsTrigger>
+                          <TabsTrigger value="email" className="flex items-center gap-1.5">
+                            <Mail className="w-3.5 h-3.5" />
+                            <span className="hidden sm:inline">Email</span>
+                          </TabsTrigger>
+                          <TabsTrigger value="message" className="flex items-center gap-1.5">
+                            <MessageSquare className="w-3.5 h-3.5" />
+                            <span className="hidden sm:inline">Messages</span>
+                          </TabsTrigger>
+                          <TabsTrigger value="document" className="flex items-center gap-1.5">
+                            <FileText className="w-3.5 h-3.5" />
+                            <span className="hidden sm:inline">Docs</span>
+                          </TabsTrigger>
+                          <TabsTrigger value="calendar" className="flex items-center gap-1.5">
+                            <Calendar className="w-3.5 h-3.5" />
+                            <span className="hidden sm:inline">Calendar</span>
+                          </TabsTrigger>
+                          <TabsTrigger value="task" className="flex items-center gap-1.5">
+                            <CheckSquare className="w-3.5 h-3.5" />
+                            <span className="hidden sm:inline">Tasks</span>
+                          </TabsTrigger>
+                        </TabsList>
+
+                        <TabsContent value={activeTab} className="mt-0">
+                          {selectedItems.length > 0 && (
+                            <ItemBulkToolbar
+                              selectedCount={selectedItems.length}
+                              allSelected={visibleItems.every((item: WorkItem) => selectedItemIds.includes(item.id))}
+                              onSelectAll={selectAllVisible}
+                              onUpdate={(updates) => bulkUpdateMutation.mutate({ ids: selectedItemIds, updates })}
+                              onMoveToThread={() => setItemsToMove(selectedItems)}
+                              onDelete={deleteSelected}
+                              onClear={() => setSelectedItemIds([])}
+                              disabled={bulkUpdateMutation.isPending || bulkDeleteMutation.isPending}
+                            />
+                          )}
+                          {itemsLoading ? (
+                            <div className="flex justify-center p-8"><Loader2 className="animate-spin text-muted-foreground" /></div>
+                          ) : (
+                            <div className="space-y-1">
+                              {visibleItems.map((item: WorkItem) => (
+                                <WorkItemRow
+                                  key={item.id}
+                                  item={item}
+                                  selected={selectedItemIds.includes(item.id)}
+                                  onSelectedChange={(selected, range) => selectItem(item.id, selected, range)}
+                                  onMoveToThread={() => setItemsToMove([item])}
+                                  dragItemIds={selectedItemIds.includes(item.id) ? selectedItemIds : undefined}
+                                  onClick={() => {
+                                    if (!item.isRead) markItemAsReadMutation.mutate(item.id);
+                                    if (item.threadId) navigate(`/thread/${item.threadId}`);
+                                  }}
+                                />
+                              ))}
+                              {filterWorkItems(activeTab).length === 0 && (
+                                <p className="text-center py-4 text-muted-foreground">No recent activity</p>
+                              )}
+                            </div>
+                          )}
+                        </TabsContent>
+                      </Tabs>
+                    </CardContent>
+                  </Card>
+                </section>
+              )}
             </div>
 
             {/* Sidebar */}
@@ -349,41 +519,50 @@ export default function Dashboard() {
               </Card>
 
               {/* Insights */}
-              <section>
-                <div className="flex items-center justify-between mb-4">
-                  <h2 className="text-headline">Insights</h2>
-                  <Button variant="ghost" size="sm" onClick={() => navigate('/insights')}>
-                    See all
-                  </Button>
-                </div>
+              {!focusMode && (
+                <section>
+                  <div className="flex items-center justify-between mb-4">
+                    <h2 className="text-headline">Insights</h2>
+                    <Button variant="ghost" size="sm" onClick={() => navigate('/insights')}>
+                      See all
+                    </Button>
+                  </div>
 
-                <div className="space-y-3">
-                  {insightsLoading ? (
-                    <div className="flex justify-center p-4"><Loader2 className="animate-spin text-muted-foreground" /></div>
-                  ) : insights.length > 0 ? (
-                    <AnimatePresence>
-                      {insights.map((insight: any) => (
-                        <InsightCard
-                          key={insight.id}
-                          insight={insight}
-                          onDismiss={() => dismissInsightMutation.mutate(insight.id)}
-                          onAction={() => {
-                            if (insight.relatedThreadIds?.[0]) {
-                              navigate(`/thread/${insight.relatedThreadIds[0]}`);
-                            }
-                          }}
-                        />
-                      ))}
-                    </AnimatePresence>
-                  ) : (
-                    <p className="text-center text-muted-foreground text-sm">No new insights.</p>
-                  )}
-                </div>
-              </section>
+                  <div className="space-y-3">
+                    {insightsLoading ? (
+                      <div className="flex justify-center p-4"><Loader2 className="animate-spin text-muted-foreground" /></div>
+                    ) : insights.length > 0 ? (
+                      <AnimatePresence>
+                        {insights.map((insight: WorkInsight) => (
+                          <InsightCard
+                            key={insight.id}
+                            insight={insight}
+                            onDismiss={() => dismissInsightMutation.mutate(insight.id)}
+                            onAction={() => {
+                              if (insight.relatedThreadIds?.[0]) {
+                                navigate(`/thread/${insight.relatedThreadIds[0]}`);
+                              }
+                            }}
+                          />
+                        ))}
+                      </AnimatePresence>
+                    ) : (
+                      <p className="text-center text-muted-foreground text-sm">No new insights.</p>
+                    )}
+                  </div>
+                </section>
+              )}
             </div>
           </div>
         </div>
       </main>
+
+      <MoveToThreadDialog
+        open={itemsToMove.length > 0}
+        onOpenChange={(open) => !open && setItemsToMove([])}
+        items={itemsToMove}
+        onMoved={() => setSelectedItemIds([])}
+      />
     </div>
   );
 }
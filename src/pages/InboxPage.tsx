@@ -0,0 +1,216 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient, keepPreviousData } from '@tanstack/react-query';
+import { useNavigate } from 'react-router-dom';
+import { Inbox, Loader2, X } from 'lucide-react';
+
+import { Header } from '@/components/Header';
+import { WorkItemRow } from '@/components/WorkItemRow';
+import { MoveToThreadDialog } from '@/components/MoveToThreadDialog';
+import { FilterSelect } from '@/components/FilterSelect';
+import { ListPagination } from '@/components/ListPagination';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+
+import { useAuth } from '@/contexts/AuthContext';
+import { useFocus } from '@/contexts/FocusContext';
+import { useListParams } from '@/hooks/use-list-params';
+import { TeamService, WorkItemService } from '@/services/api';
+import { ItemQuery, ItemSort, WorkItem } from '@/lib/types';
+
+const PAGE_SIZE = 25;
+
+const SORTS: { value: ItemSort; label: string }[] = [
+    { value: 'timestamp', label: 'Newest' },
+    { value: 'priority', label: 'Priority' },
+];
+
+const TYPES: { value: WorkItem['type']; label: string }[] = [
+    { value: 'email', label: 'Email' },
+    { value: 'message', label: 'Messages' },
+    { value: 'document', label: 'Docs' },
+    { value: 'calendar', label: 'Calendar' },
+    { value: 'task', label: 'Tasks' },
+];
+
+const STATUSES: { value: WorkItem['status']; label: string }[] = [
+    { value: 'todo', label: 'Todo' },
+    { value: 'in-progress', label: 'In Progress' },
+    { value: 'completed', label: 'Completed' },
+];
+
+const PRIORITIES: { value: WorkItem['priority']; label: string }[] = [
+    { value: 'high', label: 'High' },
+    { value: 'medium', label: 'Medium' },
+    { value: 'low', label: 'Low' },
+];
+
+const FILTER_KEYS = ['type', 'status', 'priority', 'source', 'teamId'];
+
+// Ignore hand-edited query strings that name values we don't know
+const oneOf = <T extends string>(value: string | undefined, options: { value: T }[]) =>
+    options.some(option => option.value === value) ? value as T : undefined;
+
+export default function InboxPage() {
+    const navigate = useNavigate();
+    const queryClient = useQueryClient();
+    const { currentUser } = useAuth();
+    const { queuedItems } = useFocus();
+    const userId = currentUser?.id;
+    const params = useListParams();
+    const [itemToMove, setItemToMove] = useState<WorkItem | null>(null);
+
+    const query: ItemQuery = {
+        page: params.page,
+        pageSize: PAGE_SIZE,
+        sort: oneOf(params.get('sort'), SORTS) ?? 'timestamp',
+        type: oneOf(params.get('type'), TYPES),
+        status: oneOf(params.get('status'), STATUSES),
+        priority: oneOf(params.get('priority'), PRIORITIES),
+        source: params.get('source'),
+        teamId: params.get('teamId'),
+    };
+
+    const { data, isLoading, isFetching } = useQuery({
+        queryKey: ['items', userId, 'paged', query],
+        queryFn: () => userId ? WorkItemService.queryUserItems(userId, query) : Promise.reject('No user'),
+        enabled: !!userId,
+        placeholderData: keepPreviousData
+    });
+
+    // Filter choices come from everything the user can see, not just the current page
+    const { data: allItems = [] } = useQuery({
+        queryKey: ['items', userId],
+        queryFn: () => userId ? WorkItemService.getUserItems(userId) : Promise.resolve([]),
+        enabled: !!userId
+    });
+
+    const { data: teams = [] } = useQuery({
+        queryKey: ['teams'],
+        queryFn: TeamService.getMyTeams
+    });
+
+    const markAsReadMutation = useMutation({
+        mutationFn: (id: string) => WorkItemService.markAsRead(id),
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: ['items', userId] });
+        }
+    });
+
+    const sources = Array.from(new Set(allItems.map(item => item.source))).sort();
+    // Focus mode holds new items back until it ends
+    const items = (data?.results ?? []).filter(item => !queuedItems.some(queued => queued.id === item.id));
+    const hasFilters = FILTER_KEYS.some(key => params.get(key));
+
+    return (
+        <div className="min-h-screen bg-background">
+            <Header isAuthenticated />
+            <main className="pt-24 pb-12 px-4">
+                <div className="container mx-auto max-w-4xl space-y-6">
+                    <div>
+                        <h1 className="text-3xl font-bold tracking-tight flex items-center gap-3">
+                            Inbox
+                            {data && <Badge variant="outline">{data.total}</Badge>}
+                        </h1>
+                        <p className="text-muted-foreground">Everything synced from your tools, in one place.</p>
+                    </div>
+
+                    <div className="flex flex-wrap items-center gap-2">
+                        <FilterSelect
+                            value={query.sort}
+                            onChange={(sort) => params.set('sort', sort === 'timestamp' ? undefined : sort)}
+                            options={SORTS.map(sort => ({ ...sort, label: `Sort: ${sort.label}` }))}
+                        />
+                        <FilterSelect
+                            value={query.type}
+                            onChange={(type) => params.set('type', type)}
+                            options={TYPES}
+                            anyLabel="All types"
+                            className="w-[140px]"
+                        />
+                        <FilterSelect
+                            value={query.status}
+                            onChange={(status) => params.set('status', status)}
+                            options={STATUSES}
+                            anyLabel="Any status"
+                            className="w-[140px]"
+                        />
+                        <FilterSelect
+                            value={query.priority}
+                            onChange={(priority) => params.set('priority', priority)}
+                            options={PRIORITIES}
+                            anyLabel="All priorities"
+                            className="w-[140px]"
+                        />
+                        <FilterSelect
+                            value={query.source}
+                            onChange={(source) => params.set('source', source)}
+                            options={sources.map(source => ({ value: source, label: source }))}
+                            anyLabel="All sources"
+                            className="w-[150px]"
+                        />
+                        <FilterSelect
+                            value={query.teamId}
+                            onChange={(teamId) => params.set('teamId', teamId)}
+                            options={teams.map(team => ({ value: team.id, label: team.name }))}
+                            anyLabel="All teams"
+                            className="w-[150px]"
+                        />
+                        {hasFilters && (
+                            <Button variant="ghost" size="sm" onClick={() => params.clear(FILTER_KEYS)}>
+                                <X className="w-4 h-4 mr-1" />
+                                Clear filters
+                            </Button>
+                        )}
+                        {isFetching && !isLoading && <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />}
+                    </div>
+
+                    <Card>
+                        <CardContent className="pt-6">
+                            {isLoading ? (
+                                <div className="flex justify-center p-8">
+                                    <Loader2 className="w-8 h-8 animate-spin text-muted-foreground" />
+                                </div>
+                            ) : items.length > 0 ? (
+                                <div className="space-y-1">
+                                    {items.map((item: WorkItem) => (
+                                        <WorkItemRow
+                                            key={item.id}
+                                            item={item}
+                                            onMoveToThread={() => setItemToMove(item)}
+                                            onClick={() => {
+                                                if (!item.isRead) markAsReadMutation.mutate(item.id);
+                                                if (item.threadId) navigate(`/thread/${item.threadId}`);
+                                            }}
+                                        />
+                                    ))}
+                                </div>
+                            ) : (
+                                <div className="text-center py-8 text-muted-foreground">
+                                    <Inbox className="w-8 h-8 mx-auto mb-2 opacity-50" />
+                                    <p>{hasFilters ? 'No items match these filters' : 'Your inbox is empty'}</p>
+                                </div>
+                            )}
+                        </CardContent>
+                    </Card>
+
+                    {data && (
+                        <ListPagination
+                            page={data.page}
+                            pageSize={data.pageSize}
+                            total={data.total}
+                            onPageChange={params.setPage}
+                            hrefForPage={params.hrefForPage}
+                        />
+                    )}
+                </div>
+            </main>
+
+            <MoveToThreadDialog
+                open={!!itemToMove}
+                onOpenChange={(open) => !open && setItemToMove(null)}
+                items={itemToMove ? [itemToMove] : []}
+            />
+        </div>
+    );
+}
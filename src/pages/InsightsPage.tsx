@@ -67,7 +67,7 @@ export default function InsightsPage() {
 
 
   const chartData = stats.map((stat: DailyStats) => ({
-    date: format(new Date(stat.date), 'EEE'),
+    date: format(stat.date, 'EEE'),
     focusTime: Math.round(stat.focusTime / 60),
     switches: stat.contextSwitches,
     completed: stat.completedTasks,
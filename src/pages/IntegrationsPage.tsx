@@ -1,41 +1,80 @@
-import { useState } from 'react';
-import { Card, CardContent, CardHeader, CardTitle, CardDescription, CardFooter } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { useGoogleLogin } from '@react-oauth/google';
+import { useMsal } from '@azure/msal-react';
 import { useAuth } from '@/contexts/AuthContext';
 import { Header } from '@/components/Header';
-import { Calendar, RefreshCw, CheckCircle2, AlertCircle } from 'lucide-react';
+import { CalendarFileCard } from '@/components/CalendarFileCard';
+import { NotionCard } from '@/components/NotionCard';
+import { ConnectorCard } from '@/components/ConnectorCard';
+import { SyncedIntegrationCard } from '@/components/SyncedIntegrationCard';
+import { Calendar, RefreshCw, CheckCircle2, AlertCircle, Mail } from 'lucide-react';
 import { toast } from 'sonner';
 import { IntegrationService } from '@/services/api';
-import { useQueryClient } from '@tanstack/react-query';
+import { useIntegration } from '@/hooks/use-integration';
+import { requestMicrosoftAuthCode } from '@/lib/msal';
+import { CONNECTOR_IDS } from '@/lib/connectors';
+import { useQuery } from '@tanstack/react-query';
+
+// Scheduled runs happen on the backend; polling picks them up while the page is open
+const STATUS_POLL_MS = 60 * 1000;
+
+function FeatureList({ features }: { features: string[] }) {
+    return (
+        <div className="bg-secondary/50 p-4 rounded-lg space-y-2 text-sm">
+            {features.map(feature => (
+                <div key={feature} className="flex items-center gap-2">
+                    <CheckCircle2 className="w-4 h-4 text-green-500" />
+                    <span>{feature}</span>
+                </div>
+            ))}
+        </div>
+    );
+}
+
+const connectLabel = (pending: boolean) => pending ? (
+    <>
+        <RefreshCw className="mr-2 h-4 w-4 animate-spin" />
+        Connecting...
+    </>
+) : 'Connect & Sync';
 
 export default function IntegrationsPage() {
     const { currentUser } = useAuth();
-    const [googleSyncing, setGoogleSyncing] = useState(false);
-    const queryClient = useQueryClient();
+    const { instance } = useMsal();
+    const google = useIntegration('google');
+    const microsoft = useIntegration('microsoft');
+
+    const { data: integrations = [] } = useQuery({
+        queryKey: ['integrations', currentUser?.id],
+        queryFn: IntegrationService.getIntegrations,
+        enabled: !!currentUser,
+        refetchInterval: STATUS_POLL_MS
+    });
+    const statusOf = (id: string) => integrations.find(s => s.id === id);
 
-    const loginToGoogle = useGoogleLogin({
-        onSuccess: async (tokenResponse) => {
-            setGoogleSyncing(true);
-            try {
-                await IntegrationService.syncGoogle(tokenResponse.access_token);
-                toast.success('Successfully synced Google Calendar, Tasks & Work Emails!');
-                // Invalidate all related queries to refresh the dashboard
-                queryClient.invalidateQueries({ queryKey: ['threads', currentUser?.id] });
-                queryClient.invalidateQueries({ queryKey: ['items', currentUser?.id] });
-                queryClient.invalidateQueries({ queryKey: ['recommendations', currentUser?.id] });
-                queryClient.invalidateQueries({ queryKey: ['insights', currentUser?.id] });
-            } catch (error) {
-                console.error('Google Sync Error:', error);
-                toast.error('Failed to sync google data.');
-            } finally {
-                setGoogleSyncing(false);
-            }
-        },
+    // The auth code lets the backend keep a refresh token, so syncs carry on
+    // without opening a popup each time
+    const connectGoogle = useGoogleLogin({
+        flow: 'auth-code',
+        onSuccess: ({ code }) => google.connect.mutate({ code }),
         scope: 'https://www.googleapis.com/auth/calendar.readonly https://www.googleapis.com/auth/tasks.readonly https://www.googleapis.com/auth/gmail.readonly',
         onError: () => toast.error('Google Login Failed')
     });
 
+    // Like Google, an auth code the backend keeps a refresh token from.
+    // Signing in with Microsoft only granted the profile; the popup asks for
+    // mail, calendar and To Do the first time round.
+    const connectMicrosoft = async () => {
+        try {
+            const account = instance.getActiveAccount() ?? instance.getAllAccounts()[0];
+            const code = await requestMicrosoftAuthCode(account?.username);
+            microsoft.connect.mutate({ code });
+        } catch (error) {
+            console.error('Microsoft Login Error:', error);
+            toast.error('Microsoft Login Failed');
+        }
+    };
+
     return (
         <div className="min-h-screen bg-background">
             <Header isAuthenticated />
@@ -47,57 +86,68 @@ export default function IntegrationsPage() {
                     </div>
 
                     <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                        {/* Google Integration */}
-                        <Card className="border-t-4 border-t-blue-500 shadow-sm hover:shadow-md transition-shadow">
-                            <CardHeader>
-                                <div className="flex items-center gap-3 mb-2">
-                                    <div className="p-2 bg-blue-100 dark:bg-blue-900/30 rounded-lg">
-                                        <Calendar className="w-6 h-6 text-blue-600 dark:text-blue-400" />
-                                    </div>
-                                    <div>
-                                        <CardTitle>Google Workspace</CardTitle>
-                                        <CardDescription>Sync Calendar, Tasks, and Work Emails</CardDescription>
-                                    </div>
-                                </div>
-                            </CardHeader>
-                            <CardContent className="space-y-4">
-                                <div className="bg-secondary/50 p-4 rounded-lg space-y-2 text-sm">
-                                    <div className="flex items-center gap-2">
-                                        <CheckCircle2 className="w-4 h-4 text-green-500" />
-                                        <span>Import work emails with AI prioritization</span>
-                                    </div>
-                                    <div className="flex items-center gap-2">
-                                        <CheckCircle2 className="w-4 h-4 text-green-500" />
-                                        <span>Import meetings as work items</span>
-                                    </div>
-                                    <div className="flex items-center gap-2">
-                                        <CheckCircle2 className="w-4 h-4 text-green-500" />
-                                        <span>Import tasks from Google Tasks</span>
-                                    </div>
-                                </div>
-                            </CardContent>
-                            <CardFooter>
+                        <SyncedIntegrationCard
+                            id="google"
+                            status={statusOf('google')}
+                            description="Sync Calendar, Tasks, and Work Emails"
+                            icon={Calendar}
+                            border="border-t-blue-500"
+                            badge="bg-blue-100 dark:bg-blue-900/30 text-blue-600 dark:text-blue-400"
+                            connectControl={
                                 <Button
                                     className="w-full"
-                                    onClick={() => loginToGoogle()}
-                                    disabled={googleSyncing}
+                                    onClick={() => connectGoogle()}
+                                    disabled={google.connect.isPending}
                                 >
-                                    {googleSyncing ? (
-                                        <>
-                                            <RefreshCw className="mr-2 h-4 w-4 animate-spin" />
-                                            Syncing...
-                                        </>
-                                    ) : 'Connect & Sync'}
+                                    {connectLabel(google.connect.isPending)}
                                 </Button>
-                            </CardFooter>
-                        </Card>
+                            }
+                        >
+                            <FeatureList features={[
+                                'Import work emails with AI prioritization',
+                                'Import meetings as work items',
+                                'Import tasks from Google Tasks',
+                            ]} />
+                        </SyncedIntegrationCard>
+
+                        <SyncedIntegrationCard
+                            id="microsoft"
+                            status={statusOf('microsoft')}
+                            description="Sync Outlook Mail, Calendar, and To Do"
+                            icon={Mail}
+                            border="border-t-sky-600"
+                            badge="bg-sky-100 dark:bg-sky-900/30 text-sky-700 dark:text-sky-400"
+                            connectControl={
+                                <Button
+                                    className="w-full"
+                                    onClick={connectMicrosoft}
+                                    disabled={microsoft.connect.isPending}
+                                >
+                                    {connectLabel(microsoft.connect.isPending)}
+                                </Button>
+                            }
+                        >
+                            <FeatureList features={[
+                                'Import your Outlook inbox',
+                                "Import this week's Outlook events",
+                                'Import open tasks from Microsoft To Do',
+                            ]} />
+                        </SyncedIntegrationCard>
+
+                        <NotionCard />
+
+                        {CONNECTOR_IDS.map(id => (
+                            <ConnectorCard key={id} id={id} status={statusOf(id)} />
+                        ))}
+
+                        <CalendarFileCard />
                     </div>
 
                     <div className="bg-blue-50 dark:bg-blue-900/10 p-4 rounded-lg border border-blue-200 dark:border-blue-800 flex gap-3 text-sm text-blue-800 dark:text-blue-300">
                         <AlertCircle className="w-5 h-5 flex-shrink-0" />
                         <p>
                             Synced items will appear in a new thread called <strong>"External Imports"</strong>.
-                            You can then drag-and-drop them to other projects or convert them into tasks.
+                            Connected apps keep syncing in the background every 15 minutes. You can then drag-and-drop them to other projects or convert them into tasks.
                         </p>
                     </div>
                 </div>
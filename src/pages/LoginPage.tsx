@@ -1,6 +1,6 @@
 import { useState, useEffect } from 'react';
 import { useGoogleLogin } from '@react-oauth/google';
-import { useNavigate, Link } from 'react-router-dom';
+import { useNavigate, useSearchParams, Link } from 'react-router-dom';
 import { ThemeToggle } from '@/components/ThemeToggle';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
@@ -16,6 +16,12 @@ import { toast } from 'sonner';
 
 export default function LoginPage() {
   const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  // Only follow same-origin paths so the login page can't be used as an open redirect
+  const requestedReturn = searchParams.get('returnTo');
+  const returnTo = requestedReturn?.startsWith('/') && !requestedReturn.startsWith('//')
+    ? requestedReturn
+    : '/dashboard';
   const [isLogin, setIsLogin] = useState(true);
   const [isForgotPassword, setIsForgotPassword] = useState(false);
   const [forgotPasswordEmail, setForgotPasswordEmail] = useState('');
@@ -32,16 +38,16 @@ export default function LoginPage() {
   // Redirect if already logged in
   useEffect(() => {
     if (currentUser) {
-      navigate('/dashboard');
+      navigate(returnTo, { replace: true });
     }
-  }, [currentUser, navigate]);
+  }, [currentUser, navigate, returnTo]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     try {
       if (isLogin) {
         await signIn({ email: formData.email, password: formData.password });
-        navigate('/dashboard');
+        navigate(returnTo);
       } else {
         await register(formData);
         setRegistrationSuccess(true);
@@ -70,11 +76,10 @@ export default function LoginPage() {
     console.log('Google auth code received, sending to backend...');
     try {
       if (authResponse.code) {
+        // Signing in connects Gmail and Calendar, which the backend then syncs
+        // on its own schedule
         await signInWithGoogle(authResponse.code);
-        // Trigger initial sync
-        const { IntegrationService: IntegrationAPI } = await import('@/services/api');
-        IntegrationAPI.syncGoogle().catch(err => console.error('Initial sync error:', err));
-        navigate('/dashboard');
+        navigate(returnTo);
       }
     } catch (error) {
       console.error('Google login error:', error);
@@ -92,7 +97,7 @@ export default function LoginPage() {
       const loginResponse = await instance.loginPopup(loginRequest);
       if (loginResponse.accessToken) {
         await signInWithMicrosoft(loginResponse.accessToken);
-        navigate('/dashboard');
+        navigate(returnTo);
       }
     } catch (error) {
       console.error('Microsoft login error:', error);
@@ -1,7 +1,10 @@
 import { useState } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Link } from 'react-router-dom';
 import { motion } from 'framer-motion';
 import { toast } from 'sonner';
+import { isAxiosError } from 'axios';
+import { format } from 'date-fns';
 import {
     Calendar,
     Clock,
@@ -12,7 +15,12 @@ import {
     Mail,
     ExternalLink,
     Trash2,
-    Edit
+    Edit,
+    Search,
+    AlertTriangle,
+    Layers,
+    NotebookPen,
+    Repeat
 } from 'lucide-react';
 
 import { Header } from '@/components/Header';
@@ -40,27 +48,32 @@ import {
 } from '@/components/ui/select';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 
+import { MeetingCalendar } from '@/components/MeetingCalendar';
+import { MeetingTimeFinder } from '@/components/MeetingTimeFinder';
+import { MeetingFollowUpDialog } from '@/components/MeetingFollowUpDialog';
+import { RecurrenceEditor } from '@/components/RecurrenceEditor';
+import { FilterSelect } from '@/components/FilterSelect';
 import { useAuth } from '@/contexts/AuthContext';
-import { IntegrationService } from '@/services/api';
-
-interface Meeting {
-    id: string;
-    title: string;
-    description: string;
-    startTime: string;
-    endTime: string;
-    attendees: string[];
-    platform: 'google' | 'teams';
-    meetingLink?: string;
-    joinUrl?: string;
-    status: 'scheduled' | 'completed' | 'cancelled';
-}
+import { IntegrationService, MeetingService, ThreadService, WorkItemService } from '@/services/api';
+import { describeRule, expandOccurrences, nextOccurrence, Occurrence, parseRRule } from '@/lib/recurrence';
+import { Meeting, MeetingDetails, WorkThread } from '@/lib/types';
+import { MeetingSlot } from '@/lib/scheduling';
+
+// datetime-local inputs want local time without a zone
+const toInputValue = (date: Date) => format(date, "yyyy-MM-dd'T'HH:mm");
+
+const errorMessage = (error: unknown, fallback: string): string =>
+    (isAxiosError(error) && error.response?.data?.error) || fallback;
 
 export default function MeetingsPage() {
     const { currentUser } = useAuth();
     const queryClient = useQueryClient();
     const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
     const [selectedPlatform, setSelectedPlatform] = useState<'google' | 'teams'>('google');
+    // Set while the dialog edits an existing meeting rather than creating one
+    const [editingMeeting, setEditingMeeting] = useState<Meeting | null>(null);
+    const [isTimeFinderOpen, setIsTimeFinderOpen] = useState(false);
+    const [followUpMeeting, setFollowUpMeeting] = useState<Meeting | null>(null);
 
     // Form state
     const [formData, setFormData] = useState({
@@ -69,23 +82,54 @@ export default function MeetingsPage() {
         startTime: '',
         endTime: '',
         attendees: '',
-        platform: 'google' as 'google' | 'teams'
+        platform: 'google' as 'google' | 'teams',
+        threadId: '',
+        recurrence: ''
+    });
+
+    const { data: meetings = [], isLoading } = useQuery({
+        queryKey: ['meetings', currentUser?.id],
+        queryFn: () => MeetingService.list(),
+        enabled: !!currentUser
+    });
+
+    // Synced Google Calendar events arrive as calendar work items
+    const { data: items = [] } = useQuery({
+        queryKey: ['items', currentUser?.id],
+        queryFn: () => currentUser ? WorkItemService.getUserItems(currentUser.id) : Promise.resolve([]),
+        enabled: !!currentUser
     });
 
-    // Mock data for now - in real app, fetch from backend
-    const [meetings, setMeetings] = useState<Meeting[]>([]);
+    const { data: threads = [] } = useQuery({
+        queryKey: ['threads', currentUser?.id],
+        queryFn: () => currentUser ? ThreadService.getUserThreads(currentUser.id) : Promise.resolve([]),
+        enabled: !!currentUser
+    });
+
+    const toDetails = (data: typeof formData): MeetingDetails => ({
+        title: data.title,
+        description: data.description,
+        startTime: new Date(data.startTime).toISOString(),
+        endTime: new Date(data.endTime).toISOString(),
+        attendees: data.attendees.split(',').map(e => e.trim()).filter(Boolean),
+        // null rather than undefined so unlinking survives JSON
+        threadId: data.threadId || null,
+        recurrence: data.recurrence || null
+    });
+
+    // Each meeting is recorded as a calendar item, in its thread when it has one
+    const invalidateMeetings = (...threadIds: (string | undefined)[]) => {
+        queryClient.invalidateQueries({ queryKey: ['meetings', currentUser?.id] });
+        queryClient.invalidateQueries({ queryKey: ['items', currentUser?.id] });
+        for (const threadId of new Set(threadIds.filter(Boolean))) {
+            queryClient.invalidateQueries({ queryKey: ['threadItems', threadId] });
+            queryClient.invalidateQueries({ queryKey: ['thread', threadId] });
+        }
+    };
 
     const createMeetingMutation = useMutation({
         mutationFn: async (data: typeof formData) => {
-            const attendeesList = data.attendees.split(',').map(e => e.trim()).filter(Boolean);
-
-            const payload = {
-                title: data.title,
-                description: data.description,
-                startTime: new Date(data.startTime).toISOString(),
-                endTime: new Date(data.endTime).toISOString(),
-                attendees: attendeesList
-            };
+            const payload = toDetails(data);
 
             if (data.platform === 'google') {
                 return IntegrationService.createGoogleMeeting(payload);
@@ -93,22 +137,11 @@ export default function MeetingsPage() {
                 return IntegrationService.createTeamsMeeting(payload);
             }
         },
-        onSuccess: (response, variables) => {
+        onSuccess: (_response, data) => {
             toast.success(`Meeting created successfully! Invitations sent to attendees.`);
+            invalidateMeetings(data.threadId);
 
-            // Add to local state
-            const newMeeting: Meeting = {
-                id: Date.now().toString(),
-                ...variables,
-                attendees: variables.attendees.split(',').map(e => e.trim()).filter(Boolean),
-                meetingLink: response.meetingLink || response.data?.meetingLink,
-                joinUrl: response.joinUrl || response.data?.joinUrl,
-                status: 'scheduled'
-            };
-            setMeetings(prev => [newMeeting, ...prev]);
-
-            setIsCreateDialogOpen(false);
-            resetForm();
+            closeDialog();
         },
         onError: (error: any) => {
             const errorMessage = error.response?.data?.error || error.message || 'Failed to create meeting';
@@ -120,6 +153,36 @@ export default function MeetingsPage() {
         }
     });
 
+    const updateMeetingMutation = useMutation({
+        mutationFn: ({ meeting, details }: { meeting: Meeting; details: MeetingDetails }) =>
+            MeetingService.update(meeting, details),
+        onSuccess: (updated, { meeting }) => {
+            const rescheduled = updated.startTime.getTime() !== meeting.startTime.getTime()
+                || updated.endTime.getTime() !== meeting.endTime.getTime();
+            toast.success(rescheduled ? 'Meeting rescheduled' : 'Meeting updated', {
+                description: updated.attendees.length > 0 ? 'Updated invitations sent to attendees.' : undefined
+            });
+            invalidateMeetings(meeting.threadId, updated.threadId);
+            closeDialog();
+        },
+        onError: (error) => {
+            toast.error(errorMessage(error, 'Failed to update meeting'));
+        }
+    });
+
+    const cancelMeetingMutation = useMutation({
+        mutationFn: (meeting: Meeting) => MeetingService.cancel(meeting),
+        onSuccess: (cancelled) => {
+            toast.success('Meeting cancelled', {
+                description: cancelled.attendees.length > 0 ? 'Attendees have been notified.' : undefined
+            });
+            invalidateMeetings(cancelled.threadId);
+        },
+        onError: (error) => {
+            toast.error(errorMessage(error, 'Failed to cancel meeting'));
+        }
+    });
+
     const resetForm = () => {
         setFormData({
             title: '',
@@ -127,16 +190,97 @@ export default function MeetingsPage() {
             startTime: '',
             endTime: '',
             attendees: '',
-            platform: 'google'
+            platform: 'google',
+            threadId: '',
+            recurrence: ''
         });
     };
 
-    const handleCreateMeeting = () => {
+    const closeDialog = () => {
+        setIsCreateDialogOpen(false);
+        setEditingMeeting(null);
+        setIsTimeFinderOpen(false);
+        resetForm();
+    };
+
+    // Keeps anyone already typed in and adds the picked teammates
+    const applySlot = (slot: MeetingSlot, attendeeEmails: string[]) => {
+        setFormData(prev => {
+            const typed = prev.attendees.split(',').map(e => e.trim()).filter(Boolean);
+            return {
+                ...prev,
+                startTime: toInputValue(slot.start),
+                endTime: toInputValue(slot.end),
+                attendees: Array.from(new Set([...typed, ...attendeeEmails])).join(', ')
+            };
+        });
+        setIsTimeFinderOpen(false);
+    };
+
+    const handleDialogOpenChange = (open: boolean) => {
+        // A half-typed new meeting survives closing the dialog, an edit does not
+        if (!open && editingMeeting) closeDialog();
+        else setIsCreateDialogOpen(open);
+    };
+
+    const openEditDialog = (meeting: Meeting) => {
+        setEditingMeeting(meeting);
+        setFormData({
+            title: meeting.title,
+            description: meeting.description ?? '',
+            startTime: toInputValue(meeting.startTime),
+            endTime: toInputValue(meeting.endTime),
+            attendees: meeting.attendees.join(', '),
+            platform: meeting.platform,
+            threadId: meeting.threadId ?? '',
+            recurrence: meeting.recurrence ?? ''
+        });
+        setIsCreateDialogOpen(true);
+    };
+
+    const skipOccurrenceMutation = useMutation({
+        mutationFn: ({ meeting, originalStart }: { meeting: Meeting; originalStart: Date }) =>
+            MeetingService.updateOccurrence(meeting.id, { originalStart, cancelled: true }),
+        onSuccess: (updated, { originalStart }) => {
+            toast.success(`Skipped ${format(originalStart, 'EEE, MMM d')}`, {
+                description: updated.attendees.length > 0 ? 'Attendees have been notified.' : undefined
+            });
+            invalidateMeetings(updated.threadId);
+        },
+        onError: (error) => {
+            toast.error(errorMessage(error, 'Failed to skip the occurrence'));
+        }
+    });
+
+    const handleSkipOccurrence = (meeting: Meeting, originalStart: Date) => {
+        if (confirm(`Skip "${meeting.title}" on ${format(originalStart, 'EEEE, MMM d')}? The rest of the series stays as it is.`)) {
+            skipOccurrenceMutation.mutate({ meeting, originalStart });
+        }
+    };
+
+    const handleCancelMeeting = (meeting: Meeting) => {
+        const what = meeting.recurrence ? `every occurrence of "${meeting.title}"` : `"${meeting.title}"`;
+        if (confirm(`Cancel ${what}? All attendees will be notified.`)) {
+            cancelMeetingMutation.mutate(meeting);
+        }
+    };
+
+    const handleSubmit = () => {
         if (!formData.title || !formData.startTime || !formData.endTime) {
             toast.error('Please fill in all required fields');
             return;
         }
 
+        if (new Date(formData.endTime) <= new Date(formData.startTime)) {
+            toast.error('End time must be after the start time');
+            return;
+        }
+
+        if (editingMeeting) {
+            updateMeetingMutation.mutate({ meeting: editingMeeting, details: toDetails(formData) });
+            return;
+        }
+
         if (formData.platform === 'teams' && !currentUser?.integrations?.microsoft?.connected) {
             toast.error('Microsoft Teams integration NOT connected');
             // But we'll still let the request proceed to see the backend error if they think they are connected
@@ -145,13 +289,38 @@ export default function MeetingsPage() {
         createMeetingMutation.mutate(formData);
     };
 
-    const upcomingMeetings = meetings.filter(m =>
-        m.status === 'scheduled' && new Date(m.startTime) > new Date()
-    );
+    const now = new Date();
 
-    const pastMeetings = meetings.filter(m =>
-        m.status === 'completed' || new Date(m.endTime) < new Date()
-    );
+    // A series stays upcoming until its last occurrence has ended
+    const nextOccurrences = new Map(meetings.map(m => [m.id, nextOccurrence(m, now)]));
+
+    const upcomingMeetings = meetings
+        .filter(m => m.status === 'scheduled' && nextOccurrences.get(m.id))
+        .sort((a, b) => nextOccurrences.get(a.id).start.getTime() - nextOccurrences.get(b.id).start.getTime());
+
+    // Cancelled meetings are listed with the past ones, marked as such
+    const pastMeetings = meetings
+        .filter(m => m.status !== 'scheduled' || !nextOccurrences.get(m.id))
+        .reverse();
+
+    const isSaving = createMeetingMutation.isPending || updateMeetingMutation.isPending;
+
+    const formStart = formData.startTime ? new Date(formData.startTime) : null;
+    const formEnd = formData.endTime ? new Date(formData.endTime) : null;
+    const formDuration = formStart && formEnd ? (formEnd.getTime() - formStart.getTime()) / 60000 : 0;
+
+    // Double-booking is allowed, but worth pointing out before invites go out
+    const conflictingMeeting = formStart && formEnd
+        ? meetings.find(m =>
+            m.status === 'scheduled' &&
+            m.id !== editingMeeting?.id &&
+            expandOccurrences(m, formStart, formEnd).length > 0
+        )
+        : undefined;
+
+    // Ended meetings nobody has written up yet, most recent first
+    const awaitingFollowUp = pastMeetings.filter(m => m.status === 'completed' && !m.followedUpAt);
+    const threadById = new Map(threads.map(thread => [thread.id, thread]));
 
     const formatDateTime = (dateString: string) => {
         const date = new Date(dateString);
@@ -185,7 +354,7 @@ export default function MeetingsPage() {
                                 </p>
                             </div>
 
-                            <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
+                            <Dialog open={isCreateDialogOpen} onOpenChange={handleDialogOpenChange}>
                                 <DialogTrigger asChild>
                                     <Button size="lg" className="gap-2">
                                         <Plus className="w-4 h-4" />
@@ -194,9 +363,11 @@ export default function MeetingsPage() {
                                 </DialogTrigger>
                                 <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
                                     <DialogHeader>
-                                        <DialogTitle>Schedule New Meeting</DialogTitle>
+                                        <DialogTitle>{editingMeeting ? 'Edit Meeting' : 'Schedule New Meeting'}</DialogTitle>
                                         <DialogDescription>
-                                            Create a meeting and send invitations automatically
+                                            {editingMeeting
+                                                ? 'Attendees will receive an updated invitation'
+                                                : 'Create a meeting and send invitations automatically'}
                                         </DialogDescription>
                                     </DialogHeader>
 
@@ -206,6 +377,7 @@ export default function MeetingsPage() {
                                             <Label>Meeting Platform</Label>
                                             <Select
                                                 value={formData.platform}
+                                                disabled={!!editingMeeting}
                                                 onValueChange={(value: 'google' | 'teams') =>
                                                     setFormData(prev => ({ ...prev, platform: value }))
                                                 }
@@ -241,6 +413,21 @@ export default function MeetingsPage() {
                                             />
                                         </div>
 
+                                        {/* Thread */}
+                                        <div className="space-y-2">
+                                            <Label>Work Thread</Label>
+                                            <FilterSelect
+                                                value={formData.threadId || undefined}
+                                                onChange={(threadId) => setFormData(prev => ({ ...prev, threadId: threadId ?? '' }))}
+                                                options={threads.map(thread => ({ value: thread.id, label: thread.title }))}
+                                                anyLabel="No thread"
+                                                className="w-full"
+                                            />
+                                            <p className="text-xs text-muted-foreground">
+                                                The meeting and its follow-up tasks will show up in this thread
+                                            </p>
+                                        </div>
+
                                         {/* Description */}
                                         <div className="space-y-2">
                                             <Label htmlFor="description">Description</Label>
@@ -275,6 +462,44 @@ export default function MeetingsPage() {
                                             </div>
                                         </div>
 
+                                        {/* Recurrence */}
+                                        <div className="space-y-2">
+                                            <Label>Repeat</Label>
+                                            <RecurrenceEditor
+                                                value={formData.recurrence}
+                                                onChange={(recurrence) => setFormData(prev => ({ ...prev, recurrence }))}
+                                                start={formStart}
+                                            />
+                                            {editingMeeting?.recurrence && (
+                                                <p className="text-xs text-muted-foreground">
+                                                    Changes apply to every occurrence. Moving the series or changing how it repeats brings back skipped occurrences.
+                                                </p>
+                                            )}
+                                        </div>
+                                        {conflictingMeeting && (
+                                            <p className="flex items-center gap-2 text-sm text-amber-600">
+                                                <AlertTriangle className="w-4 h-4" />
+                                                Overlaps with "{conflictingMeeting.title}"
+                                            </p>
+                                        )}
+                                        <div className="space-y-3">
+                                            <Button
+                                                type="button"
+                                                variant="outline"
+                                                size="sm"
+                                                onClick={() => setIsTimeFinderOpen(open => !open)}
+                                            >
+                                                <Search className="w-4 h-4 mr-2" />
+                                                {isTimeFinderOpen ? 'Hide suggestions' : 'Find a time'}
+                                            </Button>
+                                            {isTimeFinderOpen && (
+                                                <MeetingTimeFinder
+                                                    initialDuration={formDuration > 0 ? formDuration : undefined}
+                                                    onPick={applySlot}
+                                                />
+                                            )}
+                                        </div>
+
                                         {/* Attendees */}
                                         <div className="space-y-2">
                                             <Label htmlFor="attendees">Attendees (comma-separated emails)</Label>
@@ -292,17 +517,22 @@ export default function MeetingsPage() {
                                     </div>
 
                                     <DialogFooter>
-                                        <Button variant="outline" onClick={() => setIsCreateDialogOpen(false)}>
+                                        <Button variant="outline" onClick={() => handleDialogOpenChange(false)}>
                                             Cancel
                                         </Button>
                                         <Button
-                                            onClick={handleCreateMeeting}
-                                            disabled={createMeetingMutation.isPending}
+                                            onClick={handleSubmit}
+                                            disabled={isSaving}
                                         >
-                                            {createMeetingMutation.isPending ? (
+                                            {isSaving ? (
                                                 <>
                                                     <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-                                                    Creating...
+                                                    {editingMeeting ? 'Saving...' : 'Creating...'}
+                                                </>
+                                            ) : editingMeeting ? (
+                                                <>
+                                                    <Edit className="w-4 h-4 mr-2" />
+                                                    Save & Send Updates
                                                 </>
                                             ) : (
                                                 <>
@@ -340,7 +570,7 @@ export default function MeetingsPage() {
                                         <p className="text-sm text-muted-foreground">This Week</p>
                                         <p className="text-3xl font-bold">
                                             {upcomingMeetings.filter(m => {
-                                                const meetingDate = new Date(m.startTime);
+                                                const meetingDate = nextOccurrences.get(m.id).start;
                                                 const weekFromNow = new Date();
                                                 weekFromNow.setDate(weekFromNow.getDate() + 7);
                                                 return meetingDate <= weekFromNow;
@@ -370,14 +600,39 @@ export default function MeetingsPage() {
                     </div>
 
                     {/* Meetings List */}
+                    {awaitingFollowUp.length > 0 && (
+                        <Card className="mb-6 border-primary/30 bg-primary/5">
+                            <CardContent className="pt-6 flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+                                <div className="flex items-center gap-3">
+                                    <NotebookPen className="w-5 h-5 text-primary" />
+                                    <div>
+                                        <p className="font-medium">"{awaitingFollowUp[0].title}" has ended</p>
+                                        <p className="text-sm text-muted-foreground">
+                                            Capture notes and turn action items into tasks
+                                            {awaitingFollowUp.length > 1 && ` (${awaitingFollowUp.length - 1} more in Past)`}
+                                        </p>
+                                    </div>
+                                </div>
+                                <Button onClick={() => setFollowUpMeeting(awaitingFollowUp[0])}>
+                                    Capture notes
+                                </Button>
+                            </CardContent>
+                        </Card>
+                    )}
+
                     <Tabs defaultValue="upcoming" className="space-y-6">
                         <TabsList>
                             <TabsTrigger value="upcoming">Upcoming</TabsTrigger>
                             <TabsTrigger value="past">Past</TabsTrigger>
+                            <TabsTrigger value="calendar">Calendar</TabsTrigger>
                         </TabsList>
 
                         <TabsContent value="upcoming" className="space-y-4">
-                            {upcomingMeetings.length === 0 ? (
+                            {isLoading ? (
+                                <div className="flex justify-center p-12">
+                                    <Loader2 className="w-8 h-8 animate-spin text-muted-foreground" />
+                                </div>
+                            ) : upcomingMeetings.length === 0 ? (
                                 <Card className="p-12 text-center">
                                     <div className="flex flex-col items-center gap-4">
                                         <div className="w-16 h-16 rounded-full bg-muted flex items-center justify-center">
@@ -397,7 +652,14 @@ export default function MeetingsPage() {
                                 </Card>
                             ) : (
                                 upcomingMeetings.map((meeting) => (
-                                    <MeetingCard key={meeting.id} meeting={meeting} />
+                                    <MeetingCard
+                                        key={meeting.id}
+                                        meeting={meeting}
+                                        next={nextOccurrences.get(meeting.id)}
+                                        thread={threadById.get(meeting.threadId)}
+                                        onEdit={() => openEditDialog(meeting)}
+                                        onCancel={() => handleCancelMeeting(meeting)}
+                                    />
                                 ))
                             )}
                         </TabsContent>
@@ -409,20 +671,55 @@ export default function MeetingsPage() {
                                 </Card>
                             ) : (
                                 pastMeetings.map((meeting) => (
-                                    <MeetingCard key={meeting.id} meeting={meeting} isPast />
+                                    <MeetingCard
+                                        key={meeting.id}
+                                        meeting={meeting}
+                                        thread={threadById.get(meeting.threadId)}
+                                        onFollowUp={() => setFollowUpMeeting(meeting)}
+                                        isPast
+                                    />
                                 ))
                             )}
                         </TabsContent>
+
+                        <TabsContent value="calendar">
+                            <MeetingCalendar
+                                meetings={meetings}
+                                items={items}
+                                onSelectMeeting={openEditDialog}
+                                onSkipOccurrence={handleSkipOccurrence}
+                            />
+                        </TabsContent>
                     </Tabs>
                 </div>
             </main>
+
+            <MeetingFollowUpDialog
+                meeting={followUpMeeting}
+                onOpenChange={(open) => !open && setFollowUpMeeting(null)}
+            />
         </div>
     );
 }
 
-function MeetingCard({ meeting, isPast = false }: { meeting: Meeting; isPast?: boolean }) {
+interface MeetingCardProps {
+    meeting: Meeting;
+    // Where an upcoming series is up to
+    next?: Occurrence;
+    thread?: WorkThread;
+    isPast?: boolean;
+    onEdit?: () => void;
+    onCancel?: () => void;
+    onFollowUp?: () => void;
+}
+
+function MeetingCard({ meeting, next, thread, isPast = false, onEdit, onCancel, onFollowUp }: MeetingCardProps) {
+    const isEditable = !isPast && meeting.status === 'scheduled';
+    const needsFollowUp = meeting.status === 'completed' && !meeting.followedUpAt;
+    const rule = meeting.recurrence ? parseRRule(meeting.recurrence) : null;
+
     return (
-        <Card className={isPast ? 'opacity-60' : ''}>
+        <Card className={isPast && !needsFollowUp ? 'opacity-60' : ''}>
             <CardContent className="pt-6">
                 <div className="flex items-start justify-between gap-4">
                     <div className="flex-1 space-y-3">
@@ -443,7 +740,7 @@ function MeetingCard({ meeting, isPast = false }: { meeting: Meeting; isPast?: b
                         <div className="flex flex-wrap items-center gap-4 text-sm text-muted-foreground">
                             <div className="flex items-center gap-1.5">
                                 <Clock className="w-4 h-4" />
-                                {new Date(meeting.startTime).toLocaleString('en-US', {
+                                {(next?.start ?? meeting.startTime).toLocaleString('en-US', {
                                     month: 'short',
                                     day: 'numeric',
                                     hour: '2-digit',
@@ -457,8 +754,30 @@ function MeetingCard({ meeting, isPast = false }: { meeting: Meeting; isPast?: b
                             <Badge variant="outline">
                                 {meeting.platform === 'google' ? 'Google Meet' : 'Microsoft Teams'}
                             </Badge>
+                            {meeting.status === 'cancelled' && (
+                                <Badge variant="destructive">Cancelled</Badge>
+                            )}
+                            {rule && (
+                                <div className="flex items-center gap-1.5">
+                                    <Repeat className="w-4 h-4" />
+                                    {describeRule(rule)}
+                                </div>
+                            )}
+                            {thread && (
+                                <Link
+                                    to={`/thread/${thread.id}`}
+                                    className="flex items-center gap-1.5 hover:text-foreground transition-colors"
+                                >
+                                    <Layers className="w-4 h-4" />
+                                    {thread.title}
+                                </Link>
+                            )}
                         </div>
 
+                        {meeting.notes && (
+                            <p className="text-sm text-muted-foreground border-l-2 pl-3 whitespace-pre-line">{meeting.notes}</p>
+                        )}
+
                         {meeting.attendees.length > 0 && (
                             <div className="flex items-center gap-2 text-sm">
                                 <Mail className="w-4 h-4 text-muted-foreground" />
@@ -479,7 +798,7 @@ function MeetingCard({ meeting, isPast = false }: { meeting: Meeting; isPast?: b
                                 </a>
                             </Button>
                         )}
-                        {meeting.joinUrl && !isPast && (
+                        {meeting.joinUrl && isEditable && (
                             <Button size="sm" asChild>
                                 <a href={meeting.joinUrl} target="_blank" rel="noopener noreferrer">
                                     <Video className="w-4 h-4 mr-2" />
@@ -487,6 +806,24 @@ function MeetingCard({ meeting, isPast = false }: { meeting: Meeting; isPast?: b
                                 </a>
                             </Button>
                         )}
+                        {isEditable && onEdit && (
+                            <Button size="sm" variant="ghost" onClick={onEdit}>
+                                <Edit className="w-4 h-4 mr-2" />
+                                Edit
+                            </Button>
+                        )}
+                        {isEditable && onCancel && (
+                            <Button size="sm" variant="ghost" className="text-destructive hover:text-destructive" onClick={onCancel}>
+                                <Trash2 className="w-4 h-4 mr-2" />
+                                Cancel
+                            </Button>
+                        )}
+                        {needsFollowUp && onFollowUp && (
+                            <Button size="sm" onClick={onFollowUp}>
+                                <NotebookPen className="w-4 h-4 mr-2" />
+                                Add notes
+                            </Button>
+                        )}
                     </div>
                 </div>
             </CardContent>
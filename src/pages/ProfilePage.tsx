@@ -6,7 +6,10 @@ import { Badge } from '@/components/ui/badge';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Separator } from '@/components/ui/separator';
 import { Switch } from '@/components/ui/switch';
-import { mockUser, mockDailyStats } from '@/lib/mock-data';
+import { IntegrationService, IntelligenceService, UserService } from '@/services/api';
+import { DailyStats, IntegrationId } from '@/lib/types';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { toast } from 'sonner';
 import { motion } from 'framer-motion';
 import {
   User,
@@ -26,9 +29,31 @@ import { format } from 'date-fns';
 import { Link, useNavigate } from 'react-router-dom';
 
 export default function ProfilePage() {
-  const { currentUser, signOut } = useAuth();
+  const { currentUser, signOut, updateCurrentUser } = useAuth();
   const navigate = useNavigate();
-  const userData = currentUser || mockUser;
+  const userData = currentUser;
+
+  const { data: integrations = [] } = useQuery({
+    queryKey: ['integrations', currentUser?.id],
+    queryFn: IntegrationService.getIntegrations,
+    enabled: !!currentUser?.id
+  });
+
+  const { data: stats = [] } = useQuery({
+    queryKey: ['dailyStats', currentUser?.id],
+    queryFn: () => currentUser?.id ? IntelligenceService.getDailyStats(currentUser.id) : Promise.resolve([]),
+    enabled: !!currentUser?.id
+  });
+
+  const focusModeMutation = useMutation({
+    mutationFn: (focusMode: boolean) => UserService.updatePreferences(currentUser.id, { focusMode }),
+    onSuccess: (_, focusMode) => {
+      updateCurrentUser({ ...currentUser, preferences: { ...currentUser.preferences, focusMode } });
+    },
+    onError: () => {
+      toast.error('Failed to update focus mode');
+    }
+  });
 
   const handleSignOut = () => {
     signOut();
@@ -36,16 +61,18 @@ export default function ProfilePage() {
   };
 
   const totalFocusTime = Math.round(
-    mockDailyStats.reduce((acc, s) => acc + s.focusTime, 0) / 60
+    stats.reduce((acc: number, s: DailyStats) => acc + s.focusTime, 0) / 60
   );
-  const totalTasksCompleted = mockDailyStats.reduce((acc, s) => acc + s.completedTasks, 0);
+  const totalTasksCompleted = stats.reduce((acc: number, s: DailyStats) => acc + s.completedTasks, 0);
 
+  const isConnected = (id: IntegrationId) => !!integrations.find(s => s.id === id)?.connected;
   const connectedApps = [
-    { name: 'Google Workspace', connected: true, icon: '📧' },
-    { name: 'Slack', connected: true, icon: '💬' },
-    { name: 'Linear', connected: true, icon: '📋' },
-    { name: 'Notion', connected: false, icon: '📝' },
-    { name: 'GitHub', connected: false, icon: '💻' },
+    { name: 'Google Workspace', connected: isConnected('google'), icon: '📧' },
+    { name: 'Microsoft 365', connected: isConnected('microsoft'), icon: '📨' },
+    { name: 'Slack', connected: isConnected('slack'), icon: '💬' },
+    { name: 'Linear', connected: isConnected('linear'), icon: '📋' },
+    { name: 'Notion', connected: !!currentUser?.integrations?.notion?.connected, icon: '📝' },
+    { name: 'GitHub', connected: isConnected('github'), icon: '💻' },
   ];
 
   return (
@@ -125,7 +152,7 @@ export default function ProfilePage() {
                       <Calendar className="w-4 h-4 text-muted-foreground" />
                       <span>Active Days</span>
                     </div>
-                    <span className="font-semibold">7</span>
+                    <span className="font-semibold">{stats.filter((s: DailyStats) => s.focusTime > 0).length}</span>
                   </div>
                 </CardContent>
               </Card>
@@ -163,7 +190,7 @@ export default function ProfilePage() {
                           {app.connected ? (
                             <Badge variant="success">Connected</Badge>
                           ) : (
-                            <Button variant="outline" size="sm">Connect</Button>
+                            <Button variant="outline" size="sm" onClick={() => navigate('/integrations')}>Connect</Button>
                           )}
                         </div>
                       </div>
@@ -208,10 +235,15 @@ export default function ProfilePage() {
                       <span className="font-medium">Focus Mode</span>
                     </div>
                     <p className="text-sm text-muted-foreground">
-                      Hide distracting elements when working
+                      Hide distracting elements during focus sessions
                     </p>
                   </div>
-                  <Switch />
+                  <Switch
+                    checked={currentUser?.preferences?.focusMode !== false}
+                    onCheckedChange={(checked) => focusModeMutation.mutate(checked)}
+                    disabled={focusModeMutation.isPending}
+                    aria-label="Focus mode during focus sessions"
+                  />
                 </div>
 
                 <Separator />
@@ -2,6 +2,7 @@ import { useState, useMemo } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { useAuth } from '@/contexts/AuthContext';
+import { useTeamPresence } from '@/contexts/RealtimeContext';
 import { Header } from '@/components/Header';
 import { WorkThreadCard } from '@/components/WorkThreadCard';
 import { WorkTaskCard } from '@/components/WorkTaskCard';
@@ -150,6 +151,7 @@ export default function TeamDetailsPage() {
     };
 
     const { currentUser } = useAuth();
+    const { isLive, onlineUserIds } = useTeamPresence(teamId);
     const isAdmin = useMemo(() => {
         if (!team || !currentUser) return false;
         if (team.ownerId === currentUser.id) return true;
@@ -177,6 +179,12 @@ export default function TeamDetailsPage() {
                             <div>
                                 <h1 className="text-3xl font-bold tracking-tight">{team.name}</h1>
                                 <p className="text-muted-foreground">{team.description}</p>
+                                {isLive && (
+                                    <div className="flex items-center gap-1.5 mt-2 text-xs text-muted-foreground">
+                                        <span className="w-2 h-2 rounded-full bg-green-500" />
+                                        {onlineUserIds.length} online now
+                                    </div>
+                                )}
                             </div>
                             <Dialog open={isInviteOpen} onOpenChange={setIsInviteOpen}>
                                 <DialogTrigger asChild>
@@ -251,10 +259,18 @@ export default function TeamDetailsPage() {
                                         {team.members.map((member) => (
                                             <div key={member.userId} className="flex items-center justify-between p-2 hover:bg-muted/50 rounded-lg transition-colors">
                                                 <div className="flex items-center gap-3">
-                                                    <Avatar>
-                                                        <AvatarImage src="" />
-                                                        <AvatarFallback>{member.name?.[0] || '?'}</AvatarFallback>
-                                                    </Avatar>
+                                                    <div className="relative">
+                                                        <Avatar>
+                                                            <AvatarImage src="" />
+                                                            <AvatarFallback>{member.name?.[0] || '?'}</AvatarFallback>
+                                                        </Avatar>
+                                                        {isLive && onlineUserIds.includes(member.userId) && (
+                                                            <span
+                                                                className="absolute bottom-0 right-0 w-3 h-3 rounded-full bg-green-500 ring-2 ring-background"
+                                                                title="Online"
+                                                            />
+                                                        )}
+                                                    </div>
                                                     <div>
                                                         <p className="font-medium text-sm">{member.name || 'Unknown'}</p>
                                                         <p className="text-xs text-muted-foreground">{member.email}</p>
@@ -281,7 +297,7 @@ export default function TeamDetailsPage() {
                                                         </Badge>
                                                     )}
                                                     <span className="text-xs text-muted-foreground">
-                                                        Joined {format(new Date(member.joinedAt), 'MMM d, yyyy')}
+                                                        Joined {format(member.joinedAt, 'MMM d, yyyy')}
                                                     </span>
                                                     {isAdmin && member.role !== 'admin' && (
                                                         <Button
@@ -320,7 +336,7 @@ export default function TeamDetailsPage() {
                                                                 {inv.status}
                                                             </Badge>
                                                             <span className="text-xs text-muted-foreground">
-                                                                Sent {format(new Date(inv.createdAt), 'MMM d')}
+                                                                Sent {format(inv.createdAt, 'MMM d')}
                                                             </span>
                                                         </div>
                                                     </div>
@@ -422,7 +438,7 @@ export default function TeamDetailsPage() {
                                                                     <div className="flex items-center gap-2 text-xs text-muted-foreground">
                                                                         <span>{item.source}</span>
                                                                         <span>•</span>
-                                                                        <span>{format(new Date(item.timestamp), 'MMM d, h:mm a')}</span>
+                                                                        <span>{format(item.timestamp, 'MMM d, h:mm a')}</span>
                                                                     </div>
                                                                 </div>
                                                             </div>
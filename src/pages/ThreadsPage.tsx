@@ -0,0 +1,169 @@
+import { useQuery, keepPreviousData } from '@tanstack/react-query';
+import { useNavigate } from 'react-router-dom';
+import { Archive, Layers, Loader2, X } from 'lucide-react';
+
+import { Header } from '@/components/Header';
+import { WorkThreadCard } from '@/components/WorkThreadCard';
+import { CreateThreadDialog } from '@/components/CreateThreadDialog';
+import { FilterSelect } from '@/components/FilterSelect';
+import { ListPagination } from '@/components/ListPagination';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+
+import { useAuth } from '@/contexts/AuthContext';
+import { useListParams } from '@/hooks/use-list-params';
+import { ThreadService, TeamService } from '@/services/api';
+import { ThreadQuery, ThreadSort, WorkThread } from '@/lib/types';
+
+const PAGE_SIZE = 12;
+
+const SORTS: { value: ThreadSort; label: string }[] = [
+    { value: 'lastActivity', label: 'Last activity' },
+    { value: 'deadline', label: 'Deadline' },
+    { value: 'priority', label: 'Priority' },
+    { value: 'progress', label: 'Least progress' },
+];
+
+const PRIORITIES: { value: WorkThread['priority']; label: string }[] = [
+    { value: 'high', label: 'High' },
+    { value: 'medium', label: 'Medium' },
+    { value: 'low', label: 'Low' },
+];
+
+const FILTER_KEYS = ['priority', 'tag', 'teamId'];
+
+// Ignore hand-edited query strings that name values we don't know
+const oneOf = <T extends string>(value: string | undefined, options: { value: T }[]) =>
+    options.some(option => option.value === value) ? value as T : undefined;
+
+export default function ThreadsPage() {
+    const navigate = useNavigate();
+    const { currentUser } = useAuth();
+    const userId = currentUser?.id;
+    const params = useListParams();
+
+    const query: ThreadQuery = {
+        page: params.page,
+        pageSize: PAGE_SIZE,
+        sort: oneOf(params.get('sort'), SORTS) ?? 'lastActivity',
+        priority: oneOf(params.get('priority'), PRIORITIES),
+        tag: params.get('tag'),
+        teamId: params.get('teamId'),
+    };
+
+    const { data, isLoading, isFetching } = useQuery({
+        queryKey: ['threads', userId, 'paged', query],
+        queryFn: () => userId ? ThreadService.queryUserThreads(userId, query) : Promise.reject('No user'),
+        enabled: !!userId,
+        placeholderData: keepPreviousData
+    });
+
+    // Filter choices come from everything the user can see, not just the current page
+    const { data: allThreads = [] } = useQuery({
+        queryKey: ['threads', userId],
+        queryFn: () => userId ? ThreadService.getUserThreads(userId) : Promise.resolve([]),
+        enabled: !!userId
+    });
+
+    const { data: teams = [] } = useQuery({
+        queryKey: ['teams'],
+        queryFn: TeamService.getMyTeams
+    });
+
+    const tags = Array.from(new Set(allThreads.flatMap(thread => thread.tags || []))).sort();
+    const threads = data?.results ?? [];
+    const hasFilters = FILTER_KEYS.some(key => params.get(key));
+
+    return (
+        <div className="min-h-screen bg-background">
+            <Header isAuthenticated />
+            <main className="pt-24 pb-12 px-4">
+                <div className="container mx-auto max-w-5xl space-y-6">
+                    <div className="flex flex-col md:flex-row md:items-end justify-between gap-4">
+                        <div>
+                            <h1 className="text-3xl font-bold tracking-tight flex items-center gap-3">
+                                Work Threads
+                                {data && <Badge variant="outline">{data.total}</Badge>}
+                            </h1>
+                            <p className="text-muted-foreground">Every active thread, sorted and filtered your way.</p>
+                        </div>
+                        <div className="flex items-center gap-2">
+                            <Button variant="ghost" size="sm" onClick={() => navigate('/threads/archived')}>
+                                <Archive className="w-4 h-4 mr-1" />
+                                Archived
+                            </Button>
+                            <CreateThreadDialog />
+                        </div>
+                    </div>
+
+                    <div className="flex flex-wrap items-center gap-2">
+                        <FilterSelect
+                            value={query.sort}
+                            onChange={(sort) => params.set('sort', sort === 'lastActivity' ? undefined : sort)}
+                            options={SORTS.map(sort => ({ ...sort, label: `Sort: ${sort.label}` }))}
+                            className="w-[190px]"
+                        />
+                        <FilterSelect
+                            value={query.priority}
+                            onChange={(priority) => params.set('priority', priority)}
+                            options={PRIORITIES}
+                            anyLabel="All priorities"
+                        />
+                        <FilterSelect
+                            value={query.tag}
+                            onChange={(tag) => params.set('tag', tag)}
+                            options={tags.map(tag => ({ value: tag, label: tag }))}
+                            anyLabel="All tags"
+                        />
+                        <FilterSelect
+                            value={query.teamId}
+                            onChange={(teamId) => params.set('teamId', teamId)}
+                            options={teams.map(team => ({ value: team.id, label: team.name }))}
+                            anyLabel="All teams"
+                        />
+                        {hasFilters && (
+                            <Button variant="ghost" size="sm" onClick={() => params.clear(FILTER_KEYS)}>
+                                <X className="w-4 h-4 mr-1" />
+                                Clear filters
+                            </Button>
+                        )}
+                        {isFetching && !isLoading && <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />}
+                    </div>
+
+                    {isLoading ? (
+                        <div className="flex justify-center p-12">
+                            <Loader2 className="w-8 h-8 animate-spin text-muted-foreground" />
+                        </div>
+                    ) : threads.length > 0 ? (
+                        <div className="grid gap-4 md:grid-cols-2">
+                            {threads.map((thread: WorkThread) => (
+                                <WorkThreadCard
+                                    key={thread.id}
+                                    thread={thread}
+                                    onClick={() => navigate(`/thread/${thread.id}`)}
+                                    isHighlighted={thread.priority === 'high'}
+                                />
+                            ))}
+                        </div>
+                    ) : (
+                        <Card className="p-12 text-center text-muted-foreground">
+                            <Layers className="w-8 h-8 mx-auto mb-2 opacity-50" />
+                            <p>{hasFilters ? 'No threads match these filters' : 'No active threads yet'}</p>
+                        </Card>
+                    )}
+
+                    {data && (
+                        <ListPagination
+                            page={data.page}
+                            pageSize={data.pageSize}
+                            total={data.total}
+                            onPageChange={params.setPage}
+                            hrefForPage={params.hrefForPage}
+                        />
+                    )}
+                </div>
+            </main>
+        </div>
+    );
+}
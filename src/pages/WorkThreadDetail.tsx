@@ -5,22 +5,35 @@ import { WorkItemRow } from '@/components/WorkItemRow';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { Progress } from '@/components/ui/progress';
+import { Slider } from '@/components/ui/slider';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import { motion, AnimatePresence } from 'framer-motion';
 import {
   ArrowLeft,
-  Clock,
   Users,
+  Tag,
   Calendar,
   CheckCircle2,
   Circle,
-  MoreHorizontal,
+  Archive,
   Loader2,
   Sparkles,
   ArrowRight
 } from 'lucide-react';
 import { AddWorkItemDialog } from '@/components/AddWorkItemDialog';
-import { formatDistanceToNow, format } from 'date-fns';
+import { ThreadActionsMenu } from '@/components/ThreadActionsMenu';
+import { InlineEditableText } from '@/components/InlineEditableText';
+import { TagInput } from '@/components/TagInput';
+import { PeoplePicker } from '@/components/PeoplePicker';
+import { DeadlinePicker } from '@/components/DeadlinePicker';
+import { MoveToThreadDialog } from '@/components/MoveToThreadDialog';
+import { formatDistanceToNow } from 'date-fns';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { ThreadService, WorkItemService, IntelligenceService } from '@/services/api';
 import { WorkThread, WorkItem } from '@/lib/types';
@@ -44,23 +57,45 @@ export default function WorkThreadDetail() {
 
   const queryClient = useQueryClient();
 
+  // Edits land in the cache straight away and are rolled back if the server refuses them
   const updateThreadMutation = useMutation({
     mutationFn: (updates: Partial<WorkThread>) => {
       if (!threadId) throw new Error('No thread ID');
       return ThreadService.update(threadId, updates);
     },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['thread', threadId] });
-      queryClient.invalidateQueries({ queryKey: ['threads'] });
-      toast.success('Thread updated');
+    onMutate: async (updates) => {
+      await queryClient.cancelQueries({ queryKey: ['thread', threadId] });
+      const previous = queryClient.getQueryData<WorkThread>(['thread', threadId]);
+      if (previous) {
+        queryClient.setQueryData<WorkThread>(['thread', threadId], {
+          ...previous,
+          ...updates,
+          deadline: updates.deadline === null ? undefined : updates.deadline ?? previous.deadline,
+        });
+      }
+      return { previous };
     },
-    onError: () => {
+    onError: (_error, _updates, context) => {
+      if (context?.previous) {
+        queryClient.setQueryData(['thread', threadId], context.previous);
+      }
       toast.error('Failed to update thread');
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['thread', threadId] });
+      queryClient.invalidateQueries({ queryKey: ['threads'] });
     }
   });
 
+  const updateThread = (updates: Partial<WorkThread>) => {
+    updateThreadMutation.mutate(updates);
+  };
+
+  // Local value while the slider is being dragged, committed on release
+  const [progressDraft, setProgressDraft] = useState<number | null>(null);
+
   const markComplete = () => {
-    updateThreadMutation.mutate({ progress: 100 });
+    updateThread({ progress: 100 });
   };
 
   const { data: aiSummary, isLoading: summaryLoading, refetch: refetchSummary } = useQuery({
@@ -70,6 +105,7 @@ export default function WorkThreadDetail() {
   });
 
   const [showSummary, setShowSummary] = useState(false);
+  const [itemToMove, setItemToMove] = useState<WorkItem | null>(null);
 
   const handleAiCopilot = () => {
     setShowSummary(true);
@@ -102,13 +138,7 @@ export default function WorkThreadDetail() {
     );
   }
 
-  const getPriorityVariant = (priority: string) => {
-    switch (priority) {
-      case 'high': return 'high';
-      case 'medium': return 'medium';
-      default: return 'low';
-    }
-  };
+  const progress = progressDraft ?? thread.progress;
 
   return (
     <div className="min-h-screen bg-background">
@@ -135,42 +165,73 @@ export default function WorkThreadDetail() {
             className="mb-8"
           >
             <div className="flex items-start justify-between gap-4 mb-4">
-              <div>
+              <div className="flex-1 min-w-0">
                 <div className="flex items-center gap-2 mb-2">
-                  <Badge variant={getPriorityVariant(thread.priority)}>
-                    {thread.priority} priority
-                  </Badge>
-                  {thread.tags?.map((tag: string) => (
-                    <Badge key={tag} variant="source">{tag}</Badge>
-                  ))}
+                  <Select
+                    value={thread.priority}
+                    onValueChange={(priority: WorkThread['priority']) => updateThread({ priority })}
+                  >
+                    <SelectTrigger className="h-7 w-auto gap-2 text-xs capitalize">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="high">High priority</SelectItem>
+                      <SelectItem value="medium">Medium priority</SelectItem>
+                      <SelectItem value="low">Low priority</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  {thread.isArchived && (
+                    <Badge variant="outline">
+                      <Archive className="w-3 h-3 mr-1" />
+                      Archived
+                    </Badge>
+                  )}
                 </div>
-                <h1 className="text-display-sm text-foreground">{thread.title}</h1>
-                {thread.description && (
-                  <p className="text-lg text-muted-foreground mt-2">{thread.description}</p>
-                )}
+                <InlineEditableText
+                  value={thread.title}
+                  onSave={(title) => updateThread({ title })}
+                  required
+                  className="text-display-sm text-foreground"
+                />
+                <InlineEditableText
+                  value={thread.description || ''}
+                  onSave={(description) => updateThread({ description })}
+                  placeholder="Add a description"
+                  multiline
+                  className="text-lg text-muted-foreground mt-2"
+                />
               </div>
-              <Button variant="ghost" size="icon">
-                <MoreHorizontal className="w-5 h-5" />
-              </Button>
+              <ThreadActionsMenu thread={thread} onRemoved={() => navigate('/dashboard')} />
             </div>
 
             {/* Stats */}
             <div className="flex flex-wrap items-center gap-6 text-sm text-muted-foreground">
-              {thread.deadline && (
-                <div className="flex items-center gap-1.5">
-                  <Clock className="w-4 h-4" />
-                  <span>Due {format(new Date(thread.deadline), "PPP 'at' p")}</span>
-                </div>
-              )}
-              {thread.relatedPeople && thread.relatedPeople.length > 0 && (
-                <div className="flex items-center gap-1.5">
-                  <Users className="w-4 h-4" />
-                  <span>{thread.relatedPeople.join(', ')}</span>
-                </div>
-              )}
+              <DeadlinePicker
+                value={thread.deadline}
+                onChange={(deadline) => updateThread({ deadline })}
+                className="-ml-2"
+              />
               <div className="flex items-center gap-1.5">
                 <Calendar className="w-4 h-4" />
-                <span>Last activity {formatDistanceToNow(new Date(thread.lastActivity), { addSuffix: true })}</span>
+                <span>Last activity {formatDistanceToNow(thread.lastActivity, { addSuffix: true })}</span>
+              </div>
+            </div>
+
+            <div className="mt-4 space-y-2 text-sm">
+              <div className="flex items-start gap-2">
+                <Users className="w-4 h-4 mt-1 text-muted-foreground flex-shrink-0" />
+                <PeoplePicker
+                  people={thread.relatedPeople || []}
+                  onChange={(relatedPeople) => updateThread({ relatedPeople })}
+                />
+              </div>
+              <div className="flex items-start gap-2">
+                <Tag className="w-4 h-4 mt-1 text-muted-foreground flex-shrink-0" />
+                <TagInput
+                  tags={thread.tags || []}
+                  onChange={(tags) => updateThread({ tags })}
+                  className="min-h-[28px]"
+                />
               </div>
             </div>
           </motion.div>
@@ -185,9 +246,19 @@ export default function WorkThreadDetail() {
               <CardContent className="pt-6">
                 <div className="flex items-center justify-between mb-3">
                   <span className="text-sm font-medium">Progress</span>
-                  <span className="text-sm text-muted-foreground">{thread.progress}% complete</span>
+                  <span className="text-sm text-muted-foreground">{progress}% complete</span>
                 </div>
-                <Progress value={thread.progress} className="h-2" />
+                <Slider
+                  value={[progress]}
+                  max={100}
+                  step={5}
+                  onValueChange={([value]) => setProgressDraft(value)}
+                  onValueCommit={([value]) => {
+                    setProgressDraft(null);
+                    if (value !== thread.progress) updateThread({ progress: value });
+                  }}
+                  aria-label="Thread progress"
+                />
               </CardContent>
             </Card>
           </motion.div>
@@ -265,7 +336,7 @@ export default function WorkThreadDetail() {
                     <div className="flex justify-center p-4"><Loader2 className="animate-spin text-muted-foreground" /></div>
                   ) : threadItems.length > 0 ? (
                     threadItems.map((item: WorkItem) => (
-                      <WorkItemRow key={item.id} item={item} />
+                      <WorkItemRow key={item.id} item={item} onMoveToThread={() => setItemToMove(item)} />
                     ))
                   ) : (
                     <div className="text-center py-8 text-muted-foreground">
@@ -305,6 +376,12 @@ export default function WorkThreadDetail() {
           </motion.div>
         </div>
       </main>
+
+      <MoveToThreadDialog
+        open={!!itemToMove}
+        onOpenChange={(open) => !open && setItemToMove(null)}
+        items={itemToMove ? [itemToMove] : []}
+      />
     </div>
   );
 }
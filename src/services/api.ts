@@ -1,7 +1,54 @@
-import axios from 'axios';
-import { User, WorkThread, WorkItem, WorkInsight, PriorityRecommendation, DailyStats, CognitiveLoadState, Team } from '@/lib/types';
+import axios, { AxiosError, AxiosResponse } from 'axios';
+import { z } from 'zod';
+import { User, UserPreferences, WorkThread, WorkItem, ChatActionOutcome, ChatMessageInput, ChatStreamEvent, ThreadQuery, ItemQuery, Meeting, MeetingDetails, MeetingException, MeetingFollowUp, MeetingQuery, NotionCredentials, NotionMapping, IntegrationId, IntegrationCredentials, FocusSessionInput, FocusSessionQuery } from '@/lib/types';
+import {
+    ackSchema,
+    chatActionRecordSchema,
+    chatConversationSchema,
+    chatConversationSummarySchema,
+    chatStreamEventSchema,
+    cognitiveLoadSchema,
+    dailyStatsSchema,
+    focusSessionSchema,
+    invitationSchema,
+    calendarFeedSchema,
+    calendarFileSchema,
+    calendarImportResultSchema,
+    meetingCreatedSchema,
+    meetingFollowUpResultSchema,
+    meetingSchema,
+    memberAvailabilitySchema,
+    notionSourceSchema,
+    integrationStatusSchema,
+    syncResultSchema,
+    notionSyncResultSchema,
+    pageSchema,
+    priorityRecommendationSchema,
+    teamInviteLinkSchema,
+    teamSchema,
+    threadSummarySchema,
+    userSchema,
+    tokenRefreshSchema,
+    workInsightSchema,
+    workItemSchema,
+    workThreadSchema,
+} from '@/lib/schemas';
+import { serverSentEvents } from '@/lib/sse';
 
-const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:5000/api';
+export const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:5000/api';
+
+export const USE_MOCK_API = import.meta.env.VITE_USE_MOCK_API === 'true';
+
+export const AUTH_TOKEN_KEY = 'auth_token';
+export const REFRESH_TOKEN_KEY = 'refresh_token';
+
+declare module 'axios' {
+    interface AxiosRequestConfig {
+        // Let a 401 through untouched, e.g. a failed login or the refresh call itself
+        skipAuthRefresh?: boolean;
+        _retried?: boolean;
+    }
+}
 
 const api = axios.create({
     baseURL: API_URL,
@@ -11,105 +58,310 @@ const api = axios.create({
     },
 });
 
+// Offline demo mode: answer every request from an in-browser database.
+// Loaded lazily so the mock backend stays out of the production bundle.
+if (USE_MOCK_API) {
+    api.defaults.adapter = async (config) => {
+        const { mockAdapter } = await import('./mock');
+        return mockAdapter(config);
+    };
+}
+
+interface AuthHandlers {
+    onTokenRefreshed?: (token: string) => void;
+    onSessionExpired?: () => void;
+}
+
+let authHandlers: AuthHandlers = {};
+
+// AuthProvider registers these so the interceptors can keep React state in sync
+export const setAuthHandlers = (handlers: AuthHandlers) => {
+    authHandlers = handlers;
+};
+
+// Shared by every request that fails while a refresh is in flight, so the
+// refresh token is only ever exchanged once at a time.
+let refreshPromise: Promise<string> | null = null;
+
+const refreshAccessToken = () => {
+    refreshPromise ??= (async () => {
+        const refreshToken = localStorage.getItem(REFRESH_TOKEN_KEY);
+        if (!refreshToken) throw new Error('No refresh token');
+
+        const response = await api.post('/users/refresh-token', { refreshToken }, { skipAuthRefresh: true });
+        const { token, refreshToken: nextRefreshToken } = unwrap(response, tokenRefreshSchema);
+
+        localStorage.setItem(AUTH_TOKEN_KEY, token);
+        if (nextRefreshToken) localStorage.setItem(REFRESH_TOKEN_KEY, nextRefreshToken);
+        authHandlers.onTokenRefreshed?.(token);
+        return token;
+    })().finally(() => {
+        refreshPromise = null;
+    });
+    return refreshPromise;
+};
+
+// A failed refresh ends the session, once, however many callers were waiting on it
+const renewAccessToken = async () => {
+    try {
+        return await refreshAccessToken();
+    } catch (error) {
+        if (localStorage.getItem(AUTH_TOKEN_KEY)) {
+            authHandlers.onSessionExpired?.();
+        }
+        throw error;
+    }
+};
+
+// Reads the exp claim without verifying anything. Tokens that are not JWTs
+// (or carry no exp) are treated as still valid and left to the server.
+export function isTokenExpired(token: string) {
+    try {
+        const payload = JSON.parse(atob(token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/')));
+        return typeof payload.exp === 'number' && payload.exp * 1000 <= Date.now();
+    } catch {
+        return false;
+    }
+}
+
+// The access token for connections axios does not make, like the realtime
+// socket: refreshed first when it has run out, or when `rejected` says the
+// server turned it down. Null once the session is over.
+export const currentAccessToken = async (rejected = false) => {
+    if (refreshPromise) await refreshPromise.catch(() => undefined);
+    const token = localStorage.getItem(AUTH_TOKEN_KEY);
+    if (!token || (!rejected && !isTokenExpired(token))) return token;
+    return renewAccessToken().catch(() => null);
+};
+
 // Add auth token to requests
 api.interceptors.request.use(async (config) => {
-    const token = localStorage.getItem('auth_token');
+    // Hold new requests until a running refresh settles instead of sending a stale token
+    if (refreshPromise && !config.skipAuthRefresh) {
+        await refreshPromise.catch(() => undefined);
+    }
+    const token = localStorage.getItem(AUTH_TOKEN_KEY);
     if (token) {
         config.headers.Authorization = `Bearer ${token}`;
     }
     return config;
 });
 
+// On 401, exchange the refresh token and replay the request once. If that
+// fails too the session is over.
+api.interceptors.response.use(undefined, async (error: AxiosError) => {
+    const config = error.config;
+    if (
+        error.response?.status !== 401 ||
+        !config ||
+        config.skipAuthRefresh ||
+        config._retried ||
+        !localStorage.getItem(AUTH_TOKEN_KEY)
+    ) {
+        throw error;
+    }
+
+    config._retried = true;
+    let token: string;
+    try {
+        token = await renewAccessToken();
+    } catch {
+        throw error;
+    }
+
+    config.headers.Authorization = `Bearer ${token}`;
+    return api(config);
+});
+
+// Raised when a response does not match the shape the client expects,
+// i.e. the backend has drifted from src/lib/types.ts.
+export class ApiError extends Error {
+    readonly endpoint: string;
+    readonly issues: z.ZodIssue[];
+
+    constructor(endpoint: string, issues: z.ZodIssue[]) {
+        const detail = issues
+            .slice(0, 3)
+            .map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+            .join('; ');
+        super(`Unexpected response from ${endpoint}: ${detail}`);
+        this.name = 'ApiError';
+        this.endpoint = endpoint;
+        this.issues = issues;
+    }
+}
+
+const parse = <T>(response: AxiosResponse, schema: z.ZodType<T, z.ZodTypeDef, unknown>, payload: unknown): T => {
+    const result = schema.safeParse(payload);
+    if (!result.success) {
+        const endpoint = `${response.config.method?.toUpperCase()} ${response.config.url}`;
+        throw new ApiError(endpoint, result.error.issues);
+    }
+    return result.data;
+};
+
+// Most endpoints wrap their payload as { success, data }
+const unwrap = <T>(response: AxiosResponse, schema: z.ZodType<T, z.ZodTypeDef, unknown>): T =>
+    parse(response, schema, response.data?.data);
+
+const ack = (response: AxiosResponse) => parse(response, ackSchema, response.data);
+
 export const UserService = {
     create: async (user: User) => {
         const response = await api.post('/users', user);
-        return response.data.data;
+        return unwrap(response, userSchema);
     },
     get: async (id: string) => {
         const response = await api.get(`/users/${id}`);
-        return response.data.data;
+        return unwrap(response, userSchema);
     },
-    updatePreferences: async (id: string, preferences: any) => {
+    updatePreferences: async (id: string, preferences: Partial<UserPreferences>) => {
         const response = await api.put(`/users/${id}/preferences`, preferences);
-        return response.data;
+        return ack(response);
     },
     forgotPassword: async (email: string) => {
         const response = await api.post('/users/forgot-password', { email });
-        return response.data;
+        return ack(response);
     },
-    resetPassword: async (token: string, password: any) => {
+    resetPassword: async (token: string, password: string) => {
         const response = await api.post('/users/reset-password', { token, password });
-        return response.data;
+        return ack(response);
     },
     verifyEmail: async (token: string) => {
         const response = await api.post('/users/verify-email', { token });
-        return response.data;
+        return ack(response);
     }
 };
 
 export const ThreadService = {
     getUserThreads: async (userId: string) => {
         const response = await api.get(`/threads/user/${userId}`);
-        return response.data.data;
+        return unwrap(response, z.array(workThreadSchema));
     },
     getActiveThreads: async (userId: string) => {
         const response = await api.get(`/threads/user/${userId}/active`);
-        return response.data.data;
+        return unwrap(response, z.array(workThreadSchema));
     },
     getUpcomingDeadlines: async (userId: string) => {
         const response = await api.get(`/threads/user/${userId}/upcoming-deadlines`);
-        return response.data.data;
+        return unwrap(response, z.array(workThreadSchema));
     },
     create: async (thread: Partial<WorkThread>) => {
         const response = await api.post('/threads', thread);
-        return response.data.data;
+        return unwrap(response, workThreadSchema);
     },
     update: async (id: string, updates: Partial<WorkThread>) => {
         const response = await api.put(`/threads/${id}`, updates);
-        return response.data;
+        return ack(response);
     },
     get: async (id: string) => {
         const response = await api.get(`/threads/${id}`);
-        return response.data.data;
+        return unwrap(response, workThreadSchema);
     },
     getTeamThreads: async (teamId: string) => {
         const response = await api.get(`/threads/team/${teamId}`);
-        return response.data.data;
+        return unwrap(response, z.array(workThreadSchema));
+    },
+    // Sorted, filtered and paginated on the server
+    queryUserThreads: async (userId: string, query: ThreadQuery) => {
+        const response = await api.get(`/threads/user/${userId}/paged`, { params: query });
+        return unwrap(response, pageSchema(workThreadSchema));
+    },
+    getArchivedThreads: async (userId: string) => {
+        const response = await api.get(`/threads/user/${userId}/archived`);
+        return unwrap(response, z.array(workThreadSchema));
+    },
+    archive: async (id: string) => {
+        const response = await api.put(`/threads/${id}`, { isArchived: true, archivedAt: new Date() });
+        return ack(response);
+    },
+    unarchive: async (id: string) => {
+        const response = await api.put(`/threads/${id}`, { isArchived: false, archivedAt: null });
+        return ack(response);
+    },
+    // Deletes are soft until the server purges them, so they can be undone
+    delete: async (id: string) => {
+        const response = await api.delete(`/threads/${id}`);
+        return ack(response);
+    },
+    restore: async (id: string) => {
+        const response = await api.post(`/threads/${id}/restore`);
+        return unwrap(response, workThreadSchema);
+    },
+    // Copies the thread's shape (description, priority, tags, people) but none
+    // of its items, progress or deadline.
+    duplicateAsTemplate: async (thread: WorkThread) => {
+        return ThreadService.create({
+            title: `${thread.title} (template)`,
+            description: thread.description,
+            priority: thread.priority,
+            tags: thread.tags ?? [],
+            relatedPeople: thread.relatedPeople ?? [],
+            teamId: thread.teamId,
+            progress: 0,
+            itemIds: [],
+        });
+    },
+    // Folds `sourceId` into `targetId`: items, people and tags are combined and
+    // the source thread is deleted.
+    merge: async (targetId: string, sourceId: string) => {
+        const response = await api.post(`/threads/${targetId}/merge`, { sourceThreadId: sourceId });
+        return unwrap(response, workThreadSchema);
     }
 };
 
 export const WorkItemService = {
     getUserItems: async (userId: string) => {
         const response = await api.get(`/items/user/${userId}`);
-        return response.data.data;
+        return unwrap(response, z.array(workItemSchema));
     },
     createItem: async (item: Partial<WorkItem>) => {
         const response = await api.post('/items', item);
-        return response.data.data;
+        return unwrap(response, workItemSchema);
+    },
+    queryUserItems: async (userId: string, query: ItemQuery) => {
+        const response = await api.get(`/items/user/${userId}/paged`, { params: query });
+        return unwrap(response, pageSchema(workItemSchema));
     },
     getUnreadItems: async (userId: string) => {
         const response = await api.get(`/items/user/${userId}/unread`);
-        return response.data.data;
+        return unwrap(response, z.array(workItemSchema));
     },
     getThreadItems: async (threadId: string) => {
         const response = await api.get(`/items/thread/${threadId}`);
-        return response.data.data;
+        return unwrap(response, z.array(workItemSchema));
     },
     getTeamItems: async (teamId: string) => {
         const response = await api.get(`/items/team/${teamId}`);
-        return response.data.data;
+        return unwrap(response, z.array(workItemSchema));
     },
     markAsRead: async (id: string) => {
         const response = await api.put(`/items/${id}/read`);
-        return response.data;
+        return ack(response);
     },
     deleteItem: async (id: string) => {
         const response = await api.delete(`/items/${id}`);
-        return response.data;
+        return ack(response);
     },
     updateItem: async (id: string, updates: Partial<WorkItem>) => {
         const response = await api.put(`/items/${id}`, updates);
-        return response.data;
+        return ack(response);
+    },
+    // Applies the same updates to every item in one request
+    batchUpdate: async (ids: string[], updates: Partial<WorkItem>) => {
+        const response = await api.patch('/items/batch', { ids, updates });
+        return unwrap(response, z.array(workItemSchema));
+    },
+    batchDelete: async (ids: string[]) => {
+        const response = await api.post('/items/batch/delete', { ids });
+        return ack(response);
+    },
+    // Reassigns items in one batch; the server keeps itemIds on the old and
+    // new threads in step
+    moveToThread: async (items: WorkItem[], threadId: string) => {
+        const moving = items.filter(item => item.threadId !== threadId);
+        if (moving.length === 0) return [];
+        return WorkItemService.batchUpdate(moving.map(item => item.id), { threadId });
     }
 };
 
@@ -118,37 +370,98 @@ export const IntelligenceService = {
         // Trigger generation first, then fetch (or just fetch active)
         await api.post(`/intelligence/insights/${userId}/generate`);
         const response = await api.get(`/intelligence/insights/${userId}`);
-        return response.data.data;
+        return unwrap(response, z.array(workInsightSchema));
     },
     getRecommendations: async (userId: string) => {
         await api.post(`/intelligence/recommendations/${userId}/generate`);
         const response = await api.get(`/intelligence/recommendations/${userId}`);
-        return response.data.data;
+        return unwrap(response, z.array(priorityRecommendationSchema));
     },
     getCognitiveLoad: async (userId: string) => {
         await api.post(`/intelligence/cognitive-load/${userId}/calculate`);
         const response = await api.get(`/intelligence/cognitive-load/${userId}`);
-        return response.data.data;
+        return unwrap(response, cognitiveLoadSchema.nullable());
     },
     getDailyStats: async (userId: string) => {
         const response = await api.get(`/intelligence/stats/${userId}`);
-        return response.data.data;
+        return unwrap(response, z.array(dailyStatsSchema));
     },
     dismissInsight: async (id: string) => {
         const response = await api.put(`/intelligence/insights/${id}/dismiss`);
-        return response.data;
-    },
-    recordFocusSession: async (userId: string, durationMinutes: number, tasksCompleted: number) => {
-        const response = await api.post(`/intelligence/focus-session/${userId}`, { durationMinutes, tasksCompleted });
-        return response.data;
+        return ack(response);
     },
     getThreadSummary: async (threadId: string) => {
         const response = await api.get(`/intelligence/thread-summary/${threadId}`);
-        return response.data.data;
-    },
-    chat: async (userId: string, message: string, history: any[]) => {
-        const response = await api.post(`/intelligence/chat/${userId}`, { message, history });
-        return response.data.data;
+        return unwrap(response, threadSummarySchema);
+    }
+};
+
+export const ChatService = {
+    // Newest first, without their messages
+    listConversations: async () => {
+        const response = await api.get('/chat/conversations');
+        return unwrap(response, z.array(chatConversationSummarySchema));
+    },
+    getConversation: async (id: string) => {
+        const response = await api.get(`/chat/conversations/${id}`);
+        return unwrap(response, chatConversationSchema);
+    },
+    deleteConversation: async (id: string) => {
+        const response = await api.delete(`/chat/conversations/${id}`);
+        return ack(response);
+    },
+    // The reply streams back as server-sent events, each handed to `onEvent`
+    // as it arrives. Aborting `signal` stops the reply where it is; the
+    // server keeps what was written so far. Goes through fetch, which unlike
+    // XHR can read a body before it is complete, so the auth interceptors
+    // still apply.
+    send: async (message: ChatMessageInput, onEvent: (event: ChatStreamEvent) => void, signal?: AbortSignal) => {
+        const response = await api.post('/chat/messages', message, {
+            adapter: USE_MOCK_API ? api.defaults.adapter : 'fetch',
+            responseType: 'stream',
+            headers: { Accept: 'text/event-stream' },
+            timeout: 0,
+            signal,
+        });
+        for await (const data of serverSentEvents(response.data as ReadableStream<Uint8Array>)) {
+            let payload: unknown;
+            try {
+                payload = JSON.parse(data);
+            } catch {
+                continue;
+            }
+            const event = chatStreamEventSchema.safeParse(payload);
+            if (event.success) onEvent(event.data);
+        }
+    },
+    // Claims a proposed action with `executing` before carrying it out, then
+    // reports how it went; each adds to the audit trail. A claim the server
+    // turns down with 409 was taken by another tab or already settled.
+    recordAction: async (outcome: ChatActionOutcome) => {
+        const response = await api.post('/chat/actions', outcome);
+        return unwrap(response, chatActionRecordSchema);
+    },
+    // Newest first, across conversations unless one is given
+    listActions: async (conversationId?: string) => {
+        const response = await api.get('/chat/actions', { params: { conversationId } });
+        return unwrap(response, z.array(chatActionRecordSchema));
+    }
+};
+
+export const FocusService = {
+    // Newest first; `from` and `to` bound when the sessions started
+    list: async (query: FocusSessionQuery = {}) => {
+        const response = await api.get('/focus/sessions', {
+            params: {
+                from: query.from?.toISOString(),
+                to: query.to?.toISOString(),
+            }
+        });
+        return unwrap(response, z.array(focusSessionSchema));
+    },
+    record: async (session: FocusSessionInput) => {
+        const response = await api.post('/focus/sessions', session);
+        return unwrap(response, focusSessionSchema);
     }
 };
 
@@ -157,66 +470,195 @@ export const IntelligenceService = {
 export const TeamService = {
     create: async (name: string, description?: string) => {
         const response = await api.post('/teams', { name, description });
-        return response.data.data;
+        return unwrap(response, teamSchema);
     },
     getMyTeams: async () => {
         const response = await api.get('/teams');
-        return response.data.data as Team[];
+        return unwrap(response, z.array(teamSchema));
     },
     get: async (id: string) => {
         const response = await api.get(`/teams/${id}`);
-        return response.data.data as Team;
+        return unwrap(response, teamSchema);
     },
     invite: async (teamId: string, email: string) => {
         const response = await api.post(`/teams/${teamId}/invite`, { email });
-        return response.data.data; // contains id, token, link
+        return unwrap(response, teamInviteLinkSchema);
     },
     join: async (token: string) => {
         const response = await api.post('/teams/join', { token });
-        return response.data.data as Team;
+        return unwrap(response, teamSchema);
     },
     removeMember: async (teamId: string, memberId: string) => {
         const response = await api.delete(`/teams/${teamId}/members/${memberId}`);
-        return response.data.data as Team;
+        return unwrap(response, teamSchema);
     },
     getInvitations: async (teamId: string) => {
         const response = await api.get(`/teams/${teamId}/invitations`);
-        return response.data.data;
+        return unwrap(response, z.array(invitationSchema));
     },
     updateMemberRole: async (teamId: string, memberId: string, role: 'admin' | 'member') => {
         const response = await api.patch(`/teams/${teamId}/members/${memberId}/role`, { role });
-        return response.data.data as Team;
+        return unwrap(response, teamSchema);
+    },
+    // Working hours and busy blocks for every member between `from` and `to`
+    getAvailability: async (teamId: string, from: Date, to: Date) => {
+        const response = await api.get(`/teams/${teamId}/availability`, {
+            params: { from: from.toISOString(), to: to.toISOString() }
+        });
+        return unwrap(response, z.array(memberAvailabilitySchema));
+    }
+};
+
+export const MeetingService = {
+    list: async (query: MeetingQuery = {}) => {
+        const response = await api.get('/meetings', {
+            params: {
+                from: query.from?.toISOString(),
+                to: query.to?.toISOString(),
+                status: query.status,
+            }
+        });
+        return unwrap(response, z.array(meetingSchema));
+    },
+    get: async (id: string) => {
+        const response = await api.get(`/meetings/${id}`);
+        return unwrap(response, meetingSchema);
+    },
+    // Meetings that live in Google Calendar or Teams are changed through that
+    // integration so attendees get the updated invitation; the backend keeps
+    // its own record in step and sends it back.
+    update: async (meeting: Meeting, updates: Partial<MeetingDetails>) => {
+        if (!meeting.eventId) {
+            const response = await api.put(`/meetings/${meeting.id}`, updates);
+            return unwrap(response, meetingSchema);
+        }
+        const result = meeting.platform === 'google'
+            ? await IntegrationService.updateGoogleMeeting(meeting.eventId, updates)
+            : await IntegrationService.updateTeamsMeeting(meeting.eventId, updates);
+        return result.meeting ?? MeetingService.get(meeting.id);
+    },
+    cancel: async (meeting: Meeting) => {
+        if (!meeting.eventId) {
+            const response = await api.post(`/meetings/${meeting.id}/cancel`);
+            return unwrap(response, meetingSchema);
+        }
+        const result = meeting.platform === 'google'
+            ? await IntegrationService.cancelGoogleMeeting(meeting.eventId)
+            : await IntegrationService.cancelTeamsMeeting(meeting.eventId);
+        return result.meeting ?? MeetingService.get(meeting.id);
+    },
+    reschedule: async (meeting: Meeting, startTime: Date, endTime: Date) => {
+        if (!meeting.eventId) {
+            const response = await api.post(`/meetings/${meeting.id}/reschedule`, { startTime, endTime });
+            return unwrap(response, meetingSchema);
+        }
+        return MeetingService.update(meeting, {
+            startTime: startTime.toISOString(),
+            endTime: endTime.toISOString(),
+        });
+    },
+    // Skips or moves one occurrence of a recurring meeting. The backend passes
+    // it on to the provider as a change to that single instance.
+    updateOccurrence: async (id: string, exception: MeetingException) => {
+        const response = await api.post(`/meetings/${id}/exceptions`, exception);
+        return unwrap(response, meetingSchema);
+    },
+    // Stores the notes and turns each action item into a task in the meeting's thread
+    recordFollowUp: async (id: string, followUp: MeetingFollowUp) => {
+        const response = await api.post(`/meetings/${id}/follow-up`, followUp);
+        return unwrap(response, meetingFollowUpResultSchema);
     }
 };
 
 export const IntegrationService = {
-    syncGoogle: async (accessToken: string) => {
-        const response = await api.post('/integrations/google/sync', { accessToken });
-        return response.data;
-    },
-    syncNotion: async (apiKey: string) => {
-        const response = await api.post('/integrations/notion/sync', { apiKey });
-        return response.data;
-    },
-    createGoogleMeeting: async (meetingData: {
-        title: string;
-        description: string;
-        startTime: string;
-        endTime: string;
-        attendees: string[];
-    }) => {
+    // Google, Microsoft 365, Slack, Linear and GitHub, connected or not, with
+    // their recent sync runs
+    getIntegrations: async () => {
+        const response = await api.get('/integrations');
+        return unwrap(response, z.array(integrationStatusSchema));
+    },
+    // Runs the first sync; after that the backend syncs on a schedule. Google
+    // and Microsoft take an OAuth auth code, the others an API token.
+    connectIntegration: async (id: IntegrationId, credentials: IntegrationCredentials) => {
+        const response = await api.post(`/integrations/${id}/connect`, credentials);
+        return unwrap(response, syncResultSchema);
+    },
+    // Picks up from the last run unless `full`, which resyncs from scratch
+    syncIntegration: async (id: IntegrationId, options: { full?: boolean } = {}) => {
+        const response = await api.post(`/integrations/${id}/sync`, options);
+        return unwrap(response, syncResultSchema);
+    },
+    disconnectIntegration: async (id: IntegrationId) => {
+        const response = await api.delete(`/integrations/${id}`);
+        return unwrap(response, integrationStatusSchema);
+    },
+    // Returns the user with the connection filled in
+    connectNotion: async (credentials: NotionCredentials) => {
+        const response = await api.post('/integrations/notion/connect', credentials);
+        return unwrap(response, userSchema);
+    },
+    disconnectNotion: async () => {
+        const response = await api.delete('/integrations/notion');
+        return unwrap(response, userSchema);
+    },
+    // Databases and pages the integration has been shared with
+    getNotionSources: async () => {
+        const response = await api.get('/integrations/notion/sources');
+        return unwrap(response, z.array(notionSourceSchema));
+    },
+    // Imports exactly these sources, replacing the saved selection. Without
+    // mappings it repeats the last import.
+    syncNotion: async (mappings?: NotionMapping[]) => {
+        const response = await api.post('/integrations/notion/sync', { mappings });
+        return unwrap(response, notionSyncResultSchema);
+    },
+    createGoogleMeeting: async (meetingData: MeetingDetails) => {
         const response = await api.post('/integrations/google/calendar/create', meetingData);
-        return response.data;
-    },
-    createTeamsMeeting: async (meetingData: {
-        title: string;
-        description: string;
-        startTime: string;
-        endTime: string;
-        attendees: string[];
-    }) => {
+        // Links may sit on the envelope itself or inside `data`
+        return parse(response, meetingCreatedSchema, { ...response.data, ...response.data?.data });
+    },
+    createTeamsMeeting: async (meetingData: MeetingDetails) => {
         const response = await api.post('/integrations/microsoft/teams/create', meetingData);
-        return response.data;
+        return parse(response, meetingCreatedSchema, { ...response.data, ...response.data?.data });
+    },
+    // Updates and cancellations are sent to every attendee by the provider.
+    // The response carries the event's current links so the stored meeting
+    // never points at a stale join URL.
+    updateGoogleMeeting: async (eventId: string, meetingData: Partial<MeetingDetails>) => {
+        const response = await api.put(`/integrations/google/calendar/${eventId}`, meetingData);
+        return parse(response, meetingCreatedSchema, { ...response.data, ...response.data?.data });
+    },
+    cancelGoogleMeeting: async (eventId: string) => {
+        const response = await api.delete(`/integrations/google/calendar/${eventId}`);
+        return parse(response, meetingCreatedSchema, { ...response.data, ...response.data?.data });
+    },
+    updateTeamsMeeting: async (eventId: string, meetingData: Partial<MeetingDetails>) => {
+        const response = await api.put(`/integrations/microsoft/teams/${eventId}`, meetingData);
+        return parse(response, meetingCreatedSchema, { ...response.data, ...response.data?.data });
+    },
+    cancelTeamsMeeting: async (eventId: string) => {
+        const response = await api.delete(`/integrations/microsoft/teams/${eventId}`);
+        return parse(response, meetingCreatedSchema, { ...response.data, ...response.data?.data });
+    },
+    // iCalendar works with any calendar app, no account to connect.
+    // Exports hold every meeting that isn't cancelled plus thread deadlines.
+    exportCalendar: async () => {
+        const response = await api.get('/integrations/ics/export');
+        return unwrap(response, calendarFileSchema);
+    },
+    // Events become calendar items; importing the same file again updates them
+    importCalendar: async (calendar: string) => {
+        const response = await api.post('/integrations/ics/import', { calendar });
+        return unwrap(response, calendarImportResultSchema);
+    },
+    getCalendarFeed: async () => {
+        const response = await api.get('/integrations/ics/feed');
+        return unwrap(response, calendarFeedSchema);
+    },
+    // The old URL stops working, e.g. after it was shared by mistake
+    resetCalendarFeed: async () => {
+        const response = await api.post('/integrations/ics/feed/reset');
+        return unwrap(response, calendarFeedSchema);
     }
 };
 
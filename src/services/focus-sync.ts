@@ -0,0 +1,98 @@
+import { FocusState, isPaused, loadFocusState, saveFocusState } from '@/lib/focus';
+
+const CHANNEL_NAME = 'monocle_focus';
+const TICK_MS = 1000;
+
+interface FocusSyncHandlers {
+    // Another tab changed the timer
+    onState: (state: FocusState) => void;
+    onTick: () => void;
+    // Only the leader moves the timer on when a phase runs out, so recording
+    // and notifying happen once however many tabs are open
+    onLeaderChange: (isLeader: boolean) => void;
+}
+
+type FocusMessage = { type: 'state'; state: FocusState };
+
+// Keeps the focus timer the same in every tab the user has open. Changes go
+// to localStorage for the next page load and over a BroadcastChannel to the
+// tabs open now; a Web Lock per user picks the tab in charge, and the next
+// one takes over when it closes.
+export class FocusSync {
+    private channel: BroadcastChannel | null = null;
+    private ticker: Worker | null = null;
+    private fallbackTimer: ReturnType<typeof setInterval> | null = null;
+    private ticking = false;
+    private abortLeadership = new AbortController();
+    private releaseLeadership: (() => void) | null = null;
+    state: FocusState;
+
+    constructor(private userId: string, private handlers: FocusSyncHandlers) {
+        this.state = loadFocusState(userId);
+
+        if ('BroadcastChannel' in window) {
+            this.channel = new BroadcastChannel(CHANNEL_NAME);
+            this.channel.onmessage = ({ data }: MessageEvent<FocusMessage>) => {
+                if (data.type !== 'state' || data.state.userId !== this.userId) return;
+                this.state = data.state;
+                this.retick();
+                this.handlers.onState(data.state);
+            };
+        }
+
+        try {
+            this.ticker = new Worker(new URL('./focus-ticker.worker.ts', import.meta.url), { type: 'module' });
+            this.ticker.onmessage = () => this.handlers.onTick();
+        } catch {
+            this.ticker = null; // Falls back to page timers below
+        }
+        this.retick();
+
+        if ('locks' in navigator) {
+            navigator.locks.request(`${CHANNEL_NAME}:${userId}`, { signal: this.abortLeadership.signal }, () => {
+                this.handlers.onLeaderChange(true);
+                return new Promise<void>(resolve => {
+                    this.releaseLeadership = resolve;
+                });
+            }).catch(() => {
+                // Aborted when the tab signs out before it got the lock
+            });
+        } else {
+            // Without Web Locks there is no telling tabs apart; each one leads,
+            // and the session ids derived from the run keep it recorded once
+            queueMicrotask(() => this.handlers.onLeaderChange(true));
+        }
+    }
+
+    update(state: FocusState) {
+        this.state = state;
+        saveFocusState(state);
+        const message: FocusMessage = { type: 'state', state };
+        this.channel?.postMessage(message);
+        this.retick();
+    }
+
+    close() {
+        this.abortLeadership.abort();
+        this.releaseLeadership?.();
+        this.channel?.close();
+        this.ticker?.terminate();
+        if (this.fallbackTimer) clearInterval(this.fallbackTimer);
+    }
+
+    // Ticks only while the clock is running; paused and idle timers need none
+    private retick() {
+        const ticking = !!this.state.run && !isPaused(this.state.run);
+        if (ticking === this.ticking) return;
+        this.ticking = ticking;
+
+        if (this.ticker) {
+            this.ticker.postMessage({ ticking });
+        } else if (ticking) {
+            this.fallbackTimer = setInterval(this.handlers.onTick, TICK_MS);
+        } else if (this.fallbackTimer) {
+            clearInterval(this.fallbackTimer);
+            this.fallbackTimer = null;
+        }
+    }
+}
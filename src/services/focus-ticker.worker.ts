@@ -0,0 +1,9 @@
+// Ticks for the focus timer from a worker, where background tabs do not
+// slow timers down the way they do on the page. The page sends whether the
+// clock is running; every tick is an empty message, the time is read there.
+let interval: ReturnType<typeof setInterval> | null = null;
+
+self.addEventListener('message', (event: MessageEvent<{ ticking: boolean }>) => {
+    if (interval) clearInterval(interval);
+    interval = event.data.ticking ? setInterval(() => self.postMessage(null), 1000) : null;
+});
@@ -0,0 +1,326 @@
+import { addDays, addMinutes, addWeeks, format, nextDay, setHours, startOfDay, type Day } from 'date-fns';
+import {
+    ChatAction,
+    ChatActionOutcome,
+    ChatActionRecord,
+    ChatContext,
+    ChatConversation,
+    ChatMessage,
+    ChatProposedAction,
+    ChatStreamEvent,
+    WorkThread,
+} from '@/lib/types';
+import { getDb, saveDb, newId } from './db';
+import { route, requireUser, notFound, text, MockHttpError } from './router';
+import { liveThreads } from './threads';
+import { findTeam } from './teams';
+import { summarizeThread } from './intelligence';
+
+// Roughly how fast a model writes, so Stop has something to interrupt
+const TOKEN_DELAY_MS = 40;
+const TITLE_LENGTH = 60;
+const MEETING_MINUTES = 30;
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+const summaryOf = ({ messages: _messages, ...summary }: ChatConversation) => summary;
+
+// Other people's conversations are reported as missing rather than forbidden
+const findConversation = (userId: string, id: string) => {
+    const conversation = getDb().chatConversations.find(c => c.id === id && c.userId === userId);
+    if (!conversation) throw notFound('Conversation');
+    return conversation;
+};
+
+const contextOf = (value: unknown): ChatContext | undefined => {
+    const { type, id } = (value ?? {}) as Partial<ChatContext>;
+    return (type === 'thread' || type === 'team') && typeof id === 'string' ? { type, id } : undefined;
+};
+
+const contextLines = (userId: string, context?: ChatContext) => {
+    if (context?.type === 'thread') {
+        const thread = liveThreads().find(t => t.id === context.id);
+        if (!thread) return [];
+        const { summary, nextSteps } = summarizeThread(thread.id);
+        return [
+            `Looking at **${thread.title}**: ${summary}`,
+            ``,
+            `Next steps I'd suggest:`,
+            ...nextSteps.map(step => `- ${step}`),
+        ];
+    }
+    if (context?.type === 'team') {
+        const team = findTeam(context.id);
+        if (!team.members.some(m => m.userId === userId)) return [];
+        const open = liveThreads().filter(t => t.teamId === team.id && !t.isArchived && t.progress < 100);
+        return [
+            `Looking at **${team.name}**: ${team.members.length} members and ${open.length} open team threads.`,
+        ];
+    }
+    return [];
+};
+
+// The day a message talks about, at 9am: "tomorrow", "next week", "in 3 days",
+// "on friday" or an ISO date
+const whenIn = (content: string): Date | undefined => {
+    const text = content.toLowerCase();
+    const today = startOfDay(new Date());
+    const iso = text.match(/\b(\d{4}-\d{2}-\d{2})\b/);
+    const inDays = text.match(/\bin (\d+) (day|week)s?\b/);
+    const weekday = WEEKDAYS.findIndex(day => text.includes(day));
+    let day: Date | undefined;
+    if (iso) day = startOfDay(new Date(`${iso[1]}T00:00:00`));
+    else if (inDays) day = inDays[2] === 'week' ? addWeeks(today, Number(inDays[1])) : addDays(today, Number(inDays[1]));
+    else if (text.includes('tomorrow')) day = addDays(today, 1);
+    else if (text.includes('next week')) day = addWeeks(today, 1);
+    else if (weekday !== -1) day = nextDay(today, weekday as Day);
+    return day && !Number.isNaN(day.getTime()) ? setHours(day, 9) : undefined;
+};
+
+// The thread on screen, or one of the user's threads named in the message
+const threadIn = (userId: string, content: string, context?: ChatContext): WorkThread | undefined => {
+    const threads = liveThreads();
+    if (context?.type === 'thread') return threads.find(t => t.id === context.id);
+    const text = content.toLowerCase();
+    return threads
+        .filter(t => t.userId === userId && !t.isArchived && text.includes(t.title.toLowerCase()))
+        .sort((a, b) => b.title.length - a.title.length)[0];
+};
+
+// Whatever follows the verb, minus quotes and the trailing full stop
+const nameAfter = (content: string, pattern: RegExp) =>
+    content.match(pattern)?.[1]?.trim().replace(/^["'“]|["'”.]+$/g, '').trim() || undefined;
+
+const day = (date: Date) => format(date, 'EEE, MMM d');
+
+// "Move the deadline to friday, and add a task: write the spec" asks for two
+// things, each with its own date
+const CLAUSE_BREAK = /\s*(?:[,;]|\.\s)\s*(?:and\s+|then\s+)*|\s+and\s+(?:then\s+)?(?=(?:move|push|reschedule|change|extend|set|add|schedule|book|arrange|create|start|open|make|dismiss)\b)/i;
+
+// Stands in for the model's tool calls: simple phrasings map to the actions
+// the client knows how to carry out. `missing` explains what stopped one
+// from being offered.
+const proposeActions = (userId: string, content: string, context?: ChatContext) => {
+    const proposals: Omit<ChatProposedAction, 'id' | 'status'>[] = [];
+    const missing = new Set<string>();
+    const propose = (action: ChatAction, summary: string) => proposals.push({ action, summary });
+
+    for (const clause of content.split(CLAUSE_BREAK).filter(Boolean)) {
+        const when = whenIn(clause);
+        const thread = threadIn(userId, clause, context) ?? threadIn(userId, content, context);
+
+        const newThread = nameAfter(clause, /\b(?:create|start|open|make)\s+(?:a\s+)?(?:new\s+)?thread\s+(?:called|named|for|about)?\s*(.+)$/i);
+        if (newThread) {
+            const title = newThread.replace(/\s+(?:due|by)\s+.*$/i, '');
+            propose(
+                { type: 'createThread', title, priority: /\burgent\b|high priority/i.test(clause) ? 'high' : 'medium', deadline: when },
+                `Create the thread "${title}"${when ? `, due ${day(when)}` : ''}`
+            );
+            continue;
+        }
+
+        const task = nameAfter(clause, /\badd\s+(?:a\s+)?(?:task|to-?do)\s*(?::|to|for)?\s+(.+)$/i);
+        if (task) {
+            if (thread) propose({ type: 'addTask', threadId: thread.id, title: task }, `Add the task "${task}" to ${thread.title}`);
+            else missing.add('Which thread should the task go in? Ask me from the thread, or name it.');
+            continue;
+        }
+
+        if (/\b(?:move|push|reschedule|change|extend|set)\b.*\bdeadline\b/i.test(clause)) {
+            if (!thread) missing.add('Which thread\'s deadline? Ask me from the thread, or name it.');
+            else if (!when) missing.add(`When should ${thread.title} be due? Try "tomorrow", "next friday" or a date.`);
+            else propose({ type: 'rescheduleDeadline', threadId: thread.id, deadline: when }, `Move the deadline of ${thread.title} to ${day(when)}`);
+            continue;
+        }
+
+        if (/\b(?:schedule|book|set up|arrange)\s+(?:a\s+)?(?:meeting|call|sync)\b/i.test(clause)) {
+            const start = setHours(when ?? addDays(startOfDay(new Date()), 1), 10);
+            const title = thread ? `Sync on ${thread.title}` : 'Meeting';
+            propose(
+                {
+                    type: 'scheduleMeeting',
+                    platform: 'google',
+                    meeting: {
+                        title,
+                        description: `Set up from the chat: "${clause}"`,
+                        startTime: start.toISOString(),
+                        endTime: addMinutes(start, MEETING_MINUTES).toISOString(),
+                        attendees: [],
+                        threadId: thread?.id,
+                    },
+                },
+                `Schedule "${title}" on ${format(start, "EEE, MMM d 'at' p")} for ${MEETING_MINUTES} minutes`
+            );
+            continue;
+        }
+
+        if (/\bdismiss\b.*\binsights?\b/i.test(clause)) {
+            const insights = getDb().insights.filter(i => i.userId === userId && i.isActive && !i.isDismissed);
+            if (insights.length === 0) missing.add('There are no insights to dismiss.');
+            for (const insight of insights.slice(0, 3)) {
+                propose({ type: 'dismissInsight', insightId: insight.id }, `Dismiss the insight "${insight.title}"`);
+            }
+        }
+    }
+
+    return { proposals, missing: [...missing] };
+};
+
+// A canned stand-in for the model: the question back, plus what the page the
+// user is on says about their work, or the actions it offers to take
+const reply = (userId: string, content: string, context?: ChatContext) => {
+    const { proposals, missing } = proposeActions(userId, content, context);
+    const actions = proposals.map((p): ChatProposedAction => ({ ...p, id: newId('action'), status: 'proposed' }));
+    const open = liveThreads().filter(t => t.userId === userId && !t.isArchived && t.progress < 100);
+    const top = [...open].sort((a, b) => (a.priority === 'high' ? -1 : 0) - (b.priority === 'high' ? -1 : 0))[0];
+    const about = contextLines(userId, context);
+    const body = actions.length > 0 || missing.length > 0
+        ? [
+            ...(actions.length > 0 ? [`I can take care of ${actions.length === 1 ? 'that' : 'these'} - confirm below and I'll go ahead.`] : []),
+            ...missing,
+        ]
+        : about.length > 0
+            ? about
+            : [`You have **${open.length} open threads**.` + (top ? ` I'd start with **${top.title}** (${top.progress}% done).` : '')];
+    const text = [
+        `_Offline demo mode - replies are canned._`,
+        ``,
+        `You asked: "${content}"`,
+        ``,
+        ...body,
+    ].join('\n');
+    return { text, actions };
+};
+
+const sseEvent = (event: ChatStreamEvent) => `data: ${JSON.stringify(event)}\n\n`;
+
+export const chatRoutes = [
+    route('get', '/chat/conversations', (req) => {
+        const userId = requireUser(req);
+        return getDb().chatConversations
+            .filter(c => c.userId === userId)
+            .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime())
+            .map(summaryOf);
+    }),
+    route('get', '/chat/conversations/:id', (req) => findConversation(requireUser(req), req.params.id)),
+    route('delete', '/chat/conversations/:id', (req) => {
+        const conversation = findConversation(requireUser(req), req.params.id);
+        const db = getDb();
+        db.chatConversations = db.chatConversations.filter(c => c !== conversation);
+        saveDb();
+        return { success: true };
+    }),
+    // The audit trail, newest first
+    route('get', '/chat/actions', (req) => {
+        const userId = requireUser(req);
+        const conversationId = req.query.get('conversationId');
+        return getDb().chatActions
+            .filter(r => r.userId === userId && (!conversationId || r.conversationId === conversationId))
+            .sort((a, b) => b.at.getTime() - a.at.getTime());
+    }),
+    // The client claims an action before carrying it out, so only one tab
+    // ever runs it, then reports back how it went; or it reports that the
+    // user declined. A failed one can be claimed again. A claim that never
+    // settles stays claimed, as there is no telling whether the action ran.
+    route('post', '/chat/actions', (req) => {
+        const userId = requireUser(req);
+        const status = text(req.body.status);
+        if (status !== 'executing' && status !== 'executed' && status !== 'declined' && status !== 'failed') {
+            throw new MockHttpError(400, 'status must be executing, executed, declined or failed');
+        }
+        const outcome: ChatActionOutcome = {
+            conversationId: text(req.body.conversationId) ?? '',
+            actionId: text(req.body.actionId) ?? '',
+            status,
+            targetId: text(req.body.targetId),
+            error: text(req.body.error),
+        };
+        const conversation = findConversation(userId, outcome.conversationId);
+        const proposed = conversation.messages.flatMap(m => m.actions ?? []).find(a => a.id === outcome.actionId);
+        if (!proposed) throw notFound('Action');
+        const open = proposed.status === 'proposed' || proposed.status === 'failed';
+        if (status === 'executing' || status === 'declined' ? !open : proposed.status !== 'executing') {
+            throw new MockHttpError(409, proposed.status === 'executing'
+                ? 'Action is already being carried out'
+                : open ? 'Action has not been claimed' : `Action already ${proposed.status}`);
+        }
+
+        proposed.status = outcome.status;
+        const record: ChatActionRecord = {
+            id: newId('audit'),
+            userId,
+            conversationId: conversation.id,
+            actionId: proposed.id,
+            action: proposed.action,
+            summary: proposed.summary,
+            status: outcome.status,
+            targetId: outcome.targetId,
+            error: outcome.error,
+            at: new Date(),
+        };
+        getDb().chatActions.push(record);
+        saveDb();
+        return record;
+    }),
+    // The question is saved straight away and the reply once it is written,
+    // or as far as it got when the client stops reading
+    route('post', '/chat/messages', (req) => {
+        const userId = requireUser(req);
+        const content = text(req.body.content)?.trim();
+        if (!content) throw new MockHttpError(400, 'content is required');
+        const context = contextOf(req.body.context);
+        const conversationId = text(req.body.conversationId);
+
+        const now = new Date();
+        let conversation: ChatConversation;
+        if (conversationId) {
+            conversation = findConversation(userId, conversationId);
+        } else {
+            conversation = {
+                id: newId('chat'),
+                userId,
+                title: content.length > TITLE_LENGTH ? `${content.slice(0, TITLE_LENGTH - 1)}…` : content,
+                createdAt: now,
+                updatedAt: now,
+                messages: [],
+            };
+            getDb().chatConversations.push(conversation);
+        }
+        conversation.messages.push({ role: 'user', content, context });
+        conversation.updatedAt = now;
+        saveDb();
+
+        const { text: answer, actions } = reply(userId, content, context);
+        const tokens = answer.match(/\s*\S+/g) ?? [];
+        const encoder = new TextEncoder();
+        const { signal } = req;
+
+        return new ReadableStream<Uint8Array>({
+            async start(controller) {
+                const send = (event: ChatStreamEvent) => controller.enqueue(encoder.encode(sseEvent(event)));
+                const finish = (message: ChatMessage) => {
+                    conversation.messages.push(message);
+                    conversation.updatedAt = new Date();
+                    saveDb();
+                };
+
+                send({ type: 'conversation', conversation: summaryOf(conversation) });
+                let written = '';
+                for (const token of tokens) {
+                    await new Promise(resolve => setTimeout(resolve, TOKEN_DELAY_MS));
+                    if (signal?.aborted) {
+                        finish({ role: 'model', content: written, stopped: true });
+                        controller.close();
+                        return;
+                    }
+                    written += token;
+                    send({ type: 'token', text: token });
+                }
+                // Actions only come with a finished reply, never a stopped one
+                const message: ChatMessage = { role: 'model', content: written, actions: actions.length > 0 ? actions : undefined };
+                finish(message);
+                send({ type: 'done', message });
+                controller.close();
+            },
+        });
+    }),
+];
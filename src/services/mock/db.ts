@@ -0,0 +1,150 @@
+import { z } from 'zod';
+import {
+    User,
+    WorkThread,
+    WorkItem,
+    WorkInsight,
+    PriorityRecommendation,
+    CognitiveLoadState,
+    DailyStats,
+    Team,
+    Invitation,
+    Meeting,
+    CalendarFeed,
+    SyncState,
+    FocusSession,
+    ChatConversation,
+    ChatActionRecord,
+} from '@/lib/types';
+import {
+    mockUser,
+    mockTeammate,
+    mockWorkItems,
+    mockWorkThreads,
+    mockTeams,
+    mockTeamItems,
+    mockPriorityRecommendations,
+    mockInsights,
+    mockCognitiveLoad,
+    mockDailyStats,
+    mockMeetings,
+} from '@/lib/mock-data';
+import {
+    userSchema,
+    workThreadSchema,
+    workItemSchema,
+    teamSchema,
+    invitationSchema,
+    priorityRecommendationSchema,
+    workInsightSchema,
+    cognitiveLoadSchema,
+    dailyStatsSchema,
+    meetingSchema,
+    calendarFeedSchema,
+    syncStateSchema,
+    focusSessionSchema,
+    chatConversationSchema,
+    chatActionRecordSchema,
+} from '@/lib/schemas';
+
+const STORAGE_KEY = 'monocle_mock_db';
+
+export interface MockDb {
+    users: User[];
+    threads: WorkThread[];
+    items: WorkItem[];
+    teams: Team[];
+    invitations: Invitation[];
+    recommendations: PriorityRecommendation[];
+    insights: WorkInsight[];
+    cognitiveLoad: CognitiveLoadState[];
+    stats: DailyStats[];
+    meetings: Meeting[];
+    calendarFeeds: CalendarFeed[];
+    syncStates: SyncState[];
+    focusSessions: FocusSession[];
+    chatConversations: ChatConversation[];
+    chatActions: ChatActionRecord[];
+}
+
+const seed = (): MockDb => ({
+    users: [mockUser, mockTeammate],
+    threads: mockWorkThreads,
+    items: [...mockWorkItems, ...mockTeamItems],
+    teams: mockTeams,
+    invitations: [],
+    // The real API only embeds the thread when asked, the dashboard joins it itself
+    recommendations: mockPriorityRecommendations.map(({ thread, ...rec }) => rec),
+    insights: mockInsights,
+    cognitiveLoad: [mockCognitiveLoad],
+    stats: mockDailyStats,
+    meetings: mockMeetings,
+    calendarFeeds: [],
+    syncStates: [],
+    focusSessions: [],
+    chatConversations: [],
+    chatActions: [],
+});
+
+// localStorage flattens dates to strings, so run the saved collections back
+// through the API schemas to revive them. A collection missing from an older
+// save falls back to its seed.
+const schemas: { [K in keyof MockDb]: z.ZodType<MockDb[K], z.ZodTypeDef, unknown> } = {
+    users: z.array(userSchema),
+    threads: z.array(workThreadSchema),
+    items: z.array(workItemSchema),
+    teams: z.array(teamSchema),
+    invitations: z.array(invitationSchema),
+    recommendations: z.array(priorityRecommendationSchema),
+    insights: z.array(workInsightSchema),
+    cognitiveLoad: z.array(cognitiveLoadSchema),
+    stats: z.array(dailyStatsSchema),
+    meetings: z.array(meetingSchema),
+    calendarFeeds: z.array(calendarFeedSchema),
+    syncStates: z.array(syncStateSchema),
+    focusSessions: z.array(focusSessionSchema),
+    chatConversations: z.array(chatConversationSchema),
+    chatActions: z.array(chatActionRecordSchema),
+};
+
+const revive = (saved: Partial<Record<keyof MockDb, unknown>>): MockDb => {
+    const fresh = seed();
+    const revived = {} as Record<keyof MockDb, unknown>;
+    for (const key of Object.keys(schemas) as (keyof MockDb)[]) {
+        revived[key] = key in saved ? schemas[key].parse(saved[key]) : fresh[key];
+    }
+    return revived as MockDb;
+};
+
+let db: MockDb | null = null;
+
+export function getDb(): MockDb {
+    if (db) return db;
+
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (saved) {
+        try {
+            db = revive(JSON.parse(saved));
+            return db;
+        } catch (e) {
+            console.error('Failed to parse mock database, reseeding', e);
+        }
+    }
+
+    db = seed();
+    saveDb();
+    return db;
+}
+
+export function saveDb() {
+    if (db) localStorage.setItem(STORAGE_KEY, JSON.stringify(db));
+}
+
+export function resetDb() {
+    localStorage.removeItem(STORAGE_KEY);
+    db = null;
+}
+
+export const newId = (prefix: string) =>
+    `${prefix}-${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+
@@ -0,0 +1,46 @@
+import { FocusSession } from '@/lib/types';
+import { focusSessionSchema } from '@/lib/schemas';
+import { getDb, saveDb } from './db';
+import { route, requireUser, notFound, MockHttpError } from './router';
+import { statsFor } from './intelligence';
+import { liveThreads } from './threads';
+
+const newestFirst = (a: FocusSession, b: FocusSession) => b.startedAt.getTime() - a.startedAt.getTime();
+
+export const focusRoutes = [
+    route('get', '/focus/sessions', (req) => {
+        const userId = requireUser(req);
+        const from = req.query.get('from');
+        const to = req.query.get('to');
+        return getDb().focusSessions
+            .filter(s => s.userId === userId)
+            .filter(s => !from || s.startedAt >= new Date(from))
+            .filter(s => !to || s.startedAt < new Date(to))
+            .sort(newestFirst);
+    }),
+    // Sessions are recorded once they end, so the day's focus time and
+    // context switches are added to the stats in the same go. A repeat of a
+    // session id already recorded gets that session back and changes nothing.
+    route('post', '/focus/sessions', (req) => {
+        const userId = requireUser(req);
+        const parsed = focusSessionSchema.safeParse({ ...req.body, userId });
+        if (!parsed.success) throw new MockHttpError(400, 'Invalid focus session');
+        const session = parsed.data;
+        const recorded = getDb().focusSessions.find(s => s.id === session.id);
+        if (recorded) {
+            if (recorded.userId !== userId) throw new MockHttpError(409, 'Focus session id is taken');
+            return recorded;
+        }
+        if (session.endedAt < session.startedAt) throw new MockHttpError(400, 'endedAt is before startedAt');
+
+        if (session.threadId && !liveThreads().some(t => t.id === session.threadId && t.userId === userId)) {
+            throw notFound('Thread');
+        }
+        getDb().focusSessions.push(session);
+        const stats = statsFor(userId, session.startedAt);
+        stats.focusTime += session.focusedMinutes;
+        stats.contextSwitches += session.interruptions.length;
+        saveDb();
+        return session;
+    }),
+];
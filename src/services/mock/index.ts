@@ -0,0 +1,102 @@
+import { AxiosError, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { matchRoute, MockHttpError, MockRoute } from './router';
+import { userRoutes, userIdFromToken } from './users';
+import { threadRoutes } from './threads';
+import { itemRoutes } from './items';
+import { intelligenceRoutes } from './intelligence';
+import { teamRoutes } from './teams';
+import { integrationRoutes } from './integrations';
+import { meetingRoutes } from './meetings';
+import { runScheduledSyncs, syncRoutes } from './sync';
+import { focusRoutes } from './focus';
+import { chatRoutes } from './chat';
+
+export { resetDb as resetMockDb } from './db';
+
+// Enough delay for loading states to show up while demoing
+const LATENCY_MS = 150;
+
+const routes: MockRoute[] = [
+    ...userRoutes,
+    ...threadRoutes,
+    ...itemRoutes,
+    ...intelligenceRoutes,
+    ...teamRoutes,
+    ...integrationRoutes,
+    ...syncRoutes,
+    ...meetingRoutes,
+    ...focusRoutes,
+    ...chatRoutes,
+];
+
+// Handlers only ever get an object: anything else sent as a body reads as empty
+const parseBody = (data: unknown): Record<string, unknown> => {
+    let parsed = data;
+    if (typeof data === 'string') {
+        try {
+            parsed = JSON.parse(data);
+        } catch {
+            parsed = undefined;
+        }
+    }
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed as Record<string, unknown> : {};
+};
+
+const respond = (config: InternalAxiosRequestConfig, status: number, data: unknown): AxiosResponse => ({
+    // Round-trip through JSON so callers see exactly what a real server would send
+    data: JSON.parse(JSON.stringify(data)),
+    status,
+    statusText: status < 400 ? 'OK' : 'Error',
+    headers: {},
+    config,
+});
+
+// Axios adapter that answers every request from the in-browser database
+// instead of the network. Enabled with VITE_USE_MOCK_API=true.
+export async function mockAdapter(config: InternalAxiosRequestConfig): Promise<AxiosResponse> {
+    await new Promise(resolve => setTimeout(resolve, LATENCY_MS));
+
+    const url = new URL(config.url ?? '', 'http://mock.local');
+    for (const [key, value] of Object.entries(config.params ?? {})) {
+        if (value !== undefined && value !== null) url.searchParams.set(key, String(value));
+    }
+
+    const method = (config.method ?? 'get').toLowerCase();
+    const matched = matchRoute(routes, method, url.pathname);
+
+    let response: AxiosResponse;
+    try {
+        if (!matched) throw new MockHttpError(404, `No mock route for ${method.toUpperCase()} ${url.pathname}`);
+        const userId = userIdFromToken(config.headers?.Authorization as string | undefined);
+        if (userId) await runScheduledSyncs(userId);
+        const data = await matched.handler({
+            params: matched.params,
+            query: url.searchParams,
+            body: parseBody(config.data),
+            userId,
+            signal: config.signal as AbortSignal | undefined,
+        });
+        // Streaming endpoints answer with the body itself, as text/event-stream
+        response = data instanceof ReadableStream
+            ? { ...respond(config, 200, null), data }
+            : respond(config, 200, { success: true, data });
+    } catch (error) {
+        if (!(error instanceof MockHttpError)) {
+            console.error('Mock backend error:', error);
+        }
+        const status = error instanceof MockHttpError ? error.status : 500;
+        const message = error instanceof Error ? error.message : 'Mock backend error';
+        response = respond(config, status, { success: false, error: message });
+    }
+
+    if (response.status >= 400) {
+        throw new AxiosError(
+            `Request failed with status code ${response.status}`,
+            response.status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+            config,
+            null,
+            response
+        );
+    }
+    return response;
+}
@@ -0,0 +1,298 @@
+import { format } from 'date-fns';
+import { Meeting, NotionMapping, WorkItem } from '@/lib/types';
+import { calendarFeedSchema, notionMappingSchema, workThreadSchema } from '@/lib/schemas';
+import { buildCalendar, IcsEvent, parseCalendar } from '@/lib/ics';
+import { notionPageToItem, threadDeadline } from '@/lib/notion';
+import { mockNotionWorkspace } from '@/lib/mock-data';
+import { getDb, saveDb, newId } from './db';
+import { route, requireUser, notFound, text, MockHttpError, MockRequest } from './router';
+import { insertItem, saveItem } from './items';
+import { liveThreads, saveThread } from './threads';
+import { insertMeeting, findMeetingByEvent, saveMeeting, assertNotCancelled } from './meetings';
+
+const IMPORTS_THREAD = 'External Imports';
+
+// Synced items land in a catch-all thread, created on first sync
+export const importsThread = (userId: string) => {
+    const db = getDb();
+    const existing = db.threads.find(t => t.userId === userId && t.title === IMPORTS_THREAD);
+    if (existing) return existing;
+
+    const timestamp = new Date();
+    const thread = workThreadSchema.parse({
+        id: newId('thread'),
+        userId,
+        title: IMPORTS_THREAD,
+        description: 'Items synced from connected apps',
+        itemIds: [],
+        priority: 'low',
+        progress: 0,
+        tags: ['Imported'],
+        lastActivity: timestamp,
+        createdAt: timestamp,
+        updatedAt: timestamp,
+    });
+    db.threads.push(thread);
+    return thread;
+};
+
+export const userRecord = (userId: string) => {
+    const user = getDb().users.find(u => u.id === userId);
+    if (!user) throw notFound('User');
+    return user;
+};
+
+const notionUser = (userId: string) => {
+    const user = userRecord(userId);
+    if (!user.integrations?.notion?.connected) throw new MockHttpError(409, 'Notion is not connected');
+    return user;
+};
+
+// Each Notion source gets its own thread, made on the first import and
+// reused after that unless it was deleted
+const notionThread = (userId: string, mapping: NotionMapping, title: string) => {
+    const existing = liveThreads().find(t => t.id === mapping.threadId && t.userId === userId);
+    if (existing) return existing;
+
+    const timestamp = new Date();
+    const thread = workThreadSchema.parse({
+        id: newId('thread'),
+        userId,
+        title,
+        description: 'Imported from Notion',
+        itemIds: [],
+        priority: 'medium',
+        progress: 0,
+        tags: ['Notion'],
+        lastActivity: timestamp,
+        createdAt: timestamp,
+        updatedAt: timestamp,
+    });
+    getDb().threads.push(thread);
+    return thread;
+};
+
+const MEETING_FIELDS = ['title', 'description', 'startTime', 'endTime', 'attendees', 'threadId', 'recurrence'] as const;
+
+const meetingDetails = (body: Record<string, unknown> = {}) =>
+    Object.fromEntries(MEETING_FIELDS.filter(key => body[key] !== undefined).map(key => [key, body[key]]));
+
+const linksOf = (meeting: Meeting) => ({
+    eventId: meeting.eventId,
+    meetingLink: meeting.meetingLink,
+    joinUrl: meeting.joinUrl,
+});
+
+// Moving a past meeting into the future brings it back to scheduled
+const updateEvent = (req: MockRequest, platform: Meeting['platform']) => {
+    const meeting = assertNotCancelled(findMeetingByEvent(requireUser(req), platform, req.params.eventId));
+    saveMeeting(meeting, { ...meetingDetails(req.body), status: 'scheduled' });
+    return { ...linksOf(meeting), meeting };
+};
+
+const cancelEvent = (req: MockRequest, platform: Meeting['platform']) => {
+    const meeting = findMeetingByEvent(requireUser(req), platform, req.params.eventId);
+    saveMeeting(meeting, { status: 'cancelled' });
+    return { ...linksOf(meeting), meeting };
+};
+
+const userCalendar = (userId: string) => {
+    const db = getDb();
+    const user = db.users.find(u => u.id === userId);
+    return buildCalendar({
+        name: user ? `Monocle – ${user.name}` : 'Monocle',
+        meetings: db.meetings.filter(m => m.userId === userId),
+        threads: db.threads.filter(t => t.userId === userId),
+    });
+};
+
+// Tokens are the only thing guarding a feed, so they are not derived from ids
+const issueFeed = (userId: string) => {
+    const db = getDb();
+    const token = crypto.randomUUID().replace(/-/g, '');
+    const feed = calendarFeedSchema.parse({
+        userId,
+        token,
+        url: `${window.location.origin}/api/calendar/feed/${token}.ics`,
+        createdAt: new Date(),
+    });
+    db.calendarFeeds = [...db.calendarFeeds.filter(f => f.userId !== userId), feed];
+    saveDb();
+    return feed;
+};
+
+const importedFields = (event: IcsEvent, source: string) => ({
+    title: event.title,
+    source,
+    timestamp: event.start,
+    preview: [
+        format(event.start, event.allDay ? 'EEE, MMM d' : 'EEE, MMM d, p'),
+        event.location,
+    ].filter(Boolean).join(' · '),
+    metadata: {
+        icsUid: event.uid,
+        startTime: event.start,
+        endTime: event.end,
+        allDay: event.allDay,
+        location: event.location,
+        url: event.url,
+        description: event.description,
+        recurrence: event.recurrence,
+    },
+});
+
+// Nothing leaves the browser in mock mode: Notion reads a canned workspace
+// and meetings get placeholder links. Scheduled syncs live in sync.ts.
+export const integrationRoutes = [
+    // Any well-formed integration secret or OAuth code is accepted offline
+    route('post', '/integrations/notion/connect', (req) => {
+        const user = userRecord(requireUser(req));
+        const { apiKey, code } = req.body;
+        if (apiKey !== undefined) {
+            if (typeof apiKey !== 'string' || !/^(secret_|ntn_)\w{8,}$/.test(apiKey.trim())) {
+                throw new MockHttpError(401, 'Notion did not accept that integration secret');
+            }
+        } else if (typeof code !== 'string' || !code) {
+            throw new MockHttpError(400, 'apiKey or code is required');
+        }
+        user.integrations = {
+            ...user.integrations,
+            notion: { connected: true, workspace: mockNotionWorkspace.name, mappings: user.integrations?.notion?.mappings ?? [] },
+        };
+        saveDb();
+        return user;
+    }),
+    // Imported threads and items stay; only the connection goes
+    route('delete', '/integrations/notion', (req) => {
+        const user = userRecord(requireUser(req));
+        user.integrations = { ...user.integrations, notion: { connected: false } };
+        saveDb();
+        return user;
+    }),
+    route('get', '/integrations/notion/sources', (req) => {
+        notionUser(requireUser(req));
+        return mockNotionWorkspace.sources.map(({ source }) => source);
+    }),
+    route('post', '/integrations/notion/sync', (req) => {
+        const userId = requireUser(req);
+        const user = notionUser(userId);
+        const saved = user.integrations.notion.mappings ?? [];
+        const mappings = req.body.mappings === undefined
+            ? saved
+            : notionMappingSchema.array().parse(req.body.mappings);
+
+        const db = getDb();
+        const resolveUser = (email: string) => db.users.find(u => u.email.toLowerCase() === email.toLowerCase())?.id;
+        let imported = 0;
+        let updated = 0;
+
+        const results = mappings.map(requested => {
+            const shared = mockNotionWorkspace.sources.find(({ source }) => source.id === requested.sourceId);
+            if (!shared) throw notFound('Notion source');
+            const mapping = { ...requested, threadId: requested.threadId ?? saved.find(m => m.sourceId === requested.sourceId)?.threadId };
+            const thread = notionThread(userId, mapping, shared.source.title);
+
+            const fields = shared.entries.map(page => ({
+                ...notionPageToItem(page, mapping, resolveUser),
+                // Sub-pages of a plain page are documents, not tasks
+                ...(shared.source.type === 'page' ? { type: 'document' as const, status: undefined } : {}),
+            }));
+            for (const item of fields) {
+                // Re-imports leave items wherever they were moved to
+                const match = db.items.find(i => i.userId === userId && i.metadata?.notionId === item.metadata.notionId);
+                if (match) {
+                    saveItem(match, item);
+                    updated++;
+                } else {
+                    insertItem(userId, { ...item, threadId: thread.id });
+                    imported++;
+                }
+            }
+
+            const tasks = fields.filter(item => item.type === 'task');
+            const completed = tasks.filter(item => item.status === 'completed').length;
+            saveThread(thread, {
+                deadline: threadDeadline(tasks) ?? null,
+                progress: tasks.length > 0 ? Math.round((completed / tasks.length) * 100) : thread.progress,
+                lastActivity: new Date(),
+            });
+            return { mapping: { ...mapping, threadId: thread.id }, thread };
+        });
+
+        // Sources left out this time are no longer synced
+        user.integrations.notion = { ...user.integrations.notion, mappings: results.map(r => r.mapping) };
+        saveDb();
+        return { imported, updated, threads: results.map(r => r.thread), user };
+    }),
+    route('post', '/integrations/google/calendar/create', (req) => {
+        const userId = requireUser(req);
+        const eventId = `mock-${Date.now()}`;
+        const links = {
+            eventId,
+            meetingLink: `https://calendar.google.com/calendar/event?eid=${eventId}`,
+            joinUrl: `https://meet.google.com/mock-${eventId.slice(-6)}`,
+        };
+        const meeting = insertMeeting(userId, { ...req.body, ...links, platform: 'google' });
+        return { ...links, meeting };
+    }),
+    route('put', '/integrations/google/calendar/:eventId', (req) => updateEvent(req, 'google')),
+    route('delete', '/integrations/google/calendar/:eventId', (req) => cancelEvent(req, 'google')),
+    route('post', '/integrations/microsoft/teams/create', (req) => {
+        const userId = requireUser(req);
+        const eventId = `mock-${Date.now()}`;
+        const links = {
+            eventId,
+            joinUrl: `https://teams.microsoft.com/l/meetup-join/${eventId}`,
+        };
+        const meeting = insertMeeting(userId, { ...req.body, ...links, platform: 'teams' });
+        return { ...links, meeting };
+    }),
+    route('put', '/integrations/microsoft/teams/:eventId', (req) => updateEvent(req, 'teams')),
+    route('delete', '/integrations/microsoft/teams/:eventId', (req) => cancelEvent(req, 'teams')),
+    route('get', '/integrations/ics/export', (req) => ({
+        filename: `monocle-${format(new Date(), 'yyyy-MM-dd')}.ics`,
+        calendar: userCalendar(requireUser(req)),
+    })),
+    route('post', '/integrations/ics/import', (req) => {
+        const userId = requireUser(req);
+        const parsed = parseCalendar(text(req.body.calendar) ?? '');
+        if (!parsed) throw new MockHttpError(400, 'Not an iCalendar (.ics) file');
+
+        const source = parsed.name || 'iCalendar';
+        // Keyed by UID and kept current through the loop, so a UID that comes
+        // up twice in one file updates the item the first one created
+        const byUid = new Map<string, WorkItem>();
+        for (const item of getDb().items) {
+            if (item.userId === userId && item.metadata?.icsUid) byUid.set(item.metadata.icsUid, item);
+        }
+        const inserted = new Set<WorkItem>();
+        const touched = new Set<WorkItem>();
+        for (const event of parsed.events) {
+            const fields = importedFields(event, source);
+            // Re-importing leaves items wherever they were moved to
+            const match = byUid.get(event.uid);
+            const item = match
+                ? saveItem(match, fields)
+                : insertItem(userId, { ...fields, type: 'calendar', threadId: importsThread(userId).id });
+            if (!match) inserted.add(item);
+            byUid.set(event.uid, item);
+            touched.add(item);
+        }
+        saveDb();
+        return { imported: inserted.size, updated: touched.size - inserted.size, items: Array.from(touched) };
+    }),
+    route('get', '/integrations/ics/feed', (req) => {
+        const userId = requireUser(req);
+        return getDb().calendarFeeds.find(f => f.userId === userId) ?? issueFeed(userId);
+    }),
+    route('post', '/integrations/ics/feed/reset', (req) => issueFeed(requireUser(req))),
+    // What subscribed calendar apps fetch, without signing in. The real API
+    // answers with text/calendar; the mock wraps it like everything else, and
+    // only this page can reach it, so the UI hides subscribing in mock mode.
+    route('get', '/calendar/feed/:file', (req) => {
+        const token = req.params.file.replace(/\.ics$/, '');
+        const feed = getDb().calendarFeeds.find(f => f.token === token);
+        if (!feed) throw notFound('Calendar feed');
+        return userCalendar(feed.userId);
+    }),
+];
@@ -0,0 +1,104 @@
+import { CognitiveLoadState, ThreadSummary } from '@/lib/types';
+import { getDb, saveDb, newId } from './db';
+import { route, notFound } from './router';
+import { findThread, liveThreads } from './threads';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const isSameDay = (a: Date, b: Date) => a.toDateString() === b.toDateString();
+
+// The user's stats row for the day, started on first use
+export const statsFor = (userId: string, day: Date) => {
+    const db = getDb();
+    let stats = db.stats.find(s => s.userId === userId && isSameDay(s.date, day));
+    if (!stats) {
+        stats = { id: newId('stats'), userId, date: day, focusTime: 0, contextSwitches: 0, completedTasks: 0, activeThreads: 0 };
+        db.stats.push(stats);
+    }
+    return stats;
+};
+
+// A rough stand-in for the server's model: open threads and close deadlines
+// push the score up, everything else is ignored.
+const calculateLoad = (userId: string): CognitiveLoadState => {
+    const open = liveThreads().filter(t => t.userId === userId && !t.isArchived && t.progress < 100);
+    const pendingDeadlines = open.filter(t => t.deadline && t.deadline.getTime() - Date.now() < 3 * DAY).length;
+    const switchingFrequency = Math.min(open.length, 6);
+    const score = Math.min(100, open.length * 10 + pendingDeadlines * 15 + switchingFrequency * 3);
+    const level = score >= 85 ? 'critical' : score >= 60 ? 'high' : score >= 35 ? 'medium' : 'low';
+
+    return {
+        id: newId('load'),
+        userId,
+        level,
+        score,
+        factors: {
+            activeThreads: open.length,
+            switchingFrequency,
+            workDuration: Math.round((new Date().getHours() - 9) * 10) / 10,
+            pendingDeadlines,
+        },
+        timestamp: new Date(),
+    };
+};
+
+export const summarizeThread = (threadId: string): ThreadSummary => {
+    const thread = findThread(threadId);
+    const items = getDb().items.filter(i => i.threadId === threadId);
+    const open = items.filter(i => i.status !== 'completed');
+    const unread = items.filter(i => !i.isRead);
+
+    const nextSteps = [
+        ...unread.slice(0, 2).map(i => `Catch up on "${i.title}" from ${i.source}`),
+        ...open.filter(i => i.type === 'task').slice(0, 2).map(i => `Finish "${i.title}"`),
+    ];
+    if (thread.deadline) nextSteps.push(`Plan the remaining ${100 - thread.progress}% before ${thread.deadline.toDateString()}`);
+    if (nextSteps.length === 0) nextSteps.push('Add the first work item to this thread');
+
+    return {
+        summary: `${thread.title} is ${thread.progress}% complete with ${items.length} related items, ` +
+            `${unread.length} of them unread. ${thread.description ?? ''}`.trim(),
+        nextSteps,
+    };
+};
+
+export const intelligenceRoutes = [
+    route('post', '/intelligence/insights/:userId/generate', ({ params }) => ({
+        generated: getDb().insights.filter(i => i.userId === params.userId && i.isActive).length,
+    })),
+    route('get', '/intelligence/insights/:userId', ({ params }) =>
+        getDb().insights.filter(i => i.userId === params.userId && i.isActive && !i.isDismissed)
+    ),
+    route('put', '/intelligence/insights/:id/dismiss', ({ params }) => {
+        const insight = getDb().insights.find(i => i.id === params.id);
+        if (!insight) throw notFound('Insight');
+        insight.isDismissed = true;
+        insight.isActive = false;
+        saveDb();
+        return insight;
+    }),
+    route('post', '/intelligence/recommendations/:userId/generate', ({ params }) => ({
+        generated: getDb().recommendations.filter(r => r.userId === params.userId && r.isActive).length,
+    })),
+    route('get', '/intelligence/recommendations/:userId', ({ params }) =>
+        getDb().recommendations
+            .filter(r => r.userId === params.userId && r.isActive)
+            .sort((a, b) => b.score - a.score)
+    ),
+    route('post', '/intelligence/cognitive-load/:userId/calculate', ({ params }) => {
+        const db = getDb();
+        const load = calculateLoad(params.userId);
+        db.cognitiveLoad = [...db.cognitiveLoad.filter(l => l.userId !== params.userId), load];
+        saveDb();
+        return load;
+    }),
+    route('get', '/intelligence/cognitive-load/:userId', ({ params }) =>
+        getDb().cognitiveLoad.find(l => l.userId === params.userId) ?? null
+    ),
+    route('get', '/intelligence/stats/:userId', ({ params }) =>
+        getDb().stats
+            .filter(s => s.userId === params.userId)
+            .sort((a, b) => a.date.getTime() - b.date.getTime())
+    ),
+    route('get', '/intelligence/thread-summary/:threadId', ({ params }) => summarizeThread(params.threadId)),
+];
@@ -0,0 +1,109 @@
+import { WorkItem } from '@/lib/types';
+import { workItemSchema } from '@/lib/schemas';
+import { getDb, saveDb, newId } from './db';
+import { route, requireUser, notFound, MockHttpError } from './router';
+import { byPriority, paginate } from './listing';
+
+export const findItem = (id: string) => {
+    const item = getDb().items.find(i => i.id === id);
+    if (!item) throw notFound('Item');
+    return item;
+};
+
+const newestFirst = (a: WorkItem, b: WorkItem) => b.timestamp.getTime() - a.timestamp.getTime();
+
+const userItems = (userId: string) =>
+    getDb().items
+        .filter(i => i.userId === userId || i.assigneeId === userId)
+        .sort(newestFirst);
+
+// Keep thread.itemIds in step with item.threadId, as the real API does.
+const linkToThread = (itemId: string, fromThreadId?: string, toThreadId?: string) => {
+    if (fromThreadId === toThreadId) return;
+    for (const thread of getDb().threads) {
+        if (thread.id === fromThreadId) {
+            thread.itemIds = thread.itemIds.filter(id => id !== itemId);
+        }
+        if (thread.id === toThreadId && !thread.itemIds.includes(itemId)) {
+            thread.itemIds = [...thread.itemIds, itemId];
+            thread.lastActivity = new Date();
+        }
+    }
+};
+
+export const saveItem = (item: WorkItem, updates: Partial<WorkItem>) => {
+    const previousThreadId = item.threadId;
+    Object.assign(item, workItemSchema.parse({ ...item, ...updates }));
+    linkToThread(item.id, previousThreadId, item.threadId);
+    saveDb();
+    return item;
+};
+
+export const insertItem = (userId: string, fields: Partial<WorkItem>) => {
+    const item = workItemSchema.parse({
+        source: 'Manual',
+        isRead: false,
+        timestamp: new Date(),
+        ...fields,
+        id: newId('item'),
+        userId: fields.userId || userId,
+    });
+    getDb().items.push(item);
+    linkToThread(item.id, undefined, item.threadId);
+    saveDb();
+    return item;
+};
+
+export const removeItem = (item: WorkItem) => {
+    const db = getDb();
+    linkToThread(item.id, item.threadId, undefined);
+    db.items = db.items.filter(i => i.id !== item.id);
+};
+
+// Resolve every id up front so a bad id fails the whole batch, like the real API
+const findItems = (ids: unknown) => {
+    if (!Array.isArray(ids)) throw new MockHttpError(400, 'ids must be an array');
+    return ids.map(id => findItem(String(id)));
+};
+
+export const itemRoutes = [
+    route('get', '/items/user/:userId', ({ params }) => userItems(params.userId)),
+    route('get', '/items/user/:userId/paged', ({ params, query }) => {
+        const filters = ['type', 'priority', 'status', 'source', 'teamId'] as const;
+        const items = userItems(params.userId)
+            .filter(item => filters.every(key => !query.get(key) || item[key] === query.get(key)));
+        if (query.get('sort') === 'priority') items.sort((a, b) => byPriority(a, b) || newestFirst(a, b));
+        return paginate(items, query);
+    }),
+    route('get', '/items/user/:userId/unread', ({ params }) =>
+        userItems(params.userId).filter(i => !i.isRead)
+    ),
+    route('get', '/items/thread/:threadId', ({ params }) =>
+        getDb().items.filter(i => i.threadId === params.threadId).sort(newestFirst)
+    ),
+    route('get', '/items/team/:teamId', ({ params }) =>
+        getDb().items.filter(i => i.teamId === params.teamId).sort(newestFirst)
+    ),
+    route('post', '/items', (req) => insertItem(requireUser(req), req.body)),
+    // All or nothing: every item is checked against the updates before any is saved
+    route('patch', '/items/batch', ({ body }) => {
+        const items = findItems(body.ids);
+        const updates = (body.updates ?? {}) as Partial<WorkItem>;
+        items.forEach(item => workItemSchema.parse({ ...item, ...updates }));
+        return items.map(item => saveItem(item, updates));
+    }),
+    route('post', '/items/batch/delete', ({ body }) => {
+        const items = findItems(body.ids);
+        items.forEach(removeItem);
+        saveDb();
+        return { ids: items.map(i => i.id) };
+    }),
+    route('put', '/items/:id/read', ({ params }) => saveItem(findItem(params.id), { isRead: true })),
+    route('put', '/items/:id', ({ params, body }) => saveItem(findItem(params.id), body)),
+    route('delete', '/items/:id', ({ params }) => {
+        const item = findItem(params.id);
+        removeItem(item);
+        saveDb();
+        return { id: item.id };
+    }),
+];
@@ -0,0 +1,24 @@
+import { Page } from '@/lib/types';
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+const PRIORITY_RANK = { high: 0, medium: 1, low: 2 } as const;
+
+// High first; entries without a priority sink to the bottom
+export const byPriority = <T extends { priority?: keyof typeof PRIORITY_RANK }>(a: T, b: T) =>
+    (PRIORITY_RANK[a.priority] ?? 3) - (PRIORITY_RANK[b.priority] ?? 3);
+
+// Slices an already filtered and sorted list the way the real API pages
+// results: ?page=1&pageSize=20, with out-of-range pages clamped.
+export function paginate<T>(list: T[], query: URLSearchParams): Page<T> {
+    const pageSize = Math.min(Math.max(1, Number(query.get('pageSize')) || DEFAULT_PAGE_SIZE), MAX_PAGE_SIZE);
+    const lastPage = Math.max(1, Math.ceil(list.length / pageSize));
+    const page = Math.min(Math.max(1, Number(query.get('page')) || 1), lastPage);
+    return {
+        results: list.slice((page - 1) * pageSize, page * pageSize),
+        total: list.length,
+        page,
+        pageSize,
+    };
+}
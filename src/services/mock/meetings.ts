@@ -0,0 +1,190 @@
+import { Meeting } from '@/lib/types';
+import { meetingExceptionSchema, meetingSchema } from '@/lib/schemas';
+import { expandOccurrences, nextOccurrence, parseRRule } from '@/lib/recurrence';
+import { getDb, saveDb, newId } from './db';
+import { route, requireUser, notFound, text, MockHttpError } from './router';
+import { insertItem, saveItem, removeItem } from './items';
+
+const byStartTime = (a: Meeting, b: Meeting) => a.startTime.getTime() - b.startTime.getTime();
+
+// The real API flips meetings to completed once they have ended; a series
+// ends with its last occurrence
+const settle = (meeting: Meeting) => {
+    if (meeting.status === 'scheduled' && !nextOccurrence(meeting, new Date())) {
+        meeting.status = 'completed';
+    }
+    return meeting;
+};
+
+const userMeetings = (userId: string) =>
+    getDb().meetings.filter(m => m.userId === userId).map(settle).sort(byStartTime);
+
+// Other people's meetings are reported as missing rather than forbidden
+export const findMeeting = (userId: string, id: string) => {
+    const meeting = getDb().meetings.find(m => m.id === id && m.userId === userId);
+    if (!meeting) throw notFound('Meeting');
+    return settle(meeting);
+};
+
+// Integration routes address meetings by the provider's event id
+export const findMeetingByEvent = (userId: string, platform: Meeting['platform'], eventId: string) => {
+    const meeting = getDb().meetings.find(m => m.userId === userId && m.platform === platform && m.eventId === eventId);
+    if (!meeting) throw notFound('Event');
+    return settle(meeting);
+};
+
+const parseMeeting = (fields: unknown) => {
+    const meeting = meetingSchema.parse(fields);
+    if (meeting.endTime.getTime() <= meeting.startTime.getTime()) {
+        throw new MockHttpError(400, 'Meeting must end after it starts');
+    }
+    if (meeting.recurrence && !parseRRule(meeting.recurrence)) {
+        throw new MockHttpError(400, 'Unsupported recurrence rule');
+    }
+    return meeting;
+};
+
+// Every meeting is mirrored by a calendar work item so it shows up in the
+// inbox and, when linked, in its thread. Cancelling takes the item away.
+const syncMeetingItem = (meeting: Meeting) => {
+    const item = meeting.itemId ? getDb().items.find(i => i.id === meeting.itemId) : undefined;
+    if (meeting.status === 'cancelled') {
+        if (item) removeItem(item);
+        meeting.itemId = undefined;
+        return;
+    }
+
+    const fields = {
+        type: 'calendar' as const,
+        title: meeting.title,
+        source: meeting.platform === 'google' ? 'Google Calendar' : 'Microsoft Teams',
+        timestamp: meeting.startTime,
+        preview: meeting.notes || meeting.description,
+        threadId: meeting.threadId,
+        metadata: {
+            meetingId: meeting.id,
+            eventId: meeting.eventId,
+            startTime: meeting.startTime,
+            endTime: meeting.endTime,
+            joinUrl: meeting.joinUrl,
+            recurrence: meeting.recurrence,
+        },
+    };
+    if (item) saveItem(item, fields);
+    else meeting.itemId = insertItem(meeting.userId, fields).id;
+};
+
+export const saveMeeting = (meeting: Meeting, updates: Partial<Meeting>) => {
+    const saved = parseMeeting({
+        ...meeting,
+        ...updates,
+        id: meeting.id,
+        userId: meeting.userId,
+        updatedAt: new Date(),
+    });
+    // Exceptions are keyed by where the rule put each occurrence, so they
+    // stop lining up once the series itself moves
+    if (saved.startTime.getTime() !== meeting.startTime.getTime() || (saved.recurrence ?? null) !== (meeting.recurrence ?? null)) {
+        saved.exceptions = [];
+    }
+    Object.assign(meeting, saved);
+    syncMeetingItem(meeting);
+    saveDb();
+    return meeting;
+};
+
+export const insertMeeting = (userId: string, fields: Partial<Meeting>) => {
+    const timestamp = new Date();
+    const meeting = parseMeeting({
+        attendees: [],
+        ...fields,
+        id: newId('meeting'),
+        userId,
+        status: 'scheduled',
+        createdAt: timestamp,
+        updatedAt: timestamp,
+    });
+    getDb().meetings.push(meeting);
+    syncMeetingItem(meeting);
+    saveDb();
+    return meeting;
+};
+
+export const assertNotCancelled = (meeting: Meeting) => {
+    if (meeting.status === 'cancelled') throw new MockHttpError(409, 'Meeting has been cancelled');
+    return meeting;
+};
+
+export const meetingRoutes = [
+    route('get', '/meetings', (req) => {
+        const from = req.query.get('from');
+        const to = req.query.get('to');
+        const status = req.query.get('status');
+        return userMeetings(requireUser(req))
+            .filter(m => (!from && !to) || expandOccurrences(
+                m,
+                from ? new Date(from) : new Date(0),
+                to ? new Date(to) : new Date(8.64e15)
+            ).length > 0)
+            .filter(m => !status || m.status === status);
+    }),
+    route('get', '/meetings/:id', (req) => findMeeting(requireUser(req), req.params.id)),
+    route('put', '/meetings/:id', (req) => {
+        const meeting = assertNotCancelled(findMeeting(requireUser(req), req.params.id));
+        // Status only moves through /cancel and /reschedule
+        const { status, ...updates } = req.body as Partial<Meeting>;
+        return saveMeeting(meeting, updates);
+    }),
+    route('post', '/meetings/:id/cancel', (req) => {
+        const meeting = findMeeting(requireUser(req), req.params.id);
+        return saveMeeting(meeting, { status: 'cancelled' });
+    }),
+    route('post', '/meetings/:id/reschedule', (req) => {
+        const meeting = assertNotCancelled(findMeeting(requireUser(req), req.params.id));
+        const startTime = text(req.body.startTime);
+        const endTime = text(req.body.endTime);
+        if (!startTime || !endTime) throw new MockHttpError(400, 'startTime and endTime are required');
+        return saveMeeting(meeting, { startTime: new Date(startTime), endTime: new Date(endTime), status: 'scheduled' });
+    }),
+    route('post', '/meetings/:id/exceptions', (req) => {
+        const meeting = assertNotCancelled(findMeeting(requireUser(req), req.params.id));
+        if (!meeting.recurrence) throw new MockHttpError(400, 'Meeting does not repeat');
+
+        const exception = meetingExceptionSchema.parse(req.body);
+        const at = exception.originalStart.getTime();
+        const series = { ...meeting, exceptions: [] };
+        if (!expandOccurrences(series, exception.originalStart, new Date(at + 1)).some(o => o.originalStart.getTime() === at)) {
+            throw notFound('Occurrence');
+        }
+        if (!exception.cancelled && (!exception.startTime || !exception.endTime)) {
+            throw new MockHttpError(400, 'startTime and endTime are required unless the occurrence is cancelled');
+        }
+        if (!exception.cancelled && exception.endTime.getTime() <= exception.startTime.getTime()) {
+            throw new MockHttpError(400, 'Meeting must end after it starts');
+        }
+
+        const exceptions = (meeting.exceptions ?? []).filter(e => e.originalStart.getTime() !== at);
+        return saveMeeting(meeting, { exceptions: [...exceptions, exception] });
+    }),
+    route('post', '/meetings/:id/follow-up', (req) => {
+        const userId = requireUser(req);
+        const meeting = assertNotCancelled(findMeeting(userId, req.params.id));
+        const notes = text(req.body.notes)?.trim() ?? '';
+        const actionItems: string[] = Array.isArray(req.body.actionItems)
+            ? req.body.actionItems.map(String).map((title: string) => title.trim()).filter(Boolean)
+            : [];
+
+        const items = actionItems.map(title => insertItem(userId, {
+            type: 'task',
+            title,
+            source: 'Meeting',
+            preview: `Action item from "${meeting.title}"`,
+            priority: 'medium',
+            status: 'todo',
+            threadId: meeting.threadId,
+            assigneeId: userId,
+            metadata: { meetingId: meeting.id },
+        }));
+        return { meeting: saveMeeting(meeting, { notes: notes || meeting.notes, followedUpAt: new Date() }), items };
+    }),
+];
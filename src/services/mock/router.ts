@@ -0,0 +1,66 @@
+export type MockMethod = 'get' | 'post' | 'put' | 'patch' | 'delete';
+
+export interface MockRequest {
+    params: Record<string, string>;
+    query: URLSearchParams;
+    body: Record<string, unknown>; // The parsed JSON body, empty when there is none
+    // Resolved from the bearer token, null for anonymous calls
+    userId: string | null;
+    signal?: AbortSignal; // Aborted when the caller gives up, e.g. stops a stream
+}
+
+export type MockHandler = (req: MockRequest) => unknown;
+
+export interface MockRoute {
+    method: MockMethod;
+    pattern: RegExp;
+    keys: string[];
+    handler: MockHandler;
+}
+
+// Thrown from a handler to answer with an error status, mirroring the
+// { success: false, error } body the real API sends.
+export class MockHttpError extends Error {
+    readonly status: number;
+
+    constructor(status: number, message: string) {
+        super(message);
+        this.name = 'MockHttpError';
+        this.status = status;
+    }
+}
+
+export const notFound = (what: string) => new MockHttpError(404, `${what} not found`);
+
+// A body field that should be text, undefined when it is anything else
+export const text = (value: unknown) => (typeof value === 'string' ? value : undefined);
+
+// Express-style paths: '/threads/:id/read'
+export function route(method: MockMethod, path: string, handler: MockHandler): MockRoute {
+    const keys: string[] = [];
+    const source = path.replace(/:(\w+)/g, (_, key: string) => {
+        keys.push(key);
+        return '([^/]+)';
+    });
+    return { method, pattern: new RegExp(`^${source}/?$`), keys, handler };
+}
+
+export function matchRoute(routes: MockRoute[], method: string, path: string) {
+    for (const candidate of routes) {
+        if (candidate.method !== method) continue;
+        const match = candidate.pattern.exec(path);
+        if (!match) continue;
+
+        const params: Record<string, string> = {};
+        candidate.keys.forEach((key, i) => {
+            params[key] = decodeURIComponent(match[i + 1]);
+        });
+        return { handler: candidate.handler, params };
+    }
+    return null;
+}
+
+export function requireUser(req: MockRequest) {
+    if (!req.userId) throw new MockHttpError(401, 'Not authenticated');
+    return req.userId;
+}
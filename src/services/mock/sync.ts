@@ -0,0 +1,298 @@
+import { ConnectorId, IntegrationId, IntegrationStatus, SyncRun, SyncState, WorkItem } from '@/lib/types';
+import { fetchGraphChanges, GraphDeltaLinks, GraphError, graphRemovedIds, graphToWorkItems } from '@/lib/graph';
+import { CONNECTORS } from '@/lib/connectors';
+import { mockConnectorSnapshots, mockGoogleItems, mockGraphSnapshot } from '@/lib/mock-data';
+import { getDb, saveDb, newId } from './db';
+import { route, requireUser, notFound, text, MockHttpError, MockRequest } from './router';
+import { insertItem, removeItem, saveItem } from './items';
+import { importsThread, userRecord } from './integrations';
+
+const SYNC_INTERVAL_MS = 15 * 60 * 1000;
+const HISTORY_LIMIT = 20;
+
+const INTEGRATION_IDS: IntegrationId[] = ['google', 'microsoft', 'slack', 'linear', 'github'];
+
+interface Changes {
+    items: Partial<WorkItem>[];
+    removed?: string[]; // Service ids of items deleted or cancelled at the source
+    cursor: string;
+}
+
+// How an integration reads what changed since a cursor, or everything when
+// there is none. Items carry their service id under `idField`.
+interface SyncSource {
+    name: string;
+    idField: string;
+    fetchChanges: (state: SyncState, cursor?: string) => Promise<Changes>;
+}
+
+// Canned data never changes once it has been read, so an incremental run
+// finds nothing new, the way a delta query against an idle mailbox would
+const canned = (items: () => Partial<WorkItem>[]) => async (_: SyncState, cursor?: string): Promise<Changes> => ({
+    items: cursor ? [] : items(),
+    cursor: new Date().toISOString(),
+});
+
+// What connecting Microsoft leaves in `state.credential`. The real backend
+// redeems the auth code for a refresh token and trades that for an access
+// token at the start of each run; offline, the stub accepts any bearer token.
+const MS_REFRESH_PREFIX = 'ms-refresh:';
+
+const graphAccessToken = (state: SyncState) => {
+    if (!state.credential?.startsWith(MS_REFRESH_PREFIX)) {
+        throw new MockHttpError(401, 'Microsoft session expired, connect again');
+    }
+    return `mock-graph-${newId('token')}`;
+};
+
+// The cursor is the JSON of the delta links from the last run; anything
+// unreadable reads everything again
+const deltaLinks = (cursor?: string): GraphDeltaLinks | undefined => {
+    if (!cursor) return undefined;
+    try {
+        const links = JSON.parse(cursor);
+        return links && typeof links === 'object' && links.tasks ? links : undefined;
+    } catch {
+        return undefined;
+    }
+};
+
+// Set VITE_GRAPH_URL to a local Graph stub to run the real delta queries and
+// mapping; otherwise the sync reads a canned snapshot
+const microsoftChanges = async (state: SyncState, cursor?: string): Promise<Changes> => {
+    const graphUrl = import.meta.env.VITE_GRAPH_URL;
+    if (!graphUrl) return canned(() => graphToWorkItems(mockGraphSnapshot))(state, cursor);
+    const accessToken = graphAccessToken(state);
+    const read = (links?: GraphDeltaLinks) => fetchGraphChanges(accessToken, links, graphUrl);
+    try {
+        const links = deltaLinks(cursor);
+        // Graph expires delta links it has not seen used in a while
+        const changes = await read(links).catch(error => {
+            if (links && error instanceof GraphError && error.status === 410) return read();
+            throw error;
+        });
+        const imported = getDb().items.filter(i => i.userId === state.userId && i.metadata?.graphId !== undefined);
+        return {
+            items: graphToWorkItems(changes.snapshot),
+            removed: graphRemovedIds(changes, imported),
+            cursor: JSON.stringify(changes.links),
+        };
+    } catch (error) {
+        if (error instanceof GraphError && error.status === 401) {
+            throw new MockHttpError(401, 'Microsoft session expired, connect again');
+        }
+        throw new MockHttpError(502, error instanceof Error ? error.message : 'Microsoft Graph is unreachable');
+    }
+};
+
+const SOURCES: Record<IntegrationId, SyncSource> = {
+    google: { name: 'Google', idField: 'googleId', fetchChanges: canned(() => mockGoogleItems) },
+    microsoft: { name: 'Microsoft 365', idField: 'graphId', fetchChanges: microsoftChanges },
+    slack: {
+        name: CONNECTORS.slack.name,
+        idField: CONNECTORS.slack.idField,
+        fetchChanges: canned(() => CONNECTORS.slack.toWorkItems(mockConnectorSnapshots.slack)),
+    },
+    linear: {
+        name: CONNECTORS.linear.name,
+        idField: CONNECTORS.linear.idField,
+        fetchChanges: canned(() => CONNECTORS.linear.toWorkItems(mockConnectorSnapshots.linear)),
+    },
+    github: {
+        name: CONNECTORS.github.name,
+        idField: CONNECTORS.github.idField,
+        fetchChanges: canned(() => CONNECTORS.github.toWorkItems(mockConnectorSnapshots.github)),
+    },
+};
+
+const integrationId = (req: MockRequest) => {
+    const id = req.params.id as IntegrationId;
+    if (!INTEGRATION_IDS.includes(id)) throw notFound('Integration');
+    return id;
+};
+
+const syncState = (userId: string, integration: IntegrationId) => {
+    const db = getDb();
+    let state = db.syncStates.find(s => s.userId === userId && s.integration === integration);
+    if (!state) {
+        state = { userId, integration, history: [] };
+        db.syncStates.push(state);
+    }
+    return state;
+};
+
+const connectionOf = (userId: string, id: IntegrationId) =>
+    userRecord(userId).integrations?.[id] ?? { connected: false };
+
+// The next run is due an interval after the last one, failed or not, so a
+// broken connection is retried on the schedule rather than on every request
+const nextSyncAt = (state: SyncState) =>
+    new Date((state.history[0]?.finishedAt ?? new Date(0)).getTime() + SYNC_INTERVAL_MS);
+
+const integrationStatus = (userId: string, id: IntegrationId): IntegrationStatus => {
+    const connection = connectionOf(userId, id);
+    const state = syncState(userId, id);
+    const { idField } = SOURCES[id];
+    return {
+        ...connection,
+        id,
+        itemCount: getDb().items.filter(i => i.userId === userId && i.metadata?.[idField] !== undefined).length,
+        nextSyncAt: connection.connected ? nextSyncAt(state) : undefined,
+        history: state.history,
+    };
+};
+
+// New items go to the imports thread; ones seen before, matched on their
+// service id, are updated wherever they have been moved to. Ones the source
+// deleted or cancelled are taken away, as a cancelled meeting's item is.
+const applyChanges = (userId: string, { items: fields, removed = [] }: Changes, idField: string) => {
+    const existing = getDb().items.filter(i => i.userId === userId && i.metadata?.[idField] !== undefined);
+    let imported = 0;
+    for (const item of fields) {
+        const match = existing.find(i => i.metadata[idField] === item.metadata[idField]);
+        if (match) {
+            // Whether it was read is up to the user once it is in Monocle
+            const { isRead: _isRead, ...updates } = item;
+            saveItem(match, updates);
+        } else {
+            insertItem(userId, { ...item, threadId: importsThread(userId).id });
+            imported++;
+        }
+    }
+    const gone = existing.filter(i => removed.includes(i.metadata[idField]));
+    gone.forEach(removeItem);
+    return { imported, updated: fields.length - imported, removed: gone.length };
+};
+
+// Failures are recorded in the history rather than thrown, so scheduled runs
+// can report them too
+const runSync = async (userId: string, id: IntegrationId, trigger: SyncRun['trigger'], full: boolean) => {
+    const state = syncState(userId, id);
+    const source = SOURCES[id];
+    const startedAt = new Date();
+    const run: SyncRun = { id: newId('sync'), trigger, full, startedAt, finishedAt: startedAt, imported: 0, updated: 0, removed: 0 };
+    let failure: MockHttpError | undefined;
+
+    try {
+        const changes = await source.fetchChanges(state, full ? undefined : state.cursor);
+        Object.assign(run, applyChanges(userId, changes, source.idField));
+        state.cursor = changes.cursor;
+        const user = userRecord(userId);
+        user.integrations = { ...user.integrations, [id]: { ...connectionOf(userId, id), lastSyncedAt: new Date() } };
+    } catch (error) {
+        failure = error instanceof MockHttpError
+            ? error
+            : new MockHttpError(502, error instanceof Error ? error.message : `${source.name} sync failed`);
+        run.error = failure.message;
+    }
+
+    run.finishedAt = new Date();
+    state.history = [run, ...state.history].slice(0, HISTORY_LIMIT);
+    saveDb();
+    return { run, failure };
+};
+
+const syncResult = (userId: string, id: IntegrationId, run: SyncRun) => ({
+    imported: run.imported,
+    updated: run.updated,
+    removed: run.removed,
+    status: integrationStatus(userId, id),
+});
+
+const connectWithToken = ({ body }: MockRequest, state: SyncState, id: ConnectorId) => {
+    const connector = CONNECTORS[id];
+    const token = text(body.token)?.trim() ?? '';
+    if (!connector.tokenPattern.test(token)) throw new MockHttpError(401, `${connector.name} did not accept that token`);
+    state.credential = token;
+    return mockConnectorSnapshots[id].account;
+};
+
+// Checks what each integration accepts to connect and returns the account it
+// belongs to. Offline, any credential of the right shape is accepted.
+const CONNECT: Record<IntegrationId, (req: MockRequest, state: SyncState) => string> = {
+    // The auth code is exchanged for a refresh token the scheduled runs use
+    google: ({ body, userId }) => {
+        if (!text(body.code)) throw new MockHttpError(400, 'code is required');
+        return userRecord(userId).email;
+    },
+    // The same for Microsoft, whose code the browser gets through msal.ts
+    microsoft: ({ body, userId }, state) => {
+        const code = text(body.code);
+        if (!code) throw new MockHttpError(400, 'code is required');
+        state.credential = `${MS_REFRESH_PREFIX}${code}`;
+        return userRecord(userId).email;
+    },
+    slack: (req, state) => connectWithToken(req, state, 'slack'),
+    linear: (req, state) => connectWithToken(req, state, 'linear'),
+    github: (req, state) => connectWithToken(req, state, 'github'),
+};
+
+let scheduling: Promise<void> | null = null;
+
+// Stands in for the backend's sync worker: before each request, runs
+// whatever is due for the user making it. Requests arriving meanwhile wait
+// for the same pass instead of starting their own.
+export function runScheduledSyncs(userId: string) {
+    scheduling ??= (async () => {
+        const user = getDb().users.find(u => u.id === userId);
+        if (!user) return;
+        const now = Date.now();
+        for (const id of INTEGRATION_IDS) {
+            if (user.integrations?.[id]?.connected && nextSyncAt(syncState(userId, id)).getTime() <= now) {
+                await runSync(userId, id, 'scheduled', false);
+            }
+        }
+    })().finally(() => {
+        scheduling = null;
+    });
+    return scheduling;
+}
+
+export const syncRoutes = [
+    route('get', '/integrations', (req) => {
+        const userId = requireUser(req);
+        return INTEGRATION_IDS.map(id => integrationStatus(userId, id));
+    }),
+    // Connecting starts over: a fresh cursor and a full first run
+    route('post', '/integrations/:id/connect', async (req) => {
+        const userId = requireUser(req);
+        const id = integrationId(req);
+        const state = syncState(userId, id);
+        const account = CONNECT[id](req, state);
+        const user = userRecord(userId);
+        user.integrations = { ...user.integrations, [id]: { connected: true, account } };
+        state.cursor = undefined;
+
+        const { run, failure } = await runSync(userId, id, 'connect', true);
+        if (failure) {
+            // Not connected after all, but the failed run stays in the history
+            user.integrations = { ...user.integrations, [id]: { connected: false } };
+            state.credential = undefined;
+            saveDb();
+            throw failure;
+        }
+        return syncResult(userId, id, run);
+    }),
+    // { full: true } resyncs from scratch, bringing back anything deleted here
+    route('post', '/integrations/:id/sync', async (req) => {
+        const userId = requireUser(req);
+        const id = integrationId(req);
+        if (!connectionOf(userId, id).connected) throw new MockHttpError(409, `${SOURCES[id].name} is not connected`);
+
+        const { run, failure } = await runSync(userId, id, 'manual', req.body.full === true);
+        if (failure) throw failure;
+        return syncResult(userId, id, run);
+    }),
+    // Imported items and the run history stay; the connection and cursor go
+    route('delete', '/integrations/:id', (req) => {
+        const userId = requireUser(req);
+        const id = integrationId(req);
+        const user = userRecord(userId);
+        user.integrations = { ...user.integrations, [id]: { connected: false } };
+        const state = syncState(userId, id);
+        state.cursor = undefined;
+        state.credential = undefined;
+        saveDb();
+        return integrationStatus(userId, id);
+    }),
+];
@@ -0,0 +1,121 @@
+import { Team, TeamMember, MemberAvailability } from '@/lib/types';
+import { toCalendarEntries } from '@/lib/calendar';
+import { getDb, saveDb, newId } from './db';
+import { route, requireUser, notFound, text, MockHttpError } from './router';
+
+export const findTeam = (id: string) => {
+    const team = getDb().teams.find(t => t.id === id);
+    if (!team) throw notFound('Team');
+    return team;
+};
+
+const addMember = (team: Team, userId: string, role: 'admin' | 'member') => {
+    if (team.members.some(m => m.userId === userId)) return;
+    const user = getDb().users.find(u => u.id === userId);
+    team.members.push({ userId, role, joinedAt: new Date(), name: user?.name, email: user?.email });
+};
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// A member is busy for their own meetings, meetings they were invited to and
+// the calendar events synced from their accounts
+const availabilityOf = (member: TeamMember, from: Date, to: Date): MemberAvailability => {
+    const db = getDb();
+    const user = db.users.find(u => u.id === member.userId);
+    const email = member.email ?? user?.email;
+    const meetings = db.meetings.filter(m =>
+        m.status === 'scheduled' && (m.userId === member.userId || (!!email && m.attendees.includes(email)))
+    );
+    const items = db.items.filter(i => i.userId === member.userId);
+    return {
+        userId: member.userId,
+        name: member.name ?? user?.name,
+        email,
+        timezone: user?.preferences?.timezone,
+        workHoursStart: user?.preferences?.workHoursStart ?? 9,
+        workHoursEnd: user?.preferences?.workHoursEnd ?? 17,
+        busy: toCalendarEntries(meetings, items, { from, to })
+            .filter(entry => entry.start < to && entry.end > from)
+            .map(({ start, end }) => ({ start, end })),
+    };
+};
+
+export const teamRoutes = [
+    route('get', '/teams', (req) => {
+        const userId = requireUser(req);
+        return getDb().teams.filter(t => t.members.some(m => m.userId === userId));
+    }),
+    route('post', '/teams', (req) => {
+        const userId = requireUser(req);
+        const name = text(req.body.name);
+        if (!name) throw new MockHttpError(400, 'Team name is required');
+        const team: Team = {
+            id: newId('team'),
+            name,
+            description: text(req.body.description),
+            ownerId: userId,
+            members: [],
+            createdAt: new Date(),
+        };
+        addMember(team, userId, 'admin');
+        getDb().teams.push(team);
+        saveDb();
+        return team;
+    }),
+    route('post', '/teams/join', (req) => {
+        const userId = requireUser(req);
+        // Invitation ids double as invite tokens in the mock
+        const invitation = getDb().invitations.find(i => i.id === text(req.body.token));
+        if (!invitation || invitation.status !== 'pending') {
+            throw new MockHttpError(400, 'Invitation is invalid or has expired');
+        }
+        const team = findTeam(invitation.teamId);
+        addMember(team, userId, 'member');
+        invitation.status = 'accepted';
+        saveDb();
+        return team;
+    }),
+    route('get', '/teams/:id', ({ params }) => findTeam(params.id)),
+    route('get', '/teams/:id/availability', (req) => {
+        const userId = requireUser(req);
+        const team = findTeam(req.params.id);
+        if (!team.members.some(m => m.userId === userId)) throw new MockHttpError(403, 'Not a member of this team');
+        const from = new Date(req.query.get('from') ?? Date.now());
+        const to = new Date(req.query.get('to') ?? from.getTime() + 7 * DAY);
+        return team.members.map(member => availabilityOf(member, from, to));
+    }),
+    route('post', '/teams/:id/invite', (req) => {
+        const team = findTeam(req.params.id);
+        const email = text(req.body.email);
+        if (!email) throw new MockHttpError(400, 'Email is required');
+        const id = newId('invite');
+        getDb().invitations.push({
+            id,
+            teamId: team.id,
+            inviterId: requireUser(req),
+            email,
+            status: 'pending',
+            createdAt: new Date(),
+        });
+        saveDb();
+        return { id, token: id, link: `${window.location.origin}/teams/join?token=${id}` };
+    }),
+    route('get', '/teams/:id/invitations', ({ params }) =>
+        getDb().invitations.filter(i => i.teamId === params.id)
+    ),
+    route('delete', '/teams/:id/members/:memberId', ({ params }) => {
+        const team = findTeam(params.id);
+        if (params.memberId === team.ownerId) throw new MockHttpError(400, 'The owner cannot be removed');
+        team.members = team.members.filter(m => m.userId !== params.memberId);
+        saveDb();
+        return team;
+    }),
+    route('patch', '/teams/:id/members/:memberId/role', ({ params, body }) => {
+        const team = findTeam(params.id);
+        const member = team.members.find(m => m.userId === params.memberId);
+        if (!member) throw notFound('Member');
+        member.role = body.role === 'admin' ? 'admin' : 'member';
+        saveDb();
+        return team;
+    }),
+];
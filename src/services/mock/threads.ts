@@ -0,0 +1,131 @@
+import { WorkThread } from '@/lib/types';
+import { workThreadSchema } from '@/lib/schemas';
+import { getDb, saveDb, newId } from './db';
+import { route, requireUser, notFound, text, MockHttpError } from './router';
+import { byPriority, paginate } from './listing';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Soft-deleted threads are invisible everywhere except to /restore
+export const liveThreads = () => getDb().threads.filter(t => !t.deletedAt);
+
+export const findThread = (id: string) => {
+    const thread = liveThreads().find(t => t.id === id);
+    if (!thread) throw notFound('Thread');
+    return thread;
+};
+
+const byLastActivity = (a: WorkThread, b: WorkThread) =>
+    b.lastActivity.getTime() - a.lastActivity.getTime();
+
+// Archived threads only show up in the archive listing
+const userThreads = (userId: string) =>
+    liveThreads().filter(t => t.userId === userId && !t.isArchived).sort(byLastActivity);
+
+// Threads without a deadline go last
+const byDeadline = (a: WorkThread, b: WorkThread) =>
+    (a.deadline?.getTime() ?? Infinity) - (b.deadline?.getTime() ?? Infinity);
+
+const threadSorts: Record<string, (a: WorkThread, b: WorkThread) => number> = {
+    lastActivity: byLastActivity,
+    deadline: (a, b) => byDeadline(a, b) || byLastActivity(a, b),
+    priority: (a, b) => byPriority(a, b) || byLastActivity(a, b),
+    progress: (a, b) => a.progress - b.progress || byLastActivity(a, b),
+};
+
+const union = (a: string[] = [], b: string[] = []) => Array.from(new Set([...a, ...b]));
+
+// Request bodies carry dates as strings; the schema turns them back into Dates
+// and rejects anything the real API would not store.
+export const saveThread = (thread: WorkThread, updates: Partial<WorkThread>) => {
+    Object.assign(thread, workThreadSchema.parse({ ...thread, ...updates }));
+    saveDb();
+    return thread;
+};
+
+export const threadRoutes = [
+    route('get', '/threads/user/:userId', ({ params }) => userThreads(params.userId)),
+    route('get', '/threads/user/:userId/active', ({ params }) =>
+        userThreads(params.userId).filter(t => t.progress < 100)
+    ),
+    route('get', '/threads/user/:userId/upcoming-deadlines', ({ params }) => {
+        const horizon = Date.now() + 7 * DAY;
+        return userThreads(params.userId)
+            .filter(t => t.deadline && t.progress < 100 && t.deadline.getTime() <= horizon)
+            .sort((a, b) => a.deadline.getTime() - b.deadline.getTime());
+    }),
+    route('get', '/threads/user/:userId/paged', ({ params, query }) => {
+        const priority = query.get('priority');
+        const tag = query.get('tag');
+        const teamId = query.get('teamId');
+        const threads = userThreads(params.userId)
+            .filter(t => !priority || t.priority === priority)
+            .filter(t => !tag || t.tags?.includes(tag))
+            .filter(t => !teamId || t.teamId === teamId)
+            .sort(threadSorts[query.get('sort')] ?? byLastActivity);
+        return paginate(threads, query);
+    }),
+    route('get', '/threads/user/:userId/archived', ({ params }) =>
+        liveThreads().filter(t => t.userId === params.userId && t.isArchived).sort(byLastActivity)
+    ),
+    route('get', '/threads/team/:teamId', ({ params }) =>
+        liveThreads().filter(t => t.teamId === params.teamId).sort(byLastActivity)
+    ),
+    route('post', '/threads', (req) => {
+        const userId = requireUser(req);
+        const timestamp = new Date();
+        const thread = workThreadSchema.parse({
+            priority: 'medium',
+            progress: 0,
+            itemIds: [],
+            tags: [],
+            relatedPeople: [],
+            ...req.body,
+            id: newId('thread'),
+            userId: text(req.body.userId) || userId,
+            lastActivity: timestamp,
+            createdAt: timestamp,
+            updatedAt: timestamp,
+        });
+        getDb().threads.push(thread);
+        saveDb();
+        return thread;
+    }),
+    route('get', '/threads/:id', ({ params }) => findThread(params.id)),
+    route('put', '/threads/:id', ({ params, body }) => {
+        const timestamp = new Date();
+        return saveThread(findThread(params.id), { ...body, lastActivity: timestamp, updatedAt: timestamp });
+    }),
+    route('delete', '/threads/:id', ({ params }) => {
+        const thread = findThread(params.id);
+        thread.deletedAt = new Date();
+        saveDb();
+        return { id: thread.id };
+    }),
+    route('post', '/threads/:id/restore', ({ params }) => {
+        const thread = getDb().threads.find(t => t.id === params.id);
+        if (!thread) throw notFound('Thread');
+        return saveThread(thread, { deletedAt: undefined });
+    }),
+    route('post', '/threads/:id/merge', ({ params, body }) => {
+        const db = getDb();
+        const target = findThread(params.id);
+        const source = findThread(text(body.sourceThreadId) ?? '');
+        if (source.id === target.id) throw new MockHttpError(400, 'Cannot merge a thread into itself');
+
+        for (const item of db.items) {
+            if (item.threadId === source.id) item.threadId = target.id;
+        }
+        db.threads = db.threads.filter(t => t.id !== source.id);
+
+        const timestamp = new Date();
+        return saveThread(target, {
+            itemIds: union(target.itemIds, source.itemIds),
+            relatedPeople: union(target.relatedPeople, source.relatedPeople),
+            tags: union(target.tags, source.tags),
+            deadline: [target.deadline, source.deadline].filter(Boolean).sort((a, b) => a.getTime() - b.getTime())[0],
+            lastActivity: timestamp,
+            updatedAt: timestamp,
+        });
+    }),
+];
@@ -0,0 +1,95 @@
+import { User } from '@/lib/types';
+import { getDb, saveDb, newId } from './db';
+import { route, MockHttpError, notFound, text } from './router';
+
+// The mock backend trusts whatever token it handed out, so the token is just
+// the user id with a recognisable prefix.
+const TOKEN_PREFIX = 'mock.';
+const REFRESH_PREFIX = 'mock-refresh.';
+
+export const issueToken = (user: User) => `${TOKEN_PREFIX}${user.id}`;
+
+const session = (user: User) => ({ user, token: issueToken(user), refreshToken: `${REFRESH_PREFIX}${user.id}` });
+
+export const userIdFromToken = (authorization?: string) => {
+    const token = authorization?.replace(/^Bearer\s+/i, '');
+    return token?.startsWith(TOKEN_PREFIX) ? token.slice(TOKEN_PREFIX.length) : null;
+};
+
+const findUser = (id: string) => {
+    const user = getDb().users.find(u => u.id === id);
+    if (!user) throw notFound('User');
+    return user;
+};
+
+const findByEmail = (email: string) =>
+    getDb().users.find(u => u.email.toLowerCase() === String(email).toLowerCase());
+
+const createUser = (name: string, email: string): User => {
+    const user: User = {
+        id: newId('user'),
+        name,
+        email,
+        createdAt: new Date(),
+        integrations: {
+            google: { connected: false },
+            microsoft: { connected: false },
+            notion: { connected: false },
+        },
+    };
+    getDb().users.push(user);
+    saveDb();
+    return user;
+};
+
+// Social logins cannot reach the real identity providers offline, so they
+// sign in as the seeded demo user.
+const demoSession = () => {
+    return session(getDb().users[0]);
+};
+
+export const userRoutes = [
+    route('post', '/users/login', ({ body }) => {
+        const user = findByEmail(text(body.email) ?? '');
+        if (!user) throw new MockHttpError(401, 'Invalid email or password');
+        user.lastLogin = new Date();
+        saveDb();
+        return session(user);
+    }),
+    route('post', '/users/refresh-token', ({ body }) => {
+        const refreshToken = text(body.refreshToken) ?? '';
+        const user = refreshToken.startsWith(REFRESH_PREFIX)
+            && getDb().users.find(u => u.id === refreshToken.slice(REFRESH_PREFIX.length));
+        if (!user) throw new MockHttpError(401, 'Invalid refresh token');
+        return { token: issueToken(user), refreshToken };
+    }),
+    route('post', '/users/register', ({ body }) => {
+        const email = text(body.email);
+        const name = text(body.name);
+        if (!email || !name) throw new MockHttpError(400, 'Name and email are required');
+        if (findByEmail(email)) throw new MockHttpError(409, 'An account with that email already exists');
+        return createUser(name, email);
+    }),
+    // The sign-in code carries the Gmail and Calendar scopes too, so the
+    // backend keeps Google connected and syncing from here on
+    route('post', '/users/google-login', () => {
+        const user = getDb().users[0];
+        if (!user.integrations?.google?.connected) {
+            user.integrations = { ...user.integrations, google: { connected: true, account: user.email } };
+            saveDb();
+        }
+        return session(user);
+    }),
+    route('post', '/users/microsoft-login', demoSession),
+    route('post', '/users/forgot-password', () => ({ sent: true })),
+    route('post', '/users/reset-password', () => ({ reset: true })),
+    route('post', '/users/verify-email', () => ({ verified: true })),
+    route('post', '/users', ({ body }) => createUser(text(body.name) ?? '', text(body.email) ?? '')),
+    route('get', '/users/:id', ({ params }) => findUser(params.id)),
+    route('put', '/users/:id/preferences', ({ params, body }) => {
+        const user = findUser(params.id);
+        user.preferences = { ...user.preferences, ...body };
+        saveDb();
+        return user.preferences;
+    }),
+];
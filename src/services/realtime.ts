@@ -0,0 +1,128 @@
+import { API_URL } from './api';
+import { realtimeEventSchema } from '@/lib/schemas';
+import { RealtimeEvent, RealtimeStatus } from '@/lib/types';
+
+// ws(s)://host/api/realtime unless pointed somewhere else
+const REALTIME_URL = import.meta.env.VITE_REALTIME_URL || `${API_URL.replace(/^http/, 'ws')}/realtime`;
+
+const BASE_RETRY_MS = 1000;
+const MAX_RETRY_MS = 30000;
+// Close code the server uses when it turns the token down
+const UNAUTHORIZED_CLOSE = 4401;
+
+interface RealtimeHandlers {
+    onEvent: (event: RealtimeEvent) => void;
+    onStatus: (status: RealtimeStatus) => void;
+}
+
+// One WebSocket per signed-in session. Reconnects with jittered exponential
+// backoff and re-sends channel subscriptions after every reconnect. The
+// token is asked for on every connect, so a refresh in between is picked up.
+// `getToken` refreshes it when it has run out or `rejected` is set, and
+// answers null once the session is over.
+export class RealtimeConnection {
+    private socket: WebSocket | null = null;
+    private retryTimer: ReturnType<typeof setTimeout> | null = null;
+    private attempt = 0;
+    private closed = false;
+    private fetchingToken = false;
+    // Channel -> number of components subscribed to it
+    private channels = new Map<string, number>();
+
+    constructor(
+        private getToken: (rejected: boolean) => Promise<string | null>,
+        private handlers: RealtimeHandlers
+    ) {}
+
+    connect() {
+        this.closed = false;
+        window.addEventListener('online', this.reconnectNow);
+        this.open();
+    }
+
+    close() {
+        this.closed = true;
+        window.removeEventListener('online', this.reconnectNow);
+        if (this.retryTimer) clearTimeout(this.retryTimer);
+        this.socket?.close();
+        this.socket = null;
+    }
+
+    subscribe(channel: string) {
+        const count = this.channels.get(channel) ?? 0;
+        this.channels.set(channel, count + 1);
+        if (count === 0) this.send({ type: 'subscribe', channel });
+    }
+
+    unsubscribe(channel: string) {
+        const count = this.channels.get(channel) ?? 0;
+        if (count <= 1) {
+            this.channels.delete(channel);
+            this.send({ type: 'unsubscribe', channel });
+        } else {
+            this.channels.set(channel, count - 1);
+        }
+    }
+
+    private async open(rejected = false) {
+        this.handlers.onStatus(this.attempt === 0 ? 'connecting' : 'reconnecting');
+        this.fetchingToken = true;
+        const token = await this.getToken(rejected).finally(() => {
+            this.fetchingToken = false;
+        });
+        if (this.closed) return;
+        if (!token) {
+            this.handlers.onStatus('offline');
+            return;
+        }
+        // Browsers cannot set headers on a WebSocket handshake, so the token rides in the URL
+        const socket = new WebSocket(`${REALTIME_URL}?token=${encodeURIComponent(token)}`);
+        this.socket = socket;
+
+        socket.onopen = () => {
+            this.attempt = 0;
+            this.handlers.onStatus('open');
+            for (const channel of this.channels.keys()) {
+                this.send({ type: 'subscribe', channel });
+            }
+        };
+
+        socket.onmessage = (message) => {
+            let data: unknown;
+            try {
+                data = JSON.parse(message.data);
+            } catch {
+                return;
+            }
+            // Events this client doesn't know yet are dropped
+            const result = realtimeEventSchema.safeParse(data);
+            if (result.success) this.handlers.onEvent(result.data);
+        };
+
+        socket.onclose = (event) => {
+            if (this.socket !== socket || this.closed) return;
+            this.socket = null;
+            this.scheduleReconnect(event.code === UNAUTHORIZED_CLOSE);
+        };
+    }
+
+    private scheduleReconnect(rejected: boolean) {
+        const backoff = Math.min(MAX_RETRY_MS, BASE_RETRY_MS * 2 ** this.attempt);
+        this.attempt += 1;
+        this.handlers.onStatus(navigator.onLine ? 'reconnecting' : 'offline');
+        // Jitter so a server restart doesn't get every client back at the same instant
+        this.retryTimer = setTimeout(() => this.open(rejected), backoff / 2 + Math.random() * backoff / 2);
+    }
+
+    private reconnectNow = () => {
+        if (this.closed || this.socket || this.fetchingToken) return;
+        if (this.retryTimer) clearTimeout(this.retryTimer);
+        this.open();
+    };
+
+    private send(message: { type: 'subscribe' | 'unsubscribe'; channel: string }) {
+        if (this.socket?.readyState === WebSocket.OPEN) {
+            this.socket.send(JSON.stringify(message));
+        }
+    }
+}
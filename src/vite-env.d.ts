@@ -1 +1,14 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_API_URL?: string;
+  readonly VITE_USE_MOCK_API?: string;
+  readonly VITE_REALTIME_URL?: string;
+  readonly VITE_GOOGLE_CLIENT_ID?: string;
+  readonly VITE_MICROSOFT_CLIENT_ID?: string;
+  readonly VITE_MICROSOFT_REDIRECT_URI?: string;
+  // Public OAuth integration; without it Notion connects with a secret only
+  readonly VITE_NOTION_CLIENT_ID?: string;
+  // Mock mode only: fetch Microsoft 365 sync data from this Graph stub
+  readonly VITE_GRAPH_URL?: string;
+}